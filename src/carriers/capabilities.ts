@@ -0,0 +1,143 @@
+/**
+ * Checks a rate request against a carrier's declared capabilities, so that
+ * carriers that would reject it, or quietly ignore part of it, are not asked.
+ */
+
+import type {
+  DimensionUnit,
+  Package,
+  PackageWeight,
+  RateRequest,
+  WeightUnit,
+} from "../domain/models.js";
+import type { CarrierCapabilities } from "./types.js";
+
+const KG_PER_UNIT: Record<WeightUnit, number> = {
+  KG: 1,
+  LB: 0.453592,
+  OZ: 0.0283495,
+};
+
+const CM_PER_UNIT: Record<DimensionUnit, number> = {
+  CM: 1,
+  IN: 2.54,
+};
+
+/** Absorbs rounding when a limit and a package use different units. */
+const TOLERANCE = 1e-6;
+
+function toKg(weight: PackageWeight): number {
+  return weight.value * KG_PER_UNIT[weight.unit];
+}
+
+function formatWeight(weight: PackageWeight): string {
+  return `${weight.value} ${weight.unit}`;
+}
+
+function exceeds(value: number, limit: number): boolean {
+  return value > limit * (1 + TOLERANCE);
+}
+
+/** Options left unset or switched off ask nothing of the carrier. */
+function requestsOptions(options: object | undefined): boolean {
+  return Object.values(options ?? {}).some(
+    (value) => value !== undefined && value !== false,
+  );
+}
+
+function packageMismatch(
+  capabilities: CarrierCapabilities,
+  pkg: Package,
+): string | undefined {
+  const packagingType = pkg.packagingType ?? "CUSTOM";
+  if (!capabilities.packagingTypes.includes(packagingType)) {
+    return `does not offer ${packagingType} packaging`;
+  }
+
+  if (pkg.dangerousGoods && !capabilities.acceptsDangerousGoods) {
+    return "does not accept dangerous goods";
+  }
+
+  if (
+    requestsOptions(pkg.serviceOptions) &&
+    !capabilities.acceptsServiceOptions
+  ) {
+    return "does not price package service options";
+  }
+
+  const { maxWeight, maxDimensions } = capabilities;
+  if (exceeds(toKg(pkg.weight), toKg(maxWeight))) {
+    return `accepts packages up to ${formatWeight(maxWeight)}`;
+  }
+
+  if (!pkg.dimensions) return undefined;
+
+  // Compare in the limit's own unit so the message reads naturally
+  const factor =
+    CM_PER_UNIT[pkg.dimensions.unit] / CM_PER_UNIT[maxDimensions.unit];
+  const [length, width, height] = [
+    pkg.dimensions.length,
+    pkg.dimensions.width,
+    pkg.dimensions.height,
+  ]
+    .map((side) => side * factor)
+    .sort((a, b) => b - a);
+
+  if (
+    maxDimensions.length !== undefined &&
+    exceeds(length, maxDimensions.length)
+  ) {
+    return `accepts packages up to ${maxDimensions.length} ${maxDimensions.unit} long`;
+  }
+  if (
+    maxDimensions.lengthPlusGirth !== undefined &&
+    exceeds(length + 2 * (width + height), maxDimensions.lengthPlusGirth)
+  ) {
+    return `accepts packages up to ${maxDimensions.lengthPlusGirth} ${maxDimensions.unit} in length plus girth`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Why a carrier cannot serve a rate request, or `undefined` when the request
+ * is within its capabilities. The reason completes a sentence starting with
+ * the carrier's name, e.g. "USPS does not ship from CA".
+ */
+export function capabilityMismatch(
+  capabilities: CarrierCapabilities,
+  request: RateRequest,
+): string | undefined {
+  const origin = request.origin.countryCode;
+  if (
+    capabilities.originCountries &&
+    !capabilities.originCountries.includes(origin)
+  ) {
+    return `does not ship from ${origin}`;
+  }
+
+  if (
+    request.serviceCode &&
+    !capabilities.services.some((s) => s.code === request.serviceCode)
+  ) {
+    return `does not offer service ${request.serviceCode}`;
+  }
+
+  if (
+    requestsOptions(request.serviceOptions) &&
+    !capabilities.acceptsServiceOptions
+  ) {
+    return "does not price shipment service options";
+  }
+
+  if (request.holdAtLocation && !capabilities.acceptsHoldAtLocation) {
+    return "does not hold packages at a location";
+  }
+
+  for (const pkg of request.packages) {
+    const mismatch = packageMismatch(capabilities, pkg);
+    if (mismatch) return mismatch;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,167 @@
+import { CarrierError, CarrierErrorCode } from "../domain/errors.js";
+
+export type CircuitState = "CLOSED" | "OPEN" | "HALF_OPEN";
+
+export interface CircuitBreakerOptions {
+  /** Share of recent calls (0–1) that must fail to open the circuit. */
+  failureRateThreshold: number;
+  /** Calls needed in the window before the failure rate is trusted. */
+  minimumCalls: number;
+  /** How far back calls count toward the failure rate. */
+  windowMs: number;
+  /** How long the circuit stays open before a trial call is let through. */
+  cooldownMs: number;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureRateThreshold: 0.5,
+  minimumCalls: 5,
+  windowMs: 60_000,
+  cooldownMs: 30_000,
+};
+
+/** A breaker's state as reported to health checks. */
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  /** Calls counted in the current window. */
+  calls: number;
+  /** Share of those calls that failed, from 0 to 1. */
+  failureRate: number;
+  /** When the circuit last opened (ISO 8601), while it is not closed. */
+  openedAt?: string;
+  /** When an open circuit lets its trial call through (ISO 8601). */
+  retryAt?: string;
+}
+
+/** Failures that say the carrier is unhealthy, not that the request was bad. */
+const CARRIER_FAILURE_CODES = new Set<CarrierErrorCode>([
+  CarrierErrorCode.NETWORK_ERROR,
+  CarrierErrorCode.TIMEOUT_ERROR,
+  CarrierErrorCode.PARSE_ERROR,
+]);
+
+function isCarrierFailure(error: unknown): boolean {
+  if (!(error instanceof CarrierError)) return false;
+  if (CARRIER_FAILURE_CODES.has(error.code)) return true;
+  return (
+    error.code === CarrierErrorCode.CARRIER_API_ERROR &&
+    (error.details.httpStatus ?? 0) >= 500
+  );
+}
+
+interface Outcome {
+  at: number;
+  failed: boolean;
+}
+
+/**
+ * Stops calling a carrier that keeps failing. While closed, it tracks the
+ * failure rate of calls made within `windowMs`; past the threshold it opens,
+ * and every call fails at once with `CIRCUIT_OPEN` until `cooldownMs` has
+ * passed. The circuit is then half-open: one trial call goes through, and
+ * its outcome closes the circuit or opens it for another cooldown.
+ *
+ * Only outages count as failures — network errors, timeouts, unreadable
+ * responses and 5xx replies. A rejected request, or one its caller
+ * cancelled, says nothing about the carrier's health.
+ */
+export class CircuitBreaker {
+  private outcomes: Outcome[] = [];
+  private openedAt?: number;
+  private trialInFlight = false;
+
+  constructor(
+    private carrier: string,
+    private options: CircuitBreakerOptions = DEFAULT_CIRCUIT_BREAKER_OPTIONS,
+  ) {}
+
+  get state(): CircuitState {
+    if (this.openedAt === undefined) return "CLOSED";
+    return Date.now() - this.openedAt >= this.options.cooldownMs
+      ? "HALF_OPEN"
+      : "OPEN";
+  }
+
+  /**
+   * False while the circuit is open, and while it is half-open with its one
+   * trial call already in flight: a call now would fail with `CIRCUIT_OPEN`.
+   */
+  get acceptingCalls(): boolean {
+    const state = this.state;
+    return state === "CLOSED" || (state === "HALF_OPEN" && !this.trialInFlight);
+  }
+
+  status(): CircuitBreakerStatus {
+    const outcomes = this.recentOutcomes();
+    const failures = outcomes.filter((o) => o.failed).length;
+    const status: CircuitBreakerStatus = {
+      state: this.state,
+      calls: outcomes.length,
+      failureRate: outcomes.length ? failures / outcomes.length : 0,
+    };
+    if (this.openedAt !== undefined) {
+      status.openedAt = new Date(this.openedAt).toISOString();
+      status.retryAt = new Date(
+        this.openedAt + this.options.cooldownMs,
+      ).toISOString();
+    }
+    return status;
+  }
+
+  async execute<T>(call: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!this.acceptingCalls) throw this.openError();
+
+    const trial = this.state === "HALF_OPEN";
+    this.trialInFlight = trial;
+    try {
+      const result = await call();
+      this.record(false, trial);
+      return result;
+    } catch (error) {
+      if (!signal?.aborted) this.record(isCarrierFailure(error), trial);
+      throw error;
+    } finally {
+      if (trial) this.trialInFlight = false;
+    }
+  }
+
+  private record(failed: boolean, trial: boolean): void {
+    if (trial) {
+      // The trial alone decides: reopen for another cooldown or start afresh
+      this.outcomes = [];
+      this.openedAt = failed ? Date.now() : undefined;
+      return;
+    }
+
+    this.outcomes = this.recentOutcomes();
+    this.outcomes.push({ at: Date.now(), failed });
+
+    const failures = this.outcomes.filter((o) => o.failed).length;
+    if (
+      this.openedAt === undefined &&
+      this.outcomes.length >= this.options.minimumCalls &&
+      failures / this.outcomes.length >= this.options.failureRateThreshold
+    ) {
+      this.openedAt = Date.now();
+    }
+  }
+
+  private recentOutcomes(): Outcome[] {
+    const since = Date.now() - this.options.windowMs;
+    return this.outcomes.filter((o) => o.at > since);
+  }
+
+  private openError(): CarrierError {
+    const retryAfterMs = Math.max(
+      0,
+      (this.openedAt ?? 0) + this.options.cooldownMs - Date.now(),
+    );
+    return new CarrierError(
+      CarrierErrorCode.CIRCUIT_OPEN,
+      retryAfterMs > 0
+        ? `Carrier "${this.carrier}" is failing; calls resume in ${Math.ceil(retryAfterMs / 1000)}s`
+        : `Carrier "${this.carrier}" is failing; a trial call is in flight`,
+      { carrier: this.carrier, retryable: true, retryAfterMs },
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import type { DhlConfig } from "../../config/index.js";
+import type { CarrierAuthenticator } from "../types.js";
+
+/**
+ * DHL Express authenticates every call with HTTP Basic credentials, so there
+ * is no token to fetch or cache. The "access token" is the encoded
+ * `key:secret` pair, sent as `Authorization: Basic <token>`.
+ */
+export class DhlAuthenticator implements CarrierAuthenticator {
+  private readonly credentials: string;
+
+  constructor(config: DhlConfig) {
+    this.credentials = Buffer.from(
+      `${config.apiKey}:${config.apiSecret}`,
+    ).toString("base64");
+  }
+
+  async getAccessToken(): Promise<string> {
+    return this.credentials;
+  }
+
+  invalidateToken(): void {
+    // Static credentials — nothing to invalidate.
+  }
+}
@@ -0,0 +1,40 @@
+import type { DhlConfig } from "../../config/index.js";
+import type { RateRequest, RateResponse } from "../../domain/models.js";
+import { RateRequestSchema } from "../../validation/schemas.js";
+import type {
+  CarrierClient,
+  CarrierOperations,
+  OperationContext,
+} from "../types.js";
+import { ValidatedOperation } from "../validated-operation.js";
+import { DhlAuthenticator } from "./auth.js";
+import { DHL_CAPABILITIES } from "./mapper.js";
+import { DhlRatingOperation } from "./rating.js";
+
+/**
+ * DHL Express carrier client — the public entry point for all DHL operations.
+ */
+export class DhlCarrierClient implements CarrierClient {
+  readonly name = "DHL" as const;
+  readonly capabilities = DHL_CAPABILITIES;
+  readonly operations: Pick<CarrierOperations, "rating">;
+
+  constructor(config: DhlConfig) {
+    const auth = new DhlAuthenticator(config);
+    this.operations = {
+      rating: new ValidatedOperation(
+        new DhlRatingOperation(config, auth),
+        RateRequestSchema,
+        this.name,
+        "rate request",
+      ),
+    };
+  }
+
+  async getRates(
+    request: RateRequest,
+    context?: OperationContext,
+  ): Promise<RateResponse> {
+    return this.operations.rating.execute(request, context);
+  }
+}
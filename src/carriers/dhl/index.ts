@@ -0,0 +1,5 @@
+export { DhlCarrierClient } from "./client.js";
+export { DhlAuthenticator } from "./auth.js";
+export { DhlRatingOperation } from "./rating.js";
+export * from "./types.js";
+export * from "./mapper.js";
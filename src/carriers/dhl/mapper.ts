@@ -0,0 +1,252 @@
+/**
+ * Bidirectional mapper between our domain models and DHL Express API types.
+ *
+ * This is the only place that knows about both sides. If the DHL API changes
+ * schema, only this file (and the DHL types) need updating.
+ */
+
+import type {
+  Address,
+  Commodity,
+  MonetaryAmount,
+  Package,
+  RateQuote,
+  RateRequest,
+  WeightUnit,
+} from "../../domain/models.js";
+import { invoiceTotal, isCrossBorder } from "../../domain/customs.js";
+import { CarrierError, CarrierErrorCode } from "../../domain/errors.js";
+import type { CarrierCapabilities } from "../types.js";
+import type {
+  DhlAddress,
+  DhlBreakdownItem,
+  DhlItem,
+  DhlPackage,
+  DhlPrice,
+  DhlProduct,
+  DhlRateRequest,
+} from "./types.js";
+import {
+  DHL_DUTY_TYPE_CODE,
+  DHL_PRODUCT_CODES,
+  DHL_PRODUCT_PRICE_TYPE_CODE,
+  DHL_TAX_TYPE_CODE,
+} from "./types.js";
+
+// ─── Domain → DHL ───
+
+const KG_PER_POUND = 0.453592;
+const KG_PER_OUNCE = 0.0283495;
+const CM_PER_INCH = 2.54;
+
+function round(value: number, places: number): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+function mapAddressToDhl(addr: Address): DhlAddress {
+  const [addressLine1, addressLine2, addressLine3] = addr.addressLines;
+  return {
+    postalCode: addr.postalCode,
+    cityName: addr.city,
+    countryCode: addr.countryCode,
+    provinceCode: addr.stateProvinceCode,
+    addressLine1,
+    addressLine2,
+    addressLine3,
+  };
+}
+
+/**
+ * DHL requires every package in a request to share one unit system, while
+ * our packages may mix units. Everything is normalized to metric.
+ */
+function mapPackageToDhl(pkg: Package): DhlPackage {
+  const weightKg =
+    pkg.weight.unit === "KG"
+      ? pkg.weight.value
+      : pkg.weight.unit === "LB"
+        ? pkg.weight.value * KG_PER_POUND
+        : pkg.weight.value * KG_PER_OUNCE;
+
+  const toCm = (value: number) =>
+    round(pkg.dimensions?.unit === "IN" ? value * CM_PER_INCH : value, 1);
+
+  return {
+    weight: round(weightKg, 3),
+    dimensions: pkg.dimensions
+      ? {
+          length: toCm(pkg.dimensions.length),
+          width: toCm(pkg.dimensions.width),
+          height: toCm(pkg.dimensions.height),
+        }
+      : undefined,
+  };
+}
+
+/** DHL expects `YYYY-MM-DDTHH:mm:ssGMT+hh:mm`; we always plan in UTC. */
+export function formatDhlShippingDate(date: Date): string {
+  return `${date.toISOString().slice(0, 19)}GMT+00:00`;
+}
+
+function mapCommodityToDhl(
+  line: Commodity,
+  index: number,
+): DhlItem {
+  return {
+    number: index + 1,
+    description: line.description,
+    commodityCode: line.hsCode,
+    manufacturerCountry: line.countryOfOrigin,
+    quantity: line.quantity,
+    quantityType: "pcs",
+    unitPrice: line.unitValue.amount,
+    unitPriceCurrencyCode: line.unitValue.currency,
+  };
+}
+
+export function buildDhlRateRequest(
+  request: RateRequest,
+  accountNumber: string,
+  plannedShippingDate: Date,
+): DhlRateRequest {
+  const customsDeclarable = isCrossBorder(
+    request.origin,
+    request.destination,
+  );
+  const customs = customsDeclarable ? request.customs : undefined;
+  const declaredValue = customs && invoiceTotal(customs);
+
+  return {
+    customerDetails: {
+      shipperDetails: mapAddressToDhl(request.origin),
+      receiverDetails: mapAddressToDhl(request.destination),
+    },
+    accounts: [{ typeCode: "shipper", number: accountNumber }],
+    productCode: request.serviceCode,
+    plannedShippingDateAndTime: formatDhlShippingDate(plannedShippingDate),
+    unitOfMeasurement: "metric",
+    isCustomsDeclarable: customsDeclarable,
+    monetaryAmount: declaredValue && [
+      {
+        typeCode: "declaredValue",
+        value: declaredValue.amount,
+        currency: declaredValue.currency,
+      },
+    ],
+    items: customs?.commodities.map(mapCommodityToDhl),
+    nextBusinessDay: true,
+    estimatedDeliveryDate: { isRequested: true, typeCode: "QDDC" },
+    packages: request.packages.map(mapPackageToDhl),
+  };
+}
+
+// ─── DHL → Domain ───
+
+const DHL_UNIT_OF_MEASUREMENT_TO_WEIGHT: Record<string, WeightUnit> = {
+  metric: "KG",
+  imperial: "LB",
+};
+
+/** DHL quotes several currencies per product; we bill in the billing currency. */
+function selectBillingPrice(product: DhlProduct): DhlPrice {
+  const price =
+    product.totalPrice?.find((p) => p.currencyType === "BILLC") ??
+    product.totalPrice?.[0];
+  if (!price) {
+    throw new CarrierError(
+      CarrierErrorCode.PARSE_ERROR,
+      `DHL product ${product.productCode} has no total price`,
+      { carrier: "DHL" },
+    );
+  }
+  return price;
+}
+
+function sumBreakdown(
+  items: DhlBreakdownItem[],
+  typeCode: string,
+  currency: string,
+): MonetaryAmount | undefined {
+  const matching = items.filter((item) => item.typeCode === typeCode);
+  if (matching.length === 0) return undefined;
+  const amount = matching.reduce((sum, item) => sum + item.price, 0);
+  return { currency, amount: round(amount, 2) };
+}
+
+export function mapDhlProductToQuote(product: DhlProduct): RateQuote {
+  const serviceCode = product.productCode;
+  const serviceName =
+    DHL_PRODUCT_CODES[serviceCode] ||
+    product.productName ||
+    `DHL Product ${serviceCode}`;
+
+  const billing = selectBillingPrice(product);
+  const currency = billing.priceCurrency;
+
+  const productPrice = product.totalPriceBreakdown
+    ?.find((b) => b.currencyType === billing.currencyType)
+    ?.priceBreakdown.find((p) => p.typeCode === DHL_PRODUCT_PRICE_TYPE_CODE);
+  const transportation = productPrice?.price ?? billing.price;
+  const extras = round(billing.price - transportation, 2);
+
+  const breakdown =
+    product.detailedPriceBreakdown?.find(
+      (b) => b.currencyType === billing.currencyType,
+    )?.breakdown ?? [];
+
+  const weightUnit =
+    DHL_UNIT_OF_MEASUREMENT_TO_WEIGHT[product.weight.unitOfMeasurement];
+  if (!weightUnit) {
+    throw new CarrierError(
+      CarrierErrorCode.PARSE_ERROR,
+      `Unknown DHL unit of measurement: ${product.weight.unitOfMeasurement}`,
+      { carrier: "DHL" },
+    );
+  }
+  const billedWeight = Math.max(
+    product.weight.provided ?? 0,
+    product.weight.volumetric ?? 0,
+  );
+
+  const transitDays = product.deliveryCapabilities?.totalTransitDays;
+  // Local date-time without offset, e.g. "2024-06-28T23:59:00"
+  const estimatedDelivery =
+    product.deliveryCapabilities?.estimatedDeliveryDateAndTime;
+
+  return {
+    carrier: "DHL",
+    serviceCode,
+    serviceName,
+    totalCharges: { currency, amount: billing.price },
+    transportationCharges: { currency, amount: transportation },
+    serviceOptionsCharges:
+      extras > 0 ? { currency, amount: extras } : undefined,
+    billingWeight:
+      billedWeight > 0 ? { value: billedWeight, unit: weightUnit } : undefined,
+    estimatedDeliveryDays: transitDays ? parseInt(transitDays, 10) : undefined,
+    estimatedDeliveryDate: estimatedDelivery?.slice(0, 10),
+    estimatedDeliveryTime: estimatedDelivery?.slice(11, 16),
+    estimatedDuties: sumBreakdown(breakdown, DHL_DUTY_TYPE_CODE, currency),
+    estimatedTaxes: sumBreakdown(breakdown, DHL_TAX_TYPE_CODE, currency),
+  };
+}
+
+// ─── Capabilities ───
+
+/**
+ * DHL Express per-piece limits. Packaging is not sent, so every package is
+ * rated as the shipper's own box.
+ */
+export const DHL_CAPABILITIES: CarrierCapabilities = {
+  maxWeight: { value: 70, unit: "KG" },
+  maxDimensions: { length: 120, unit: "CM" },
+  packagingTypes: ["CUSTOM"],
+  acceptsDangerousGoods: false,
+  acceptsServiceOptions: false,
+  acceptsHoldAtLocation: false,
+  services: Object.entries(DHL_PRODUCT_CODES).map(([code, name]) => ({
+    code,
+    name,
+  })),
+};
@@ -0,0 +1,111 @@
+import type { DhlConfig } from "../../config/index.js";
+import { CarrierError, CarrierErrorCode } from "../../domain/errors.js";
+import type { RateRequest, RateResponse } from "../../domain/models.js";
+import { HttpClient } from "../../http/client.js";
+import { accountLimiter } from "../../http/limiter.js";
+import type {
+  CarrierAuthenticator,
+  CarrierOperation,
+  OperationContext,
+} from "../types.js";
+import { buildDhlRateRequest, mapDhlProductToQuote } from "./mapper.js";
+import type { DhlRateResponse } from "./types.js";
+
+const RATES_PATH = "/rates";
+
+/**
+ * DHL Express Rating operation.
+ *
+ * A single `/rates` call returns every product available on the lane, or
+ * only the requested one when a product code is supplied.
+ */
+export class DhlRatingOperation
+  implements CarrierOperation<RateRequest, RateResponse>
+{
+  private httpClient: HttpClient;
+
+  constructor(
+    private config: DhlConfig,
+    private auth: CarrierAuthenticator,
+  ) {
+    this.httpClient = new HttpClient({
+      baseURL: config.baseUrl,
+      timeoutMs: config.timeoutMs,
+      limiter: accountLimiter("DHL", config.accountNumber, config.rateLimit),
+    });
+  }
+
+  async execute(
+    request: RateRequest,
+    context?: OperationContext,
+  ): Promise<RateResponse> {
+    // DHL wants a timestamp; noon UTC keeps an explicit ship date on the same day
+    const plannedShippingDate = request.shipDate
+      ? new Date(`${request.shipDate}T12:00:00Z`)
+      : new Date();
+    const dhlRequest = buildDhlRateRequest(
+      request,
+      this.config.accountNumber,
+      plannedShippingDate,
+    );
+
+    const credentials = await this.auth.getAccessToken(context?.signal);
+
+    let response;
+    try {
+      response = await this.httpClient.post<DhlRateResponse>(
+        RATES_PATH,
+        dhlRequest,
+        {
+          headers: {
+            Authorization: `Basic ${credentials}`,
+            "Content-Type": "application/json",
+            "Message-Reference": crypto.randomUUID(),
+          },
+          signal: context?.signal,
+        },
+      );
+    } catch (error) {
+      if (error instanceof CarrierError) {
+        error.details.carrier = "DHL";
+        throw error;
+      }
+      throw new CarrierError(
+        CarrierErrorCode.UNKNOWN_ERROR,
+        `DHL rating request failed: ${error instanceof Error ? error.message : "unknown"}`,
+        { carrier: "DHL", retryable: false },
+      );
+    }
+
+    return this.parseResponse(response.data);
+  }
+
+  private parseResponse(data: DhlRateResponse): RateResponse {
+    try {
+      const products = data?.products;
+      if (!products || !Array.isArray(products)) {
+        throw new CarrierError(
+          CarrierErrorCode.PARSE_ERROR,
+          "DHL response missing or invalid products array",
+          { carrier: "DHL" },
+        );
+      }
+
+      const quotes = products.map(mapDhlProductToQuote);
+      if (data.warnings?.length) {
+        for (const quote of quotes) {
+          quote.warnings = [...data.warnings];
+        }
+      }
+
+      return { quotes };
+    } catch (error) {
+      if (error instanceof CarrierError) throw error;
+      throw new CarrierError(
+        CarrierErrorCode.PARSE_ERROR,
+        `Failed to parse DHL rate response: ${error instanceof Error ? error.message : "unknown"}`,
+        { carrier: "DHL" },
+      );
+    }
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * DHL Express (MyDHL API) raw request/response types.
+ *
+ * These mirror the DHL API schema exactly and are NEVER exposed to callers.
+ * The mapper layer translates between these and our domain models.
+ */
+
+// ─── Request Types ───
+
+export interface DhlRateRequest {
+  customerDetails: {
+    shipperDetails: DhlAddress;
+    receiverDetails: DhlAddress;
+  };
+  accounts: Array<{
+    typeCode: string;
+    number: string;
+  }>;
+  productCode?: string;
+  plannedShippingDateAndTime: string;
+  unitOfMeasurement: "metric" | "imperial";
+  isCustomsDeclarable: boolean;
+  /** Declared customs value, which DHL needs to estimate duties and taxes. */
+  monetaryAmount?: Array<{
+    /** "declaredValue" */
+    typeCode: string;
+    value: number;
+    currency: string;
+  }>;
+  /** Commodity lines of a customs-declarable shipment. */
+  items?: DhlItem[];
+  nextBusinessDay?: boolean;
+  estimatedDeliveryDate?: {
+    isRequested: boolean;
+    typeCode: string;
+  };
+  packages: DhlPackage[];
+}
+
+export interface DhlItem {
+  /** 1-based line number. */
+  number: number;
+  description: string;
+  /** HS code. */
+  commodityCode: string;
+  manufacturerCountry: string;
+  quantity: number;
+  /** "pcs" */
+  quantityType: string;
+  unitPrice: number;
+  unitPriceCurrencyCode: string;
+}
+
+export interface DhlAddress {
+  postalCode: string;
+  cityName: string;
+  countryCode: string;
+  provinceCode?: string;
+  addressLine1?: string;
+  addressLine2?: string;
+  addressLine3?: string;
+}
+
+export interface DhlPackage {
+  weight: number;
+  dimensions?: {
+    length: number;
+    width: number;
+    height: number;
+  };
+}
+
+// ─── Response Types ───
+
+export interface DhlRateResponse {
+  products: DhlProduct[];
+  exchangeRates?: Array<{
+    currentExchangeRate: number;
+    currency: string;
+    baseCurrency: string;
+  }>;
+  warnings?: string[];
+}
+
+export interface DhlProduct {
+  productName: string;
+  productCode: string;
+  localProductCode?: string;
+  networkTypeCode?: string;
+  isCustomerAgreement?: boolean;
+  weight: {
+    volumetric?: number;
+    provided?: number;
+    unitOfMeasurement: string;
+  };
+  totalPrice: DhlPrice[];
+  totalPriceBreakdown?: Array<{
+    currencyType: string;
+    priceCurrency: string;
+    priceBreakdown: Array<{
+      typeCode: string;
+      price: number;
+    }>;
+  }>;
+  detailedPriceBreakdown?: Array<{
+    currencyType: string;
+    priceCurrency: string;
+    breakdown: DhlBreakdownItem[];
+  }>;
+  deliveryCapabilities?: {
+    deliveryTypeCode?: string;
+    estimatedDeliveryDateAndTime?: string;
+    destinationServiceAreaCode?: string;
+    totalTransitDays?: string;
+  };
+}
+
+export interface DhlPrice {
+  /** BILLC = billing currency, PULCL = pickup local, BASEC = base currency. */
+  currencyType: string;
+  priceCurrency: string;
+  price: number;
+}
+
+export interface DhlBreakdownItem {
+  name: string;
+  serviceCode?: string;
+  localServiceCode?: string;
+  /** DUTY / TAX mark the import duty and tax estimates for dutiable shipments. */
+  typeCode?: string;
+  serviceTypeCode?: string;
+  price: number;
+}
+
+// ─── Error Response Types ───
+
+export interface DhlErrorResponse {
+  instance?: string;
+  detail: string;
+  title: string;
+  message?: string;
+  status: string;
+  additionalDetails?: string[];
+}
+
+// ─── Product Code Mapping ───
+
+export const DHL_PRODUCT_CODES: Record<string, string> = {
+  P: "DHL Express Worldwide",
+  D: "DHL Express Worldwide (Documents)",
+  U: "DHL Express Worldwide (EU)",
+  K: "DHL Express 9:00 (Documents)",
+  E: "DHL Express 9:00",
+  T: "DHL Express 12:00 (Documents)",
+  Y: "DHL Express 12:00",
+  W: "DHL Economy Select",
+  H: "DHL Economy Select (Non-EU)",
+  X: "DHL Express Envelope",
+  "8": "DHL Express Easy",
+  N: "DHL Domestic Express",
+  I: "DHL Domestic Express 9:00",
+  "1": "DHL Domestic Express 12:00",
+  G: "DHL Domestic Economy Select",
+};
+
+/** Breakdown type codes DHL uses for the import duty and tax estimates. */
+export const DHL_DUTY_TYPE_CODE = "DUTY";
+export const DHL_TAX_TYPE_CODE = "TAX";
+
+/** Breakdown type code for the base product (transport) price. */
+export const DHL_PRODUCT_PRICE_TYPE_CODE = "SPRQN";
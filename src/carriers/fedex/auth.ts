@@ -0,0 +1,115 @@
+import type { FedexConfig } from "../../config/index.js";
+import { CarrierError, CarrierErrorCode } from "../../domain/errors.js";
+import { HttpClient, abortable } from "../../http/client.js";
+import type { CarrierAuthenticator } from "../types.js";
+
+interface OAuthTokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in: number;
+  scope?: string;
+}
+
+interface TokenCache {
+  accessToken: string;
+  expiresAt: number;
+}
+
+const TOKEN_EXPIRY_BUFFER_MS = 60_000;
+
+/**
+ * FedEx OAuth 2.0 client-credentials flow.
+ *
+ * Unlike UPS, FedEx expects the credentials in the form body rather than a
+ * Basic auth header. Caching, refresh and dedup behave the same way.
+ */
+export class FedexAuthenticator implements CarrierAuthenticator {
+  private cache: TokenCache | null = null;
+  private pendingRefresh: Promise<string> | null = null;
+  private httpClient: HttpClient;
+
+  constructor(private config: FedexConfig) {
+    this.httpClient = new HttpClient({ timeoutMs: config.timeoutMs });
+  }
+
+  async getAccessToken(signal?: AbortSignal): Promise<string> {
+    if (this.cache && Date.now() < this.cache.expiresAt) {
+      return this.cache.accessToken;
+    }
+
+    // Dedup concurrent refresh attempts. The shared fetch is bounded only by
+    // the configured timeout; a caller whose signal aborts stops waiting on
+    // it without failing it for the others.
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.fetchToken().finally(() => {
+        this.pendingRefresh = null;
+      });
+    }
+    try {
+      return await abortable(this.pendingRefresh, signal);
+    } catch (error) {
+      if (error instanceof CarrierError) error.details.carrier = "FEDEX";
+      throw error;
+    }
+  }
+
+  invalidateToken(): void {
+    this.cache = null;
+  }
+
+  private async fetchToken(): Promise<string> {
+    try {
+      const body = new URLSearchParams({
+        grant_type: "client_credentials",
+        client_id: this.config.clientId,
+        client_secret: this.config.clientSecret,
+      }).toString();
+
+      const response = await this.httpClient.post<OAuthTokenResponse>(
+        this.config.oauthUrl,
+        body,
+        {
+          headers: {
+            "Content-Type": "application/x-www-form-urlencoded",
+          },
+        },
+      );
+
+      const { access_token, expires_in } = response.data;
+
+      if (!access_token) {
+        throw new CarrierError(
+          CarrierErrorCode.AUTHENTICATION_ERROR,
+          "FedEx OAuth response missing access_token",
+          { carrier: "FEDEX", retryable: true },
+        );
+      }
+
+      const expiresInMs = Number(expires_in) * 1000;
+      this.cache = {
+        accessToken: access_token,
+        expiresAt: Date.now() + expiresInMs - TOKEN_EXPIRY_BUFFER_MS,
+      };
+
+      return access_token;
+    } catch (error) {
+      if (
+        error instanceof CarrierError &&
+        error.code === CarrierErrorCode.AUTHENTICATION_ERROR
+      ) {
+        error.details.carrier = "FEDEX";
+        throw error;
+      }
+
+      const cause = error instanceof Error ? error.message : "unknown error";
+      throw new CarrierError(
+        CarrierErrorCode.AUTHENTICATION_ERROR,
+        `FedEx authentication failed: ${cause}`,
+        {
+          carrier: "FEDEX",
+          retryable: true,
+        },
+      );
+    }
+  }
+}
@@ -0,0 +1,40 @@
+import type { FedexConfig } from "../../config/index.js";
+import type { RateRequest, RateResponse } from "../../domain/models.js";
+import { RateRequestSchema } from "../../validation/schemas.js";
+import type {
+  CarrierClient,
+  CarrierOperations,
+  OperationContext,
+} from "../types.js";
+import { ValidatedOperation } from "../validated-operation.js";
+import { FedexAuthenticator } from "./auth.js";
+import { FEDEX_CAPABILITIES } from "./mapper.js";
+import { FedexRatingOperation } from "./rating.js";
+
+/**
+ * FedEx carrier client — the public entry point for all FedEx operations.
+ */
+export class FedexCarrierClient implements CarrierClient {
+  readonly name = "FEDEX" as const;
+  readonly capabilities = FEDEX_CAPABILITIES;
+  readonly operations: Pick<CarrierOperations, "rating">;
+
+  constructor(config: FedexConfig) {
+    const auth = new FedexAuthenticator(config);
+    this.operations = {
+      rating: new ValidatedOperation(
+        new FedexRatingOperation(config, auth),
+        RateRequestSchema,
+        this.name,
+        "rate request",
+      ),
+    };
+  }
+
+  async getRates(
+    request: RateRequest,
+    context?: OperationContext,
+  ): Promise<RateResponse> {
+    return this.operations.rating.execute(request, context);
+  }
+}
@@ -0,0 +1,5 @@
+export { FedexCarrierClient } from "./client.js";
+export { FedexAuthenticator } from "./auth.js";
+export { FedexRatingOperation } from "./rating.js";
+export * from "./types.js";
+export * from "./mapper.js";
@@ -0,0 +1,176 @@
+/**
+ * Bidirectional mapper between our domain models and FedEx API types.
+ *
+ * This is the only place that knows about both sides. If the FedEx API
+ * changes schema, only this file (and the FedEx types) need updating.
+ */
+
+import type {
+  Address,
+  Package,
+  PackageWeight,
+  RateQuote,
+  RateRequest,
+  WeightUnit,
+} from "../../domain/models.js";
+import { CarrierError, CarrierErrorCode } from "../../domain/errors.js";
+import type { CarrierCapabilities } from "../types.js";
+import type {
+  FedexAddress,
+  FedexPackageLineItem,
+  FedexRateReplyDetail,
+  FedexRateRequest,
+  FedexRatedShipmentDetail,
+  FedexWeight,
+} from "./types.js";
+import { FEDEX_SERVICE_TYPES, FEDEX_TRANSIT_TIME_DAYS } from "./types.js";
+
+// ─── Domain → FedEx ───
+
+const OUNCES_PER_POUND = 16;
+
+function mapAddressToFedex(addr: Address): FedexAddress {
+  return {
+    streetLines: addr.addressLines,
+    city: addr.city,
+    stateOrProvinceCode: addr.stateProvinceCode,
+    postalCode: addr.postalCode,
+    countryCode: addr.countryCode,
+    residential: addr.residential,
+  };
+}
+
+/** FedEx only accepts LB and KG, so ounces are converted to pounds. */
+function mapWeightToFedex(weight: PackageWeight): FedexWeight {
+  if (weight.unit === "OZ") {
+    return { units: "LB", value: weight.value / OUNCES_PER_POUND };
+  }
+  return { units: weight.unit, value: weight.value };
+}
+
+function mapPackageToFedex(pkg: Package): FedexPackageLineItem {
+  return {
+    weight: mapWeightToFedex(pkg.weight),
+    dimensions: pkg.dimensions
+      ? {
+          length: pkg.dimensions.length,
+          width: pkg.dimensions.width,
+          height: pkg.dimensions.height,
+          units: pkg.dimensions.unit,
+        }
+      : undefined,
+  };
+}
+
+export function buildFedexRateRequest(
+  request: RateRequest,
+  accountNumber: string,
+): FedexRateRequest {
+  return {
+    accountNumber: { value: accountNumber },
+    rateRequestControlParameters: { returnTransitTimes: true },
+    requestedShipment: {
+      shipper: { address: mapAddressToFedex(request.origin) },
+      recipient: { address: mapAddressToFedex(request.destination) },
+      pickupType: "DROPOFF_AT_FEDEX_LOCATION",
+      shipDateStamp: request.shipDate,
+      serviceType: request.serviceCode,
+      rateRequestType: ["LIST"],
+      requestedPackageLineItems: request.packages.map(mapPackageToFedex),
+      totalPackageCount:
+        request.packages.length > 1 ? request.packages.length : undefined,
+    },
+  };
+}
+
+// ─── FedEx → Domain ───
+
+const FEDEX_WEIGHT_UNIT_TO_DOMAIN: Record<string, WeightUnit> = {
+  LB: "LB",
+  KG: "KG",
+};
+
+/**
+ * FedEx returns one rated detail per requested rate type. Prefer the list
+ * (published) rate so quotes are comparable with other carriers.
+ */
+function selectRatedDetail(
+  detail: FedexRateReplyDetail,
+): FedexRatedShipmentDetail {
+  const rated =
+    detail.ratedShipmentDetails?.find((r) => r.rateType === "LIST") ??
+    detail.ratedShipmentDetails?.[0];
+  if (!rated) {
+    throw new CarrierError(
+      CarrierErrorCode.PARSE_ERROR,
+      `FedEx rate reply for ${detail.serviceType} has no rated shipment details`,
+      { carrier: "FEDEX" },
+    );
+  }
+  return rated;
+}
+
+export function mapFedexRateReplyToQuote(
+  detail: FedexRateReplyDetail,
+): RateQuote {
+  const serviceCode = detail.serviceType;
+  const serviceName =
+    detail.serviceName ||
+    FEDEX_SERVICE_TYPES[serviceCode] ||
+    `FedEx Service ${serviceCode}`;
+
+  const rated = selectRatedDetail(detail);
+  const currency = rated.currency;
+
+  let billingWeight: RateQuote["billingWeight"];
+  const fedexBillingWeight = rated.shipmentRateDetail?.totalBillingWeight;
+  if (fedexBillingWeight) {
+    const unit = FEDEX_WEIGHT_UNIT_TO_DOMAIN[fedexBillingWeight.units];
+    if (!unit) {
+      throw new CarrierError(
+        CarrierErrorCode.PARSE_ERROR,
+        `Unknown FedEx weight unit: ${fedexBillingWeight.units}`,
+        { carrier: "FEDEX" },
+      );
+    }
+    billingWeight = { value: fedexBillingWeight.value, unit };
+  }
+
+  const surcharges = rated.shipmentRateDetail?.totalSurcharges;
+  const transitTime = detail.operationalDetail?.transitTime;
+  const warnings = detail.customerMessages?.map((m) => m.message);
+
+  return {
+    carrier: "FEDEX",
+    serviceCode,
+    serviceName,
+    totalCharges: { currency, amount: rated.totalNetCharge },
+    transportationCharges: { currency, amount: rated.totalBaseCharge },
+    serviceOptionsCharges:
+      surcharges !== undefined ? { currency, amount: surcharges } : undefined,
+    billingWeight,
+    estimatedDeliveryDays: transitTime
+      ? FEDEX_TRANSIT_TIME_DAYS[transitTime]
+      : undefined,
+    warnings: warnings?.length ? warnings : undefined,
+  };
+}
+
+// ─── Capabilities ───
+
+/**
+ * FedEx Express and Ground package limits. Packaging is not sent, so every
+ * package is rated as the shipper's own box.
+ */
+export const FEDEX_CAPABILITIES: CarrierCapabilities = {
+  maxWeight: { value: 150, unit: "LB" },
+  maxDimensions: { length: 108, lengthPlusGirth: 165, unit: "IN" },
+  packagingTypes: ["CUSTOM"],
+  acceptsDangerousGoods: false,
+  acceptsServiceOptions: false,
+  acceptsHoldAtLocation: false,
+  services: Object.entries(FEDEX_SERVICE_TYPES).map(([code, name]) => ({
+    code,
+    name,
+  })),
+};
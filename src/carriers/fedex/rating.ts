@@ -0,0 +1,131 @@
+import type { FedexConfig } from "../../config/index.js";
+import { CarrierError, CarrierErrorCode } from "../../domain/errors.js";
+import type { RateRequest, RateResponse } from "../../domain/models.js";
+import { HttpClient } from "../../http/client.js";
+import { accountLimiter } from "../../http/limiter.js";
+import type {
+  CarrierAuthenticator,
+  CarrierOperation,
+  OperationContext,
+} from "../types.js";
+import {
+  buildFedexRateRequest,
+  mapFedexRateReplyToQuote,
+} from "./mapper.js";
+import type { FedexRateResponse } from "./types.js";
+
+const RATE_QUOTES_PATH = "/rate/v1/rates/quotes";
+
+/**
+ * FedEx Rating operation.
+ *
+ * FedEx uses a single endpoint for both shopping and single-service
+ * quotes; the presence of `serviceType` in the payload decides which.
+ */
+export class FedexRatingOperation
+  implements CarrierOperation<RateRequest, RateResponse>
+{
+  private httpClient: HttpClient;
+
+  constructor(
+    private config: FedexConfig,
+    private auth: CarrierAuthenticator,
+  ) {
+    this.httpClient = new HttpClient({
+      baseURL: config.baseUrl,
+      timeoutMs: config.timeoutMs,
+      limiter: accountLimiter(
+        "FEDEX",
+        config.accountNumber,
+        config.rateLimit,
+      ),
+    });
+  }
+
+  async execute(
+    request: RateRequest,
+    context?: OperationContext,
+  ): Promise<RateResponse> {
+    const fedexRequest = buildFedexRateRequest(
+      request,
+      this.config.accountNumber,
+    );
+
+    let token: string;
+    try {
+      token = await this.auth.getAccessToken(context?.signal);
+    } catch (error) {
+      if (error instanceof CarrierError) throw error;
+      throw new CarrierError(
+        CarrierErrorCode.AUTHENTICATION_ERROR,
+        "Failed to obtain FedEx access token",
+        { carrier: "FEDEX", retryable: true },
+      );
+    }
+
+    let response;
+    try {
+      response = await this.httpClient.post<FedexRateResponse>(
+        RATE_QUOTES_PATH,
+        fedexRequest,
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+            "Content-Type": "application/json",
+            "X-locale": "en_US",
+            "x-customer-transaction-id": crypto.randomUUID(),
+          },
+          signal: context?.signal,
+        },
+      );
+    } catch (error) {
+      if (error instanceof CarrierError) {
+        if (error.code === CarrierErrorCode.AUTHENTICATION_ERROR) {
+          this.auth.invalidateToken();
+        }
+        error.details.carrier = "FEDEX";
+        throw error;
+      }
+      throw new CarrierError(
+        CarrierErrorCode.UNKNOWN_ERROR,
+        `FedEx rating request failed: ${error instanceof Error ? error.message : "unknown"}`,
+        { carrier: "FEDEX", retryable: false },
+      );
+    }
+
+    return this.parseResponse(response.data);
+  }
+
+  private parseResponse(data: FedexRateResponse): RateResponse {
+    try {
+      const output = data?.output;
+      if (!output) {
+        throw new CarrierError(
+          CarrierErrorCode.PARSE_ERROR,
+          "FedEx response missing output envelope",
+          { carrier: "FEDEX" },
+        );
+      }
+
+      const replyDetails = output.rateReplyDetails;
+      if (!replyDetails || !Array.isArray(replyDetails)) {
+        throw new CarrierError(
+          CarrierErrorCode.PARSE_ERROR,
+          "FedEx response missing or invalid rateReplyDetails array",
+          { carrier: "FEDEX" },
+        );
+      }
+
+      const quotes = replyDetails.map(mapFedexRateReplyToQuote);
+
+      return { quotes };
+    } catch (error) {
+      if (error instanceof CarrierError) throw error;
+      throw new CarrierError(
+        CarrierErrorCode.PARSE_ERROR,
+        `Failed to parse FedEx rate response: ${error instanceof Error ? error.message : "unknown"}`,
+        { carrier: "FEDEX" },
+      );
+    }
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * FedEx Rate API raw request/response types.
+ *
+ * These mirror the FedEx API schema exactly and are NEVER exposed to callers.
+ * The mapper layer translates between these and our domain models.
+ */
+
+// ─── Request Types ───
+
+export interface FedexRateRequest {
+  accountNumber: {
+    value: string;
+  };
+  rateRequestControlParameters?: {
+    returnTransitTimes?: boolean;
+  };
+  requestedShipment: FedexRequestedShipment;
+}
+
+export interface FedexRequestedShipment {
+  shipper: FedexParty;
+  recipient: FedexParty;
+  pickupType: string;
+  /** YYYY-MM-DD; FedEx assumes today when omitted. */
+  shipDateStamp?: string;
+  serviceType?: string;
+  rateRequestType: string[];
+  requestedPackageLineItems: FedexPackageLineItem[];
+  totalPackageCount?: number;
+}
+
+export interface FedexParty {
+  address: FedexAddress;
+}
+
+export interface FedexAddress {
+  streetLines: string[];
+  city?: string;
+  stateOrProvinceCode?: string;
+  postalCode?: string;
+  countryCode: string;
+  residential?: boolean;
+}
+
+export interface FedexWeight {
+  units: string;
+  value: number;
+}
+
+export interface FedexPackageLineItem {
+  weight: FedexWeight;
+  dimensions?: {
+    length: number;
+    width: number;
+    height: number;
+    units: string;
+  };
+}
+
+// ─── Response Types ───
+
+export interface FedexRateResponse {
+  transactionId?: string;
+  customerTransactionId?: string;
+  output: {
+    rateReplyDetails: FedexRateReplyDetail[];
+    quoteDate?: string;
+    encoded?: boolean;
+    alerts?: FedexAlert[];
+  };
+}
+
+export interface FedexRateReplyDetail {
+  serviceType: string;
+  serviceName?: string;
+  packagingType?: string;
+  ratedShipmentDetails: FedexRatedShipmentDetail[];
+  operationalDetail?: {
+    transitTime?: string;
+    deliveryDate?: string;
+    deliveryDay?: string;
+  };
+  commit?: {
+    dateDetail?: {
+      dayOfWeek?: string;
+      dayFormat?: string;
+    };
+  };
+  customerMessages?: Array<{
+    code: string;
+    message: string;
+  }>;
+}
+
+export interface FedexRatedShipmentDetail {
+  rateType: string;
+  ratedWeightMethod?: string;
+  totalDiscounts?: number;
+  totalBaseCharge: number;
+  totalNetCharge: number;
+  totalNetFedExCharge?: number;
+  currency: string;
+  shipmentRateDetail?: {
+    rateZone?: string;
+    dimDivisor?: number;
+    totalSurcharges?: number;
+    totalBillingWeight?: FedexWeight;
+    currency?: string;
+  };
+}
+
+export interface FedexAlert {
+  code: string;
+  message: string;
+  alertType?: string;
+}
+
+// ─── Error Response Types ───
+
+export interface FedexErrorResponse {
+  transactionId?: string;
+  errors: Array<{
+    code: string;
+    message: string;
+  }>;
+}
+
+// ─── Service Type Mapping ───
+
+export const FEDEX_SERVICE_TYPES: Record<string, string> = {
+  FEDEX_GROUND: "FedEx Ground",
+  GROUND_HOME_DELIVERY: "FedEx Home Delivery",
+  FEDEX_EXPRESS_SAVER: "FedEx Express Saver",
+  FEDEX_2_DAY: "FedEx 2Day",
+  FEDEX_2_DAY_AM: "FedEx 2Day A.M.",
+  STANDARD_OVERNIGHT: "FedEx Standard Overnight",
+  PRIORITY_OVERNIGHT: "FedEx Priority Overnight",
+  FIRST_OVERNIGHT: "FedEx First Overnight",
+  FEDEX_INTERNATIONAL_PRIORITY: "FedEx International Priority",
+  FEDEX_INTERNATIONAL_PRIORITY_EXPRESS: "FedEx International Priority Express",
+  INTERNATIONAL_ECONOMY: "FedEx International Economy",
+  INTERNATIONAL_FIRST: "FedEx International First",
+  FEDEX_INTERNATIONAL_CONNECT_PLUS: "FedEx International Connect Plus",
+};
+
+/** FedEx reports transit time as an enum word rather than a number. */
+export const FEDEX_TRANSIT_TIME_DAYS: Record<string, number> = {
+  ONE_DAY: 1,
+  TWO_DAYS: 2,
+  THREE_DAYS: 3,
+  FOUR_DAYS: 4,
+  FIVE_DAYS: 5,
+  SIX_DAYS: 6,
+  SEVEN_DAYS: 7,
+  EIGHT_DAYS: 8,
+  NINE_DAYS: 9,
+  TEN_DAYS: 10,
+};
@@ -1 +1,5 @@
 export * from "./types.js";
+export * from "./capabilities.js";
+export * from "./retrying-operation.js";
+export * from "./validated-operation.js";
+export * from "./circuit-breaker.js";
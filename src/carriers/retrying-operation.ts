@@ -0,0 +1,126 @@
+import {
+  CarrierError,
+  CarrierErrorCode,
+  requestedRetryDelayMs,
+} from "../domain/errors.js";
+import type { CarrierOperation, OperationContext } from "./types.js";
+
+/** Attempt limit and backoff for one kind of failure. */
+export interface RetryBackoff {
+  /** Total tries including the first; 1 means never retry. */
+  maxAttempts: number;
+  /** Delay before the first retry; it doubles with every further retry. */
+  baseDelayMs: number;
+  /** Upper bound on any single delay. */
+  maxDelayMs: number;
+}
+
+export interface RetryPolicy extends RetryBackoff {
+  /**
+   * Fraction of each delay that is randomized, from 0 (exact delays) to 1
+   * (anywhere between zero and the full delay). Spreads out callers that
+   * failed together so they don't retry in lockstep.
+   */
+  jitter: number;
+  /**
+   * Longest wait the carrier may ask for (via `Retry-After`) that is still
+   * sat out; a longer one fails straight away. Defaults to `maxDelayMs`.
+   */
+  maxRetryAfterMs?: number;
+  /** Backoff for specific error codes, merged over the defaults above. */
+  overrides?: Partial<Record<CarrierErrorCode, Partial<RetryBackoff>>>;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 200,
+  maxDelayMs: 5_000,
+  jitter: 0.5,
+  maxRetryAfterMs: 30_000,
+  overrides: {
+    // The failed call already dropped the token, so one fresh try is enough
+    [CarrierErrorCode.AUTHENTICATION_ERROR]: {
+      maxAttempts: 2,
+      baseDelayMs: 0,
+    },
+    // Give the carrier's rate limit window time to reset
+    [CarrierErrorCode.RATE_LIMIT_ERROR]: { baseDelayMs: 1_000 },
+  },
+};
+
+/**
+ * Retries the wrapped operation while it fails with a `CarrierError` marked
+ * `retryable`, backing off exponentially between attempts — or longer, when
+ * the carrier says how long to wait. The error that finally escapes records
+ * how many attempts were made in `details.attempts`.
+ *
+ * Only wrap operations that are safe to repeat: a timed-out label purchase
+ * may still have gone through. Once the caller's signal aborts, the current
+ * failure is final and any pending backoff is cut short.
+ */
+export class RetryingOperation<TReq, TRes>
+  implements CarrierOperation<TReq, TRes>
+{
+  constructor(
+    private operation: CarrierOperation<TReq, TRes>,
+    private policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  ) {}
+
+  async execute(request: TReq, context?: OperationContext): Promise<TRes> {
+    const signal = context?.signal;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.operation.execute(request, context);
+      } catch (error) {
+        if (!(error instanceof CarrierError)) throw error;
+
+        const backoff = this.backoffFor(error.code);
+        const requestedMs = requestedRetryDelayMs(error) ?? 0;
+        const maxRetryAfterMs =
+          this.policy.maxRetryAfterMs ?? this.policy.maxDelayMs;
+        if (
+          signal?.aborted ||
+          !error.details.retryable ||
+          attempt >= backoff.maxAttempts ||
+          requestedMs > maxRetryAfterMs
+        ) {
+          error.details.attempts = attempt;
+          throw error;
+        }
+
+        await sleep(
+          Math.max(this.delayMs(backoff, attempt), requestedMs),
+          signal,
+        );
+      }
+    }
+  }
+
+  private backoffFor(code: CarrierErrorCode): RetryBackoff {
+    return { ...this.policy, ...this.policy.overrides?.[code] };
+  }
+
+  /** Delay after the given failed attempt, with jitter applied. */
+  private delayMs(backoff: RetryBackoff, attempt: number): number {
+    const exponential = Math.min(
+      backoff.maxDelayMs,
+      backoff.baseDelayMs * 2 ** (attempt - 1),
+    );
+    return Math.round(
+      exponential * (1 - this.policy.jitter * Math.random()),
+    );
+  }
+}
+
+/** Waits `ms`, or less if the signal aborts first. */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
@@ -3,39 +3,170 @@
  *
  * Every carrier implements `CarrierClient` and registers operations under
  * well-known names (e.g. "rating"). Adding a new carrier means implementing
- * this interface — existing carrier code is never touched.
+ * this interface — existing carrier code is never touched. Adding a new
+ * operation means adding its name and types to `CarrierOperationTypes`.
  */
 
 import type {
+  AddressValidationRequest,
+  AddressValidationResult,
+  CancelPickupRequest,
+  CancelPickupResponse,
+  CarrierLocation,
   CarrierName,
+  DimensionUnit,
+  LocationSearchRequest,
+  PackageWeight,
+  PackagingType,
+  PickupConfirmation,
+  PickupRate,
+  PickupRequest,
   RateRequest,
   RateResponse,
+  ShipmentRequest,
+  ShipmentResponse,
+  TrackingRequest,
+  TrackingResult,
+  VoidShipmentRequest,
+  VoidShipmentResponse,
 } from "../domain/models.js";
 
+/** Per-call settings that travel with a request through every layer. */
+export interface OperationContext {
+  /**
+   * Aborts the call's HTTP requests, including a token request it is
+   * waiting on; they fail with `TIMEOUT_ERROR`.
+   */
+  signal?: AbortSignal;
+}
+
 /**
  * A single operation a carrier supports (e.g. rating, label purchase, tracking).
  * Each operation type has its own request/response generics.
  */
 export interface CarrierOperation<TReq, TRes> {
-  execute(request: TReq): Promise<TRes>;
+  execute(request: TReq, context?: OperationContext): Promise<TRes>;
 }
 
 /**
  * Authenticator contract — each carrier has its own auth mechanism.
  */
 export interface CarrierAuthenticator {
-  getAccessToken(): Promise<string>;
+  getAccessToken(signal?: AbortSignal): Promise<string>;
   /** Force-clear any cached token so the next call re-authenticates. */
   invalidateToken(): void;
 }
 
 /**
- * The main carrier client interface. Every carrier exposes a `getRates` method
- * and can optionally expose additional operations.
+ * Request and response types of every operation a carrier can offer, keyed by
+ * its well-known name.
+ */
+export interface CarrierOperationTypes {
+  rating: { request: RateRequest; response: RateResponse };
+  /** Buy labels for a shipment. */
+  shipping: { request: ShipmentRequest; response: ShipmentResponse };
+  /** Cancel previously purchased labels. */
+  void: { request: VoidShipmentRequest; response: VoidShipmentResponse };
+  /** Look up the current status and scan history of a package. */
+  tracking: { request: TrackingRequest; response: TrackingResult };
+  /** Check deliverability and classify an address as residential or commercial. */
+  addressValidation: {
+    request: AddressValidationRequest;
+    response: AddressValidationResult;
+  };
+  /** Book a driver to collect packages. */
+  pickup: { request: PickupRequest; response: PickupConfirmation };
+  pickupCancel: {
+    request: CancelPickupRequest;
+    response: CancelPickupResponse;
+  };
+  /** Price a pickup without booking it. */
+  pickupRate: { request: PickupRequest; response: PickupRate };
+  /** Find drop-off and hold-at-location points, nearest first. */
+  locationSearch: {
+    request: LocationSearchRequest;
+    response: CarrierLocation[];
+  };
+}
+
+export type OperationName = keyof CarrierOperationTypes;
+
+export type OperationRequest<K extends OperationName> =
+  CarrierOperationTypes[K]["request"];
+
+export type OperationResponse<K extends OperationName> =
+  CarrierOperationTypes[K]["response"];
+
+/** One implementation per operation name. */
+export type CarrierOperations = {
+  [K in OperationName]: CarrierOperation<
+    OperationRequest<K>,
+    OperationResponse<K>
+  >;
+};
+
+/**
+ * The operations a carrier declares. Every carrier rates; any other operation
+ * it leaves out is unsupported.
+ */
+export type SupportedOperations = Partial<CarrierOperations> &
+  Pick<CarrierOperations, "rating">;
+
+/** A service a carrier sells, under the code callers pass as `serviceCode`. */
+export interface CarrierService {
+  code: string;
+  name: string;
+}
+
+/**
+ * What a carrier can carry and from where. Limits apply per package and are
+ * the largest any of the carrier's services accepts, so a request within them
+ * may still be refused for a particular service.
+ */
+export interface CarrierCapabilities {
+  /** Countries shipments may start from. Omitted when shipping worldwide. */
+  originCountries?: readonly string[];
+  maxWeight: PackageWeight;
+  /** Longest side, and length plus girth (twice the two shorter sides). */
+  maxDimensions: {
+    length?: number;
+    lengthPlusGirth?: number;
+    unit: DimensionUnit;
+  };
+  /**
+   * Carriers that ignore packaging and rate every package as the shipper's
+   * own box list only `CUSTOM`.
+   */
+  packagingTypes: readonly PackagingType[];
+  /** Whether dangerous goods and dry ice are declared to the carrier. */
+  acceptsDangerousGoods: boolean;
+  /**
+   * Whether package and shipment service options (signature, COD, Saturday
+   * delivery, ...) are priced. Carriers that would drop them say no.
+   */
+  acceptsServiceOptions: boolean;
+  /** Whether packages can be held at a carrier location for collection. */
+  acceptsHoldAtLocation: boolean;
+  services: readonly CarrierService[];
+}
+
+/** A registered carrier as reported by `CarrierRegistry.describe`. */
+export interface CarrierDescription {
+  carrier: CarrierName;
+  operations: OperationName[];
+  /** Absent when the carrier declares none. */
+  capabilities?: CarrierCapabilities;
+}
+
+/**
+ * The main carrier client interface. A carrier is a name plus the operations
+ * it supports; callers dispatch by operation name rather than by method.
  */
 export interface CarrierClient {
   readonly name: CarrierName;
-  getRates(request: RateRequest): Promise<RateResponse>;
+  readonly operations: SupportedOperations;
+  /** Carriers that declare no capabilities are always tried when shopping. */
+  readonly capabilities?: CarrierCapabilities;
 }
 
 /**
@@ -59,4 +190,23 @@ export class CarrierRegistry {
   has(name: CarrierName): boolean {
     return this.carriers.has(name);
   }
+
+  /** The operations and capabilities of a registered carrier. */
+  describe(name: CarrierName): CarrierDescription | undefined {
+    const carrier = this.carriers.get(name);
+    return carrier && describeCarrier(carrier);
+  }
+
+  describeAll(): CarrierDescription[] {
+    return this.getAll().map(describeCarrier);
+  }
+}
+
+function describeCarrier(carrier: CarrierClient): CarrierDescription {
+  const operations = Object.keys(carrier.operations) as OperationName[];
+  return {
+    carrier: carrier.name,
+    operations,
+    capabilities: carrier.capabilities,
+  };
 }
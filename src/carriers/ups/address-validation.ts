@@ -0,0 +1,80 @@
+import type { UpsConfig } from "../../config/index.js";
+import { CarrierError, CarrierErrorCode } from "../../domain/errors.js";
+import type {
+  AddressValidationRequest,
+  AddressValidationResult,
+} from "../../domain/models.js";
+import { HttpClient } from "../../http/client.js";
+import type {
+  CarrierAuthenticator,
+  CarrierOperation,
+  OperationContext,
+} from "../types.js";
+import {
+  buildUpsAddressValidationRequest,
+  mapUpsAddressValidationResponse,
+} from "./mapper.js";
+import { sendUpsRequest, upsRequestLimiter } from "./request.js";
+import type { UpsAddressValidationResponseWrapper } from "./types.js";
+
+/** The Address Validation API is versioned separately from Rating. */
+const UPS_ADDRESS_VALIDATION_API_VERSION = "v2";
+
+/** Request option 3: validate the address and classify it in one call. */
+const UPS_VALIDATE_AND_CLASSIFY = "3";
+
+/** Street-level validation only covers these countries. */
+const UPS_ADDRESS_VALIDATION_COUNTRIES = new Set(["US", "PR"]);
+
+/**
+ * UPS Address Validation (Street Level) operation — deliverability verdict,
+ * normalized candidates, and residential/commercial classification.
+ */
+export class UpsAddressValidationOperation
+  implements
+    CarrierOperation<AddressValidationRequest, AddressValidationResult>
+{
+  private httpClient: HttpClient;
+
+  constructor(
+    config: UpsConfig,
+    private auth: CarrierAuthenticator,
+  ) {
+    this.httpClient = new HttpClient({
+      baseURL: config.baseUrl,
+      timeoutMs: config.timeoutMs,
+      limiter: upsRequestLimiter(config),
+    });
+  }
+
+  async execute(
+    request: AddressValidationRequest,
+    context?: OperationContext,
+  ): Promise<AddressValidationResult> {
+    const { address } = request;
+    if (!UPS_ADDRESS_VALIDATION_COUNTRIES.has(address.countryCode)) {
+      throw new CarrierError(
+        CarrierErrorCode.VALIDATION_ERROR,
+        `UPS address validation does not cover country ${address.countryCode}`,
+        { carrier: "UPS", retryable: false },
+      );
+    }
+
+    const url =
+      `/addressvalidation/${UPS_ADDRESS_VALIDATION_API_VERSION}/` +
+      `${UPS_VALIDATE_AND_CLASSIFY}?maximumcandidatelistsize=5`;
+    const data = await sendUpsRequest<UpsAddressValidationResponseWrapper>(
+      this.httpClient,
+      this.auth,
+      {
+        method: "POST",
+        url,
+        data: buildUpsAddressValidationRequest(address),
+        operation: "address validation",
+        signal: context?.signal,
+      },
+    );
+
+    return mapUpsAddressValidationResponse(data, address);
+  }
+}
@@ -1,6 +1,6 @@
 import type { UpsConfig } from "../../config/index.js";
 import { CarrierError, CarrierErrorCode } from "../../domain/errors.js";
-import { HttpClient } from "../../http/client.js";
+import { HttpClient, abortable } from "../../http/client.js";
 import type { CarrierAuthenticator } from "../types.js";
 
 interface OAuthTokenResponse {
@@ -30,24 +30,27 @@ export class UpsAuthenticator implements CarrierAuthenticator {
   private httpClient: HttpClient;
 
   constructor(private config: UpsConfig) {
-    this.httpClient = new HttpClient({ timeoutMs: 10_000 });
+    this.httpClient = new HttpClient({ timeoutMs: config.timeoutMs });
   }
 
-  async getAccessToken(): Promise<string> {
+  async getAccessToken(signal?: AbortSignal): Promise<string> {
     if (this.cache && Date.now() < this.cache.expiresAt) {
       return this.cache.accessToken;
     }
 
-    // Dedup concurrent refresh attempts
-    if (this.pendingRefresh) {
-      return this.pendingRefresh;
+    // Dedup concurrent refresh attempts. The shared fetch is bounded only by
+    // the configured timeout; a caller whose signal aborts stops waiting on
+    // it without failing it for the others.
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.fetchToken().finally(() => {
+        this.pendingRefresh = null;
+      });
     }
-
-    this.pendingRefresh = this.fetchToken();
     try {
-      return await this.pendingRefresh;
-    } finally {
-      this.pendingRefresh = null;
+      return await abortable(this.pendingRefresh, signal);
+    } catch (error) {
+      if (error instanceof CarrierError) error.details.carrier = "UPS";
+      throw error;
     }
   }
 
@@ -94,6 +97,7 @@ export class UpsAuthenticator implements CarrierAuthenticator {
         error instanceof CarrierError &&
         error.code === CarrierErrorCode.AUTHENTICATION_ERROR
       ) {
+        error.details.carrier = "UPS";
         throw error;
       }
 
@@ -1,44 +1,185 @@
 import type { UpsConfig } from "../../config/index.js";
-import type { RateRequest, RateResponse } from "../../domain/models.js";
-import { RateRequestSchema } from "../../validation/schemas.js";
-import { CarrierError, CarrierErrorCode } from "../../domain/errors.js";
-import type { CarrierClient } from "../types.js";
+import type {
+  AddressValidationRequest,
+  AddressValidationResult,
+  CancelPickupRequest,
+  CancelPickupResponse,
+  CarrierLocation,
+  LocationSearchRequest,
+  PickupConfirmation,
+  PickupRate,
+  PickupRequest,
+  RateRequest,
+  RateResponse,
+  ShipmentRequest,
+  ShipmentResponse,
+  TrackingRequest,
+  TrackingResult,
+  VoidShipmentRequest,
+  VoidShipmentResponse,
+} from "../../domain/models.js";
+import {
+  AddressValidationRequestSchema,
+  CancelPickupRequestSchema,
+  LocationSearchRequestSchema,
+  PickupRequestSchema,
+  RateRequestSchema,
+  ShipmentRequestSchema,
+  TrackingRequestSchema,
+  VoidShipmentRequestSchema,
+} from "../../validation/schemas.js";
+import type {
+  CarrierClient,
+  CarrierOperations,
+  OperationContext,
+} from "../types.js";
+import { ValidatedOperation } from "../validated-operation.js";
+import { UpsAddressValidationOperation } from "./address-validation.js";
 import { UpsAuthenticator } from "./auth.js";
+import { UpsLocatorOperation } from "./locator.js";
+import { UPS_CAPABILITIES } from "./mapper.js";
+import {
+  UpsPickupCancelOperation,
+  UpsPickupCreateOperation,
+  UpsPickupRateOperation,
+} from "./pickup.js";
 import { UpsRatingOperation } from "./rating.js";
-import type { ZodError } from "zod";
-
-function formatZodError(error: ZodError): string {
-  return error.issues
-    .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
-    .join("; ");
-}
+import { UpsShipOperation } from "./shipping.js";
+import { UpsTrackingOperation } from "./tracking.js";
+import { UpsVoidOperation } from "./void.js";
 
 /**
  * UPS carrier client — the public entry point for all UPS operations.
  *
- * Currently supports rating; additional operations (label purchase,
- * tracking, address validation) can be added as new operation classes
- * without modifying this client's constructor or getRates logic.
+ * Each API call lives in its own operation class sharing a single
+ * authenticator, so the token cache is reused across every UPS API. The
+ * methods below are typed shortcuts for `operations`.
  */
 export class UpsCarrierClient implements CarrierClient {
   readonly name = "UPS" as const;
-  private ratingOperation: UpsRatingOperation;
+  readonly capabilities = UPS_CAPABILITIES;
+  readonly operations: CarrierOperations;
 
   constructor(config: UpsConfig) {
     const auth = new UpsAuthenticator(config);
-    this.ratingOperation = new UpsRatingOperation(config, auth);
+    this.operations = {
+      rating: new ValidatedOperation(
+        new UpsRatingOperation(config, auth),
+        RateRequestSchema,
+        this.name,
+        "rate request",
+      ),
+      shipping: new ValidatedOperation(
+        new UpsShipOperation(config, auth),
+        ShipmentRequestSchema,
+        this.name,
+        "shipment request",
+      ),
+      void: new ValidatedOperation(
+        new UpsVoidOperation(config, auth),
+        VoidShipmentRequestSchema,
+        this.name,
+        "void request",
+      ),
+      tracking: new ValidatedOperation(
+        new UpsTrackingOperation(config, auth),
+        TrackingRequestSchema,
+        this.name,
+        "tracking request",
+      ),
+      addressValidation: new ValidatedOperation(
+        new UpsAddressValidationOperation(config, auth),
+        AddressValidationRequestSchema,
+        this.name,
+        "address validation request",
+      ),
+      pickup: new ValidatedOperation(
+        new UpsPickupCreateOperation(config, auth),
+        PickupRequestSchema,
+        this.name,
+        "pickup request",
+      ),
+      pickupCancel: new ValidatedOperation(
+        new UpsPickupCancelOperation(config, auth),
+        CancelPickupRequestSchema,
+        this.name,
+        "pickup cancellation",
+      ),
+      pickupRate: new ValidatedOperation(
+        new UpsPickupRateOperation(config, auth),
+        PickupRequestSchema,
+        this.name,
+        "pickup request",
+      ),
+      locationSearch: new ValidatedOperation(
+        new UpsLocatorOperation(config, auth),
+        LocationSearchRequestSchema,
+        this.name,
+        "location search",
+      ),
+    };
   }
 
-  async getRates(request: RateRequest): Promise<RateResponse> {
-    const validation = RateRequestSchema.safeParse(request);
-    if (!validation.success) {
-      throw new CarrierError(
-        CarrierErrorCode.VALIDATION_ERROR,
-        `Invalid rate request: ${formatZodError(validation.error)}`,
-        { carrier: "UPS", retryable: false },
-      );
-    }
+  async getRates(
+    request: RateRequest,
+    context?: OperationContext,
+  ): Promise<RateResponse> {
+    return this.operations.rating.execute(request, context);
+  }
+
+  async createShipment(
+    request: ShipmentRequest,
+    context?: OperationContext,
+  ): Promise<ShipmentResponse> {
+    return this.operations.shipping.execute(request, context);
+  }
+
+  async voidShipment(
+    request: VoidShipmentRequest,
+    context?: OperationContext,
+  ): Promise<VoidShipmentResponse> {
+    return this.operations.void.execute(request, context);
+  }
+
+  async trackShipment(
+    request: TrackingRequest,
+    context?: OperationContext,
+  ): Promise<TrackingResult> {
+    return this.operations.tracking.execute(request, context);
+  }
+
+  async validateAddress(
+    request: AddressValidationRequest,
+    context?: OperationContext,
+  ): Promise<AddressValidationResult> {
+    return this.operations.addressValidation.execute(request, context);
+  }
+
+  async createPickup(
+    request: PickupRequest,
+    context?: OperationContext,
+  ): Promise<PickupConfirmation> {
+    return this.operations.pickup.execute(request, context);
+  }
+
+  async cancelPickup(
+    request: CancelPickupRequest,
+    context?: OperationContext,
+  ): Promise<CancelPickupResponse> {
+    return this.operations.pickupCancel.execute(request, context);
+  }
+
+  async getPickupRate(
+    request: PickupRequest,
+    context?: OperationContext,
+  ): Promise<PickupRate> {
+    return this.operations.pickupRate.execute(request, context);
+  }
 
-    return this.ratingOperation.execute(request);
+  async searchLocations(
+    request: LocationSearchRequest,
+    context?: OperationContext,
+  ): Promise<CarrierLocation[]> {
+    return this.operations.locationSearch.execute(request, context);
   }
 }
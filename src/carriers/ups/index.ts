@@ -1,5 +1,16 @@
 export { UpsCarrierClient } from "./client.js";
 export { UpsAuthenticator } from "./auth.js";
 export { UpsRatingOperation } from "./rating.js";
+export { UpsLandedCostOperation } from "./landed-cost.js";
+export { UpsShipOperation } from "./shipping.js";
+export { UpsVoidOperation } from "./void.js";
+export { UpsTrackingOperation } from "./tracking.js";
+export { UpsAddressValidationOperation } from "./address-validation.js";
+export {
+  UpsPickupCreateOperation,
+  UpsPickupCancelOperation,
+  UpsPickupRateOperation,
+} from "./pickup.js";
+export { UpsLocatorOperation } from "./locator.js";
 export * from "./types.js";
 export * from "./mapper.js";
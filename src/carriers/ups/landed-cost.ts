@@ -0,0 +1,63 @@
+import type { UpsConfig } from "../../config/index.js";
+import type { RateRequest } from "../../domain/models.js";
+import { resolveShipDate } from "../../domain/ship-date.js";
+import { HttpClient } from "../../http/client.js";
+import type {
+  CarrierAuthenticator,
+  CarrierOperation,
+  OperationContext,
+} from "../types.js";
+import {
+  type UpsLandedCostEstimate,
+  buildUpsLandedCostRequest,
+  mapUpsLandedCostResponse,
+} from "./mapper.js";
+import { sendUpsRequest, upsRequestLimiter } from "./request.js";
+import type { UpsLandedCostResponse } from "./types.js";
+
+/** The Landed Cost API is versioned separately from Rating. */
+const UPS_LANDED_COST_API_VERSION = "v1";
+
+/**
+ * UPS Landed Cost operation — estimates import duties and taxes from the
+ * customs commodities of a cross-border rate request.
+ */
+export class UpsLandedCostOperation
+  implements CarrierOperation<RateRequest, UpsLandedCostEstimate>
+{
+  private httpClient: HttpClient;
+
+  constructor(
+    config: UpsConfig,
+    private auth: CarrierAuthenticator,
+  ) {
+    this.httpClient = new HttpClient({
+      baseURL: config.baseUrl,
+      timeoutMs: config.timeoutMs,
+      limiter: upsRequestLimiter(config),
+    });
+  }
+
+  async execute(
+    request: RateRequest,
+    context?: OperationContext,
+  ): Promise<UpsLandedCostEstimate> {
+    const data = await sendUpsRequest<UpsLandedCostResponse>(
+      this.httpClient,
+      this.auth,
+      {
+        method: "POST",
+        url: `/landedcost/${UPS_LANDED_COST_API_VERSION}/quotes`,
+        data: buildUpsLandedCostRequest(
+          request,
+          resolveShipDate(request.shipDate),
+          crypto.randomUUID(),
+        ),
+        operation: "landed cost",
+        signal: context?.signal,
+      },
+    );
+
+    return mapUpsLandedCostResponse(data);
+  }
+}
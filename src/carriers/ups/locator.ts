@@ -0,0 +1,64 @@
+import type { UpsConfig } from "../../config/index.js";
+import type {
+  CarrierLocation,
+  LocationSearchRequest,
+} from "../../domain/models.js";
+import { HttpClient } from "../../http/client.js";
+import type {
+  CarrierAuthenticator,
+  CarrierOperation,
+  OperationContext,
+} from "../types.js";
+import { buildUpsLocatorRequest, mapUpsLocatorResponse } from "./mapper.js";
+import { sendUpsRequest, upsRequestLimiter } from "./request.js";
+import type { UpsLocatorResponseWrapper } from "./types.js";
+
+/** The Locator API is versioned separately from Rating. */
+const UPS_LOCATOR_API_VERSION = "v3";
+
+/**
+ * UPS Locator operation — finds Access Points, UPS Stores and drop boxes
+ * near an address or point, nearest first.
+ */
+export class UpsLocatorOperation
+  implements CarrierOperation<LocationSearchRequest, CarrierLocation[]>
+{
+  private httpClient: HttpClient;
+
+  constructor(
+    config: UpsConfig,
+    private auth: CarrierAuthenticator,
+  ) {
+    this.httpClient = new HttpClient({
+      baseURL: config.baseUrl,
+      timeoutMs: config.timeoutMs,
+      limiter: upsRequestLimiter(config),
+    });
+  }
+
+  async execute(
+    request: LocationSearchRequest,
+    context?: OperationContext,
+  ): Promise<CarrierLocation[]> {
+    const body = buildUpsLocatorRequest(request);
+    // The request option is repeated in the path and must match the body
+    const option = body.LocatorRequest.Request.RequestOption;
+    const url =
+      `/locations/${UPS_LOCATOR_API_VERSION}/search/availabilities/` +
+      option;
+
+    const data = await sendUpsRequest<UpsLocatorResponseWrapper>(
+      this.httpClient,
+      this.auth,
+      {
+        method: "POST",
+        url,
+        data: body,
+        operation: "location search",
+        signal: context?.signal,
+      },
+    );
+
+    return mapUpsLocatorResponse(data);
+  }
+}
@@ -7,20 +7,92 @@
 
 import type {
   Address,
+  AddressCandidate,
+  AddressClassification,
+  AddressValidationResult,
+  CarrierLocation,
+  CustomsDetails,
+  DangerousGoodsItem,
+  DangerousGoodsRegulatedLevel,
   Dimensions,
+  DryIce,
+  HoldAtLocation,
+  LabelFormat,
+  LocationSearchRequest,
+  LocationType,
+  MonetaryAmount,
+  OpeningHours,
   Package,
+  PackageRateDetail,
+  PackageServiceOptions,
   PackageWeight,
+  PackagingType,
+  PickupRate,
+  PickupRequest,
   RateQuote,
   RateRequest,
+  ShipmentRequest,
+  ShipmentResponse,
+  ShippedPackage,
+  SignatureRequirement,
+  Surcharge,
+  TrackingEvent,
+  TrackingResult,
+  VoidedPackage,
+  VoidShipmentRequest,
+  VoidShipmentResponse,
+  Weekday,
   WeightUnit,
 } from "../../domain/models.js";
+import { SurchargeType, TrackingStatus } from "../../domain/models.js";
+import { invoiceTotal, isCrossBorder } from "../../domain/customs.js";
+import {
+  hasDangerousGoodsItems,
+  hasStandaloneLithiumBatteries,
+  regulatedLevel,
+} from "../../domain/dangerous-goods.js";
+import {
+  addBusinessDays,
+  formatLocalDate,
+  resolveShipDate,
+} from "../../domain/ship-date.js";
 import { CarrierError, CarrierErrorCode } from "../../domain/errors.js";
+import type { CarrierCapabilities } from "../types.js";
 import type {
   UpsAddress,
+  UpsAlternateDeliveryAddress,
+  UpsAddressCandidate,
+  UpsAddressClassification,
+  UpsAddressValidationRequestWrapper,
+  UpsAddressValidationResponseWrapper,
+  UpsDropLocation,
+  UpsHazMatChemicalRecord,
+  UpsInternationalForms,
+  UpsItemizedCharge,
+  UpsLandedCostRequest,
+  UpsLandedCostResponse,
+  UpsLocatorRequestWrapper,
+  UpsLocatorResponseWrapper,
   UpsPackage,
+  UpsPackageResult,
+  UpsPackageServiceOptions,
+  UpsPhone,
+  UpsPickupAddress,
+  UpsPickupCreationRequestWrapper,
+  UpsPickupDateInfo,
+  UpsPickupRateRequestWrapper,
+  UpsPickupRateResult,
+  UpsRatedPackage,
   UpsRatedShipment,
   UpsRateRequestWrapper,
+  UpsRegulationSet,
+  UpsShipmentRequestWrapper,
+  UpsShipmentResults,
   UpsShipToAddress,
+  UpsTrackActivity,
+  UpsTrackPackage,
+  UpsVoidPackageResult,
+  UpsVoidShipmentResponseWrapper,
 } from "./types.js";
 import { UPS_SERVICE_CODES } from "./types.js";
 
@@ -37,6 +109,23 @@ const DIMENSION_UNIT_TO_UPS: Record<string, string> = {
   CM: "CM",
 };
 
+const PACKAGING_TYPE_TO_UPS: Record<
+  PackagingType,
+  { Code: string; Description: string }
+> = {
+  CUSTOM: { Code: "02", Description: "Customer Supplied Package" },
+  ENVELOPE: { Code: "01", Description: "UPS Letter" },
+  TUBE: { Code: "03", Description: "Tube" },
+  PAK: { Code: "04", Description: "PAK" },
+  EXPRESS_BOX: { Code: "21", Description: "UPS Express Box" },
+  BOX_25KG: { Code: "24", Description: "UPS 25KG Box" },
+  BOX_10KG: { Code: "25", Description: "UPS 10KG Box" },
+  PALLET: { Code: "30", Description: "Pallet" },
+  SMALL_EXPRESS_BOX: { Code: "2a", Description: "Small Express Box" },
+  MEDIUM_EXPRESS_BOX: { Code: "2b", Description: "Medium Express Box" },
+  LARGE_EXPRESS_BOX: { Code: "2c", Description: "Large Express Box" },
+};
+
 function mapAddressToUps(addr: Address): UpsAddress {
   return {
     AddressLine: addr.addressLines,
@@ -47,6 +136,10 @@ function mapAddressToUps(addr: Address): UpsAddress {
   };
 }
 
+function mapPhoneToUps(addr: Address): UpsPhone | undefined {
+  return addr.phone ? { Number: addr.phone } : undefined;
+}
+
 function mapAddressToUpsShipTo(addr: Address): UpsShipToAddress {
   return {
     ...mapAddressToUps(addr),
@@ -76,23 +169,206 @@ function mapWeightToUps(weight: PackageWeight) {
   };
 }
 
-function mapPackageToUps(pkg: Package): UpsPackage {
+const SIGNATURE_TO_UPS_DCIS_TYPE: Record<SignatureRequirement, string> = {
+  SIGNATURE: "2",
+  ADULT_SIGNATURE: "3",
+};
+
+function mapMoneyToUps(money: MonetaryAmount) {
+  return {
+    CurrencyCode: money.currency,
+    MonetaryValue: money.amount.toFixed(2),
+  };
+}
+
+/** Services that move by road; every other UPS service flies. */
+const UPS_GROUND_SERVICES = new Set(["03", "11"]);
+
+/**
+ * Services that refuse fully regulated dangerous goods: UPS Next Day Air
+ * Early and UPS Worldwide Express Plus. Dry ice is accepted on every service.
+ */
+const UPS_DANGEROUS_GOODS_EXCLUDED_SERVICES = new Set(["14", "54"]);
+
+const DRY_ICE_WEIGHT_UNIT_TO_UPS: Record<string, string> = {
+  KG: "00",
+  LB: "01",
+};
+
+const REGULATED_LEVEL_TO_UPS: Record<DangerousGoodsRegulatedLevel, string> = {
+  FULLY_REGULATED: "FR",
+  LIGHTLY_REGULATED: "LR",
+  LIMITED_QUANTITY: "LQ",
+  EXCEPTED_QUANTITY: "EQ",
+};
+
+interface UpsHazMatRegulation {
+  regulationSet: UpsRegulationSet;
+  transportationMode: string;
+}
+
+/**
+ * US domestic shipments follow DOT rules, everything else IATA. When
+ * shopping there is no service yet, so goods are declared for cargo
+ * aircraft, which every UPS air service can use.
+ */
+function upsHazMatRegulation(request: RateRequest): UpsHazMatRegulation {
+  const domestic =
+    request.origin.countryCode === "US" &&
+    request.destination.countryCode === "US";
+  const ground =
+    !!request.serviceCode && UPS_GROUND_SERVICES.has(request.serviceCode);
+  return {
+    regulationSet: domestic ? "CFR" : "IATA",
+    transportationMode: ground ? "Ground" : "CAO",
+  };
+}
+
+function assertUpsServiceAcceptsDangerousGoods(request: RateRequest): void {
+  const { serviceCode } = request;
+  if (
+    serviceCode &&
+    UPS_DANGEROUS_GOODS_EXCLUDED_SERVICES.has(serviceCode) &&
+    hasDangerousGoodsItems(request.packages)
+  ) {
+    throw new CarrierError(
+      CarrierErrorCode.VALIDATION_ERROR,
+      `${UPS_SERVICE_CODES[serviceCode]} does not accept dangerous goods`,
+      { carrier: "UPS", retryable: false },
+    );
+  }
+}
+
+function mapDangerousGoodsItemToUps(
+  item: DangerousGoodsItem,
+  index: number,
+  regulation: UpsHazMatRegulation,
+): UpsHazMatChemicalRecord {
+  return {
+    ChemicalRecordIdentifier: (index + 1).toString(),
+    IDNumber: item.unNumber,
+    ClassDivisionNumber: item.hazardClass,
+    ProperShippingName: item.properShippingName,
+    Quantity: item.quantity.value.toString(),
+    UOM: item.quantity.unit,
+    PackagingGroupType: item.packingGroup,
+    PackagingInstructionCode: item.packingInstruction,
+    RegulationSet: regulation.regulationSet,
+    TransportationMode: regulation.transportationMode,
+    CommodityRegulatedLevelCode: REGULATED_LEVEL_TO_UPS[regulatedLevel(item)],
+  };
+}
+
+function mapDryIceToUps(
+  dryIce: DryIce,
+  regulation: UpsHazMatRegulation,
+): UpsPackageServiceOptions["DryIce"] {
   return {
-    PackagingType: {
-      Code: "02",
-      Description: "Customer Supplied Package",
+    RegulationSet: regulation.regulationSet,
+    DryIceWeight: {
+      UnitOfMeasurement: {
+        Code: DRY_ICE_WEIGHT_UNIT_TO_UPS[dryIce.weight.unit],
+      },
+      Weight: dryIce.weight.value.toString(),
     },
+    MedicalUseIndicator: dryIce.medicalUse ? "" : undefined,
+  };
+}
+
+function mapPackageServiceOptionsToUps(
+  pkg: Package,
+  regulation: UpsHazMatRegulation,
+): UpsPackageServiceOptions | undefined {
+  const options: PackageServiceOptions = pkg.serviceOptions ?? {};
+  const items = pkg.dangerousGoods?.items ?? [];
+  const dryIce = pkg.dangerousGoods?.dryIce;
+  const upsOptions: UpsPackageServiceOptions = {
+    DeliveryConfirmation: options.signature
+      ? { DCISType: SIGNATURE_TO_UPS_DCIS_TYPE[options.signature] }
+      : undefined,
+    DeclaredValue: options.declaredValue
+      ? {
+          Type: { Code: "01", Description: "EVS" },
+          ...mapMoneyToUps(options.declaredValue),
+        }
+      : undefined,
+    COD: options.codAmount
+      ? { CODFundsCode: "0", CODAmount: mapMoneyToUps(options.codAmount) }
+      : undefined,
+    HazMat:
+      items.length > 0
+        ? {
+            HazMatChemicalRecord: items.map((item, index) =>
+              mapDangerousGoodsItemToUps(item, index, regulation),
+            ),
+          }
+        : undefined,
+    DryIce: dryIce ? mapDryIceToUps(dryIce, regulation) : undefined,
+  };
+
+  const hasAny = Object.values(upsOptions).some((v) => v !== undefined);
+  return hasAny ? upsOptions : undefined;
+}
+
+function mapPackageToUps(
+  pkg: Package,
+  regulation: UpsHazMatRegulation,
+): UpsPackage {
+  return {
+    PackagingType: PACKAGING_TYPE_TO_UPS[pkg.packagingType ?? "CUSTOM"],
     Dimensions: pkg.dimensions
       ? mapDimensionsToUps(pkg.dimensions)
       : undefined,
     PackageWeight: mapWeightToUps(pkg.weight),
+    AdditionalHandlingIndicator: pkg.serviceOptions?.additionalHandling
+      ? ""
+      : undefined,
+    PackageServiceOptions: mapPackageServiceOptionsToUps(pkg, regulation),
+  };
+}
+
+/** Bill transportation to the shipper, plus duties and taxes under DDP. */
+function mapPaymentDetailsToUps(request: RateRequest, accountNumber: string) {
+  const billShipper = { AccountNumber: accountNumber };
+  return {
+    ShipmentCharge: [
+      { Type: "01", BillShipper: billShipper },
+      ...(request.customs?.incoterm === "DDP"
+        ? [{ Type: "02", BillShipper: billShipper }]
+        : []),
+    ],
+  };
+}
+
+/** Hold at the access point for the recipient to collect. */
+const UPS_HOLD_FOR_PICKUP_AT_ACCESS_POINT = { Code: "01" };
+
+function mapHoldAtLocationToUps(
+  location: HoldAtLocation,
+): UpsAlternateDeliveryAddress {
+  if (location.carrier !== "UPS") {
+    throw new CarrierError(
+      CarrierErrorCode.VALIDATION_ERROR,
+      `UPS cannot deliver to a ${location.carrier} location`,
+      { carrier: "UPS", retryable: false },
+    );
+  }
+
+  return {
+    Name: location.address.name ?? "UPS Access Point",
+    UPSAccessPointID: location.id,
+    Address: mapAddressToUps(location.address),
   };
 }
 
 export function buildUpsRateRequest(
   request: RateRequest,
 ): UpsRateRequestWrapper {
-  const packages = request.packages.map(mapPackageToUps);
+  assertUpsServiceAcceptsDangerousGoods(request);
+  const regulation = upsHazMatRegulation(request);
+  const packages = request.packages.map((pkg) =>
+    mapPackageToUps(pkg, regulation),
+  );
 
   return {
     RateRequest: {
@@ -120,18 +396,240 @@ export function buildUpsRateRequest(
           : undefined,
         Package: packages.length === 1 ? packages[0] : packages,
         PaymentDetails: request.shipperAccountNumber
+          ? mapPaymentDetailsToUps(request, request.shipperAccountNumber)
+          : undefined,
+        InvoiceLineTotal: request.customs
+          ? mapMoneyToUps(invoiceTotal(request.customs))
+          : undefined,
+        ShipmentRatingOptions: request.shipperAccountNumber
+          ? { NegotiatedRatesIndicator: "" }
+          : undefined,
+        ItemizedChargesRequestedIndicator: "",
+        ShipmentServiceOptions: request.serviceOptions?.saturdayDelivery
+          ? { SaturdayDeliveryIndicator: "" }
+          : undefined,
+        AlternateDeliveryAddress: request.holdAtLocation
+          ? mapHoldAtLocationToUps(request.holdAtLocation)
+          : undefined,
+        ShipmentIndicationType: request.holdAtLocation
+          ? UPS_HOLD_FOR_PICKUP_AT_ACCESS_POINT
+          : undefined,
+        DeliveryTimeInformation: {
+          PackageBillType: "03",
+          Pickup: request.shipDate
+            ? { Date: request.shipDate.replaceAll("-", "") }
+            : undefined,
+        },
+        NumOfPieces: packages.length > 1 ? packages.length.toString() : undefined,
+      },
+    },
+  };
+}
+
+// ─── Domain ↔ UPS (Landed Cost API) ───
+
+/** The duty and tax fields of a quote, estimated independently of service. */
+export type UpsLandedCostEstimate = Pick<
+  RateQuote,
+  "estimatedDuties" | "estimatedTaxes"
+>;
+
+/**
+ * Goods on a ground service cross the border by truck. When shopping there is
+ * no service yet, so the estimate assumes air, as most cross-border services
+ * fly.
+ */
+function upsLandedCostTransMode(request: RateRequest): string {
+  return request.serviceCode && UPS_GROUND_SERVICES.has(request.serviceCode)
+    ? "INT_TRUCK"
+    : "INT_AIR";
+}
+
+export function buildUpsLandedCostRequest(
+  request: RateRequest,
+  shipDate: string,
+  transId: string,
+): UpsLandedCostRequest {
+  const customs = request.customs;
+  if (!customs) {
+    throw new CarrierError(
+      CarrierErrorCode.VALIDATION_ERROR,
+      "Customs details are required to estimate duties and taxes",
+      { carrier: "UPS", retryable: false },
+    );
+  }
+
+  return {
+    currencyCode: invoiceTotal(customs).currency,
+    transID: transId,
+    allowPartialLandedCostResult: false,
+    alversion: 1,
+    shipment: {
+      id: transId,
+      importCountryCode: request.destination.countryCode,
+      importProvince: request.destination.stateProvinceCode,
+      exportCountryCode: request.origin.countryCode,
+      shipDate,
+      transModes: upsLandedCostTransMode(request),
+      shipmentType: "Sale",
+      shipmentItems: customs.commodities.map((line, index) => ({
+        commodityId: (index + 1).toString(),
+        priceEach: line.unitValue.amount,
+        commodityCurrencyCode: line.unitValue.currency,
+        quantity: line.quantity,
+        UOM: "Each",
+        hsCode: line.hsCode,
+        description: line.description,
+        originCountryCode: line.countryOfOrigin,
+      })),
+    },
+  };
+}
+
+export function mapUpsLandedCostResponse(
+  data: UpsLandedCostResponse,
+): UpsLandedCostEstimate {
+  const shipment = data?.shipment;
+  if (!shipment) {
+    throw new CarrierError(
+      CarrierErrorCode.PARSE_ERROR,
+      "UPS landed cost response missing shipment",
+      { carrier: "UPS" },
+    );
+  }
+
+  const taxes =
+    shipment.totalVAT +
+    shipment.totalCommodityLevelTaxesAndFees +
+    shipment.totalShipmentLevelTaxesAndFees;
+
+  return {
+    estimatedDuties: {
+      currency: shipment.currencyCode,
+      amount: Math.round(shipment.totalDuties * 100) / 100,
+    },
+    estimatedTaxes: {
+      currency: shipment.currencyCode,
+      amount: Math.round(taxes * 100) / 100,
+    },
+  };
+}
+
+// ─── Domain → UPS (Ship API) ───
+
+const LABEL_FORMAT_TO_UPS: Record<LabelFormat, string> = {
+  GIF: "GIF",
+  ZPL: "ZPL",
+};
+
+/** UPS prints GIF labels unless told otherwise. */
+const DEFAULT_UPS_LABEL_FORMAT: LabelFormat = "GIF";
+
+/** Commercial invoice, the form every dutiable shipment needs. */
+const UPS_COMMERCIAL_INVOICE = "01";
+
+/**
+ * The commercial invoice for a cross-border shipment, dated the day it ships
+ * and addressed to the recipient as buyer.
+ */
+function mapInternationalFormsToUps(
+  request: ShipmentRequest,
+  customs: CustomsDetails,
+): UpsInternationalForms {
+  return {
+    FormType: UPS_COMMERCIAL_INVOICE,
+    InvoiceDate: resolveShipDate(request.shipDate).replaceAll("-", ""),
+    ReasonForExport: "SALE",
+    CurrencyCode: invoiceTotal(customs).currency,
+    TermsOfShipment: customs.incoterm,
+    Contacts: {
+      SoldTo: {
+        Name: request.destination.name ?? "Recipient",
+        Phone: mapPhoneToUps(request.destination),
+        Address: mapAddressToUps(request.destination),
+      },
+    },
+    Product: customs.commodities.map((line) => ({
+      Description: line.description,
+      CommodityCode: line.hsCode,
+      OriginCountryCode: line.countryOfOrigin,
+      Unit: {
+        Number: line.quantity.toString(),
+        Value: line.unitValue.amount.toFixed(2),
+        UnitOfMeasurement: { Code: "PCS" },
+      },
+    })),
+  };
+}
+
+export function buildUpsShipmentRequest(
+  request: ShipmentRequest,
+  accountNumber: string,
+): UpsShipmentRequestWrapper {
+  const labelFormat = request.labelFormat ?? DEFAULT_UPS_LABEL_FORMAT;
+  const saturdayDelivery = request.serviceOptions?.saturdayDelivery;
+  const internationalForms =
+    request.customs && isCrossBorder(request.origin, request.destination)
+      ? mapInternationalFormsToUps(request, request.customs)
+      : undefined;
+
+  assertUpsServiceAcceptsDangerousGoods(request);
+  const regulation = upsHazMatRegulation(request);
+  const references = request.references?.map((value) => ({ Value: value }));
+  const packages = request.packages.map((pkg) => {
+    const { PackagingType, ...rest } = mapPackageToUps(pkg, regulation);
+    return { ...rest, Packaging: PackagingType, ReferenceNumber: references };
+  });
+
+  return {
+    ShipmentRequest: {
+      Request: {
+        RequestOption: "nonvalidate",
+        TransactionReference: {
+          CustomerContext: "carrier-integration-service",
+        },
+      },
+      Shipment: {
+        Description: request.description,
+        Shipper: {
+          Name: request.origin.name ?? "Shipper",
+          ShipperNumber: accountNumber,
+          Phone: mapPhoneToUps(request.origin),
+          Address: mapAddressToUps(request.origin),
+        },
+        ShipTo: {
+          Name: request.destination.name ?? "Recipient",
+          Phone: mapPhoneToUps(request.destination),
+          Address: mapAddressToUpsShipTo(request.destination),
+        },
+        ShipFrom: {
+          Name: request.origin.name ?? "Shipper",
+          Address: mapAddressToUps(request.origin),
+        },
+        PaymentInformation: mapPaymentDetailsToUps(request, accountNumber),
+        Service: {
+          Code: request.serviceCode,
+          Description: UPS_SERVICE_CODES[request.serviceCode],
+        },
+        Package: packages,
+        ShipmentRatingOptions: { NegotiatedRatesIndicator: "" },
+        ShipmentServiceOptions: saturdayDelivery || internationalForms
           ? {
-              ShipmentCharge: [
-                {
-                  Type: "01",
-                  BillShipper: {
-                    AccountNumber: request.shipperAccountNumber,
-                  },
-                },
-              ],
+              SaturdayDeliveryIndicator: saturdayDelivery ? "" : undefined,
+              InternationalForms: internationalForms,
             }
           : undefined,
-        NumOfPieces: packages.length > 1 ? packages.length.toString() : undefined,
+        AlternateDeliveryAddress: request.holdAtLocation
+          ? mapHoldAtLocationToUps(request.holdAtLocation)
+          : undefined,
+        ShipmentIndicationType: request.holdAtLocation
+          ? UPS_HOLD_FOR_PICKUP_AT_ACCESS_POINT
+          : undefined,
+      },
+      LabelSpecification: {
+        LabelImageFormat: { Code: LABEL_FORMAT_TO_UPS[labelFormat] },
+        LabelStockSize:
+          labelFormat === "ZPL" ? { Height: "6", Width: "4" } : undefined,
       },
     },
   };
@@ -145,6 +643,48 @@ const UPS_WEIGHT_UNIT_TO_DOMAIN: Record<string, WeightUnit> = {
   OZS: "OZ",
 };
 
+/** "20240627" → "2024-06-27" */
+function parseUpsDate(date: string): string {
+  return `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}`;
+}
+
+/** "103000" → "10:30" */
+function parseUpsTime(time: string): string {
+  return `${time.slice(0, 2)}:${time.slice(2, 4)}`;
+}
+
+/**
+ * Normalize UPS's free-text `DeliveryByTime` ("10:30 A.M.", "12:00 Noon")
+ * to 24-hour HH:mm. Returns undefined for non-clock values like "End of Day".
+ */
+function parseDeliveryByTime(value: string): string | undefined {
+  const match = /^(\d{1,2}):(\d{2})\s*(A\.?M\.?|P\.?M\.?|Noon)?/i.exec(
+    value.trim(),
+  );
+  if (!match) return undefined;
+
+  let hours = parseInt(match[1], 10);
+  const meridiem = match[3]?.toUpperCase().replaceAll(".", "");
+  if (meridiem === "PM" && hours < 12) hours += 12;
+  if (meridiem === "AM" && hours === 12) hours = 0;
+
+  return `${hours.toString().padStart(2, "0")}:${match[2]}`;
+}
+
+/** UPS accessorial codes returned in `ItemizedCharges`. */
+const UPS_SURCHARGE_TYPES: Record<string, SurchargeType> = {
+  "100": SurchargeType.ADDITIONAL_HANDLING,
+  "110": SurchargeType.COD,
+  "120": SurchargeType.SIGNATURE,
+  "190": SurchargeType.DELIVERY_AREA,
+  "270": SurchargeType.RESIDENTIAL,
+  "300": SurchargeType.SATURDAY_DELIVERY,
+  "375": SurchargeType.FUEL,
+  "376": SurchargeType.DELIVERY_AREA,
+  "400": SurchargeType.DECLARED_VALUE,
+  "430": SurchargeType.LARGE_PACKAGE,
+};
+
 function parseCharge(charge: { CurrencyCode: string; MonetaryValue: string }) {
   return {
     currency: charge.CurrencyCode,
@@ -152,8 +692,60 @@ function parseCharge(charge: { CurrencyCode: string; MonetaryValue: string }) {
   };
 }
 
+function parseBillingWeight(weight: {
+  UnitOfMeasurement: { Code: string };
+  Weight: string;
+}): PackageWeight {
+  const unit = UPS_WEIGHT_UNIT_TO_DOMAIN[weight.UnitOfMeasurement.Code];
+  if (!unit) {
+    throw new CarrierError(
+      CarrierErrorCode.PARSE_ERROR,
+      `Unknown UPS weight unit: ${weight.UnitOfMeasurement.Code}`,
+      { carrier: "UPS" },
+    );
+  }
+  return { value: parseFloat(weight.Weight), unit };
+}
+
+function mapItemizedCharges(
+  charges: UpsItemizedCharge[] | undefined,
+): Surcharge[] {
+  // UPS lists every accessorial it evaluated, including ones that cost nothing
+  return (charges ?? [])
+    .filter((charge) => parseFloat(charge.MonetaryValue) > 0)
+    .map((charge) => ({
+      type: UPS_SURCHARGE_TYPES[charge.Code] ?? SurchargeType.OTHER,
+      amount: parseCharge(charge),
+      description: charge.Description ?? `UPS accessorial ${charge.Code}`,
+      carrierCode: charge.Code,
+    }));
+}
+
+function mapRatedPackage(pkg: UpsRatedPackage): PackageRateDetail {
+  return {
+    totalCharges: parseCharge(pkg.TotalCharges),
+    transportationCharges: pkg.TransportationCharges
+      ? parseCharge(pkg.TransportationCharges)
+      : undefined,
+    serviceOptionsCharges: pkg.ServiceOptionsCharges
+      ? parseCharge(pkg.ServiceOptionsCharges)
+      : undefined,
+    billingWeight: pkg.BillingWeight
+      ? parseBillingWeight(pkg.BillingWeight)
+      : undefined,
+    surcharges: pkg.ItemizedCharges
+      ? mapItemizedCharges(pkg.ItemizedCharges)
+      : undefined,
+  };
+}
+
+/**
+ * @param shipDate - The date the request was rated for. When UPS returns only
+ *   a business-day count, the delivery date is projected from it.
+ */
 export function mapUpsRatedShipmentToQuote(
   rated: UpsRatedShipment,
+  shipDate?: string,
 ): RateQuote {
   const serviceCode = rated.Service.Code;
   const serviceName =
@@ -161,22 +753,29 @@ export function mapUpsRatedShipmentToQuote(
     UPS_SERVICE_CODES[serviceCode] ||
     `UPS Service ${serviceCode}`;
 
-  const billingWeightUnit =
-    UPS_WEIGHT_UNIT_TO_DOMAIN[rated.BillingWeight.UnitOfMeasurement.Code];
-  if (!billingWeightUnit) {
-    throw new CarrierError(
-      CarrierErrorCode.PARSE_ERROR,
-      `Unknown UPS weight unit: ${rated.BillingWeight.UnitOfMeasurement.Code}`,
-      { carrier: "UPS" },
-    );
-  }
+  const billingWeight = parseBillingWeight(rated.BillingWeight);
+
+  // UPS lists rated packages in the order they were sent
+  const ratedPackages = rated.RatedPackage
+    ? Array.isArray(rated.RatedPackage)
+      ? rated.RatedPackage
+      : [rated.RatedPackage]
+    : undefined;
+  const packages = ratedPackages?.map(mapRatedPackage);
+
+  const surcharges = [
+    ...mapItemizedCharges(rated.ItemizedCharges),
+    ...(packages ?? []).flatMap((pkg) => pkg.surcharges ?? []),
+  ];
 
   const warnings = rated.RatedShipmentAlert?.map((a) => a.Description);
 
+  const estimatedArrival = rated.TimeInTransit?.ServiceSummary?.EstimatedArrival;
+
   const estimatedDeliveryDays = rated.GuaranteedDelivery?.BusinessDaysInTransit
     ? parseInt(rated.GuaranteedDelivery.BusinessDaysInTransit, 10)
-    : rated.TimeInTransit?.ServiceSummary?.EstimatedArrival?.BusinessDaysInTransit
-      ? parseInt(rated.TimeInTransit.ServiceSummary.EstimatedArrival.BusinessDaysInTransit, 10)
+    : estimatedArrival?.BusinessDaysInTransit
+      ? parseInt(estimatedArrival.BusinessDaysInTransit, 10)
       : undefined;
 
   return {
@@ -188,12 +787,646 @@ export function mapUpsRatedShipmentToQuote(
     serviceOptionsCharges: rated.ServiceOptionsCharges
       ? parseCharge(rated.ServiceOptionsCharges)
       : undefined,
-    billingWeight: {
-      value: parseFloat(rated.BillingWeight.Weight),
-      unit: billingWeightUnit,
-    },
+    negotiatedCharges: rated.NegotiatedRateCharges
+      ? parseCharge(rated.NegotiatedRateCharges.TotalCharge)
+      : undefined,
+    billingWeight,
     guaranteedDelivery: !!rated.GuaranteedDelivery,
     estimatedDeliveryDays,
+    estimatedDeliveryDate: estimatedArrival?.Arrival?.Date
+      ? parseUpsDate(estimatedArrival.Arrival.Date)
+      : shipDate && estimatedDeliveryDays !== undefined
+        ? addBusinessDays(shipDate, estimatedDeliveryDays)
+        : undefined,
+    estimatedDeliveryTime: estimatedArrival?.Arrival?.Time
+      ? parseUpsTime(estimatedArrival.Arrival.Time)
+      : undefined,
+    guaranteedDeliveryTime: rated.GuaranteedDelivery?.DeliveryByTime
+      ? parseDeliveryByTime(rated.GuaranteedDelivery.DeliveryByTime)
+      : undefined,
+    packages,
+    surcharges: surcharges.length > 0 ? surcharges : undefined,
     warnings,
   };
 }
+
+const CARGO_AIRCRAFT_ONLY_WARNING =
+  "Lithium batteries shipped without equipment fly on cargo aircraft only; " +
+  "mark the package Cargo Aircraft Only";
+
+/**
+ * Drop quotes for services that cannot carry the declared dangerous goods,
+ * and warn on air quotes when batteries shipped alone must go on cargo
+ * aircraft.
+ */
+export function restrictUpsQuotesForDangerousGoods(
+  request: RateRequest,
+  quotes: RateQuote[],
+): RateQuote[] {
+  const eligible = hasDangerousGoodsItems(request.packages)
+    ? quotes.filter(
+        (quote) =>
+          !UPS_DANGEROUS_GOODS_EXCLUDED_SERVICES.has(quote.serviceCode),
+      )
+    : quotes;
+  if (!hasStandaloneLithiumBatteries(request.packages)) return eligible;
+
+  return eligible.map((quote) =>
+    UPS_GROUND_SERVICES.has(quote.serviceCode)
+      ? quote
+      : {
+          ...quote,
+          warnings: [...(quote.warnings ?? []), CARGO_AIRCRAFT_ONLY_WARNING],
+        },
+  );
+}
+
+// ─── UPS → Domain (Ship API) ───
+
+const UPS_LABEL_FORMAT_TO_DOMAIN: Record<string, LabelFormat> = {
+  GIF: "GIF",
+  ZPL: "ZPL",
+};
+
+function mapPackageResult(result: UpsPackageResult): ShippedPackage {
+  const label = result.ShippingLabel;
+  if (!label) {
+    throw new CarrierError(
+      CarrierErrorCode.PARSE_ERROR,
+      `UPS returned no label for package ${result.TrackingNumber}`,
+      { carrier: "UPS" },
+    );
+  }
+
+  const format = UPS_LABEL_FORMAT_TO_DOMAIN[label.ImageFormat.Code];
+  if (!format) {
+    throw new CarrierError(
+      CarrierErrorCode.PARSE_ERROR,
+      `Unknown UPS label format: ${label.ImageFormat.Code}`,
+      { carrier: "UPS" },
+    );
+  }
+
+  return {
+    trackingNumber: result.TrackingNumber,
+    label: { format, data: label.GraphicImage },
+  };
+}
+
+export function mapUpsShipmentResultsToResponse(
+  results: UpsShipmentResults,
+): ShipmentResponse {
+  // UPS returns package results in the order the packages were sent
+  const packageResults = Array.isArray(results.PackageResults)
+    ? results.PackageResults
+    : [results.PackageResults];
+
+  return {
+    carrier: "UPS",
+    shipmentId: results.ShipmentIdentificationNumber,
+    packages: packageResults.map(mapPackageResult),
+    totalCharges: parseCharge(results.ShipmentCharges.TotalCharges),
+    negotiatedCharges: results.NegotiatedRateCharges
+      ? parseCharge(results.NegotiatedRateCharges.TotalCharge)
+      : undefined,
+    billingWeight: results.BillingWeight
+      ? parseBillingWeight(results.BillingWeight)
+      : undefined,
+  };
+}
+
+// ─── UPS → Domain (Void API) ───
+
+const UPS_VOID_SUCCESS = "1";
+
+function mapVoidPackageResult(result: UpsVoidPackageResult): VoidedPackage {
+  const voided = result.Status.Code === UPS_VOID_SUCCESS;
+  return {
+    trackingNumber: result.TrackingNumber,
+    voided,
+    message: voided ? undefined : result.Status.Description,
+  };
+}
+
+export function mapUpsVoidResponse(
+  data: UpsVoidShipmentResponseWrapper,
+  request: VoidShipmentRequest,
+): VoidShipmentResponse {
+  const voidResponse = data?.VoidShipmentResponse;
+  const status = voidResponse?.SummaryResult?.Status;
+  if (!status) {
+    throw new CarrierError(
+      CarrierErrorCode.PARSE_ERROR,
+      "UPS response missing void SummaryResult",
+      { carrier: "UPS" },
+    );
+  }
+
+  const packageResults = voidResponse.PackageLevelResult;
+  const packages = packageResults
+    ? (Array.isArray(packageResults) ? packageResults : [packageResults]).map(
+        mapVoidPackageResult,
+      )
+    : undefined;
+
+  // The summary reports success when at least one package was voided, so a
+  // partial void is only complete if every package result agrees
+  const voided =
+    status.Code === UPS_VOID_SUCCESS &&
+    (packages ?? []).every((pkg) => pkg.voided);
+
+  return {
+    trackingOrShipmentId: request.trackingOrShipmentId,
+    voided,
+    packages,
+  };
+}
+
+// ─── UPS → Domain (Track API) ───
+
+/** UPS activity status types → normalized tracking status. */
+const UPS_TRACKING_STATUS: Record<string, TrackingStatus> = {
+  M: TrackingStatus.LABEL_CREATED,
+  P: TrackingStatus.IN_TRANSIT,
+  I: TrackingStatus.IN_TRANSIT,
+  W: TrackingStatus.IN_TRANSIT,
+  O: TrackingStatus.OUT_FOR_DELIVERY,
+  D: TrackingStatus.DELIVERED,
+  X: TrackingStatus.EXCEPTION,
+  RS: TrackingStatus.EXCEPTION,
+};
+
+function mapTrackActivity(activity: UpsTrackActivity): TrackingEvent {
+  const time = activity.time.padStart(6, "0");
+  const address = activity.location?.address;
+
+  return {
+    timestamp:
+      `${parseUpsDate(activity.date)}T${time.slice(0, 2)}:` +
+      `${time.slice(2, 4)}:${time.slice(4, 6)}${activity.gmtOffset ?? ""}`,
+    status:
+      UPS_TRACKING_STATUS[activity.status.type] ?? TrackingStatus.UNKNOWN,
+    description: activity.status.description.trim(),
+    location: address
+      ? {
+          city: address.city || undefined,
+          stateProvinceCode: address.stateProvince || undefined,
+          postalCode: address.postalCode || undefined,
+          countryCode: address.countryCode || undefined,
+        }
+      : undefined,
+    carrierCode: activity.status.code,
+  };
+}
+
+export function mapUpsTrackPackageToResult(
+  pkg: UpsTrackPackage,
+): TrackingResult {
+  // UPS usually lists activity newest first, but not guaranteed across
+  // time zones — order by the actual instant
+  const events = (pkg.activity ?? [])
+    .map(mapTrackActivity)
+    .sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp));
+
+  const status = events[0]?.status ?? TrackingStatus.UNKNOWN;
+  const deliveredAt = events.find(
+    (e) => e.status === TrackingStatus.DELIVERED,
+  )?.timestamp;
+
+  // A rescheduled date supersedes the original schedule
+  const deliveryDates = pkg.deliveryDate ?? [];
+  const estimate =
+    deliveryDates.find((d) => d.type === "RDD") ??
+    deliveryDates.find((d) => d.type === "SDD");
+
+  return {
+    carrier: "UPS",
+    trackingNumber: pkg.trackingNumber,
+    status,
+    events,
+    estimatedDeliveryDate:
+      estimate && status !== TrackingStatus.DELIVERED
+        ? parseUpsDate(estimate.date)
+        : undefined,
+    deliveredAt:
+      status === TrackingStatus.DELIVERED ? deliveredAt : undefined,
+  };
+}
+
+// ─── Domain ↔ UPS (Address Validation API) ───
+
+export function buildUpsAddressValidationRequest(
+  address: Address,
+): UpsAddressValidationRequestWrapper {
+  // UPS wants ZIP and ZIP+4 in separate fields
+  const digits = address.postalCode.replace(/\D/g, "");
+  const hasExtension = digits.length === 9;
+
+  return {
+    XAVRequest: {
+      AddressKeyFormat: {
+        ConsigneeName: address.name,
+        AddressLine: address.addressLines,
+        PoliticalDivision2: address.city,
+        PoliticalDivision1: address.stateProvinceCode,
+        PostcodePrimaryLow: hasExtension
+          ? digits.slice(0, 5)
+          : address.postalCode,
+        PostcodeExtendedLow: hasExtension ? digits.slice(5) : undefined,
+        CountryCode: address.countryCode,
+      },
+    },
+  };
+}
+
+const UPS_ADDRESS_CLASSIFICATION: Record<string, AddressClassification> = {
+  "1": "COMMERCIAL",
+  "2": "RESIDENTIAL",
+};
+
+function mapAddressClassification(
+  classification: UpsAddressClassification | undefined,
+): AddressClassification {
+  return (
+    (classification && UPS_ADDRESS_CLASSIFICATION[classification.Code]) ??
+    "UNKNOWN"
+  );
+}
+
+function mapAddressCandidate(
+  candidate: UpsAddressCandidate,
+  input: Address,
+): AddressCandidate {
+  const key = candidate.AddressKeyFormat;
+  const classification = mapAddressClassification(
+    candidate.AddressClassification,
+  );
+
+  return {
+    address: {
+      // Name and phone are not part of validation; carry them over so the
+      // candidate can replace the input as-is
+      name: input.name,
+      phone: input.phone,
+      addressLines: Array.isArray(key.AddressLine)
+        ? key.AddressLine
+        : [key.AddressLine],
+      city: key.PoliticalDivision2,
+      stateProvinceCode: key.PoliticalDivision1,
+      // ZIP+4 without a dash, to stay within the 9-character postal code
+      postalCode: key.PostcodePrimaryLow + (key.PostcodeExtendedLow ?? ""),
+      countryCode: key.CountryCode,
+      residential:
+        classification === "UNKNOWN"
+          ? undefined
+          : classification === "RESIDENTIAL",
+    },
+    classification,
+  };
+}
+
+export function mapUpsAddressValidationResponse(
+  data: UpsAddressValidationResponseWrapper,
+  input: Address,
+): AddressValidationResult {
+  const response = data?.XAVResponse;
+  if (!response) {
+    throw new CarrierError(
+      CarrierErrorCode.PARSE_ERROR,
+      "UPS response missing XAVResponse envelope",
+      { carrier: "UPS" },
+    );
+  }
+
+  const verdict =
+    response.ValidAddressIndicator !== undefined
+      ? "VALID"
+      : response.AmbiguousAddressIndicator !== undefined
+        ? "AMBIGUOUS"
+        : "INVALID";
+  const candidates = response.Candidate
+    ? Array.isArray(response.Candidate)
+      ? response.Candidate
+      : [response.Candidate]
+    : [];
+
+  return {
+    carrier: "UPS",
+    verdict,
+    classification:
+      verdict === "VALID"
+        ? mapAddressClassification(response.AddressClassification)
+        : "UNKNOWN",
+    candidates:
+      verdict === "INVALID"
+        ? []
+        : candidates.map((c) => mapAddressCandidate(c, input)),
+  };
+}
+
+// ─── Domain ↔ UPS (Pickup API) ───
+
+/** UPS Ground — the piece service used when the pickup has no lane detail. */
+const UPS_PICKUP_DEFAULT_SERVICE = "003";
+
+function mapPickupAddressToUps(address: Address): UpsPickupAddress {
+  return {
+    CompanyName: address.name ?? "Shipper",
+    ContactName: address.name ?? "Shipper",
+    AddressLine: address.addressLines,
+    City: address.city,
+    StateProvince: address.stateProvinceCode,
+    PostalCode: address.postalCode,
+    CountryCode: address.countryCode,
+    ResidentialIndicator: address.residential ? "Y" : "N",
+    Phone: mapPhoneToUps(address),
+  };
+}
+
+function mapPickupDateInfoToUps(request: PickupRequest): UpsPickupDateInfo {
+  return {
+    ReadyTime: request.readyTime.replace(":", ""),
+    CloseTime: request.closeTime.replace(":", ""),
+    PickupDate: request.pickupDate.replaceAll("-", ""),
+  };
+}
+
+/** Pickup weights are pounds or kilograms only; ounces are converted. */
+function mapPickupWeightToUps(weight: PackageWeight) {
+  if (weight.unit === "OZ") {
+    return {
+      Weight: Math.max(0.1, Math.ceil(weight.value / 1.6) / 10).toFixed(1),
+      UnitOfMeasurement: "LBS",
+    };
+  }
+  return {
+    Weight: weight.value.toFixed(1),
+    UnitOfMeasurement: WEIGHT_UNIT_TO_UPS[weight.unit],
+  };
+}
+
+export function buildUpsPickupCreationRequest(
+  request: PickupRequest,
+  accountNumber: string,
+): UpsPickupCreationRequestWrapper {
+  return {
+    PickupCreationRequest: {
+      RatePickupIndicator: "Y",
+      Shipper: {
+        Account: {
+          AccountNumber: accountNumber,
+          AccountCountryCode: request.address.countryCode,
+        },
+      },
+      PickupDateInfo: mapPickupDateInfoToUps(request),
+      PickupAddress: mapPickupAddressToUps(request.address),
+      AlternateAddressIndicator: "N",
+      PickupPiece: [
+        {
+          ServiceCode: UPS_PICKUP_DEFAULT_SERVICE,
+          Quantity: request.packageCount.toString(),
+          DestinationCountryCode: request.address.countryCode,
+          ContainerCode: "01",
+        },
+      ],
+      TotalWeight: mapPickupWeightToUps(request.totalWeight),
+      OverweightIndicator: "N",
+      PaymentMethod: "01",
+      SpecialInstruction: request.instructions,
+    },
+  };
+}
+
+export function buildUpsPickupRateRequest(
+  request: PickupRequest,
+): UpsPickupRateRequestWrapper {
+  const { CompanyName, ContactName, Phone, ...address } =
+    mapPickupAddressToUps(request.address);
+  const sameDay =
+    request.pickupDate === formatLocalDate(new Date(), request.timeZone);
+
+  return {
+    PickupRateRequest: {
+      PickupAddress: address,
+      AlternateAddressIndicator: "N",
+      ServiceDateOption: sameDay ? "01" : "02",
+      PickupDateInfo: mapPickupDateInfoToUps(request),
+    },
+  };
+}
+
+export function mapUpsPickupRateResult(
+  result: UpsPickupRateResult,
+): PickupRate {
+  return {
+    carrier: "UPS",
+    totalCharges: parseCharge({
+      CurrencyCode: result.CurrencyCode,
+      MonetaryValue: result.GrandTotalOfAllCharge,
+    }),
+  };
+}
+
+// ─── Domain ↔ UPS (Locator API) ───
+
+/** Request option "1": drop-off locations, including access points. */
+const UPS_LOCATOR_ALL_LOCATIONS = "1";
+
+/** Option type "01" filters and describes by location type. */
+const UPS_LOCATION_TYPE_OPTION = "01";
+
+/** Option type "03" lists the services a location offers. */
+const UPS_LOCATION_SERVICES_OPTION = "03";
+
+const LOCATION_TYPE_TO_UPS: Record<LocationType, string[]> = {
+  // UPS Customer Center, The UPS Store
+  RETAIL_STORE: ["001", "002"],
+  DROP_BOX: ["003"],
+  ACCESS_POINT: ["018"],
+};
+
+/** `Day` "1" is Sunday. */
+const UPS_WEEKDAYS: Weekday[] = [
+  "SUN",
+  "MON",
+  "TUE",
+  "WED",
+  "THU",
+  "FRI",
+  "SAT",
+];
+
+/** Hours type "10": regular operating hours. */
+const UPS_REGULAR_HOURS = "10";
+
+function asArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+export function buildUpsLocatorRequest(
+  request: LocationSearchRequest,
+): UpsLocatorRequestWrapper {
+  const { address, coordinates, radius, locationTypes } = request;
+  const origin = address ?? coordinates;
+  if (!origin) {
+    throw new CarrierError(
+      CarrierErrorCode.VALIDATION_ERROR,
+      "An address or coordinates are required to search for locations",
+      { carrier: "UPS", retryable: false },
+    );
+  }
+
+  return {
+    LocatorRequest: {
+      Request: {
+        RequestAction: "Locator",
+        RequestOption: UPS_LOCATOR_ALL_LOCATIONS,
+        TransactionReference: {
+          CustomerContext: "carrier-integration-service",
+        },
+      },
+      OriginAddress: {
+        Geocode: coordinates
+          ? {
+              Latitude: coordinates.latitude.toString(),
+              Longitude: coordinates.longitude.toString(),
+            }
+          : undefined,
+        AddressKeyFormat: address
+          ? {
+              AddressLine: address.addressLines,
+              PoliticalDivision2: address.city,
+              PoliticalDivision1: address.stateProvinceCode,
+              PostcodePrimaryLow: address.postalCode,
+              CountryCode: address.countryCode,
+            }
+          : { CountryCode: origin.countryCode },
+      },
+      Translate: { Locale: "en_US" },
+      UnitOfMeasurement: { Code: radius?.unit ?? "MI" },
+      LocationSearchCriteria: {
+        SearchOption: locationTypes
+          ? [
+              {
+                OptionType: { Code: UPS_LOCATION_TYPE_OPTION },
+                OptionCode: locationTypes
+                  .flatMap((type) => LOCATION_TYPE_TO_UPS[type])
+                  .map((code) => ({ Code: code })),
+              },
+            ]
+          : undefined,
+        MaximumListSize: (request.maxResults ?? 10).toString(),
+        SearchRadius: radius?.value.toString(),
+      },
+    },
+  };
+}
+
+function mapLocationType(location: UpsDropLocation): LocationType {
+  if (location.AccessPointInformation) return "ACCESS_POINT";
+
+  const typeCodes = asArray(location.LocationAttribute)
+    .filter((attr) => attr.OptionType.Code === UPS_LOCATION_TYPE_OPTION)
+    .flatMap((attr) => asArray(attr.OptionCode).map((option) => option.Code));
+  const isDropBox = typeCodes.some((code) =>
+    LOCATION_TYPE_TO_UPS.DROP_BOX.includes(code),
+  );
+  return isDropBox ? "DROP_BOX" : "RETAIL_STORE";
+}
+
+function mapLocationHours(location: UpsDropLocation): OpeningHours[] {
+  const regular = location.OperatingHours?.StandardHours?.find(
+    (hours) => hours.HoursType === UPS_REGULAR_HOURS,
+  );
+
+  return (regular?.DayOfWeek ?? []).flatMap((hours): OpeningHours[] => {
+    const day = UPS_WEEKDAYS[parseInt(hours.Day, 10) - 1];
+    if (!day || hours.ClosedIndicator !== undefined) return [];
+    if (hours.Open24HoursIndicator !== undefined) {
+      return [{ day, open: "00:00", close: "23:59" }];
+    }
+    if (!hours.OpenHours || !hours.CloseHours) return [];
+
+    return [
+      {
+        day,
+        open: parseUpsTime(hours.OpenHours.padStart(4, "0")),
+        close: parseUpsTime(hours.CloseHours.padStart(4, "0")),
+      },
+    ];
+  });
+}
+
+function mapDropLocation(location: UpsDropLocation): CarrierLocation {
+  const key = location.AddressKeyFormat;
+  const services = asArray(location.LocationAttribute)
+    .filter((attr) => attr.OptionType.Code === UPS_LOCATION_SERVICES_OPTION)
+    .flatMap((attr) => asArray(attr.OptionCode))
+    .flatMap((option) => (option.Description ? [option.Description] : []));
+
+  return {
+    carrier: "UPS",
+    // Shipments to an access point reference its public ID, not the locator's
+    id:
+      location.AccessPointInformation?.PublicAccessPointID ??
+      location.LocationID,
+    type: mapLocationType(location),
+    address: {
+      name: key.ConsigneeName,
+      phone: location.PhoneNumber,
+      addressLines: asArray(key.AddressLine),
+      city: key.PoliticalDivision2,
+      stateProvinceCode: key.PoliticalDivision1,
+      postalCode: key.PostcodePrimaryLow + (key.PostcodeExtendedLow ?? ""),
+      countryCode: key.CountryCode,
+      residential: false,
+    },
+    coordinates: location.Geocode
+      ? {
+          latitude: parseFloat(location.Geocode.Latitude),
+          longitude: parseFloat(location.Geocode.Longitude),
+        }
+      : undefined,
+    distance: location.Distance
+      ? {
+          value: parseFloat(location.Distance.Value),
+          unit:
+            location.Distance.UnitOfMeasurement.Code === "KM" ? "KM" : "MI",
+        }
+      : undefined,
+    hours: mapLocationHours(location),
+    services,
+  };
+}
+
+export function mapUpsLocatorResponse(
+  data: UpsLocatorResponseWrapper,
+): CarrierLocation[] {
+  const response = data?.LocatorResponse;
+  if (!response) {
+    throw new CarrierError(
+      CarrierErrorCode.PARSE_ERROR,
+      "UPS response missing LocatorResponse envelope",
+      { carrier: "UPS" },
+    );
+  }
+
+  return asArray(response.SearchResults?.DropLocation).map(mapDropLocation);
+}
+
+// ─── Capabilities ───
+
+/** UPS small-package limits; heavier or larger shipments go by freight. */
+export const UPS_CAPABILITIES: CarrierCapabilities = {
+  maxWeight: { value: 150, unit: "LB" },
+  maxDimensions: { length: 108, lengthPlusGirth: 165, unit: "IN" },
+  packagingTypes: Object.keys(PACKAGING_TYPE_TO_UPS) as PackagingType[],
+  acceptsDangerousGoods: true,
+  acceptsServiceOptions: true,
+  acceptsHoldAtLocation: true,
+  services: Object.entries(UPS_SERVICE_CODES).map(([code, name]) => ({
+    code,
+    name,
+  })),
+};
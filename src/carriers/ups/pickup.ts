@@ -0,0 +1,199 @@
+import type { UpsConfig } from "../../config/index.js";
+import { CarrierError, CarrierErrorCode } from "../../domain/errors.js";
+import type {
+  CancelPickupRequest,
+  CancelPickupResponse,
+  PickupConfirmation,
+  PickupRate,
+  PickupRequest,
+} from "../../domain/models.js";
+import { HttpClient } from "../../http/client.js";
+import type {
+  CarrierAuthenticator,
+  CarrierOperation,
+  OperationContext,
+} from "../types.js";
+import {
+  buildUpsPickupCreationRequest,
+  buildUpsPickupRateRequest,
+  mapUpsPickupRateResult,
+} from "./mapper.js";
+import {
+  UPS_API_VERSION,
+  sendUpsRequest,
+  upsRequestLimiter,
+} from "./request.js";
+import type {
+  UpsPickupCancelResponseWrapper,
+  UpsPickupCreationResponseWrapper,
+  UpsPickupRateResponseWrapper,
+} from "./types.js";
+
+/** Cancel-by option "02": cancel a specific pickup by its PRN. */
+const UPS_CANCEL_BY_PRN = "02";
+
+/**
+ * UPS Pickup creation — books an on-call pickup and returns the Pickup
+ * Request Number (PRN) as the confirmation number. Pickups are billed to
+ * the shipper account, from the request or configuration.
+ */
+export class UpsPickupCreateOperation
+  implements CarrierOperation<PickupRequest, PickupConfirmation>
+{
+  private httpClient: HttpClient;
+
+  constructor(
+    private config: UpsConfig,
+    private auth: CarrierAuthenticator,
+  ) {
+    this.httpClient = new HttpClient({
+      baseURL: config.baseUrl,
+      timeoutMs: config.timeoutMs,
+      limiter: upsRequestLimiter(config),
+    });
+  }
+
+  async execute(
+    request: PickupRequest,
+    context?: OperationContext,
+  ): Promise<PickupConfirmation> {
+    const accountNumber =
+      request.shipperAccountNumber ?? this.config.accountNumber;
+    if (!accountNumber) {
+      throw new CarrierError(
+        CarrierErrorCode.CONFIGURATION_ERROR,
+        "A UPS shipper account number is required to schedule pickups",
+        { carrier: "UPS", retryable: false },
+      );
+    }
+
+    const data = await sendUpsRequest<UpsPickupCreationResponseWrapper>(
+      this.httpClient,
+      this.auth,
+      {
+        method: "POST",
+        url: `/pickupcreation/${UPS_API_VERSION}/pickup`,
+        data: buildUpsPickupCreationRequest(request, accountNumber),
+        operation: "pickup",
+        signal: context?.signal,
+      },
+    );
+
+    const response = data?.PickupCreationResponse;
+    if (!response?.PRN) {
+      throw new CarrierError(
+        CarrierErrorCode.PARSE_ERROR,
+        "UPS response missing pickup request number (PRN)",
+        { carrier: "UPS" },
+      );
+    }
+
+    return {
+      carrier: "UPS",
+      confirmationNumber: response.PRN,
+      pickupDate: request.pickupDate,
+      totalCharges: response.RateResult
+        ? mapUpsPickupRateResult(response.RateResult).totalCharges
+        : undefined,
+    };
+  }
+}
+
+/**
+ * UPS Pickup cancellation by PRN.
+ */
+export class UpsPickupCancelOperation
+  implements CarrierOperation<CancelPickupRequest, CancelPickupResponse>
+{
+  private httpClient: HttpClient;
+
+  constructor(
+    config: UpsConfig,
+    private auth: CarrierAuthenticator,
+  ) {
+    this.httpClient = new HttpClient({
+      baseURL: config.baseUrl,
+      timeoutMs: config.timeoutMs,
+      limiter: upsRequestLimiter(config),
+    });
+  }
+
+  async execute(
+    request: CancelPickupRequest,
+    context?: OperationContext,
+  ): Promise<CancelPickupResponse> {
+    const data = await sendUpsRequest<UpsPickupCancelResponseWrapper>(
+      this.httpClient,
+      this.auth,
+      {
+        method: "DELETE",
+        url: `/shipments/${UPS_API_VERSION}/pickup/${UPS_CANCEL_BY_PRN}`,
+        headers: { Prn: request.confirmationNumber },
+        operation: "pickup cancel",
+        signal: context?.signal,
+      },
+    );
+
+    const status = data?.PickupCancelResponse?.Response?.ResponseStatus;
+    if (!status) {
+      throw new CarrierError(
+        CarrierErrorCode.PARSE_ERROR,
+        "UPS response missing PickupCancelResponse status",
+        { carrier: "UPS" },
+      );
+    }
+
+    return {
+      confirmationNumber: request.confirmationNumber,
+      cancelled: status.Code === "1",
+    };
+  }
+}
+
+/**
+ * UPS Pickup rating — the fee for an on-call pickup, without booking it.
+ */
+export class UpsPickupRateOperation
+  implements CarrierOperation<PickupRequest, PickupRate>
+{
+  private httpClient: HttpClient;
+
+  constructor(
+    config: UpsConfig,
+    private auth: CarrierAuthenticator,
+  ) {
+    this.httpClient = new HttpClient({
+      baseURL: config.baseUrl,
+      timeoutMs: config.timeoutMs,
+      limiter: upsRequestLimiter(config),
+    });
+  }
+
+  async execute(
+    request: PickupRequest,
+    context?: OperationContext,
+  ): Promise<PickupRate> {
+    const data = await sendUpsRequest<UpsPickupRateResponseWrapper>(
+      this.httpClient,
+      this.auth,
+      {
+        method: "POST",
+        url: `/shipments/${UPS_API_VERSION}/pickup/oncall`,
+        data: buildUpsPickupRateRequest(request),
+        operation: "pickup rate",
+        signal: context?.signal,
+      },
+    );
+
+    const result = data?.PickupRateResponse?.RateResult;
+    if (!result) {
+      throw new CarrierError(
+        CarrierErrorCode.PARSE_ERROR,
+        "UPS response missing pickup RateResult",
+        { carrier: "UPS" },
+      );
+    }
+
+    return mapUpsPickupRateResult(result);
+  }
+}
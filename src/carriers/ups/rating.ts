@@ -1,16 +1,32 @@
 import type { UpsConfig } from "../../config/index.js";
 import { CarrierError, CarrierErrorCode } from "../../domain/errors.js";
-import type { RateRequest, RateResponse } from "../../domain/models.js";
+import { isCrossBorder } from "../../domain/customs.js";
+import type {
+  RateQuote,
+  RateRequest,
+  RateResponse,
+} from "../../domain/models.js";
+import { resolveShipDate } from "../../domain/ship-date.js";
 import { HttpClient } from "../../http/client.js";
-import type { CarrierAuthenticator, CarrierOperation } from "../types.js";
+import type {
+  CarrierAuthenticator,
+  CarrierOperation,
+  OperationContext,
+} from "../types.js";
+import { UpsLandedCostOperation } from "./landed-cost.js";
 import {
+  type UpsLandedCostEstimate,
   buildUpsRateRequest,
   mapUpsRatedShipmentToQuote,
+  restrictUpsQuotesForDangerousGoods,
 } from "./mapper.js";
+import {
+  UPS_API_VERSION,
+  sendUpsRequest,
+  upsRequestLimiter,
+} from "./request.js";
 import type { UpsRateResponseWrapper } from "./types.js";
 
-const API_VERSION = "v2409";
-
 /**
  * UPS Rating operation.
  *
@@ -22,6 +38,7 @@ export class UpsRatingOperation
   implements CarrierOperation<RateRequest, RateResponse>
 {
   private httpClient: HttpClient;
+  private landedCostOperation: UpsLandedCostOperation;
 
   constructor(
     config: UpsConfig,
@@ -29,61 +46,77 @@ export class UpsRatingOperation
   ) {
     this.httpClient = new HttpClient({
       baseURL: config.baseUrl,
-      timeoutMs: 10_000,
+      timeoutMs: config.timeoutMs,
+      limiter: upsRequestLimiter(config),
     });
+    this.landedCostOperation = new UpsLandedCostOperation(config, auth);
   }
 
-  async execute(request: RateRequest): Promise<RateResponse> {
-    const requestOption = request.serviceCode ? "Rate" : "Shop";
-    const upsRequest = buildUpsRateRequest(request);
-    const url = `/rating/${API_VERSION}/${requestOption}`;
+  async execute(
+    request: RateRequest,
+    context?: OperationContext,
+  ): Promise<RateResponse> {
+    // The time-in-transit variants return the same rates plus estimated arrival
+    const requestOption = request.serviceCode
+      ? "Ratetimeintransit"
+      : "Shoptimeintransit";
+    const shipDate = resolveShipDate(request.shipDate);
+    const upsRequest = buildUpsRateRequest({ ...request, shipDate });
+    const url = `/rating/${UPS_API_VERSION}/${requestOption}`;
 
-    let token: string;
-    try {
-      token = await this.auth.getAccessToken();
-    } catch (error) {
-      if (error instanceof CarrierError) throw error;
-      throw new CarrierError(
-        CarrierErrorCode.AUTHENTICATION_ERROR,
-        "Failed to obtain UPS access token",
-        { carrier: "UPS", retryable: true },
+    // Duties and taxes don't depend on the service, so estimate them once
+    // alongside the rate call rather than per quote
+    const [data, landedCost] = await Promise.all([
+      sendUpsRequest<UpsRateResponseWrapper>(this.httpClient, this.auth, {
+        method: "POST",
+        url,
+        data: upsRequest,
+        operation: "rating",
+        signal: context?.signal,
+      }),
+      this.estimateLandedCost({ ...request, shipDate }, context),
+    ]);
+
+    const response = this.parseResponse(data, shipDate);
+    response.quotes = restrictUpsQuotesForDangerousGoods(
+      request,
+      response.quotes,
+    );
+    if (landedCost) {
+      response.quotes = response.quotes.map((quote) =>
+        applyLandedCost(quote, landedCost),
       );
     }
+    return response;
+  }
+
+  /**
+   * A failed estimate must not cost the caller their rates; it is reported
+   * as a warning on each quote instead.
+   */
+  private async estimateLandedCost(
+    request: RateRequest,
+    context?: OperationContext,
+  ): Promise<UpsLandedCostEstimate | { warning: string } | undefined> {
+    if (
+      !request.customs ||
+      !isCrossBorder(request.origin, request.destination)
+    ) {
+      return undefined;
+    }
 
-    let response;
     try {
-      response = await this.httpClient.post<UpsRateResponseWrapper>(
-        url,
-        upsRequest,
-        {
-          headers: {
-            Authorization: `Bearer ${token}`,
-            "Content-Type": "application/json",
-            transId: crypto.randomUUID(),
-            transactionSrc: "carrier-integration-service",
-          },
-        },
-      );
+      return await this.landedCostOperation.execute(request, context);
     } catch (error) {
-      if (error instanceof CarrierError) {
-        // On auth failure, invalidate token and re-throw
-        if (error.code === CarrierErrorCode.AUTHENTICATION_ERROR) {
-          this.auth.invalidateToken();
-        }
-        error.details.carrier = "UPS";
-        throw error;
-      }
-      throw new CarrierError(
-        CarrierErrorCode.UNKNOWN_ERROR,
-        `UPS rating request failed: ${error instanceof Error ? error.message : "unknown"}`,
-        { carrier: "UPS", retryable: false },
-      );
+      const reason = error instanceof Error ? error.message : "unknown";
+      return { warning: `Duties and taxes could not be estimated: ${reason}` };
     }
-
-    return this.parseResponse(response.data);
   }
 
-  private parseResponse(data: UpsRateResponseWrapper): RateResponse {
+  private parseResponse(
+    data: UpsRateResponseWrapper,
+    shipDate: string,
+  ): RateResponse {
     try {
       const rateResponse = data?.RateResponse;
       if (!rateResponse) {
@@ -103,7 +136,9 @@ export class UpsRatingOperation
         );
       }
 
-      const quotes = ratedShipments.map(mapUpsRatedShipmentToQuote);
+      const quotes = ratedShipments.map((rated) =>
+        mapUpsRatedShipmentToQuote(rated, shipDate),
+      );
 
       return { quotes };
     } catch (error) {
@@ -116,3 +151,16 @@ export class UpsRatingOperation
     }
   }
 }
+
+function applyLandedCost(
+  quote: RateQuote,
+  landedCost: UpsLandedCostEstimate | { warning: string },
+): RateQuote {
+  if ("warning" in landedCost) {
+    return {
+      ...quote,
+      warnings: [...(quote.warnings ?? []), landedCost.warning],
+    };
+  }
+  return { ...quote, ...landedCost };
+}
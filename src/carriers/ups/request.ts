@@ -0,0 +1,92 @@
+import { CarrierError, CarrierErrorCode } from "../../domain/errors.js";
+import type { UpsConfig } from "../../config/index.js";
+import type { HttpClient } from "../../http/client.js";
+import { type RequestLimiter, accountLimiter } from "../../http/limiter.js";
+import type { CarrierAuthenticator } from "../types.js";
+
+export const UPS_API_VERSION = "v2409";
+
+export interface UpsRequestOptions {
+  method: "GET" | "POST" | "DELETE";
+  url: string;
+  data?: unknown;
+  /** Extra operation-specific headers, e.g. the pickup number to cancel. */
+  headers?: Record<string, string>;
+  /** Operation name used in error messages, e.g. "rating". */
+  operation: string;
+  /** Cancels the token and API requests, from the caller's context. */
+  signal?: AbortSignal;
+}
+
+/**
+ * The limiter every UPS operation on this account shares. UPS throttles per
+ * application as well, so accounts without a number fall back to the client
+ * ID.
+ */
+export function upsRequestLimiter(
+  config: UpsConfig,
+): RequestLimiter | undefined {
+  return accountLimiter(
+    "UPS",
+    config.accountNumber ?? config.clientId,
+    config.rateLimit,
+  );
+}
+
+/**
+ * Shared plumbing for every UPS operation: obtains a bearer token, sends the
+ * standard UPS headers, and tags failures with the carrier. A rejected token
+ * is invalidated so the next call re-authenticates.
+ */
+export async function sendUpsRequest<T>(
+  httpClient: HttpClient,
+  auth: CarrierAuthenticator,
+  options: UpsRequestOptions,
+): Promise<T> {
+  let token: string;
+  try {
+    token = await auth.getAccessToken(options.signal);
+  } catch (error) {
+    if (error instanceof CarrierError) throw error;
+    throw new CarrierError(
+      CarrierErrorCode.AUTHENTICATION_ERROR,
+      "Failed to obtain UPS access token",
+      { carrier: "UPS", retryable: true },
+    );
+  }
+
+  const config = {
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+      transId: crypto.randomUUID(),
+      transactionSrc: "carrier-integration-service",
+      ...options.headers,
+    },
+    signal: options.signal,
+  };
+
+  try {
+    const response =
+      options.method === "GET"
+        ? await httpClient.get<T>(options.url, config)
+        : options.method === "DELETE"
+          ? await httpClient.delete<T>(options.url, config)
+          : await httpClient.post<T>(options.url, options.data, config);
+    return response.data;
+  } catch (error) {
+    if (error instanceof CarrierError) {
+      // On auth failure, invalidate token and re-throw
+      if (error.code === CarrierErrorCode.AUTHENTICATION_ERROR) {
+        auth.invalidateToken();
+      }
+      error.details.carrier = "UPS";
+      throw error;
+    }
+    throw new CarrierError(
+      CarrierErrorCode.UNKNOWN_ERROR,
+      `UPS ${options.operation} request failed: ${error instanceof Error ? error.message : "unknown"}`,
+      { carrier: "UPS", retryable: false },
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import type { UpsConfig } from "../../config/index.js";
+import { CarrierError, CarrierErrorCode } from "../../domain/errors.js";
+import type {
+  ShipmentRequest,
+  ShipmentResponse,
+} from "../../domain/models.js";
+import { HttpClient } from "../../http/client.js";
+import type {
+  CarrierAuthenticator,
+  CarrierOperation,
+  OperationContext,
+} from "../types.js";
+import {
+  buildUpsShipmentRequest,
+  mapUpsShipmentResultsToResponse,
+} from "./mapper.js";
+import {
+  UPS_API_VERSION,
+  sendUpsRequest,
+  upsRequestLimiter,
+} from "./request.js";
+import type { UpsShipmentResponseWrapper } from "./types.js";
+
+/**
+ * UPS Shipping (label purchase) operation.
+ *
+ * Buys labels for every package in one call. Shipments are always billed to
+ * the shipper account — from the request, falling back to configuration.
+ */
+export class UpsShipOperation
+  implements CarrierOperation<ShipmentRequest, ShipmentResponse>
+{
+  private httpClient: HttpClient;
+
+  constructor(
+    private config: UpsConfig,
+    private auth: CarrierAuthenticator,
+  ) {
+    this.httpClient = new HttpClient({
+      baseURL: config.baseUrl,
+      timeoutMs: config.timeoutMs,
+      limiter: upsRequestLimiter(config),
+    });
+  }
+
+  async execute(
+    request: ShipmentRequest,
+    context?: OperationContext,
+  ): Promise<ShipmentResponse> {
+    const accountNumber =
+      request.shipperAccountNumber ?? this.config.accountNumber;
+    if (!accountNumber) {
+      throw new CarrierError(
+        CarrierErrorCode.CONFIGURATION_ERROR,
+        "A UPS shipper account number is required to buy labels",
+        { carrier: "UPS", retryable: false },
+      );
+    }
+
+    const upsRequest = buildUpsShipmentRequest(request, accountNumber);
+    const data = await sendUpsRequest<UpsShipmentResponseWrapper>(
+      this.httpClient,
+      this.auth,
+      {
+        method: "POST",
+        url: `/shipments/${UPS_API_VERSION}/ship`,
+        data: upsRequest,
+        operation: "shipping",
+        signal: context?.signal,
+      },
+    );
+
+    return this.parseResponse(data);
+  }
+
+  private parseResponse(data: UpsShipmentResponseWrapper): ShipmentResponse {
+    try {
+      const shipmentResponse = data?.ShipmentResponse;
+      if (!shipmentResponse?.ShipmentResults) {
+        throw new CarrierError(
+          CarrierErrorCode.PARSE_ERROR,
+          "UPS response missing ShipmentResults",
+          { carrier: "UPS" },
+        );
+      }
+
+      const response = mapUpsShipmentResultsToResponse(
+        shipmentResponse.ShipmentResults,
+      );
+      const warnings = shipmentResponse.Response?.Alert?.map(
+        (a) => a.Description,
+      );
+      if (warnings?.length) {
+        response.warnings = warnings;
+      }
+
+      return response;
+    } catch (error) {
+      if (error instanceof CarrierError) throw error;
+      throw new CarrierError(
+        CarrierErrorCode.PARSE_ERROR,
+        `Failed to parse UPS shipment response: ${error instanceof Error ? error.message : "unknown"}`,
+        { carrier: "UPS" },
+      );
+    }
+  }
+}
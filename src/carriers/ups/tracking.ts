@@ -0,0 +1,98 @@
+import type { UpsConfig } from "../../config/index.js";
+import { CarrierError, CarrierErrorCode } from "../../domain/errors.js";
+import type { TrackingRequest, TrackingResult } from "../../domain/models.js";
+import { HttpClient } from "../../http/client.js";
+import type {
+  CarrierAuthenticator,
+  CarrierOperation,
+  OperationContext,
+} from "../types.js";
+import { mapUpsTrackPackageToResult } from "./mapper.js";
+import { sendUpsRequest, upsRequestLimiter } from "./request.js";
+import type { UpsTrackResponseWrapper } from "./types.js";
+
+/** The Track API is versioned separately from Rating and Shipping. */
+const UPS_TRACK_API_VERSION = "v1";
+
+/**
+ * UPS Tracking operation — current status and scan history for a single
+ * tracking number.
+ */
+export class UpsTrackingOperation
+  implements CarrierOperation<TrackingRequest, TrackingResult>
+{
+  private httpClient: HttpClient;
+
+  constructor(
+    config: UpsConfig,
+    private auth: CarrierAuthenticator,
+  ) {
+    this.httpClient = new HttpClient({
+      baseURL: config.baseUrl,
+      timeoutMs: config.timeoutMs,
+      limiter: upsRequestLimiter(config),
+    });
+  }
+
+  async execute(
+    request: TrackingRequest,
+    context?: OperationContext,
+  ): Promise<TrackingResult> {
+    const trackingNumber = encodeURIComponent(request.trackingNumber);
+    const url = `/track/${UPS_TRACK_API_VERSION}/details/${trackingNumber}`;
+
+    const data = await sendUpsRequest<UpsTrackResponseWrapper>(
+      this.httpClient,
+      this.auth,
+      {
+        method: "GET",
+        url: `${url}?locale=en_US`,
+        operation: "tracking",
+        signal: context?.signal,
+      },
+    );
+
+    return this.parseResponse(data, request.trackingNumber);
+  }
+
+  private parseResponse(
+    data: UpsTrackResponseWrapper,
+    trackingNumber: string,
+  ): TrackingResult {
+    try {
+      const shipment = data?.trackResponse?.shipment?.[0];
+      if (!shipment) {
+        throw new CarrierError(
+          CarrierErrorCode.PARSE_ERROR,
+          "UPS response missing trackResponse shipment",
+          { carrier: "UPS" },
+        );
+      }
+
+      // Unknown numbers come back as HTTP 200 with a warning and no package
+      const pkg = shipment.package?.[0];
+      if (!pkg) {
+        const warning = shipment.warnings?.[0];
+        throw new CarrierError(
+          CarrierErrorCode.CARRIER_API_ERROR,
+          `UPS has no tracking information for ${trackingNumber}`,
+          {
+            carrier: "UPS",
+            upstreamCode: warning?.code,
+            upstreamMessage: warning?.message,
+            retryable: false,
+          },
+        );
+      }
+
+      return mapUpsTrackPackageToResult(pkg);
+    } catch (error) {
+      if (error instanceof CarrierError) throw error;
+      throw new CarrierError(
+        CarrierErrorCode.PARSE_ERROR,
+        `Failed to parse UPS tracking response: ${error instanceof Error ? error.message : "unknown"}`,
+        { carrier: "UPS" },
+      );
+    }
+  }
+}
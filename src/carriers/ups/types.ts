@@ -1,5 +1,6 @@
 /**
- * UPS Rating API raw request/response types.
+ * UPS API raw request/response types (Rating, Landed Cost, Shipping, Void,
+ * Tracking, Address Validation, Pickup, Locator).
  *
  * These mirror the UPS API schema exactly and are NEVER exposed to callers.
  * The mapper layer translates between these and our domain models.
@@ -27,28 +28,54 @@ export interface UpsShipment {
   Service?: UpsService;
   Package: UpsPackage | UpsPackage[];
   PaymentDetails?: {
+    /** Type "01" bills transportation, "02" duties and taxes. */
     ShipmentCharge: Array<{
       Type: string;
       BillShipper?: { AccountNumber: string };
     }>;
   };
+  /** Goods value; required for some lanes, e.g. US to Canada. */
+  InvoiceLineTotal?: UpsCharge;
   ShipmentRatingOptions?: {
     NegotiatedRatesIndicator?: string;
   };
+  ItemizedChargesRequestedIndicator?: string;
+  ShipmentServiceOptions?: {
+    SaturdayDeliveryIndicator?: string;
+  };
+  AlternateDeliveryAddress?: UpsAlternateDeliveryAddress;
+  ShipmentIndicationType?: UpsShipmentIndicationType;
+  /** Required for the time-in-transit request options. */
+  DeliveryTimeInformation?: {
+    /** "02" = documents, "03" = non-documents. */
+    PackageBillType: string;
+    Pickup?: {
+      /** YYYYMMDD */
+      Date: string;
+      /** HHMM */
+      Time?: string;
+    };
+  };
   NumOfPieces?: string;
 }
 
 export interface UpsShipper {
   Name?: string;
   ShipperNumber?: string;
+  Phone?: UpsPhone;
   Address: UpsAddress;
 }
 
 export interface UpsShipTo {
   Name?: string;
+  Phone?: UpsPhone;
   Address: UpsShipToAddress;
 }
 
+export interface UpsPhone {
+  Number: string;
+}
+
 export interface UpsShipFrom {
   Name?: string;
   Address: UpsAddress;
@@ -66,6 +93,18 @@ export interface UpsShipToAddress extends UpsAddress {
   ResidentialAddressIndicator?: string;
 }
 
+/** The access point a hold-for-pickup shipment is delivered to. */
+export interface UpsAlternateDeliveryAddress {
+  Name: string;
+  UPSAccessPointID?: string;
+  Address: UpsAddress;
+}
+
+export interface UpsShipmentIndicationType {
+  /** "01" hold for pickup at an access point, "02" access point delivery */
+  Code: string;
+}
+
 export interface UpsService {
   Code: string;
   Description?: string;
@@ -86,6 +125,61 @@ export interface UpsPackage {
     UnitOfMeasurement: { Code: string; Description?: string };
     Weight: string;
   };
+  AdditionalHandlingIndicator?: string;
+  PackageServiceOptions?: UpsPackageServiceOptions;
+}
+
+export interface UpsPackageServiceOptions {
+  DeliveryConfirmation?: {
+    /** "2" = signature required, "3" = adult signature required. */
+    DCISType: string;
+  };
+  DeclaredValue?: {
+    Type?: { Code: string; Description?: string };
+    CurrencyCode: string;
+    MonetaryValue: string;
+  };
+  COD?: {
+    /** "0" = check, cashier's check or money order. */
+    CODFundsCode: string;
+    CODAmount: UpsCharge;
+  };
+  HazMat?: {
+    /** Up to three records per package. */
+    HazMatChemicalRecord: UpsHazMatChemicalRecord[];
+  };
+  DryIce?: {
+    RegulationSet: UpsRegulationSet;
+    DryIceWeight: {
+      /** "00" = kilograms, "01" = pounds. */
+      UnitOfMeasurement: { Code: string; Description?: string };
+      Weight: string;
+    };
+    MedicalUseIndicator?: string;
+  };
+}
+
+/** "CFR" = US DOT (domestic), "IATA" = international air. */
+export type UpsRegulationSet = "CFR" | "IATA";
+
+export interface UpsHazMatChemicalRecord {
+  ChemicalRecordIdentifier: string;
+  /** UN number including its prefix, e.g. "UN3480". */
+  IDNumber: string;
+  ClassDivisionNumber: string;
+  ProperShippingName: string;
+  Quantity: string;
+  UOM: string;
+  PackagingGroupType?: string;
+  PackagingInstructionCode?: string;
+  RegulationSet: UpsRegulationSet;
+  /** "Ground", "PAX" (passenger aircraft) or "CAO" (cargo aircraft only). */
+  TransportationMode: string;
+  /**
+   * "FR" fully regulated, "LR" lightly regulated, "LQ" limited quantity,
+   * "EQ" excepted quantity.
+   */
+  CommodityRegulatedLevelCode: string;
 }
 
 // ─── Response Types ───
@@ -94,20 +188,23 @@ export interface UpsRateResponseWrapper {
   RateResponse: UpsRateResponse;
 }
 
-export interface UpsRateResponse {
-  Response: {
-    ResponseStatus: {
-      Code: string;
-      Description: string;
-    };
-    Alert?: Array<{
-      Code: string;
-      Description: string;
-    }>;
-    TransactionReference?: {
-      CustomerContext?: string;
-    };
+/** Common `Response` block returned by every UPS API. */
+export interface UpsResponseEnvelope {
+  ResponseStatus: {
+    Code: string;
+    Description: string;
   };
+  Alert?: Array<{
+    Code: string;
+    Description: string;
+  }>;
+  TransactionReference?: {
+    CustomerContext?: string;
+  };
+}
+
+export interface UpsRateResponse {
+  Response: UpsResponseEnvelope;
   RatedShipment: UpsRatedShipment[];
 }
 
@@ -124,28 +221,24 @@ export interface UpsRatedShipment {
   TransportationCharges: UpsCharge;
   ServiceOptionsCharges?: UpsCharge;
   TotalCharges: UpsCharge;
+  ItemizedCharges?: UpsItemizedCharge[];
   NegotiatedRateCharges?: {
     TotalCharge: UpsCharge;
   };
   GuaranteedDelivery?: {
     BusinessDaysInTransit?: string;
+    /** Free text such as "10:30 A.M." or "End of Day". */
     DeliveryByTime?: string;
   };
-  RatedPackage?: Array<{
-    TransportationCharges?: UpsCharge;
-    ServiceOptionsCharges?: UpsCharge;
-    TotalCharges: UpsCharge;
-    Weight?: string;
-    BillingWeight?: {
-      UnitOfMeasurement: { Code: string; Description?: string };
-      Weight: string;
-    };
-  }>;
+  /** UPS returns a bare object instead of an array for single-package shipments. */
+  RatedPackage?: UpsRatedPackage | UpsRatedPackage[];
   TimeInTransit?: {
     ServiceSummary?: {
       EstimatedArrival?: {
         Arrival?: {
+          /** YYYYMMDD */
           Date?: string;
+          /** HHMMSS */
           Time?: string;
         };
         BusinessDaysInTransit?: string;
@@ -154,11 +247,473 @@ export interface UpsRatedShipment {
   };
 }
 
+export interface UpsRatedPackage {
+  TransportationCharges?: UpsCharge;
+  ServiceOptionsCharges?: UpsCharge;
+  TotalCharges: UpsCharge;
+  ItemizedCharges?: UpsItemizedCharge[];
+  Weight?: string;
+  BillingWeight?: {
+    UnitOfMeasurement: { Code: string; Description?: string };
+    Weight: string;
+  };
+}
+
 export interface UpsCharge {
   CurrencyCode: string;
   MonetaryValue: string;
 }
 
+export interface UpsItemizedCharge extends UpsCharge {
+  /** UPS accessorial code, e.g. "375" for the fuel surcharge. */
+  Code: string;
+  Description?: string;
+  SubType?: string;
+}
+
+// ─── Landed Cost API Types ───
+
+export interface UpsLandedCostRequest {
+  currencyCode: string;
+  transID: string;
+  allowPartialLandedCostResult: boolean;
+  alversion: number;
+  shipment: {
+    id: string;
+    importCountryCode: string;
+    importProvince?: string;
+    exportCountryCode: string;
+    /** YYYY-MM-DD */
+    shipDate: string;
+    transModes: string;
+    shipmentType: string;
+    shipmentItems: UpsLandedCostItem[];
+  };
+}
+
+export interface UpsLandedCostItem {
+  commodityId: string;
+  priceEach: number;
+  commodityCurrencyCode: string;
+  quantity: number;
+  UOM: string;
+  hsCode: string;
+  description: string;
+  originCountryCode: string;
+}
+
+export interface UpsLandedCostResponse {
+  shipment: {
+    id: string;
+    currencyCode: string;
+    importCountryCode: string;
+    totalDuties: number;
+    totalVAT: number;
+    totalCommodityLevelTaxesAndFees: number;
+    totalShipmentLevelTaxesAndFees: number;
+    totalBrokerageFees?: number;
+    totalDutyAndTax: number;
+    grandTotal: number;
+  };
+  alversion: number;
+  transID: string;
+}
+
+// ─── Ship API Types ───
+
+export interface UpsShipmentRequestWrapper {
+  ShipmentRequest: {
+    Request: {
+      /** "validate" rejects unverifiable city/state/ZIP; "nonvalidate" does not. */
+      RequestOption: string;
+      TransactionReference?: { CustomerContext: string };
+    };
+    Shipment: UpsShipShipment;
+    LabelSpecification: {
+      LabelImageFormat: { Code: string; Description?: string };
+      /** Required for thermal formats (ZPL). Inches. */
+      LabelStockSize?: { Height: string; Width: string };
+    };
+  };
+}
+
+export interface UpsShipShipment {
+  Description?: string;
+  Shipper: UpsShipper;
+  ShipTo: UpsShipTo;
+  ShipFrom: UpsShipFrom;
+  PaymentInformation: {
+    ShipmentCharge: Array<{
+      Type: string;
+      BillShipper?: { AccountNumber: string };
+    }>;
+  };
+  Service: UpsService;
+  /** The Ship API calls packaging `Packaging` rather than `PackagingType`. */
+  Package: UpsShipPackage[];
+  ShipmentRatingOptions?: {
+    NegotiatedRatesIndicator?: string;
+  };
+  ShipmentServiceOptions?: {
+    SaturdayDeliveryIndicator?: string;
+    InternationalForms?: UpsInternationalForms;
+  };
+  AlternateDeliveryAddress?: UpsAlternateDeliveryAddress;
+  ShipmentIndicationType?: UpsShipmentIndicationType;
+}
+
+/** Customs paperwork UPS prints with the label. */
+export interface UpsInternationalForms {
+  /** "01" = commercial invoice. */
+  FormType: string;
+  /** YYYYMMDD */
+  InvoiceDate: string;
+  ReasonForExport: string;
+  CurrencyCode: string;
+  /** Incoterm, e.g. "DDP". */
+  TermsOfShipment: string;
+  Contacts: {
+    SoldTo: {
+      Name: string;
+      Phone?: UpsPhone;
+      Address: UpsAddress;
+    };
+  };
+  Product: Array<{
+    Description: string;
+    CommodityCode: string;
+    OriginCountryCode: string;
+    Unit: {
+      Number: string;
+      Value: string;
+      UnitOfMeasurement: { Code: string };
+    };
+  }>;
+}
+
+export interface UpsShipPackage extends Omit<UpsPackage, "PackagingType"> {
+  Packaging: { Code: string; Description?: string };
+  ReferenceNumber?: Array<{ Code?: string; Value: string }>;
+}
+
+export interface UpsShipmentResponseWrapper {
+  ShipmentResponse: {
+    Response: UpsResponseEnvelope;
+    ShipmentResults: UpsShipmentResults;
+  };
+}
+
+export interface UpsShipmentResults {
+  ShipmentIdentificationNumber: string;
+  ShipmentCharges: {
+    TransportationCharges?: UpsCharge;
+    ServiceOptionsCharges?: UpsCharge;
+    TotalCharges: UpsCharge;
+  };
+  NegotiatedRateCharges?: {
+    TotalCharge: UpsCharge;
+  };
+  BillingWeight?: {
+    UnitOfMeasurement: { Code: string; Description?: string };
+    Weight: string;
+  };
+  /** A bare object for single-package shipments, an array otherwise. */
+  PackageResults: UpsPackageResult | UpsPackageResult[];
+}
+
+export interface UpsPackageResult {
+  TrackingNumber: string;
+  ShippingLabel?: {
+    ImageFormat: { Code: string; Description?: string };
+    /** Base64-encoded label. */
+    GraphicImage: string;
+  };
+}
+
+// ─── Void API Types ───
+
+export interface UpsVoidShipmentResponseWrapper {
+  VoidShipmentResponse: {
+    Response: UpsResponseEnvelope;
+    SummaryResult: {
+      /** Code "1" means the shipment was voided. */
+      Status: { Code: string; Description?: string };
+    };
+    /** Present when specific tracking numbers were voided. */
+    PackageLevelResult?: UpsVoidPackageResult | UpsVoidPackageResult[];
+  };
+}
+
+export interface UpsVoidPackageResult {
+  TrackingNumber: string;
+  /** Code "1" means the package was voided. */
+  Status: { Code: string; Description?: string };
+}
+
+// ─── Track API Types ───
+
+export interface UpsTrackResponseWrapper {
+  trackResponse: {
+    shipment: UpsTrackShipment[];
+  };
+}
+
+export interface UpsTrackShipment {
+  inquiryNumber: string;
+  package?: UpsTrackPackage[];
+  /** e.g. { code: "TW0001", message: "Tracking Information Not Found" } */
+  warnings?: Array<{ code: string; message: string }>;
+}
+
+export interface UpsTrackPackage {
+  trackingNumber: string;
+  /** "SDD" scheduled, "RDD" rescheduled, "DEL" actual delivery. */
+  deliveryDate?: Array<{ type: string; date: string }>;
+  currentStatus?: { code: string; description: string };
+  /** Most recent first, as returned by UPS. */
+  activity?: UpsTrackActivity[];
+}
+
+export interface UpsTrackActivity {
+  location?: {
+    address?: {
+      city?: string;
+      stateProvince?: string;
+      postalCode?: string;
+      countryCode?: string;
+    };
+  };
+  status: {
+    /** Status category: "M" manifested, "I" in transit, "D" delivered, ... */
+    type: string;
+    description: string;
+    code?: string;
+  };
+  /** Local date/time at the scan location, YYYYMMDD / HHmmss. */
+  date: string;
+  time: string;
+  /** UTC offset of the scan location, e.g. "-04:00". */
+  gmtOffset?: string;
+}
+
+// ─── Address Validation API Types ───
+
+export interface UpsAddressKeyFormat {
+  ConsigneeName?: string;
+  AddressLine: string | string[];
+  /** City */
+  PoliticalDivision2: string;
+  /** State or province code */
+  PoliticalDivision1?: string;
+  /** ZIP code */
+  PostcodePrimaryLow: string;
+  /** ZIP+4 extension */
+  PostcodeExtendedLow?: string;
+  CountryCode: string;
+}
+
+export interface UpsAddressClassification {
+  /** "0" unknown, "1" commercial, "2" residential */
+  Code: string;
+  Description: string;
+}
+
+export interface UpsAddressValidationRequestWrapper {
+  XAVRequest: {
+    AddressKeyFormat: UpsAddressKeyFormat;
+  };
+}
+
+export interface UpsAddressCandidate {
+  AddressClassification?: UpsAddressClassification;
+  AddressKeyFormat: UpsAddressKeyFormat;
+}
+
+export interface UpsAddressValidationResponseWrapper {
+  XAVResponse: {
+    Response: UpsResponseEnvelope;
+    /** Exactly one of the three indicators is present, as an empty string. */
+    ValidAddressIndicator?: string;
+    AmbiguousAddressIndicator?: string;
+    NoCandidatesIndicator?: string;
+    AddressClassification?: UpsAddressClassification;
+    Candidate?: UpsAddressCandidate | UpsAddressCandidate[];
+  };
+}
+
+// ─── Pickup API Types ───
+
+export interface UpsPickupAddress {
+  CompanyName: string;
+  ContactName: string;
+  AddressLine: string[];
+  City: string;
+  StateProvince?: string;
+  PostalCode: string;
+  CountryCode: string;
+  /** "Y" residential, "N" commercial */
+  ResidentialIndicator: string;
+  /** Required by UPS; pickup validation requires a phone number. */
+  Phone?: UpsPhone;
+}
+
+export interface UpsPickupDateInfo {
+  /** HHmm */
+  ReadyTime: string;
+  /** HHmm */
+  CloseTime: string;
+  /** YYYYMMDD */
+  PickupDate: string;
+}
+
+export interface UpsPickupCreationRequestWrapper {
+  PickupCreationRequest: {
+    /** "Y" returns the pickup charge with the confirmation. */
+    RatePickupIndicator: string;
+    Shipper: {
+      Account: { AccountNumber: string; AccountCountryCode: string };
+    };
+    PickupDateInfo: UpsPickupDateInfo;
+    PickupAddress: UpsPickupAddress;
+    /** "N": pickup at the account's address on file or the one given. */
+    AlternateAddressIndicator: string;
+    PickupPiece: Array<{
+      ServiceCode: string;
+      Quantity: string;
+      DestinationCountryCode: string;
+      /** "01" package, "02" UPS letter, "03" pallet */
+      ContainerCode: string;
+    }>;
+    TotalWeight: { Weight: string; UnitOfMeasurement: string };
+    OverweightIndicator: string;
+    /** "01" bill the shipper account */
+    PaymentMethod: string;
+    SpecialInstruction?: string;
+  };
+}
+
+export interface UpsPickupRateResult {
+  GrandTotalOfAllCharge: string;
+  CurrencyCode: string;
+}
+
+export interface UpsPickupCreationResponseWrapper {
+  PickupCreationResponse: {
+    Response: UpsResponseEnvelope;
+    /** Pickup Request Number — the confirmation number. */
+    PRN: string;
+    RateResult?: UpsPickupRateResult;
+  };
+}
+
+export interface UpsPickupRateRequestWrapper {
+  PickupRateRequest: {
+    PickupAddress: Omit<
+      UpsPickupAddress,
+      "CompanyName" | "ContactName" | "Phone"
+    >;
+    AlternateAddressIndicator: string;
+    /** "01" same day, "02" future day */
+    ServiceDateOption: string;
+    PickupDateInfo: UpsPickupDateInfo;
+  };
+}
+
+export interface UpsPickupRateResponseWrapper {
+  PickupRateResponse: {
+    Response: UpsResponseEnvelope;
+    RateResult: UpsPickupRateResult;
+  };
+}
+
+export interface UpsPickupCancelResponseWrapper {
+  PickupCancelResponse: {
+    Response: UpsResponseEnvelope;
+    PickupType?: string;
+  };
+}
+
+// ─── Locator API Types ───
+
+export interface UpsLocatorRequestWrapper {
+  LocatorRequest: {
+    Request: {
+      RequestAction: string;
+      /** "1" searches drop-off and access point locations. */
+      RequestOption: string;
+      TransactionReference?: { CustomerContext: string };
+    };
+    OriginAddress: {
+      Geocode?: { Latitude: string; Longitude: string };
+      /** Only `CountryCode` is required when searching by geocode. */
+      AddressKeyFormat: Partial<UpsAddressKeyFormat> & { CountryCode: string };
+    };
+    Translate: { Locale: string };
+    /** "MI" or "KM"; used for the search radius and result distances. */
+    UnitOfMeasurement: { Code: string };
+    LocationSearchCriteria: {
+      SearchOption?: Array<{
+        /** "01" location type */
+        OptionType: { Code: string };
+        OptionCode: Array<{ Code: string }>;
+      }>;
+      MaximumListSize: string;
+      SearchRadius?: string;
+    };
+  };
+}
+
+export interface UpsLocatorOptionCode {
+  Code: string;
+  Description?: string;
+}
+
+export interface UpsLocationAttribute {
+  /** "01" location type, "03" services offered */
+  OptionType: { Code: string; Description?: string };
+  OptionCode: UpsLocatorOptionCode | UpsLocatorOptionCode[];
+}
+
+export interface UpsLocatorDayHours {
+  /** "1" Sunday through "7" Saturday */
+  Day: string;
+  /** HHmm */
+  OpenHours?: string;
+  /** HHmm */
+  CloseHours?: string;
+  ClosedIndicator?: string;
+  Open24HoursIndicator?: string;
+}
+
+export interface UpsDropLocation {
+  LocationID: string;
+  Geocode?: { Latitude: string; Longitude: string };
+  AddressKeyFormat: UpsAddressKeyFormat;
+  PhoneNumber?: string;
+  Distance?: { Value: string; UnitOfMeasurement: { Code: string } };
+  LocationAttribute?: UpsLocationAttribute | UpsLocationAttribute[];
+  OperatingHours?: {
+    StandardHours?: Array<{
+      /** "10" regular operating hours */
+      HoursType: string;
+      DayOfWeek: UpsLocatorDayHours[];
+    }>;
+  };
+  /** Present only for UPS Access Point locations. */
+  AccessPointInformation?: {
+    PublicAccessPointID: string;
+  };
+}
+
+export interface UpsLocatorResponseWrapper {
+  LocatorResponse: {
+    Response: UpsResponseEnvelope;
+    SearchResults?: {
+      DropLocation?: UpsDropLocation | UpsDropLocation[];
+    };
+  };
+}
+
 // ─── Error Response Types ───
 
 export interface UpsErrorResponse {
@@ -0,0 +1,108 @@
+import type { UpsConfig } from "../../config/index.js";
+import { CarrierError, CarrierErrorCode } from "../../domain/errors.js";
+import type {
+  VoidShipmentRequest,
+  VoidShipmentResponse,
+} from "../../domain/models.js";
+import { HttpClient } from "../../http/client.js";
+import type {
+  CarrierAuthenticator,
+  CarrierOperation,
+  OperationContext,
+} from "../types.js";
+import { mapUpsVoidResponse } from "./mapper.js";
+import {
+  UPS_API_VERSION,
+  sendUpsRequest,
+  upsRequestLimiter,
+} from "./request.js";
+import type { UpsVoidShipmentResponseWrapper } from "./types.js";
+
+/**
+ * UPS error codes meaning the labels can no longer be voided: the void
+ * window has closed, or the packages are already in the UPS network.
+ */
+const UPS_VOID_REJECTED_CODES = new Set([
+  "190100",
+  "190101",
+  "190102",
+  "190117",
+]);
+
+/**
+ * UPS Void operation — cancels a whole shipment or, when tracking numbers
+ * are given, only those packages of a multi-package shipment.
+ */
+export class UpsVoidOperation
+  implements CarrierOperation<VoidShipmentRequest, VoidShipmentResponse>
+{
+  private httpClient: HttpClient;
+
+  constructor(
+    config: UpsConfig,
+    private auth: CarrierAuthenticator,
+  ) {
+    this.httpClient = new HttpClient({
+      baseURL: config.baseUrl,
+      timeoutMs: config.timeoutMs,
+      limiter: upsRequestLimiter(config),
+    });
+  }
+
+  async execute(
+    request: VoidShipmentRequest,
+    context?: OperationContext,
+  ): Promise<VoidShipmentResponse> {
+    let data: UpsVoidShipmentResponseWrapper;
+    try {
+      data = await sendUpsRequest<UpsVoidShipmentResponseWrapper>(
+        this.httpClient,
+        this.auth,
+        {
+          method: "DELETE",
+          url: buildVoidUrl(request),
+          operation: "void",
+          signal: context?.signal,
+        },
+      );
+    } catch (error) {
+      throw translateVoidError(error, request);
+    }
+
+    return mapUpsVoidResponse(data, request);
+  }
+}
+
+function buildVoidUrl(request: VoidShipmentRequest): string {
+  const id = encodeURIComponent(request.trackingOrShipmentId);
+  const url = `/shipments/${UPS_API_VERSION}/void/cancel/${id}`;
+
+  const trackingNumbers = request.trackingNumbers;
+  if (!trackingNumbers?.length) return url;
+
+  // UPS takes a bare number for one package and a bracketed list for more
+  const trackingnumber =
+    trackingNumbers.length === 1
+      ? trackingNumbers[0]
+      : JSON.stringify(trackingNumbers);
+  return `${url}?${new URLSearchParams({ trackingnumber })}`;
+}
+
+function translateVoidError(
+  error: unknown,
+  request: VoidShipmentRequest,
+): unknown {
+  if (
+    !(error instanceof CarrierError) ||
+    error.code !== CarrierErrorCode.CARRIER_API_ERROR ||
+    !UPS_VOID_REJECTED_CODES.has(error.details.upstreamCode ?? "")
+  ) {
+    return error;
+  }
+
+  return new CarrierError(
+    CarrierErrorCode.VOID_NOT_ALLOWED,
+    `UPS can no longer void ${request.trackingOrShipmentId}: ${error.details.upstreamMessage}`,
+    { ...error.details, carrier: "UPS", retryable: false },
+  );
+}
@@ -0,0 +1,40 @@
+import type { UspsConfig } from "../../config/index.js";
+import type { RateRequest, RateResponse } from "../../domain/models.js";
+import { RateRequestSchema } from "../../validation/schemas.js";
+import type {
+  CarrierClient,
+  CarrierOperations,
+  OperationContext,
+} from "../types.js";
+import { ValidatedOperation } from "../validated-operation.js";
+import { UspsAuthenticator } from "./auth.js";
+import { USPS_CAPABILITIES } from "./mapper.js";
+import { UspsRatingOperation } from "./rating.js";
+
+/**
+ * USPS carrier client — the public entry point for all USPS operations.
+ */
+export class UspsCarrierClient implements CarrierClient {
+  readonly name = "USPS" as const;
+  readonly capabilities = USPS_CAPABILITIES;
+  readonly operations: Pick<CarrierOperations, "rating">;
+
+  constructor(config: UspsConfig) {
+    const auth = new UspsAuthenticator(config);
+    this.operations = {
+      rating: new ValidatedOperation(
+        new UspsRatingOperation(config, auth),
+        RateRequestSchema,
+        this.name,
+        "rate request",
+      ),
+    };
+  }
+
+  async getRates(
+    request: RateRequest,
+    context?: OperationContext,
+  ): Promise<RateResponse> {
+    return this.operations.rating.execute(request, context);
+  }
+}
@@ -0,0 +1,5 @@
+export { UspsCarrierClient } from "./client.js";
+export { UspsAuthenticator } from "./auth.js";
+export { UspsRatingOperation } from "./rating.js";
+export * from "./types.js";
+export * from "./mapper.js";
@@ -0,0 +1,309 @@
+/**
+ * Bidirectional mapper between our domain models and USPS API types.
+ *
+ * USPS prices one piece per call, so the request side works per package and
+ * the response side folds the per-package prices back into a single quote.
+ * USPS sizing rules (weight limits, length + girth, machinability) live here
+ * as well, since they decide what we can legally send.
+ */
+
+import type {
+  Dimensions,
+  Package,
+  PackageWeight,
+  RateQuote,
+  RateRequest,
+} from "../../domain/models.js";
+import { CarrierError, CarrierErrorCode } from "../../domain/errors.js";
+import type { CarrierCapabilities } from "../types.js";
+import type {
+  UspsPriceRequest,
+  UspsPriceResponse,
+  UspsServiceDefinition,
+} from "./types.js";
+import {
+  USPS_DOMESTIC_SHOP_SERVICES,
+  USPS_INTERNATIONAL_SHOP_SERVICES,
+  USPS_SERVICES,
+} from "./types.js";
+
+// ─── Sizing rules ───
+
+const POUNDS_PER_KG = 2.20462;
+const OUNCES_PER_POUND = 16;
+const CM_PER_INCH = 2.54;
+
+const MAX_WEIGHT_LB = 70;
+const FIRST_CLASS_INTERNATIONAL_MAX_WEIGHT_LB = 4;
+const MAX_LENGTH_PLUS_GIRTH_IN = 108;
+const GROUND_ADVANTAGE_MAX_LENGTH_PLUS_GIRTH_IN = 130;
+
+/** Anything beyond these bounds cannot run on USPS sorting equipment. */
+const MACHINABLE_MAX_LENGTH_IN = 22;
+const MACHINABLE_MAX_WIDTH_IN = 18;
+const MACHINABLE_MAX_HEIGHT_IN = 15;
+const MACHINABLE_MAX_WEIGHT_LB = 25;
+
+/**
+ * US states plus the territories and freely associated states that USPS
+ * rates as domestic mail.
+ */
+const USPS_DOMESTIC_COUNTRIES = new Set([
+  "US",
+  "PR",
+  "VI",
+  "GU",
+  "AS",
+  "MP",
+  "FM",
+  "MH",
+  "PW",
+]);
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function toPounds(weight: PackageWeight): number {
+  switch (weight.unit) {
+    case "LB":
+      return weight.value;
+    case "KG":
+      return weight.value * POUNDS_PER_KG;
+    case "OZ":
+      return weight.value / OUNCES_PER_POUND;
+  }
+}
+
+/** Returns [length, width, height] in inches, longest side first. */
+function toSortedInches(dim: Dimensions): [number, number, number] {
+  const factor = dim.unit === "CM" ? 1 / CM_PER_INCH : 1;
+  const sides = [dim.length, dim.width, dim.height]
+    .map((side) => side * factor)
+    .sort((a, b) => b - a);
+  return [sides[0], sides[1], sides[2]];
+}
+
+function uspsValidationError(message: string): CarrierError {
+  return new CarrierError(CarrierErrorCode.VALIDATION_ERROR, message, {
+    carrier: "USPS",
+    retryable: false,
+  });
+}
+
+export function isUspsDomestic(countryCode: string): boolean {
+  return USPS_DOMESTIC_COUNTRIES.has(countryCode);
+}
+
+/**
+ * Decide which USPS services to price. A caller-supplied service code is
+ * checked against the lane; otherwise the default shop list for the lane
+ * is returned.
+ */
+export function resolveUspsServices(request: RateRequest): string[] {
+  if (!isUspsDomestic(request.origin.countryCode)) {
+    throw uspsValidationError(
+      `USPS only accepts shipments originating in the US (got ${request.origin.countryCode})`,
+    );
+  }
+
+  const international = !isUspsDomestic(request.destination.countryCode);
+
+  if (!request.serviceCode) {
+    return international
+      ? USPS_INTERNATIONAL_SHOP_SERVICES
+      : USPS_DOMESTIC_SHOP_SERVICES;
+  }
+
+  const definition = USPS_SERVICES[request.serviceCode];
+  if (!definition) {
+    throw uspsValidationError(
+      `Unknown USPS service code: ${request.serviceCode}`,
+    );
+  }
+  if (definition.international !== international) {
+    throw uspsValidationError(
+      `USPS service ${request.serviceCode} is not available for ${international ? "international" : "domestic"} destinations`,
+    );
+  }
+
+  return [request.serviceCode];
+}
+
+function checkWeightLimit(
+  serviceCode: string,
+  definition: UspsServiceDefinition,
+  weightLb: number,
+): void {
+  const limit =
+    serviceCode === "FIRST_CLASS_PACKAGE_INTERNATIONAL"
+      ? FIRST_CLASS_INTERNATIONAL_MAX_WEIGHT_LB
+      : MAX_WEIGHT_LB;
+  if (weightLb > limit) {
+    throw uspsValidationError(
+      `${definition.name} accepts at most ${limit} lb per package (got ${round(weightLb)} lb)`,
+    );
+  }
+}
+
+function checkSizeLimit(
+  serviceCode: string,
+  definition: UspsServiceDefinition,
+  [length, width, height]: [number, number, number],
+): void {
+  const limit =
+    serviceCode === "USPS_GROUND_ADVANTAGE"
+      ? GROUND_ADVANTAGE_MAX_LENGTH_PLUS_GIRTH_IN
+      : MAX_LENGTH_PLUS_GIRTH_IN;
+  const lengthPlusGirth = length + 2 * (width + height);
+  if (lengthPlusGirth > limit) {
+    throw uspsValidationError(
+      `${definition.name} accepts at most ${limit} in length + girth (got ${round(lengthPlusGirth)} in)`,
+    );
+  }
+}
+
+function processingCategoryFor(
+  weightLb: number,
+  sides: [number, number, number] | undefined,
+): string {
+  if (weightLb > MACHINABLE_MAX_WEIGHT_LB) return "NONSTANDARD";
+  if (!sides) return "MACHINABLE";
+  const [length, width, height] = sides;
+  return length > MACHINABLE_MAX_LENGTH_IN ||
+    width > MACHINABLE_MAX_WIDTH_IN ||
+    height > MACHINABLE_MAX_HEIGHT_IN
+    ? "NONSTANDARD"
+    : "MACHINABLE";
+}
+
+// ─── Domain → USPS ───
+
+/**
+ * Build the price request for a single package. Flat-rate products are
+ * priced without dimensions; everything else sends inches so USPS can
+ * apply dimensional weight to packages over one cubic foot.
+ */
+export function buildUspsPriceRequest(
+  request: RateRequest,
+  pkg: Package,
+  serviceCode: string,
+  mailingDate: string,
+): UspsPriceRequest {
+  const definition = USPS_SERVICES[serviceCode];
+  if (!definition) {
+    throw uspsValidationError(`Unknown USPS service code: ${serviceCode}`);
+  }
+
+  const weightLb = toPounds(pkg.weight);
+  checkWeightLimit(serviceCode, definition, weightLb);
+
+  const sides = pkg.dimensions ? toSortedInches(pkg.dimensions) : undefined;
+  if (sides && !definition.flatRate) {
+    checkSizeLimit(serviceCode, definition, sides);
+  }
+
+  const common = {
+    originZIPCode: request.origin.postalCode.slice(0, 5),
+    weight: round(weightLb),
+    ...(sides && !definition.flatRate
+      ? {
+          length: round(sides[0]),
+          width: round(sides[1]),
+          height: round(sides[2]),
+        }
+      : {}),
+    mailClass: definition.mailClass,
+    processingCategory:
+      definition.flatRate?.processingCategory ??
+      processingCategoryFor(weightLb, sides),
+    destinationEntryFacilityType: "NONE",
+    rateIndicator: definition.rateIndicator,
+    priceType: "RETAIL",
+    mailingDate,
+  };
+
+  if (definition.international) {
+    return {
+      ...common,
+      foreignPostalCode: request.destination.postalCode,
+      destinationCountryCode: request.destination.countryCode,
+    };
+  }
+
+  return {
+    ...common,
+    destinationZIPCode: request.destination.postalCode.slice(0, 5),
+  };
+}
+
+// ─── USPS → Domain ───
+
+/**
+ * Fold the per-package price responses for one service into a quote.
+ * Billing weight is the greater of actual and dimensional weight per piece.
+ */
+export function mapUspsPricesToQuote(
+  serviceCode: string,
+  responses: UspsPriceResponse[],
+): RateQuote {
+  const definition = USPS_SERVICES[serviceCode];
+  const serviceName = definition?.name ?? `USPS Service ${serviceCode}`;
+
+  let total = 0;
+  let fees = 0;
+  let billingWeight = 0;
+
+  for (const response of responses) {
+    if (typeof response?.totalBasePrice !== "number") {
+      throw new CarrierError(
+        CarrierErrorCode.PARSE_ERROR,
+        "USPS price response missing totalBasePrice",
+        { carrier: "USPS" },
+      );
+    }
+    total += response.totalBasePrice;
+
+    const rate = response.rates?.[0];
+    fees += rate?.fees?.reduce((sum, fee) => sum + fee.price, 0) ?? 0;
+    billingWeight += Math.max(rate?.weight ?? 0, rate?.dimWeight ?? 0);
+  }
+
+  return {
+    carrier: "USPS",
+    serviceCode,
+    serviceName,
+    totalCharges: { currency: "USD", amount: round(total) },
+    transportationCharges: { currency: "USD", amount: round(total - fees) },
+    serviceOptionsCharges:
+      fees > 0 ? { currency: "USD", amount: round(fees) } : undefined,
+    billingWeight:
+      billingWeight > 0
+        ? { value: round(billingWeight), unit: "LB" }
+        : undefined,
+  };
+}
+
+// ─── Capabilities ───
+
+/**
+ * USPS ships only from domestic addresses. Limits are those of the most
+ * generous service; flat-rate products use USPS packaging chosen by service
+ * code, so packages are otherwise rated as the shipper's own box.
+ */
+export const USPS_CAPABILITIES: CarrierCapabilities = {
+  originCountries: [...USPS_DOMESTIC_COUNTRIES],
+  maxWeight: { value: MAX_WEIGHT_LB, unit: "LB" },
+  maxDimensions: {
+    lengthPlusGirth: GROUND_ADVANTAGE_MAX_LENGTH_PLUS_GIRTH_IN,
+    unit: "IN",
+  },
+  packagingTypes: ["CUSTOM"],
+  acceptsDangerousGoods: false,
+  acceptsServiceOptions: false,
+  acceptsHoldAtLocation: false,
+  services: Object.entries(USPS_SERVICES).map(([code, service]) => ({
+    code,
+    name: service.name,
+  })),
+};
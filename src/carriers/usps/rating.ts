@@ -0,0 +1,160 @@
+import type { UspsConfig } from "../../config/index.js";
+import { CarrierError, CarrierErrorCode } from "../../domain/errors.js";
+import type {
+  RateQuote,
+  RateRequest,
+  RateResponse,
+} from "../../domain/models.js";
+import { resolveShipDate } from "../../domain/ship-date.js";
+import { HttpClient } from "../../http/client.js";
+import { accountLimiter } from "../../http/limiter.js";
+import type {
+  CarrierAuthenticator,
+  CarrierOperation,
+  OperationContext,
+} from "../types.js";
+import {
+  buildUspsPriceRequest,
+  mapUspsPricesToQuote,
+  resolveUspsServices,
+} from "./mapper.js";
+import { USPS_SERVICES } from "./types.js";
+import type { UspsPriceResponse } from "./types.js";
+
+const DOMESTIC_PRICES_PATH = "/prices/v3/base-rates/search";
+const INTERNATIONAL_PRICES_PATH = "/international-prices/v3/base-rates/search";
+
+/**
+ * USPS Rating operation.
+ *
+ * The Prices API quotes one mail class for one piece per call, so shopping
+ * fans out over every candidate service and package. When shopping, a
+ * service USPS rejects (e.g. the package is too large for it) is dropped
+ * rather than failing the whole request.
+ */
+export class UspsRatingOperation
+  implements CarrierOperation<RateRequest, RateResponse>
+{
+  private httpClient: HttpClient;
+
+  constructor(
+    config: UspsConfig,
+    private auth: CarrierAuthenticator,
+  ) {
+    this.httpClient = new HttpClient({
+      baseURL: config.baseUrl,
+      timeoutMs: config.timeoutMs,
+      limiter: accountLimiter("USPS", config.clientId, config.rateLimit),
+    });
+  }
+
+  async execute(
+    request: RateRequest,
+    context?: OperationContext,
+  ): Promise<RateResponse> {
+    const serviceCodes = resolveUspsServices(request);
+    const signal = context?.signal;
+
+    let token: string;
+    try {
+      token = await this.auth.getAccessToken(signal);
+    } catch (error) {
+      if (error instanceof CarrierError) throw error;
+      throw new CarrierError(
+        CarrierErrorCode.AUTHENTICATION_ERROR,
+        "Failed to obtain USPS access token",
+        { carrier: "USPS", retryable: true },
+      );
+    }
+
+    const mailingDate = resolveShipDate(request.shipDate);
+    const results = await Promise.allSettled(
+      serviceCodes.map((code) =>
+        this.rateService(request, code, token, mailingDate, signal),
+      ),
+    );
+
+    const quotes: RateQuote[] = [];
+    let firstError: unknown;
+    for (const result of results) {
+      if (result.status === "fulfilled") {
+        quotes.push(result.value);
+      } else {
+        firstError ??= result.reason;
+      }
+    }
+
+    if (quotes.length === 0) {
+      throw firstError;
+    }
+
+    return { quotes };
+  }
+
+  private async rateService(
+    request: RateRequest,
+    serviceCode: string,
+    token: string,
+    mailingDate: string,
+    signal?: AbortSignal,
+  ): Promise<RateQuote> {
+    const path = USPS_SERVICES[serviceCode].international
+      ? INTERNATIONAL_PRICES_PATH
+      : DOMESTIC_PRICES_PATH;
+
+    // Build every payload before sending any, so a package USPS cannot take
+    // fails the service without leaving requests already in flight
+    const bodies = request.packages.map((pkg) =>
+      buildUspsPriceRequest(request, pkg, serviceCode, mailingDate),
+    );
+    const responses = await Promise.all(
+      bodies.map((body) => this.post(path, body, token, signal)),
+    );
+
+    try {
+      return mapUspsPricesToQuote(serviceCode, responses);
+    } catch (error) {
+      if (error instanceof CarrierError) throw error;
+      throw new CarrierError(
+        CarrierErrorCode.PARSE_ERROR,
+        `Failed to parse USPS price response: ${error instanceof Error ? error.message : "unknown"}`,
+        { carrier: "USPS" },
+      );
+    }
+  }
+
+  private async post(
+    path: string,
+    body: unknown,
+    token: string,
+    signal?: AbortSignal,
+  ): Promise<UspsPriceResponse> {
+    try {
+      const response = await this.httpClient.post<UspsPriceResponse>(
+        path,
+        body,
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+            "Content-Type": "application/json",
+          },
+          signal,
+        },
+      );
+      return response.data;
+    } catch (error) {
+      if (error instanceof CarrierError) {
+        if (error.code === CarrierErrorCode.AUTHENTICATION_ERROR) {
+          this.auth.invalidateToken();
+        }
+        error.details.carrier = "USPS";
+        throw error;
+      }
+      throw new CarrierError(
+        CarrierErrorCode.UNKNOWN_ERROR,
+        `USPS rating request failed: ${error instanceof Error ? error.message : "unknown"}`,
+        { carrier: "USPS", retryable: false },
+      );
+    }
+  }
+}
@@ -0,0 +1,225 @@
+/**
+ * USPS Prices API (v3) raw request/response types.
+ *
+ * These mirror the USPS API schema exactly and are NEVER exposed to callers.
+ * The mapper layer translates between these and our domain models.
+ */
+
+// ─── Request Types ───
+
+/** Body for `/prices/v3/base-rates/search` (domestic). */
+export interface UspsDomesticPriceRequest {
+  originZIPCode: string;
+  destinationZIPCode: string;
+  weight: number;
+  length?: number;
+  width?: number;
+  height?: number;
+  mailClass: string;
+  processingCategory: string;
+  destinationEntryFacilityType: string;
+  rateIndicator: string;
+  priceType: string;
+  mailingDate: string;
+}
+
+/** Body for `/international-prices/v3/base-rates/search`. */
+export interface UspsInternationalPriceRequest {
+  originZIPCode: string;
+  foreignPostalCode?: string;
+  destinationCountryCode: string;
+  weight: number;
+  length?: number;
+  width?: number;
+  height?: number;
+  mailClass: string;
+  processingCategory: string;
+  destinationEntryFacilityType: string;
+  rateIndicator: string;
+  priceType: string;
+  mailingDate: string;
+}
+
+export type UspsPriceRequest =
+  | UspsDomesticPriceRequest
+  | UspsInternationalPriceRequest;
+
+// ─── Response Types ───
+
+export interface UspsPriceResponse {
+  totalBasePrice: number;
+  rates: UspsRate[];
+}
+
+export interface UspsRate {
+  SKU?: string;
+  description?: string;
+  priceType?: string;
+  price: number;
+  weight?: number;
+  dimWeight?: number;
+  fees?: Array<{
+    name: string;
+    SKU?: string;
+    price: number;
+  }>;
+  startDate?: string;
+  endDate?: string;
+  mailClass?: string;
+  zone?: string;
+}
+
+// ─── Error Response Types ───
+
+export interface UspsErrorResponse {
+  apiVersion?: string;
+  error: {
+    code: string;
+    message: string;
+    errors?: Array<{
+      status?: string;
+      code?: string;
+      title?: string;
+      detail?: string;
+    }>;
+  };
+}
+
+// ─── Service Mapping ───
+
+/**
+ * A rateable USPS product. USPS prices a mail class + rate indicator pair,
+ * so flat-rate packaging is modelled as its own service code.
+ */
+export interface UspsServiceDefinition {
+  name: string;
+  mailClass: string;
+  rateIndicator: string;
+  international: boolean;
+  /** Flat-rate products are priced without dimensions. */
+  flatRate?: {
+    processingCategory: string;
+  };
+}
+
+export const USPS_SERVICES: Record<string, UspsServiceDefinition> = {
+  USPS_GROUND_ADVANTAGE: {
+    name: "USPS Ground Advantage",
+    mailClass: "USPS_GROUND_ADVANTAGE",
+    rateIndicator: "SP",
+    international: false,
+  },
+  PRIORITY_MAIL: {
+    name: "USPS Priority Mail",
+    mailClass: "PRIORITY_MAIL",
+    rateIndicator: "SP",
+    international: false,
+  },
+  PRIORITY_MAIL_EXPRESS: {
+    name: "USPS Priority Mail Express",
+    mailClass: "PRIORITY_MAIL_EXPRESS",
+    rateIndicator: "SP",
+    international: false,
+  },
+  PRIORITY_MAIL_FLAT_RATE_ENVELOPE: {
+    name: "USPS Priority Mail Flat Rate Envelope",
+    mailClass: "PRIORITY_MAIL",
+    rateIndicator: "FE",
+    international: false,
+    flatRate: { processingCategory: "FLATS" },
+  },
+  PRIORITY_MAIL_PADDED_FLAT_RATE_ENVELOPE: {
+    name: "USPS Priority Mail Padded Flat Rate Envelope",
+    mailClass: "PRIORITY_MAIL",
+    rateIndicator: "FP",
+    international: false,
+    flatRate: { processingCategory: "FLATS" },
+  },
+  PRIORITY_MAIL_SMALL_FLAT_RATE_BOX: {
+    name: "USPS Priority Mail Small Flat Rate Box",
+    mailClass: "PRIORITY_MAIL",
+    rateIndicator: "FS",
+    international: false,
+    flatRate: { processingCategory: "MACHINABLE" },
+  },
+  PRIORITY_MAIL_MEDIUM_FLAT_RATE_BOX: {
+    name: "USPS Priority Mail Medium Flat Rate Box",
+    mailClass: "PRIORITY_MAIL",
+    rateIndicator: "FB",
+    international: false,
+    flatRate: { processingCategory: "MACHINABLE" },
+  },
+  PRIORITY_MAIL_LARGE_FLAT_RATE_BOX: {
+    name: "USPS Priority Mail Large Flat Rate Box",
+    mailClass: "PRIORITY_MAIL",
+    rateIndicator: "PL",
+    international: false,
+    flatRate: { processingCategory: "MACHINABLE" },
+  },
+  PRIORITY_MAIL_EXPRESS_FLAT_RATE_ENVELOPE: {
+    name: "USPS Priority Mail Express Flat Rate Envelope",
+    mailClass: "PRIORITY_MAIL_EXPRESS",
+    rateIndicator: "E4",
+    international: false,
+    flatRate: { processingCategory: "FLATS" },
+  },
+  FIRST_CLASS_PACKAGE_INTERNATIONAL: {
+    name: "USPS First-Class Package International Service",
+    mailClass: "FIRST-CLASS_PACKAGE_INTERNATIONAL_SERVICE",
+    rateIndicator: "SP",
+    international: true,
+  },
+  PRIORITY_MAIL_INTERNATIONAL: {
+    name: "USPS Priority Mail International",
+    mailClass: "PRIORITY_MAIL_INTERNATIONAL",
+    rateIndicator: "SP",
+    international: true,
+  },
+  PRIORITY_MAIL_EXPRESS_INTERNATIONAL: {
+    name: "USPS Priority Mail Express International",
+    mailClass: "PRIORITY_MAIL_EXPRESS_INTERNATIONAL",
+    rateIndicator: "SP",
+    international: true,
+  },
+  PRIORITY_MAIL_INTERNATIONAL_FLAT_RATE_ENVELOPE: {
+    name: "USPS Priority Mail International Flat Rate Envelope",
+    mailClass: "PRIORITY_MAIL_INTERNATIONAL",
+    rateIndicator: "FE",
+    international: true,
+    flatRate: { processingCategory: "FLATS" },
+  },
+  PRIORITY_MAIL_INTERNATIONAL_SMALL_FLAT_RATE_BOX: {
+    name: "USPS Priority Mail International Small Flat Rate Box",
+    mailClass: "PRIORITY_MAIL_INTERNATIONAL",
+    rateIndicator: "FS",
+    international: true,
+    flatRate: { processingCategory: "MACHINABLE" },
+  },
+  PRIORITY_MAIL_INTERNATIONAL_MEDIUM_FLAT_RATE_BOX: {
+    name: "USPS Priority Mail International Medium Flat Rate Box",
+    mailClass: "PRIORITY_MAIL_INTERNATIONAL",
+    rateIndicator: "FB",
+    international: true,
+    flatRate: { processingCategory: "MACHINABLE" },
+  },
+  PRIORITY_MAIL_INTERNATIONAL_LARGE_FLAT_RATE_BOX: {
+    name: "USPS Priority Mail International Large Flat Rate Box",
+    mailClass: "PRIORITY_MAIL_INTERNATIONAL",
+    rateIndicator: "PL",
+    international: true,
+    flatRate: { processingCategory: "MACHINABLE" },
+  },
+};
+
+/** Services rated when the caller shops without a service code. */
+export const USPS_DOMESTIC_SHOP_SERVICES = [
+  "USPS_GROUND_ADVANTAGE",
+  "PRIORITY_MAIL",
+  "PRIORITY_MAIL_EXPRESS",
+];
+
+export const USPS_INTERNATIONAL_SHOP_SERVICES = [
+  "FIRST_CLASS_PACKAGE_INTERNATIONAL",
+  "PRIORITY_MAIL_INTERNATIONAL",
+  "PRIORITY_MAIL_EXPRESS_INTERNATIONAL",
+];
@@ -0,0 +1,38 @@
+import type { ZodType } from "zod";
+import { CarrierError, CarrierErrorCode } from "../domain/errors.js";
+import type { CarrierName } from "../domain/models.js";
+import { formatZodError } from "../validation/schemas.js";
+import type { CarrierOperation, OperationContext } from "./types.js";
+
+/**
+ * Checks each request against a schema before handing it to the wrapped
+ * operation, so invalid input fails with `VALIDATION_ERROR` without ever
+ * reaching the carrier.
+ */
+export class ValidatedOperation<TReq, TRes>
+  implements CarrierOperation<TReq, TRes>
+{
+  /**
+   * @param subject What the request is, for error messages — e.g.
+   *   "rate request" gives "Invalid rate request: ...".
+   */
+  constructor(
+    private operation: CarrierOperation<TReq, TRes>,
+    private schema: ZodType,
+    private carrier: CarrierName,
+    private subject: string,
+  ) {}
+
+  async execute(request: TReq, context?: OperationContext): Promise<TRes> {
+    const validation = this.schema.safeParse(request);
+    if (!validation.success) {
+      throw new CarrierError(
+        CarrierErrorCode.VALIDATION_ERROR,
+        `Invalid ${this.subject}: ${formatZodError(validation.error)}`,
+        { carrier: this.carrier, retryable: false },
+      );
+    }
+
+    return this.operation.execute(request, context);
+  }
+}
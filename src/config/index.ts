@@ -1,4 +1,7 @@
 import { CarrierError, CarrierErrorCode } from "../domain/errors.js";
+import { DEFAULT_SHIP_CUTOFF_HOUR } from "../domain/ship-date.js";
+import { DEFAULT_REQUEST_TIMEOUT_MS } from "../http/client.js";
+import type { RateLimitOptions } from "../http/limiter.js";
 
 export interface UpsConfig {
   clientId: string;
@@ -6,11 +9,52 @@ export interface UpsConfig {
   accountNumber?: string;
   baseUrl: string;
   oauthUrl: string;
+  /** Client-side request budget for this account; unlimited when unset. */
+  rateLimit?: RateLimitOptions;
+  /** Per-request HTTP timeout; defaults to `DEFAULT_REQUEST_TIMEOUT_MS`. */
+  timeoutMs?: number;
+}
+
+export interface FedexConfig {
+  clientId: string;
+  clientSecret: string;
+  accountNumber: string;
+  baseUrl: string;
+  oauthUrl: string;
+  rateLimit?: RateLimitOptions;
+  timeoutMs?: number;
+}
+
+export interface UspsConfig {
+  clientId: string;
+  clientSecret: string;
+  baseUrl: string;
+  oauthUrl: string;
+  rateLimit?: RateLimitOptions;
+  timeoutMs?: number;
+}
+
+export interface DhlConfig {
+  apiKey: string;
+  apiSecret: string;
+  accountNumber: string;
+  baseUrl: string;
+  rateLimit?: RateLimitOptions;
+  timeoutMs?: number;
 }
 
 export interface AppConfig {
   ups: UpsConfig;
+  /** FedEx is optional — only configured when its credentials are present. */
+  fedex?: FedexConfig;
+  /** USPS is optional — only configured when its credentials are present. */
+  usps?: UspsConfig;
+  /** DHL Express is optional — only configured when its credentials are present. */
+  dhl?: DhlConfig;
+  /** Default `timeoutMs` for carriers that do not set their own. */
   requestTimeoutMs: number;
+  /** Local hour after which shipments without a ship date roll to the next business day. */
+  shipCutoffHour: number;
   logLevel: string;
 }
 
@@ -25,7 +69,62 @@ function requireEnv(key: string): string {
   return value;
 }
 
+function positiveNumberEnv(
+  key: string,
+  parse: (value: string) => number,
+): number | undefined {
+  const value = process.env[key];
+  if (!value) return undefined;
+
+  const parsed = parse(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new CarrierError(
+      CarrierErrorCode.CONFIGURATION_ERROR,
+      `Environment variable ${key} must be a positive number, got "${value}"`,
+    );
+  }
+  return parsed;
+}
+
+/**
+ * Reads `<PREFIX>_RATE_LIMIT_RPS` and `<PREFIX>_MAX_IN_FLIGHT`. The account is
+ * only rate limited when a requests-per-second budget is set.
+ */
+function rateLimitFromEnv(prefix: string): RateLimitOptions | undefined {
+  const requestsPerSecond = positiveNumberEnv(
+    `${prefix}_RATE_LIMIT_RPS`,
+    parseFloat,
+  );
+  if (requestsPerSecond === undefined) return undefined;
+
+  return {
+    requestsPerSecond,
+    maxInFlight: positiveNumberEnv(`${prefix}_MAX_IN_FLIGHT`, (value) =>
+      parseInt(value, 10),
+    ),
+  };
+}
+
+/** Reads `SHIP_CUTOFF_HOUR`, a whole hour of the day from 0 to 23. */
+function shipCutoffHourFromEnv(): number {
+  const value = process.env["SHIP_CUTOFF_HOUR"];
+  if (!value) return DEFAULT_SHIP_CUTOFF_HOUR;
+
+  const hour = Number(value);
+  if (!Number.isInteger(hour) || hour < 0 || hour > 23) {
+    throw new CarrierError(
+      CarrierErrorCode.CONFIGURATION_ERROR,
+      `Environment variable SHIP_CUTOFF_HOUR must be an hour from 0 to 23, got "${value}"`,
+    );
+  }
+  return hour;
+}
+
 export function loadConfig(): AppConfig {
+  const requestTimeoutMs =
+    positiveNumberEnv("REQUEST_TIMEOUT_MS", (value) => parseInt(value, 10)) ??
+    DEFAULT_REQUEST_TIMEOUT_MS;
+
   return {
     ups: {
       clientId: requireEnv("UPS_CLIENT_ID"),
@@ -36,25 +135,77 @@ export function loadConfig(): AppConfig {
       oauthUrl:
         process.env["UPS_OAUTH_URL"] ||
         "https://onlinetools.ups.com/security/v1/oauth/token",
+      rateLimit: rateLimitFromEnv("UPS"),
+      timeoutMs: requestTimeoutMs,
     },
-    requestTimeoutMs: parseInt(
-      process.env["REQUEST_TIMEOUT_MS"] || "10000",
-      10,
-    ),
+    fedex: process.env["FEDEX_CLIENT_ID"]
+      ? {
+          clientId: requireEnv("FEDEX_CLIENT_ID"),
+          clientSecret: requireEnv("FEDEX_CLIENT_SECRET"),
+          accountNumber: requireEnv("FEDEX_ACCOUNT_NUMBER"),
+          baseUrl: process.env["FEDEX_BASE_URL"] || "https://apis.fedex.com",
+          oauthUrl:
+            process.env["FEDEX_OAUTH_URL"] ||
+            "https://apis.fedex.com/oauth/token",
+          rateLimit: rateLimitFromEnv("FEDEX"),
+          timeoutMs: requestTimeoutMs,
+        }
+      : undefined,
+    usps: process.env["USPS_CLIENT_ID"]
+      ? {
+          clientId: requireEnv("USPS_CLIENT_ID"),
+          clientSecret: requireEnv("USPS_CLIENT_SECRET"),
+          baseUrl: process.env["USPS_BASE_URL"] || "https://apis.usps.com",
+          oauthUrl:
+            process.env["USPS_OAUTH_URL"] ||
+            "https://apis.usps.com/oauth2/v3/token",
+          rateLimit: rateLimitFromEnv("USPS"),
+          timeoutMs: requestTimeoutMs,
+        }
+      : undefined,
+    dhl: process.env["DHL_API_KEY"]
+      ? {
+          apiKey: requireEnv("DHL_API_KEY"),
+          apiSecret: requireEnv("DHL_API_SECRET"),
+          accountNumber: requireEnv("DHL_ACCOUNT_NUMBER"),
+          baseUrl:
+            process.env["DHL_BASE_URL"] ||
+            "https://express.api.dhl.com/mydhlapi",
+          rateLimit: rateLimitFromEnv("DHL"),
+          timeoutMs: requestTimeoutMs,
+        }
+      : undefined,
+    requestTimeoutMs,
+    shipCutoffHour: shipCutoffHourFromEnv(),
     logLevel: process.env["LOG_LEVEL"] || "info",
   };
 }
 
-/** Build config from explicit values (useful for testing). */
+/**
+ * Build config from explicit values (useful for testing). Carriers without a
+ * `timeoutMs` of their own get `requestTimeoutMs`, as `loadConfig()` does.
+ */
 export function createConfig(overrides: Partial<AppConfig> = {}): AppConfig {
+  const requestTimeoutMs =
+    overrides.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+  const withTimeout = <T extends { timeoutMs?: number }>(
+    carrier: T | undefined,
+  ): T | undefined =>
+    carrier && { ...carrier, timeoutMs: carrier.timeoutMs ?? requestTimeoutMs };
+
   return {
-    ups: overrides.ups ?? {
+    ups: withTimeout(overrides.ups) ?? {
       clientId: "test-client-id",
       clientSecret: "test-client-secret",
       baseUrl: "https://onlinetools.ups.com/api",
       oauthUrl: "https://onlinetools.ups.com/security/v1/oauth/token",
+      timeoutMs: requestTimeoutMs,
     },
-    requestTimeoutMs: overrides.requestTimeoutMs ?? 10000,
+    fedex: withTimeout(overrides.fedex),
+    usps: withTimeout(overrides.usps),
+    dhl: withTimeout(overrides.dhl),
+    requestTimeoutMs,
+    shipCutoffHour: overrides.shipCutoffHour ?? DEFAULT_SHIP_CUTOFF_HOUR,
     logLevel: overrides.logLevel ?? "info",
   };
 }
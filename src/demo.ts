@@ -11,6 +11,11 @@
 import { loadConfig } from "./config/index.js";
 import { CarrierRegistry } from "./carriers/types.js";
 import { UpsCarrierClient } from "./carriers/ups/client.js";
+import { FedexCarrierClient } from "./carriers/fedex/client.js";
+import { UspsCarrierClient } from "./carriers/usps/client.js";
+import { DhlCarrierClient } from "./carriers/dhl/client.js";
+import { DEFAULT_RETRY_POLICY } from "./carriers/retrying-operation.js";
+import { DEFAULT_CIRCUIT_BREAKER_OPTIONS } from "./carriers/circuit-breaker.js";
 import { ShippingService } from "./services/shipping-service.js";
 import { isCarrierError } from "./domain/errors.js";
 import type { RateRequest } from "./domain/models.js";
@@ -35,8 +40,21 @@ async function main() {
 
   const registry = new CarrierRegistry();
   registry.register(new UpsCarrierClient(config.ups));
+  if (config.fedex) {
+    registry.register(new FedexCarrierClient(config.fedex));
+  }
+  if (config.usps) {
+    registry.register(new UspsCarrierClient(config.usps));
+  }
+  if (config.dhl) {
+    registry.register(new DhlCarrierClient(config.dhl));
+  }
 
-  const shippingService = new ShippingService(registry);
+  const shippingService = new ShippingService(registry, {
+    shipCutoffHour: config.shipCutoffHour,
+    retry: DEFAULT_RETRY_POLICY,
+    circuitBreaker: DEFAULT_CIRCUIT_BREAKER_OPTIONS,
+  });
 
   const rateRequest: RateRequest = {
     origin: {
@@ -82,6 +100,10 @@ async function main() {
         console.log(`  ${err.carrier}: ${err.error.message}`);
       }
     }
+
+    for (const { reason } of result.skipped) {
+      console.log(`  Skipped: ${reason}`);
+    }
   } catch (error) {
     if (isCarrierError(error)) {
       console.log(`Error [${error.code}]: ${error.message}`);
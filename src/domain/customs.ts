@@ -0,0 +1,42 @@
+/**
+ * Customs helpers shared by validation and every carrier mapper.
+ */
+
+import type { Address, CustomsDetails, MonetaryAmount } from "./models.js";
+
+/**
+ * Territories that share a customs regime with another country code, so
+ * shipments between them need no customs declaration.
+ */
+const CUSTOMS_TERRITORY: Record<string, string> = {
+  PR: "US",
+};
+
+function customsTerritory(countryCode: string): string {
+  return CUSTOMS_TERRITORY[countryCode] ?? countryCode;
+}
+
+/** True when a shipment leaves one customs territory for another. */
+export function isCrossBorder(origin: Address, destination: Address): boolean {
+  return (
+    customsTerritory(origin.countryCode) !==
+    customsTerritory(destination.countryCode)
+  );
+}
+
+/**
+ * The declared invoice total, falling back to the sum of the commodity
+ * lines. Assumes every line shares one currency, as validation enforces.
+ */
+export function invoiceTotal(customs: CustomsDetails): MonetaryAmount {
+  if (customs.invoiceTotal) return customs.invoiceTotal;
+
+  const amount = customs.commodities.reduce(
+    (sum, line) => sum + line.quantity * line.unitValue.amount,
+    0,
+  );
+  return {
+    currency: customs.commodities[0].unitValue.currency,
+    amount: Math.round(amount * 100) / 100,
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * Dangerous-goods helpers shared by validation and every carrier mapper.
+ */
+
+import type {
+  DangerousGoodsItem,
+  DangerousGoodsRegulatedLevel,
+  LithiumBatteryType,
+  Package,
+} from "./models.js";
+
+/** The UN number each kind of lithium battery ships under. */
+export const LITHIUM_BATTERY_UN_NUMBERS: Record<LithiumBatteryType, string> = {
+  LITHIUM_ION: "UN3480",
+  LITHIUM_ION_PACKED_WITH_EQUIPMENT: "UN3481",
+  LITHIUM_ION_CONTAINED_IN_EQUIPMENT: "UN3481",
+  LITHIUM_METAL: "UN3090",
+  LITHIUM_METAL_PACKED_WITH_EQUIPMENT: "UN3091",
+  LITHIUM_METAL_CONTAINED_IN_EQUIPMENT: "UN3091",
+};
+
+/**
+ * The item's declared regulated level, or the usual one for what it is:
+ * lithium batteries packed with or contained in equipment ship lightly
+ * regulated, everything else fully regulated.
+ */
+export function regulatedLevel(
+  item: DangerousGoodsItem,
+): DangerousGoodsRegulatedLevel {
+  if (item.regulatedLevel) return item.regulatedLevel;
+  return item.lithiumBatteryType?.endsWith("_EQUIPMENT")
+    ? "LIGHTLY_REGULATED"
+    : "FULLY_REGULATED";
+}
+
+/**
+ * True when any package declares regulated items. Dry ice alone does not
+ * count.
+ */
+export function hasDangerousGoodsItems(packages: Package[]): boolean {
+  return packages.some((pkg) => (pkg.dangerousGoods?.items ?? []).length > 0);
+}
+
+/**
+ * True when any package holds lithium batteries shipped without equipment,
+ * which may only fly on cargo aircraft.
+ */
+export function hasStandaloneLithiumBatteries(packages: Package[]): boolean {
+  return packages.some((pkg) =>
+    (pkg.dangerousGoods?.items ?? []).some(
+      (item) =>
+        item.lithiumBatteryType === "LITHIUM_ION" ||
+        item.lithiumBatteryType === "LITHIUM_METAL",
+    ),
+  );
+}
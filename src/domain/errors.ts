@@ -15,6 +15,12 @@ export enum CarrierErrorCode {
   TIMEOUT_ERROR = "TIMEOUT_ERROR",
   PARSE_ERROR = "PARSE_ERROR",
   CONFIGURATION_ERROR = "CONFIGURATION_ERROR",
+  /** The carrier does not offer the requested operation at all. */
+  UNSUPPORTED_OPERATION = "UNSUPPORTED_OPERATION",
+  /** The carrier refused to void labels, e.g. already picked up. */
+  VOID_NOT_ALLOWED = "VOID_NOT_ALLOWED",
+  /** Calls are failing fast because the carrier has been failing. */
+  CIRCUIT_OPEN = "CIRCUIT_OPEN",
   UNKNOWN_ERROR = "UNKNOWN_ERROR",
 }
 
@@ -24,6 +30,14 @@ export interface CarrierErrorDetails {
   upstreamCode?: string;
   upstreamMessage?: string;
   retryable: boolean;
+  /** Tries made before giving up, when the call ran under a retry policy. */
+  attempts?: number;
+  /** How long the carrier asked us to wait, from its `Retry-After` header. */
+  retryAfterMs?: number;
+  /** Requests left in the carrier's current rate-limit window. */
+  rateLimitRemaining?: number;
+  /** When the carrier's rate-limit window resets (ISO 8601). */
+  rateLimitResetAt?: string;
 }
 
 export class CarrierError extends Error {
@@ -59,3 +73,16 @@ export class CarrierError extends Error {
 export function isCarrierError(error: unknown): error is CarrierError {
   return error instanceof CarrierError;
 }
+
+/**
+ * How long the carrier asked callers to hold off: its `Retry-After`, or the
+ * time until its rate-limit window resets once no requests are left.
+ */
+export function requestedRetryDelayMs(error: CarrierError): number | undefined {
+  const { retryAfterMs, rateLimitRemaining, rateLimitResetAt } = error.details;
+  if (retryAfterMs !== undefined) return retryAfterMs;
+  if (rateLimitRemaining === 0 && rateLimitResetAt) {
+    return Math.max(0, Date.parse(rateLimitResetAt) - Date.now());
+  }
+  return undefined;
+}
@@ -1,2 +1,5 @@
 export * from "./models.js";
 export * from "./errors.js";
+export * from "./ship-date.js";
+export * from "./customs.js";
+export * from "./dangerous-goods.js";
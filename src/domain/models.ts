@@ -14,6 +14,8 @@ export interface Address {
   postalCode: string;
   countryCode: string;
   residential?: boolean;
+  /** Contact phone; carriers require it on labels for some services and lanes. */
+  phone?: string;
 }
 
 export type WeightUnit = "LB" | "KG" | "OZ";
@@ -31,9 +33,137 @@ export interface PackageWeight {
   unit: WeightUnit;
 }
 
+/**
+ * Carrier-agnostic packaging. `CUSTOM` is the shipper's own box; the rest are
+ * carrier-supplied, so their dimensions are known to the carrier.
+ */
+export type PackagingType =
+  | "CUSTOM"
+  | "ENVELOPE"
+  | "PAK"
+  | "TUBE"
+  | "EXPRESS_BOX"
+  | "SMALL_EXPRESS_BOX"
+  | "MEDIUM_EXPRESS_BOX"
+  | "LARGE_EXPRESS_BOX"
+  | "BOX_10KG"
+  | "BOX_25KG"
+  | "PALLET";
+
+export type SignatureRequirement = "SIGNATURE" | "ADULT_SIGNATURE";
+
+/** Accessorials priced per package. */
+export interface PackageServiceOptions {
+  signature?: SignatureRequirement;
+  /** Declared value for carrier liability beyond the default coverage. */
+  declaredValue?: MonetaryAmount;
+  /** Amount to collect from the recipient at delivery. */
+  codAmount?: MonetaryAmount;
+  /** Package needs manual handling (e.g. not fully encased in corrugated cardboard). */
+  additionalHandling?: boolean;
+}
+
+/** Accessorials priced once per shipment. */
+export interface ShipmentServiceOptions {
+  saturdayDelivery?: boolean;
+}
+
+/**
+ * Lithium cells and batteries, split the way the IATA packing instructions
+ * split them: shipped alone, packed with the equipment they power, or
+ * installed in it.
+ */
+export type LithiumBatteryType =
+  | "LITHIUM_ION"
+  | "LITHIUM_ION_PACKED_WITH_EQUIPMENT"
+  | "LITHIUM_ION_CONTAINED_IN_EQUIPMENT"
+  | "LITHIUM_METAL"
+  | "LITHIUM_METAL_PACKED_WITH_EQUIPMENT"
+  | "LITHIUM_METAL_CONTAINED_IN_EQUIPMENT";
+
+export type DangerousGoodsQuantityUnit = "G" | "KG" | "LB" | "ML" | "L";
+
+/**
+ * How much of the dangerous-goods rules apply: in full, or the lighter
+ * provisions for limited or excepted quantities and for lithium batteries
+ * shipped with equipment (IATA Section II).
+ */
+export type DangerousGoodsRegulatedLevel =
+  | "FULLY_REGULATED"
+  | "LIGHTLY_REGULATED"
+  | "LIMITED_QUANTITY"
+  | "EXCEPTED_QUANTITY";
+
+/** One regulated substance in a package. */
+export interface DangerousGoodsItem {
+  /** UN identification number, e.g. "UN3480". */
+  unNumber: string;
+  /** Hazard class or division, e.g. "9" or "2.1". */
+  hazardClass: string;
+  properShippingName: string;
+  /** Net quantity of the substance in the package. */
+  quantity: {
+    value: number;
+    unit: DangerousGoodsQuantityUnit;
+  };
+  packingGroup?: "I" | "II" | "III";
+  /** Packing instruction the item is packed under, e.g. "965". */
+  packingInstruction?: string;
+  /** Set for lithium batteries; must agree with the UN number. */
+  lithiumBatteryType?: LithiumBatteryType;
+  /**
+   * Defaults to `LIGHTLY_REGULATED` for lithium batteries packed with or
+   * contained in equipment, and to `FULLY_REGULATED` otherwise.
+   */
+  regulatedLevel?: DangerousGoodsRegulatedLevel;
+}
+
+/** Dry ice (UN1845) used as a refrigerant. */
+export interface DryIce {
+  /** Net weight of the dry ice, in KG or LB. */
+  weight: PackageWeight;
+  /** Cooling medical or diagnostic material. */
+  medicalUse?: boolean;
+}
+
+/** Hazardous contents of a package. Declare at least one item or dry ice. */
+export interface DangerousGoods {
+  items?: DangerousGoodsItem[];
+  dryIce?: DryIce;
+}
+
 export interface Package {
   weight: PackageWeight;
+  /** Carrier-supplied packaging can omit dimensions; the carrier knows them. */
   dimensions?: Dimensions;
+  /** Defaults to `CUSTOM`. */
+  packagingType?: PackagingType;
+  serviceOptions?: PackageServiceOptions;
+  /** Services that cannot carry these are excluded from quotes. */
+  dangerousGoods?: DangerousGoods;
+}
+
+/** Incoterms 2020 rules usable for any mode of transport. */
+export type Incoterm = "EXW" | "FCA" | "CPT" | "CIP" | "DAP" | "DPU" | "DDP";
+
+/** One line of the commercial invoice. */
+export interface Commodity {
+  description: string;
+  /** Harmonized System tariff code, 6-10 digits without dots. */
+  hsCode: string;
+  /** ISO country code where the goods were manufactured. */
+  countryOfOrigin: string;
+  quantity: number;
+  unitValue: MonetaryAmount;
+}
+
+/** Customs data for shipments that cross a border. */
+export interface CustomsDetails {
+  commodities: Commodity[];
+  /** Who pays duties and taxes: `DDP` bills them to the shipper. */
+  incoterm: Incoterm;
+  /** Commercial invoice total. Defaults to the sum of the commodity lines. */
+  invoiceTotal?: MonetaryAmount;
 }
 
 export interface RateRequest {
@@ -43,6 +173,16 @@ export interface RateRequest {
   /** Optional: restrict to a specific service level (e.g. "GROUND", "NEXT_DAY_AIR"). Omit to shop all available services. */
   serviceCode?: string;
   shipperAccountNumber?: string;
+  /** Date the shipment is handed to the carrier (YYYY-MM-DD). Carriers assume today when omitted. */
+  shipDate?: string;
+  serviceOptions?: ShipmentServiceOptions;
+  /** Required when origin and destination are in different customs territories. */
+  customs?: CustomsDetails;
+  /**
+   * Deliver to a carrier location (e.g. an access point) for the recipient to
+   * collect, instead of to `destination`. The recipient is still `destination`.
+   */
+  holdAtLocation?: HoldAtLocation;
 }
 
 export interface MonetaryAmount {
@@ -50,19 +190,71 @@ export interface MonetaryAmount {
   amount: number;
 }
 
+/**
+ * Carrier-agnostic surcharge categories. Carrier-specific accessorial codes
+ * that have no equivalent here are reported as `OTHER`.
+ */
+export enum SurchargeType {
+  FUEL = "FUEL",
+  RESIDENTIAL = "RESIDENTIAL",
+  DELIVERY_AREA = "DELIVERY_AREA",
+  ADDITIONAL_HANDLING = "ADDITIONAL_HANDLING",
+  LARGE_PACKAGE = "LARGE_PACKAGE",
+  SATURDAY_DELIVERY = "SATURDAY_DELIVERY",
+  SIGNATURE = "SIGNATURE",
+  DECLARED_VALUE = "DECLARED_VALUE",
+  COD = "COD",
+  OTHER = "OTHER",
+}
+
+export interface Surcharge {
+  type: SurchargeType;
+  amount: MonetaryAmount;
+  /** Human-readable label, as returned by the carrier where available. */
+  description: string;
+  /** The carrier's own code for the charge, kept for auditing. */
+  carrierCode: string;
+}
+
+/** Charges and billing weight for a single package within a quote. */
+export interface PackageRateDetail {
+  totalCharges: MonetaryAmount;
+  transportationCharges?: MonetaryAmount;
+  serviceOptionsCharges?: MonetaryAmount;
+  billingWeight?: PackageWeight;
+  surcharges?: Surcharge[];
+}
+
 export interface RateQuote {
   carrier: string;
   serviceCode: string;
   serviceName: string;
+  /** Published (list) rate for the shipment. */
   totalCharges: MonetaryAmount;
   transportationCharges: MonetaryAmount;
   serviceOptionsCharges?: MonetaryAmount;
+  /** Account-specific rate, present when the carrier returns one for the shipper account. */
+  negotiatedCharges?: MonetaryAmount;
   billingWeight?: {
     value: number;
     unit: WeightUnit;
   };
   guaranteedDelivery?: boolean;
   estimatedDeliveryDays?: number;
+  /** Estimated delivery date (YYYY-MM-DD) in the destination's local time. */
+  estimatedDeliveryDate?: string;
+  /** Estimated delivery time of day (HH:mm, 24-hour), when the carrier provides one. */
+  estimatedDeliveryTime?: string;
+  /** Delivery-by commitment (HH:mm, 24-hour) for time-definite guaranteed services. */
+  guaranteedDeliveryTime?: string;
+  /** Per-package breakdown, in the same order as `RateRequest.packages`. */
+  packages?: PackageRateDetail[];
+  /** Itemized surcharges across the shipment and all of its packages. */
+  surcharges?: Surcharge[];
+  /** Import duties estimated by the carrier. Not included in `totalCharges`. */
+  estimatedDuties?: MonetaryAmount;
+  /** Import taxes (VAT/GST) estimated by the carrier. Not included in `totalCharges`. */
+  estimatedTaxes?: MonetaryAmount;
   warnings?: string[];
 }
 
@@ -70,4 +262,273 @@ export interface RateResponse {
   quotes: RateQuote[];
 }
 
+// ─── Shipping (label purchase) ───
+
+export type LabelFormat = "ZPL" | "GIF";
+
+/**
+ * A rate request promoted to a label purchase. The service must be chosen
+ * up front — typically from a quote returned by `getRates`.
+ */
+export interface ShipmentRequest extends RateRequest {
+  serviceCode: string;
+  /** Carriers use their own default format when omitted. */
+  labelFormat?: LabelFormat;
+  /** Description of the goods; required by some carriers for international shipments. */
+  description?: string;
+  /** Shipper references printed on the label, e.g. an order number. */
+  references?: string[];
+}
+
+export interface ShippingLabel {
+  format: LabelFormat;
+  /** Base64-encoded label document or image. */
+  data: string;
+}
+
+export interface ShippedPackage {
+  trackingNumber: string;
+  label: ShippingLabel;
+}
+
+export interface ShipmentResponse {
+  carrier: string;
+  /** Carrier's identifier for the whole shipment; used to void it. */
+  shipmentId: string;
+  /** One entry per package, in the same order as `ShipmentRequest.packages`. */
+  packages: ShippedPackage[];
+  totalCharges: MonetaryAmount;
+  negotiatedCharges?: MonetaryAmount;
+  billingWeight?: PackageWeight;
+  warnings?: string[];
+}
+
+export interface VoidShipmentRequest {
+  /**
+   * The shipment ID returned when the labels were bought. A single-package
+   * shipment can also be voided by its tracking number.
+   */
+  trackingOrShipmentId: string;
+  /**
+   * Void only these packages of a multi-package shipment. Omit to void
+   * every package.
+   */
+  trackingNumbers?: string[];
+}
+
+export interface VoidedPackage {
+  trackingNumber: string;
+  voided: boolean;
+  /** Carrier's explanation when the package could not be voided. */
+  message?: string;
+}
+
+export interface VoidShipmentResponse {
+  trackingOrShipmentId: string;
+  /** True only when every requested package was voided. */
+  voided: boolean;
+  /** Per-package outcome, when the carrier reports one. */
+  packages?: VoidedPackage[];
+}
+
+// ─── Address Validation ───
+
+export type AddressClassification = "RESIDENTIAL" | "COMMERCIAL" | "UNKNOWN";
+
+/**
+ * `VALID`: the address matched exactly one deliverable address.
+ * `AMBIGUOUS`: several candidates matched; the caller should pick one.
+ * `INVALID`: nothing deliverable matched.
+ */
+export type AddressVerdict = "VALID" | "AMBIGUOUS" | "INVALID";
+
+export interface AddressValidationRequest {
+  address: Address;
+}
+
+export interface AddressCandidate {
+  /** Carrier-normalized address, with `residential` set when known. */
+  address: Address;
+  classification: AddressClassification;
+}
+
+export interface AddressValidationResult {
+  carrier: string;
+  verdict: AddressVerdict;
+  /** Classification of the input address; `UNKNOWN` unless it was valid. */
+  classification: AddressClassification;
+  /** Best match first. Empty when the verdict is `INVALID`. */
+  candidates: AddressCandidate[];
+}
+
+// ─── Pickup ───
+
+export interface PickupRequest {
+  /** Where the driver collects; `name` and `phone` are the on-site contact. */
+  address: Address;
+  /** YYYY-MM-DD */
+  pickupDate: string;
+  /** Earliest time the packages are ready, HH:mm local to the address. */
+  readyTime: string;
+  /** Latest time the driver can collect, HH:mm local to the address. */
+  closeTime: string;
+  /**
+   * IANA time zone of the address, e.g. "America/Denver". Decides whether
+   * `pickupDate` is today there; the process's time zone is assumed when
+   * omitted.
+   */
+  timeZone?: string;
+  packageCount: number;
+  totalWeight: PackageWeight;
+  /** Directions for the driver, e.g. "Loading dock 3, ring bell". */
+  instructions?: string;
+  /** Account billed for the pickup; defaults to the configured account. */
+  shipperAccountNumber?: string;
+}
+
+export interface PickupConfirmation {
+  carrier: string;
+  /** Carrier's reference for the pickup; needed to cancel it. */
+  confirmationNumber: string;
+  pickupDate: string;
+  /** Pickup fee, when the carrier charges one. */
+  totalCharges?: MonetaryAmount;
+}
+
+export interface CancelPickupRequest {
+  confirmationNumber: string;
+}
+
+export interface CancelPickupResponse {
+  confirmationNumber: string;
+  cancelled: boolean;
+}
+
+export interface PickupRate {
+  carrier: string;
+  totalCharges: MonetaryAmount;
+}
+
+// ─── Locations ───
+
+/**
+ * `ACCESS_POINT`: partner shop or locker that holds packages for collection.
+ * `RETAIL_STORE`: carrier-run store or counter that accepts drop-offs.
+ * `DROP_BOX`: unattended drop-off box.
+ */
+export type LocationType = "ACCESS_POINT" | "RETAIL_STORE" | "DROP_BOX";
+
+export type DistanceUnit = "MI" | "KM";
+
+export interface Distance {
+  value: number;
+  unit: DistanceUnit;
+}
+
+export interface GeoCoordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface LocationSearchRequest {
+  /** Search near this address. Provide either `address` or `coordinates`. */
+  address?: Address;
+  /** Search near this point, e.g. the customer's device location. */
+  coordinates?: GeoCoordinates & { countryCode: string };
+  /** How far to search. Carriers apply their own default when omitted. */
+  radius?: Distance;
+  /** Only return these kinds of location. All kinds when omitted. */
+  locationTypes?: LocationType[];
+  /** Defaults to 10. */
+  maxResults?: number;
+}
+
+export type Weekday = "MON" | "TUE" | "WED" | "THU" | "FRI" | "SAT" | "SUN";
+
+export interface OpeningHours {
+  day: Weekday;
+  /** HH:mm local to the location. */
+  open: string;
+  /** HH:mm local to the location. */
+  close: string;
+}
+
+export interface CarrierLocation {
+  carrier: string;
+  /** Carrier's location ID; for access points, the ID used to ship there. */
+  id: string;
+  type: LocationType;
+  /** Street address; `name` is the business or location name. */
+  address: Address;
+  coordinates?: GeoCoordinates;
+  /** Distance from the search point. */
+  distance?: Distance;
+  /** Regular weekly hours. Days with no entry are closed. */
+  hours: OpeningHours[];
+  /** Carrier descriptions of what the location offers, e.g. "Drop-off". */
+  services: string[];
+}
+
+/**
+ * Where a hold-at-location shipment is delivered. Any access point returned by
+ * a location search can be passed as-is; other location types are rejected.
+ * Only the carrier that runs the location can deliver there.
+ */
+export type HoldAtLocation = Pick<
+  CarrierLocation,
+  "carrier" | "id" | "type" | "address"
+>;
+
+// ─── Tracking ───
+
+/**
+ * Carrier-agnostic shipment status. Carrier statuses with no equivalent here
+ * (e.g. a voided label) are reported as `UNKNOWN`.
+ */
+export enum TrackingStatus {
+  LABEL_CREATED = "LABEL_CREATED",
+  IN_TRANSIT = "IN_TRANSIT",
+  OUT_FOR_DELIVERY = "OUT_FOR_DELIVERY",
+  DELIVERED = "DELIVERED",
+  EXCEPTION = "EXCEPTION",
+  UNKNOWN = "UNKNOWN",
+}
+
+export interface TrackingRequest {
+  trackingNumber: string;
+}
+
+export interface TrackingLocation {
+  city?: string;
+  stateProvinceCode?: string;
+  postalCode?: string;
+  countryCode?: string;
+}
+
+export interface TrackingEvent {
+  /**
+   * ISO 8601 timestamp of the scan. Includes the UTC offset when the carrier
+   * reports one; otherwise it is local time at the scan location.
+   */
+  timestamp: string;
+  status: TrackingStatus;
+  description: string;
+  location?: TrackingLocation;
+  /** Raw carrier status code, for support staff and debugging. */
+  carrierCode?: string;
+}
+
+export interface TrackingResult {
+  carrier: string;
+  trackingNumber: string;
+  /** Status of the most recent event. */
+  status: TrackingStatus;
+  /** Scan history, most recent first. */
+  events: TrackingEvent[];
+  /** YYYY-MM-DD; the latest carrier estimate, absent once delivered. */
+  estimatedDeliveryDate?: string;
+  /** Timestamp of the delivery scan, once delivered. */
+  deliveredAt?: string;
+}
+
 export type CarrierName = "UPS" | "FEDEX" | "USPS" | "DHL";
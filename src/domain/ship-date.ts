@@ -0,0 +1,88 @@
+/**
+ * Ship-date helpers shared by every carrier.
+ *
+ * Dates are plain `YYYY-MM-DD` strings so they survive serialization and
+ * never drift across time zones. "Today" and the cutoff are evaluated in the
+ * process's local time, which is assumed to be the warehouse's time zone.
+ */
+
+/** Orders placed at or after this local hour ship on the next business day. */
+export const DEFAULT_SHIP_CUTOFF_HOUR = 17;
+
+export interface ShipDateOptions {
+  /** Local hour (0–23) after which same-day shipping is no longer possible. */
+  cutoffHour?: number;
+  now?: Date;
+}
+
+/**
+ * Format a Date as `YYYY-MM-DD` in local time, or in `timeZone` (an IANA
+ * name such as "America/Chicago") when given.
+ */
+export function formatLocalDate(date: Date, timeZone?: string): string {
+  if (timeZone) {
+    // en-CA writes dates as YYYY-MM-DD
+    return new Intl.DateTimeFormat("en-CA", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+    }).format(date);
+  }
+
+  const month = (date.getMonth() + 1).toString().padStart(2, "0");
+  const day = date.getDate().toString().padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/** True for IANA time zone names the runtime knows, e.g. "Europe/Berlin". */
+export function isValidTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** True for `YYYY-MM-DD` strings that name a real calendar date. */
+export function isValidShipDate(value: string): boolean {
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return (
+    !Number.isNaN(parsed.getTime()) &&
+    parsed.toISOString().slice(0, 10) === value
+  );
+}
+
+/** Add business days (Mon–Fri) to a `YYYY-MM-DD` date. Holidays are not considered. */
+export function addBusinessDays(date: string, days: number): string {
+  const cursor = new Date(`${date}T00:00:00Z`);
+  let remaining = days;
+  while (remaining > 0) {
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+    const weekday = cursor.getUTCDay();
+    if (weekday !== 0 && weekday !== 6) remaining--;
+  }
+  return cursor.toISOString().slice(0, 10);
+}
+
+/**
+ * Return the caller's ship date, or default to today — rolling over to the
+ * next business day when today is a weekend or the cutoff has passed.
+ */
+export function resolveShipDate(
+  shipDate: string | undefined,
+  options: ShipDateOptions = {},
+): string {
+  if (shipDate) return shipDate;
+
+  const now = options.now ?? new Date();
+  const cutoffHour = options.cutoffHour ?? DEFAULT_SHIP_CUTOFF_HOUR;
+  const today = formatLocalDate(now);
+  const weekday = now.getDay();
+
+  if (weekday !== 0 && weekday !== 6 && now.getHours() < cutoffHour) {
+    return today;
+  }
+  return addBusinessDays(today, 1);
+}
@@ -2,12 +2,24 @@ import axios, {
   AxiosError,
   AxiosInstance,
   type AxiosRequestConfig,
+  type AxiosResponse,
 } from "axios";
-import { CarrierError, CarrierErrorCode } from "../domain/errors.js";
+import {
+  CarrierError,
+  CarrierErrorCode,
+  type CarrierErrorDetails,
+} from "../domain/errors.js";
+import type { RequestLimiter } from "./limiter.js";
+
+/** Per-request timeout when the carrier config does not set one. */
+export const DEFAULT_REQUEST_TIMEOUT_MS = 10_000;
 
 export interface HttpClientConfig {
   baseURL?: string;
-  timeoutMs: number;
+  /** Defaults to `DEFAULT_REQUEST_TIMEOUT_MS`. */
+  timeoutMs?: number;
+  /** Holds requests back to the carrier account's rate limit. */
+  limiter?: RequestLimiter;
 }
 
 export interface HttpResponse<T = unknown> {
@@ -23,21 +35,49 @@ export interface HttpResponse<T = unknown> {
  */
 export class HttpClient {
   private client: AxiosInstance;
+  private limiter?: RequestLimiter;
 
   constructor(config: HttpClientConfig) {
     this.client = axios.create({
       baseURL: config.baseURL,
-      timeout: config.timeoutMs,
+      timeout: config.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS,
     });
+    this.limiter = config.limiter;
+  }
+
+  async get<T>(
+    url: string,
+    config?: AxiosRequestConfig,
+  ): Promise<HttpResponse<T>> {
+    return this.send(() => this.client.get<T>(url, config), config);
   }
 
   async post<T>(
     url: string,
     data: unknown,
     config?: AxiosRequestConfig,
+  ): Promise<HttpResponse<T>> {
+    return this.send(() => this.client.post<T>(url, data, config), config);
+  }
+
+  async delete<T>(
+    url: string,
+    config?: AxiosRequestConfig,
+  ): Promise<HttpResponse<T>> {
+    return this.send(() => this.client.delete<T>(url, config), config);
+  }
+
+  private async send<T>(
+    call: () => Promise<AxiosResponse<T>>,
+    config?: AxiosRequestConfig,
   ): Promise<HttpResponse<T>> {
     try {
-      const response = await this.client.post<T>(url, data, config);
+      const response = this.limiter
+        ? await this.limiter.schedule(
+            call,
+            config?.signal as AbortSignal | undefined,
+          )
+        : await call();
       return {
         status: response.status,
         data: response.data,
@@ -52,6 +92,9 @@ export class HttpClient {
     if (error instanceof CarrierError) return error;
 
     if (error instanceof AxiosError) {
+      // The caller's signal aborted the request; trying again won't help
+      if (error.code === AxiosError.ERR_CANCELED) return cancelledError();
+
       if (error.code === "ECONNABORTED" || error.code === "ETIMEDOUT") {
         return new CarrierError(
           CarrierErrorCode.TIMEOUT_ERROR,
@@ -70,6 +113,9 @@ export class HttpClient {
 
       const status = error.response.status;
       const body = error.response.data as Record<string, unknown> | undefined;
+      const throttling = rateLimitDetails(
+        error.response.headers as Record<string, unknown>,
+      );
 
       if (status === 401) {
         return new CarrierError(
@@ -89,7 +135,7 @@ export class HttpClient {
         return new CarrierError(
           CarrierErrorCode.RATE_LIMIT_ERROR,
           "Rate limit exceeded",
-          { httpStatus: status, retryable: true },
+          { httpStatus: status, retryable: true, ...throttling },
         );
       }
 
@@ -103,6 +149,8 @@ export class HttpClient {
           upstreamCode: upstreamErrors?.code,
           upstreamMessage: upstreamErrors?.message,
           retryable: status >= 500,
+          // 503s can carry Retry-After too
+          ...throttling,
         },
       );
     }
@@ -115,6 +163,87 @@ export class HttpClient {
   }
 }
 
+function cancelledError(): CarrierError {
+  return new CarrierError(
+    CarrierErrorCode.TIMEOUT_ERROR,
+    "Request cancelled before the carrier responded",
+    { retryable: false },
+  );
+}
+
+/**
+ * Settles with `promise`, or rejects with `TIMEOUT_ERROR` as soon as `signal`
+ * aborts. The work behind `promise` carries on, so callers sharing one
+ * request can each give up on it without cancelling it for the others.
+ */
+export function abortable<T>(
+  promise: Promise<T>,
+  signal?: AbortSignal,
+): Promise<T> {
+  if (!signal) return promise;
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(cancelledError());
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", onAbort));
+    if (signal.aborted) onAbort();
+    else signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/** Reset headers above this are Unix times rather than seconds from now. */
+const UNIX_TIME_THRESHOLD_SECONDS = 1_000_000_000;
+
+function header(
+  headers: Record<string, unknown>,
+  name: string,
+): string | undefined {
+  const value = headers[name];
+  return value === undefined || value === null || value === ""
+    ? undefined
+    : String(value);
+}
+
+/**
+ * Reads the carrier's throttling hints. `Retry-After` is either seconds or an
+ * HTTP date; the reset header is either seconds from now or a Unix time,
+ * depending on the carrier.
+ */
+function rateLimitDetails(
+  headers: Record<string, unknown>,
+): Partial<CarrierErrorDetails> {
+  const details: Partial<CarrierErrorDetails> = {};
+
+  const retryAfter = header(headers, "retry-after");
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const ms = Number.isNaN(seconds)
+      ? Date.parse(retryAfter) - Date.now()
+      : seconds * 1000;
+    if (!Number.isNaN(ms)) details.retryAfterMs = Math.max(0, Math.round(ms));
+  }
+
+  const remaining = Number(
+    header(headers, "x-ratelimit-remaining") ??
+      header(headers, "ratelimit-remaining"),
+  );
+  if (!Number.isNaN(remaining)) details.rateLimitRemaining = remaining;
+
+  const reset = Number(
+    header(headers, "x-ratelimit-reset") ?? header(headers, "ratelimit-reset"),
+  );
+  if (!Number.isNaN(reset)) {
+    const resetMs =
+      reset > UNIX_TIME_THRESHOLD_SECONDS
+        ? reset * 1000
+        : Date.now() + reset * 1000;
+    details.rateLimitResetAt = new Date(resetMs).toISOString();
+  }
+
+  return details;
+}
+
 function extractUpstreamErrors(
   body: Record<string, unknown> | undefined,
 ): { code: string; message: string } | undefined {
@@ -136,5 +265,43 @@ function extractUpstreamErrors(
     }
   }
 
+  // FedEx error format: { transactionId, errors: [{ code, message }] }
+  const topLevelErrors = body["errors"] as
+    | Array<{ code?: string; message?: string }>
+    | undefined;
+  if (Array.isArray(topLevelErrors) && topLevelErrors[0]) {
+    return {
+      code: topLevelErrors[0].code || "UNKNOWN",
+      message: topLevelErrors[0].message || "Unknown carrier error",
+    };
+  }
+
+  // USPS error format: { error: { code, message, errors: [{ code, detail }] } }
+  const uspsError = body["error"] as
+    | {
+        code?: string;
+        message?: string;
+        errors?: Array<{ code?: string; detail?: string }>;
+      }
+    | undefined;
+  if (uspsError && typeof uspsError === "object") {
+    const first = uspsError.errors?.[0];
+    return {
+      code: first?.code || uspsError.code || "UNKNOWN",
+      message: first?.detail || uspsError.message || "Unknown carrier error",
+    };
+  }
+
+  // DHL error format (RFC 7807): { title, detail, status }
+  if (
+    typeof body["title"] === "string" &&
+    typeof body["detail"] === "string"
+  ) {
+    return {
+      code: body["title"],
+      message: body["detail"],
+    };
+  }
+
   return undefined;
 }
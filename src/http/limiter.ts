@@ -0,0 +1,223 @@
+import { CarrierError, CarrierErrorCode } from "../domain/errors.js";
+
+export interface RateLimitOptions {
+  /** Sustained request rate the account is allowed. */
+  requestsPerSecond: number;
+  /** Requests that may go out back to back. Defaults to `requestsPerSecond`. */
+  burst?: number;
+  /** Requests allowed in flight at once. Unlimited when omitted. */
+  maxInFlight?: number;
+  /** Requests allowed to wait for a slot; more are rejected. Defaults to 100. */
+  maxQueued?: number;
+  /** Longest a request may wait for a slot before it is given up. */
+  maxWaitMs?: number;
+}
+
+const DEFAULT_MAX_QUEUED = 100;
+
+/** Options that must be above zero, and those where zero is meaningful. */
+const POSITIVE_OPTIONS = ["requestsPerSecond", "burst", "maxInFlight"] as const;
+const NON_NEGATIVE_OPTIONS = ["maxQueued", "maxWaitMs"] as const;
+const OPTION_KEYS = [...POSITIVE_OPTIONS, ...NON_NEGATIVE_OPTIONS];
+
+function invalidOption(
+  carrier: string,
+  key: keyof RateLimitOptions,
+  value: number,
+  expected: string,
+): CarrierError {
+  return new CarrierError(
+    CarrierErrorCode.CONFIGURATION_ERROR,
+    `${carrier} rate limit ${key} must be ${expected}, got ${value}`,
+    { carrier, retryable: false },
+  );
+}
+
+interface Waiter {
+  start: () => void;
+  fail: (error: CarrierError) => void;
+}
+
+/**
+ * Token bucket plus in-flight cap for one carrier account. Requests over the
+ * budget wait in a FIFO queue; a request whose deadline passes (its
+ * `AbortSignal` fires or it outwaits `maxWaitMs`) leaves the queue with a
+ * `TIMEOUT_ERROR`, and a request arriving at a full queue is rejected with a
+ * `RATE_LIMIT_ERROR` straight away.
+ */
+export class RequestLimiter {
+  private tokens: number;
+  private refilledAt = Date.now();
+  private inFlight = 0;
+  private queue: Waiter[] = [];
+  private refillTimer?: ReturnType<typeof setTimeout>;
+
+  constructor(
+    private carrier: string,
+    private options: RateLimitOptions,
+  ) {
+    for (const key of POSITIVE_OPTIONS) {
+      const value = options[key];
+      if (value !== undefined && !(Number.isFinite(value) && value > 0)) {
+        throw invalidOption(carrier, key, value, "a positive number");
+      }
+    }
+    for (const key of NON_NEGATIVE_OPTIONS) {
+      const value = options[key];
+      if (value !== undefined && !(Number.isFinite(value) && value >= 0)) {
+        throw invalidOption(carrier, key, value, "zero or a positive number");
+      }
+    }
+    this.tokens = this.capacity;
+  }
+
+  /** Runs `task` once the account has a free slot. */
+  async schedule<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this.acquire(signal);
+    try {
+      return await task();
+    } finally {
+      this.inFlight--;
+      this.drain();
+    }
+  }
+
+  /** At least one, so a budget under one request a second still sends. */
+  private get capacity(): number {
+    return Math.max(1, this.options.burst ?? this.options.requestsPerSecond);
+  }
+
+  private acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) return Promise.reject(this.deadlineError());
+    if (this.queue.length === 0 && this.take()) return Promise.resolve();
+
+    const maxQueued = this.options.maxQueued ?? DEFAULT_MAX_QUEUED;
+    if (this.queue.length >= maxQueued) {
+      return Promise.reject(
+        new CarrierError(
+          CarrierErrorCode.RATE_LIMIT_ERROR,
+          `${this.carrier} request queue is full (max ${maxQueued} waiting)`,
+          { carrier: this.carrier, retryable: true },
+        ),
+      );
+    }
+
+    return new Promise((resolve, reject) => {
+      const leave = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+        this.queue = this.queue.filter((w) => w !== waiter);
+      };
+      const waiter: Waiter = {
+        start: () => {
+          leave();
+          resolve();
+        },
+        fail: (error) => {
+          leave();
+          reject(error);
+        },
+      };
+      const onAbort = () => waiter.fail(this.deadlineError());
+      const timer =
+        this.options.maxWaitMs === undefined
+          ? undefined
+          : setTimeout(onAbort, this.options.maxWaitMs);
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      this.queue.push(waiter);
+      this.drain();
+    });
+  }
+
+  /** Claims a token and an in-flight slot if both are free. */
+  private take(): boolean {
+    this.refill();
+    const maxInFlight = this.options.maxInFlight ?? Infinity;
+    if (this.tokens < 1 || this.inFlight >= maxInFlight) return false;
+    this.tokens -= 1;
+    this.inFlight++;
+    return true;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens +
+        ((now - this.refilledAt) / 1000) * this.options.requestsPerSecond,
+    );
+    this.refilledAt = now;
+  }
+
+  /** Starts queued requests while slots last, then waits for the next token. */
+  private drain(): void {
+    while (this.queue.length > 0 && this.take()) {
+      this.queue[0].start();
+    }
+
+    // A finishing request calls back in when in-flight is the bottleneck
+    const maxInFlight = this.options.maxInFlight ?? Infinity;
+    if (
+      this.queue.length === 0 ||
+      this.inFlight >= maxInFlight ||
+      this.refillTimer
+    ) {
+      return;
+    }
+    const waitMs = Math.ceil(
+      ((1 - this.tokens) * 1000) / this.options.requestsPerSecond,
+    );
+    this.refillTimer = setTimeout(() => {
+      this.refillTimer = undefined;
+      this.drain();
+    }, waitMs);
+  }
+
+  private deadlineError(): CarrierError {
+    return new CarrierError(
+      CarrierErrorCode.TIMEOUT_ERROR,
+      `${this.carrier} request deadline passed while waiting for a rate limit slot`,
+      { carrier: this.carrier, retryable: true },
+    );
+  }
+}
+
+const accountLimiters = new Map<
+  string,
+  { limiter: RequestLimiter; options: RateLimitOptions }
+>();
+
+/**
+ * The limiter shared by every client and operation calling a carrier with
+ * the given account, or `undefined` when the account is not rate limited.
+ * An account has one budget: asking for it again with different options is
+ * a `CONFIGURATION_ERROR` rather than a second, silently ignored budget.
+ */
+export function accountLimiter(
+  carrier: string,
+  account: string,
+  options: RateLimitOptions | undefined,
+): RequestLimiter | undefined {
+  if (!options) return undefined;
+
+  const key = `${carrier}:${account}`;
+  const existing = accountLimiters.get(key);
+  if (!existing) {
+    const limiter = new RequestLimiter(carrier, options);
+    accountLimiters.set(key, { limiter, options });
+    return limiter;
+  }
+
+  const changed = OPTION_KEYS.some(
+    (option) => existing.options[option] !== options[option],
+  );
+  if (changed) {
+    throw new CarrierError(
+      CarrierErrorCode.CONFIGURATION_ERROR,
+      `${carrier} account ${account} is already rate limited with different options`,
+      { carrier, retryable: false },
+    );
+  }
+  return existing.limiter;
+}
@@ -3,5 +3,8 @@ export * from "./validation/index.js";
 export * from "./config/index.js";
 export * from "./carriers/index.js";
 export * from "./carriers/ups/index.js";
+export * from "./carriers/fedex/index.js";
+export * from "./carriers/usps/index.js";
+export * from "./carriers/dhl/index.js";
 export * from "./services/index.js";
 export * from "./http/index.js";
@@ -1,48 +1,181 @@
-import type { CarrierName, RateRequest, RateQuote } from "../domain/models.js";
-import { CarrierError, CarrierErrorCode } from "../domain/errors.js";
-import type { CarrierRegistry } from "../carriers/types.js";
+import type {
+  Address,
+  AddressValidationResult,
+  CancelPickupResponse,
+  CarrierLocation,
+  CarrierName,
+  LocationSearchRequest,
+  MonetaryAmount,
+  PickupConfirmation,
+  PickupRate,
+  PickupRequest,
+  RateRequest,
+  RateQuote,
+  TrackingResult,
+  VoidShipmentResponse,
+} from "../domain/models.js";
+import {
+  CarrierError,
+  CarrierErrorCode,
+  requestedRetryDelayMs,
+} from "../domain/errors.js";
+import { resolveShipDate } from "../domain/ship-date.js";
+import { capabilityMismatch } from "../carriers/capabilities.js";
+import { RateRequestSchema, formatZodError } from "../validation/schemas.js";
+import {
+  CircuitBreaker,
+  type CircuitBreakerOptions,
+  type CircuitBreakerStatus,
+} from "../carriers/circuit-breaker.js";
+import {
+  RetryingOperation,
+  type RetryPolicy,
+} from "../carriers/retrying-operation.js";
+import type {
+  CarrierClient,
+  CarrierOperation,
+  CarrierOperations,
+  CarrierRegistry,
+  OperationContext,
+  OperationName,
+  OperationRequest,
+  OperationResponse,
+} from "../carriers/types.js";
 
 export interface ShippingRateResult {
+  /** Cheapest first, grouped by currency — see `shopRates`. */
   quotes: RateQuote[];
   errors: Array<{
     carrier: string;
     error: CarrierError;
   }>;
+  /**
+   * Carriers not asked, because the request is outside their capabilities or
+   * their circuit breaker is open.
+   */
+  skipped: Array<{
+    carrier: CarrierName;
+    reason: string;
+  }>;
+}
+
+export interface ShippingServiceOptions {
+  /**
+   * Local hour after which requests without a ship date are rated for the
+   * next business day. Defaults to `DEFAULT_SHIP_CUTOFF_HOUR`.
+   */
+  shipCutoffHour?: number;
+  /**
+   * Carrier whose address validation classifies each destination as
+   * residential or commercial before rating, overriding the caller's
+   * `residential` flag. If classification fails or is inconclusive, the
+   * caller's flag is used as-is.
+   */
+  classifyDestinationsWith?: CarrierName;
+  /**
+   * Retry failures marked `retryable` under this policy (e.g.
+   * `DEFAULT_RETRY_POLICY`). Operations that buy, void or book something are
+   * never retried, since a timed-out attempt may have gone through. Without
+   * a policy every call is tried once.
+   */
+  retry?: RetryPolicy;
+  /**
+   * Give each carrier a circuit breaker with these settings (e.g.
+   * `DEFAULT_CIRCUIT_BREAKER_OPTIONS`), so a carrier that keeps failing is
+   * failed fast with `CIRCUIT_OPEN` and left out of rate shopping until it
+   * recovers. Without it every call reaches the carrier.
+   */
+  circuitBreaker?: CircuitBreakerOptions;
+}
+
+/** A caller's deadline for one call, e.g. `getRates` or `shopRates`. */
+export interface CallOptions {
+  /**
+   * Give up after this long, cancelling any auth and carrier requests still
+   * in flight.
+   */
+  timeoutMs?: number;
+  /** Cancels the call when aborted. */
+  signal?: AbortSignal;
+}
+
+/** One carrier's entry in `ShippingService.carrierHealth()`. */
+export interface CarrierHealth {
+  carrier: CarrierName;
+  circuit: CircuitBreakerStatus;
 }
 
 /**
- * High-level service that orchestrates rate requests across one or more
- * carriers. Callers interact with this facade rather than individual
- * carrier clients.
+ * High-level service that orchestrates rating, address validation, label
+ * cancellation, pickups, location search and tracking across one or more
+ * carriers. Callers interact with this facade rather than individual carrier
+ * clients.
  */
 export class ShippingService {
-  constructor(private registry: CarrierRegistry) {}
+  /** When each carrier that answered with a rate limit said to come back. */
+  private rateLimitedUntil = new Map<CarrierName, number>();
+  private circuitBreakers = new Map<CarrierName, CircuitBreaker>();
+
+  constructor(
+    private registry: CarrierRegistry,
+    private options: ShippingServiceOptions = {},
+  ) {}
 
   /**
-   * Get rates from a specific carrier.
+   * Get rates from a specific carrier. A request outside the carrier's
+   * capabilities fails with `VALIDATION_ERROR` rather than being rated
+   * without the parts the carrier cannot honour. Past the deadline in
+   * `options` the call fails with `TIMEOUT_ERROR`.
    */
   async getRates(
     carrier: CarrierName,
     request: RateRequest,
+    options: CallOptions = {},
   ): Promise<RateQuote[]> {
-    const client = this.registry.get(carrier);
-    if (!client) {
+    const client = this.getClient(carrier);
+    parseRateRequest(request, carrier);
+    const mismatch = ratingMismatch(client, request);
+    if (mismatch) {
       throw new CarrierError(
-        CarrierErrorCode.CONFIGURATION_ERROR,
-        `Carrier "${carrier}" is not registered`,
+        CarrierErrorCode.VALIDATION_ERROR,
+        `${carrier} ${mismatch}`,
         { carrier, retryable: false },
       );
     }
 
-    const response = await client.getRates(request);
-    return response.quotes;
+    return withDeadline(options, async (deadline) => {
+      const context = { signal: deadline.signal };
+      const prepared = await this.classifyDestination(
+        this.withShipDate(request),
+        context,
+      );
+      const response = await deadline.guard(
+        carrier,
+        this.prepare(carrier, "rating", client.operations.rating).execute(
+          prepared,
+          context,
+        ),
+      );
+      return response.quotes;
+    });
   }
 
   /**
    * Shop rates across all registered carriers. Collects results from each
    * carrier independently — one carrier's failure does not block others.
+   * An invalid request is rejected with `VALIDATION_ERROR` before any carrier
+   * is considered. Carriers whose capabilities rule out the request, or whose
+   * circuit would refuse the call (open, or half-open with its trial call in
+   * flight), are skipped rather than called. Carriers still rating
+   * when the deadline in `options` passes are reported with `TIMEOUT_ERROR`.
+   *
+   * Quotes are sorted by payable amount within each currency, with the
+   * currency most quotes share first, so 100 EUR never ranks as 100 USD.
    */
-  async shopRates(request: RateRequest): Promise<ShippingRateResult> {
+  async shopRates(
+    request: RateRequest,
+    options: CallOptions = {},
+  ): Promise<ShippingRateResult> {
     const carriers = this.registry.getAll();
     if (carriers.length === 0) {
       throw new CarrierError(
@@ -52,12 +185,57 @@ export class ShippingService {
       );
     }
 
-    const results = await Promise.allSettled(
-      carriers.map(async (client) => ({
-        carrier: client.name,
-        response: await client.getRates(request),
-      })),
-    );
+    parseRateRequest(request);
+
+    const eligible: CarrierClient[] = [];
+    const skipped: ShippingRateResult["skipped"] = [];
+    for (const client of carriers) {
+      const mismatch = ratingMismatch(client, request);
+      const breaker = this.circuitBreaker(client.name);
+      if (mismatch) {
+        skipped.push({
+          carrier: client.name,
+          reason: `${client.name} ${mismatch}`,
+        });
+      } else if (breaker && !breaker.acceptingCalls) {
+        const circuit = breaker.status();
+        skipped.push({
+          carrier: client.name,
+          reason:
+            circuit.state === "OPEN"
+              ? `${client.name} is failing; its circuit reopens at ${circuit.retryAt}`
+              : `${client.name} is failing; a trial call is already in flight`,
+        });
+      } else {
+        eligible.push(client);
+      }
+    }
+
+    if (eligible.length === 0) {
+      return { quotes: [], errors: [], skipped };
+    }
+
+    const results = await withDeadline(options, async (deadline) => {
+      const context = { signal: deadline.signal };
+      // Resolve once so every carrier rates the same ship date and destination
+      const prepared = await this.classifyDestination(
+        this.withShipDate(request),
+        context,
+      );
+      return Promise.allSettled(
+        eligible.map(async (client) => ({
+          carrier: client.name,
+          response: await deadline.guard(
+            client.name,
+            this.prepare(
+              client.name,
+              "rating",
+              client.operations.rating,
+            ).execute(prepared, context),
+          ),
+        })),
+      );
+    });
 
     const quotes: RateQuote[] = [];
     const errors: ShippingRateResult["errors"] = [];
@@ -80,9 +258,413 @@ export class ShippingService {
       }
     }
 
-    // Sort by total charges ascending for easy comparison
-    quotes.sort((a, b) => a.totalCharges.amount - b.totalCharges.amount);
+    return { quotes: sortByPayableCharges(quotes), errors, skipped };
+  }
 
-    return { quotes, errors };
+  /**
+   * Void labels bought from a carrier, by shipment ID or the tracking number
+   * of a single-package shipment. Pass `trackingNumbers` to void only some
+   * packages of a multi-package shipment.
+   */
+  async voidShipment(
+    carrier: CarrierName,
+    trackingOrShipmentId: string,
+    trackingNumbers?: string[],
+  ): Promise<VoidShipmentResponse> {
+    return this.execute(carrier, "void", {
+      trackingOrShipmentId,
+      trackingNumbers,
+    });
   }
+
+  /**
+   * Check an address for deliverability and classify it as residential or
+   * commercial.
+   */
+  async validateAddress(
+    carrier: CarrierName,
+    address: Address,
+  ): Promise<AddressValidationResult> {
+    return this.execute(carrier, "addressValidation", { address });
+  }
+
+  /**
+   * Current status and scan history for a package.
+   */
+  async trackShipment(
+    carrier: CarrierName,
+    trackingNumber: string,
+  ): Promise<TrackingResult> {
+    return this.execute(carrier, "tracking", { trackingNumber });
+  }
+
+  /**
+   * Book a carrier pickup. Keep the returned confirmation number to cancel it.
+   */
+  async createPickup(
+    carrier: CarrierName,
+    request: PickupRequest,
+  ): Promise<PickupConfirmation> {
+    return this.execute(carrier, "pickup", request);
+  }
+
+  async cancelPickup(
+    carrier: CarrierName,
+    confirmationNumber: string,
+  ): Promise<CancelPickupResponse> {
+    return this.execute(carrier, "pickupCancel", { confirmationNumber });
+  }
+
+  /**
+   * Price a pickup without booking it.
+   */
+  async getPickupRate(
+    carrier: CarrierName,
+    request: PickupRequest,
+  ): Promise<PickupRate> {
+    return this.execute(carrier, "pickupRate", request);
+  }
+
+  /**
+   * Find access points, stores and drop boxes near an address or point. Pass
+   * an access point as `holdAtLocation` to ship there for the recipient to
+   * collect.
+   */
+  async searchLocations(
+    carrier: CarrierName,
+    request: LocationSearchRequest,
+  ): Promise<CarrierLocation[]> {
+    return this.execute(carrier, "locationSearch", request);
+  }
+
+  /**
+   * Run any carrier operation by name, optionally under a deadline. The
+   * methods above are typed shortcuts for the common ones.
+   */
+  async execute<K extends OperationName>(
+    carrier: CarrierName,
+    operation: K,
+    request: OperationRequest<K>,
+    options: CallOptions = {},
+  ): Promise<OperationResponse<K>> {
+    const operations: Partial<CarrierOperations> =
+      this.getClient(carrier).operations;
+    const handler = operations[operation];
+    if (!handler) {
+      throw unsupported(carrier, operation);
+    }
+
+    return withDeadline(options, (deadline) =>
+      deadline.guard(
+        carrier,
+        this.prepare(carrier, operation, handler).execute(request, {
+          signal: deadline.signal,
+        }),
+      ),
+    );
+  }
+
+  /**
+   * Circuit breaker state of every registered carrier, for health checks.
+   * Carriers report a closed circuit when no breaker is configured.
+   */
+  carrierHealth(): CarrierHealth[] {
+    return this.registry.getAll().map((client) => ({
+      carrier: client.name,
+      circuit: this.circuitBreaker(client.name)?.status() ?? {
+        state: "CLOSED",
+        calls: 0,
+        failureRate: 0,
+      },
+    }));
+  }
+
+  /**
+   * Wraps a carrier operation in the retry policy, the carrier's circuit
+   * breaker and the rate-limit hold-off. The breaker sees a retried call as
+   * one outcome.
+   */
+  private prepare<TReq, TRes>(
+    carrier: CarrierName,
+    operation: OperationName,
+    handler: CarrierOperation<TReq, TRes>,
+  ): CarrierOperation<TReq, TRes> {
+    const policy = this.options.retry;
+    const inner =
+      policy && REPEATABLE_OPERATIONS.has(operation)
+        ? new RetryingOperation(handler, policy)
+        : handler;
+    const breaker = this.circuitBreaker(carrier);
+    const call = (request: TReq, context?: OperationContext) =>
+      breaker
+        ? breaker.execute(
+            () => inner.execute(request, context),
+            context?.signal,
+          )
+        : inner.execute(request, context);
+    return {
+      execute: (request, context) =>
+        this.respectRateLimit(carrier, () => call(request, context)),
+    };
+  }
+
+  /** The carrier's breaker, created on first use; none unless configured. */
+  private circuitBreaker(carrier: CarrierName): CircuitBreaker | undefined {
+    const options = this.options.circuitBreaker;
+    if (!options) return undefined;
+
+    let breaker = this.circuitBreakers.get(carrier);
+    if (!breaker) {
+      breaker = new CircuitBreaker(carrier, options);
+      this.circuitBreakers.set(carrier, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Once a carrier rate-limits us and says how long to wait, fail its calls
+   * locally until that time instead of sending more requests.
+   */
+  private async respectRateLimit<T>(
+    carrier: CarrierName,
+    call: () => Promise<T>,
+  ): Promise<T> {
+    const remainingMs = (this.rateLimitedUntil.get(carrier) ?? 0) - Date.now();
+    if (remainingMs > 0) {
+      throw new CarrierError(
+        CarrierErrorCode.RATE_LIMIT_ERROR,
+        `Carrier "${carrier}" is rate limited; retry in ${Math.ceil(remainingMs / 1000)}s`,
+        { carrier, retryable: true, retryAfterMs: remainingMs },
+      );
+    }
+
+    try {
+      return await call();
+    } catch (error) {
+      if (
+        error instanceof CarrierError &&
+        error.code === CarrierErrorCode.RATE_LIMIT_ERROR
+      ) {
+        const delayMs = requestedRetryDelayMs(error);
+        if (delayMs) this.rateLimitedUntil.set(carrier, Date.now() + delayMs);
+      }
+      throw error;
+    }
+  }
+
+  private getClient(carrier: CarrierName): CarrierClient {
+    const client = this.registry.get(carrier);
+    if (!client) {
+      throw new CarrierError(
+        CarrierErrorCode.CONFIGURATION_ERROR,
+        `Carrier "${carrier}" is not registered`,
+        { carrier, retryable: false },
+      );
+    }
+    return client;
+  }
+
+  private async classifyDestination(
+    request: RateRequest,
+    context: OperationContext,
+  ): Promise<RateRequest> {
+    const carrier = this.options.classifyDestinationsWith;
+    if (!carrier) return request;
+
+    let result: AddressValidationResult;
+    try {
+      result = await this.execute(
+        carrier,
+        "addressValidation",
+        { address: request.destination },
+        { signal: context.signal },
+      );
+    } catch {
+      // Rating must not fail because classification did
+      return request;
+    }
+
+    if (result.classification === "UNKNOWN") return request;
+    return {
+      ...request,
+      destination: {
+        ...request.destination,
+        residential: result.classification === "RESIDENTIAL",
+      },
+    };
+  }
+
+  private withShipDate(request: RateRequest): RateRequest {
+    return {
+      ...request,
+      shipDate: resolveShipDate(request.shipDate, {
+        cutoffHour: this.options.shipCutoffHour,
+      }),
+    };
+  }
+}
+
+/**
+ * A caller's timeout and abort signal merged into the one signal handed to
+ * carrier operations. `guard` fails a call with `TIMEOUT_ERROR` the moment
+ * the signal fires, even when the operation does not honor it.
+ */
+class Deadline {
+  private controller = new AbortController();
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(private options: CallOptions) {
+    const { signal, timeoutMs } = options;
+    if (signal?.aborted) this.abort();
+    signal?.addEventListener("abort", this.abort, { once: true });
+    if (timeoutMs !== undefined) {
+      this.timer = setTimeout(this.abort, timeoutMs);
+    }
+  }
+
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  guard<T>(carrier: CarrierName, promise: Promise<T>): Promise<T> {
+    const signal = this.signal;
+    return new Promise((resolve, reject) => {
+      const expire = () => reject(this.expiredError(carrier));
+      if (signal.aborted) expire();
+      signal.addEventListener("abort", expire, { once: true });
+      promise
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener("abort", expire));
+    });
+  }
+
+  dispose(): void {
+    clearTimeout(this.timer);
+    this.options.signal?.removeEventListener("abort", this.abort);
+  }
+
+  private abort = (): void => {
+    this.controller.abort();
+  };
+
+  private expiredError(carrier: CarrierName): CarrierError {
+    return new CarrierError(
+      CarrierErrorCode.TIMEOUT_ERROR,
+      this.options.signal?.aborted
+        ? `Call to carrier "${carrier}" was cancelled`
+        : `Carrier "${carrier}" did not answer within ${this.options.timeoutMs}ms`,
+      { carrier, retryable: false },
+    );
+  }
+}
+
+async function withDeadline<T>(
+  options: CallOptions,
+  run: (deadline: Deadline) => Promise<T>,
+): Promise<T> {
+  const deadline = new Deadline(options);
+  try {
+    return await run(deadline);
+  } finally {
+    deadline.dispose();
+  }
+}
+
+/** Operations that only read, so repeating one after a failure is harmless. */
+const REPEATABLE_OPERATIONS = new Set<OperationName>([
+  "rating",
+  "tracking",
+  "addressValidation",
+  "pickupRate",
+  "locationSearch",
+]);
+
+/** How each operation reads in an "unsupported" error message. */
+const OPERATION_LABELS: Record<OperationName, string> = {
+  rating: "rating",
+  shipping: "label purchase",
+  void: "voiding shipments",
+  tracking: "tracking",
+  addressValidation: "address validation",
+  pickup: "pickups",
+  pickupCancel: "pickups",
+  pickupRate: "pickup rating",
+  locationSearch: "location search",
+};
+
+/**
+ * Rejects a malformed rate request with `VALIDATION_ERROR`. Capability checks
+ * read the request, so it must be well-formed before they run.
+ */
+function parseRateRequest(request: RateRequest, carrier?: CarrierName): void {
+  const validation = RateRequestSchema.safeParse(request);
+  if (!validation.success) {
+    throw new CarrierError(
+      CarrierErrorCode.VALIDATION_ERROR,
+      `Invalid rate request: ${formatZodError(validation.error)}`,
+      { carrier, retryable: false },
+    );
+  }
+}
+
+/**
+ * Why a carrier cannot rate a request, completing a sentence that starts with
+ * its name. A hold-at-location ID means nothing to other carriers, so only
+ * the carrier that runs the location is asked.
+ */
+function ratingMismatch(
+  client: CarrierClient,
+  request: RateRequest,
+): string | undefined {
+  const location = request.holdAtLocation;
+  if (location && location.carrier !== client.name) {
+    return `cannot deliver to a ${location.carrier} location`;
+  }
+  return (
+    client.capabilities && capabilityMismatch(client.capabilities, request)
+  );
+}
+
+function unsupported(
+  carrier: CarrierName,
+  operation: OperationName,
+): CarrierError {
+  return new CarrierError(
+    CarrierErrorCode.UNSUPPORTED_OPERATION,
+    `Carrier "${carrier}" does not support ${OPERATION_LABELS[operation]}`,
+    { carrier, retryable: false },
+  );
+}
+
+/**
+ * The amount the shipper actually pays for a quote: the negotiated account
+ * rate when the carrier returned one, otherwise the published rate.
+ */
+export function payableCharges(quote: RateQuote): MonetaryAmount {
+  return quote.negotiatedCharges ?? quote.totalCharges;
+}
+
+/**
+ * Cheapest first within each currency. Amounts in different currencies are
+ * never ranked against each other: the currency most quotes are in comes
+ * first, then the others in alphabetical order.
+ */
+function sortByPayableCharges(quotes: RateQuote[]): RateQuote[] {
+  const perCurrency = new Map<string, number>();
+  for (const quote of quotes) {
+    const currency = payableCharges(quote).currency;
+    perCurrency.set(currency, (perCurrency.get(currency) ?? 0) + 1);
+  }
+
+  return [...quotes].sort((a, b) => {
+    const x = payableCharges(a);
+    const y = payableCharges(b);
+    if (x.currency !== y.currency) {
+      return (
+        perCurrency.get(y.currency)! - perCurrency.get(x.currency)! ||
+        x.currency.localeCompare(y.currency)
+      );
+    }
+    return x.amount - y.amount;
+  });
 }
@@ -1,4 +1,11 @@
-import { z } from "zod";
+import { z, type ZodError } from "zod";
+import { isCrossBorder } from "../domain/customs.js";
+import { LITHIUM_BATTERY_UN_NUMBERS } from "../domain/dangerous-goods.js";
+import {
+  formatLocalDate,
+  isValidShipDate,
+  isValidTimeZone,
+} from "../domain/ship-date.js";
 
 export const AddressSchema = z.object({
   name: z.string().min(1).max(35).optional(),
@@ -14,6 +21,7 @@ export const AddressSchema = z.object({
   postalCode: z.string().min(1).max(9),
   countryCode: z.string().length(2, "Country code must be exactly 2 characters"),
   residential: z.boolean().optional(),
+  phone: z.string().min(1).max(15).optional(),
 });
 
 export const DimensionsSchema = z.object({
@@ -28,12 +36,167 @@ export const PackageWeightSchema = z.object({
   unit: z.enum(["LB", "KG", "OZ"]),
 });
 
+export const MonetaryAmountSchema = z.object({
+  currency: z.string().length(3, "Currency must be a 3-letter ISO code"),
+  amount: z.number().positive("Amount must be positive"),
+});
+
+export const PackageServiceOptionsSchema = z.object({
+  signature: z.enum(["SIGNATURE", "ADULT_SIGNATURE"]).optional(),
+  declaredValue: MonetaryAmountSchema.optional(),
+  codAmount: MonetaryAmountSchema.optional(),
+  additionalHandling: z.boolean().optional(),
+});
+
+export const ShipmentServiceOptionsSchema = z.object({
+  saturdayDelivery: z.boolean().optional(),
+});
+
+export const PackagingTypeSchema = z.enum([
+  "CUSTOM",
+  "ENVELOPE",
+  "PAK",
+  "TUBE",
+  "EXPRESS_BOX",
+  "SMALL_EXPRESS_BOX",
+  "MEDIUM_EXPRESS_BOX",
+  "LARGE_EXPRESS_BOX",
+  "BOX_10KG",
+  "BOX_25KG",
+  "PALLET",
+]);
+
+export const DangerousGoodsItemSchema = z
+  .object({
+    unNumber: z
+      .string()
+      .regex(/^UN\d{4}$/, "UN number must be UN followed by 4 digits"),
+    hazardClass: z
+      .string()
+      .regex(
+        /^[1-9](\.[1-6])?$/,
+        "Hazard class must be a class or division, e.g. 9 or 2.1",
+      ),
+    properShippingName: z.string().min(1).max(100),
+    quantity: z.object({
+      value: z.number().positive("Quantity must be positive"),
+      unit: z.enum(["G", "KG", "LB", "ML", "L"]),
+    }),
+    packingGroup: z.enum(["I", "II", "III"]).optional(),
+    packingInstruction: z.string().min(1).max(10).optional(),
+    lithiumBatteryType: z
+      .enum([
+        "LITHIUM_ION",
+        "LITHIUM_ION_PACKED_WITH_EQUIPMENT",
+        "LITHIUM_ION_CONTAINED_IN_EQUIPMENT",
+        "LITHIUM_METAL",
+        "LITHIUM_METAL_PACKED_WITH_EQUIPMENT",
+        "LITHIUM_METAL_CONTAINED_IN_EQUIPMENT",
+      ])
+      .optional(),
+    regulatedLevel: z
+      .enum([
+        "FULLY_REGULATED",
+        "LIGHTLY_REGULATED",
+        "LIMITED_QUANTITY",
+        "EXCEPTED_QUANTITY",
+      ])
+      .optional(),
+  })
+  .refine(
+    (item) =>
+      !item.lithiumBatteryType ||
+      LITHIUM_BATTERY_UN_NUMBERS[item.lithiumBatteryType] === item.unNumber,
+    {
+      message: "Lithium battery type does not match the UN number",
+      path: ["lithiumBatteryType"],
+    },
+  );
+
+export const DryIceSchema = z.object({
+  weight: z.object({
+    value: z.number().positive("Dry ice weight must be positive"),
+    unit: z.enum(["KG", "LB"]),
+  }),
+  medicalUse: z.boolean().optional(),
+});
+
+export const DangerousGoodsSchema = z
+  .object({
+    items: z.array(DangerousGoodsItemSchema).max(3).optional(),
+    dryIce: DryIceSchema.optional(),
+  })
+  .refine((goods) => (goods.items ?? []).length > 0 || goods.dryIce, {
+    message: "Declare at least one dangerous goods item or dry ice",
+  });
+
 export const PackageSchema = z.object({
   weight: PackageWeightSchema,
   dimensions: DimensionsSchema.optional(),
+  packagingType: PackagingTypeSchema.optional(),
+  serviceOptions: PackageServiceOptionsSchema.optional(),
+  dangerousGoods: DangerousGoodsSchema.optional(),
+});
+
+/** A YYYY-MM-DD calendar date, today or later. */
+function calendarDateSchema(label: string) {
+  return z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, `${label} must be in YYYY-MM-DD format`)
+    .refine(isValidShipDate, `${label} is not a valid calendar date`);
+}
+
+function upcomingDateSchema(label: string) {
+  return calendarDateSchema(label).refine(
+    (date) => date >= formatLocalDate(new Date()),
+    `${label} cannot be in the past`,
+  );
+}
+
+export const CommoditySchema = z.object({
+  description: z.string().min(1).max(35),
+  hsCode: z
+    .string()
+    .regex(/^\d{6,10}$/, "HS code must be 6-10 digits without dots"),
+  countryOfOrigin: z
+    .string()
+    .length(2, "Country of origin must be exactly 2 characters"),
+  quantity: z.number().int().positive("Quantity must be positive"),
+  unitValue: MonetaryAmountSchema,
+});
+
+export const CustomsDetailsSchema = z
+  .object({
+    commodities: z
+      .array(CommoditySchema)
+      .min(1, "At least one commodity is required")
+      .max(50),
+    incoterm: z.enum(["EXW", "FCA", "CPT", "CIP", "DAP", "DPU", "DDP"]),
+    invoiceTotal: MonetaryAmountSchema.optional(),
+  })
+  .refine(
+    (customs) => {
+      const currency = customs.commodities[0]?.unitValue.currency;
+      return [
+        ...customs.commodities.map((line) => line.unitValue),
+        ...(customs.invoiceTotal ? [customs.invoiceTotal] : []),
+      ].every((value) => value.currency === currency);
+    },
+    { message: "Commodity values and invoice total must share one currency" },
+  );
+
+export const HoldAtLocationSchema = z.object({
+  carrier: z.string().min(1, "The carrier that runs the location is required"),
+  id: z.string().min(1, "A location ID is required"),
+  type: z.literal("ACCESS_POINT", {
+    errorMap: () => ({
+      message: "Packages can only be held at an access point",
+    }),
+  }),
+  address: AddressSchema,
 });
 
-export const RateRequestSchema = z.object({
+const RateRequestObjectSchema = z.object({
   origin: AddressSchema,
   destination: AddressSchema,
   packages: z
@@ -42,4 +205,128 @@ export const RateRequestSchema = z.object({
     .max(200),
   serviceCode: z.string().optional(),
   shipperAccountNumber: z.string().min(6).max(6).optional(),
+  shipDate: upcomingDateSchema("Ship date").optional(),
+  serviceOptions: ShipmentServiceOptionsSchema.optional(),
+  customs: CustomsDetailsSchema.optional(),
+  holdAtLocation: HoldAtLocationSchema.optional(),
+});
+
+/** Cross-border requests must declare their contents for customs. */
+function requireCustomsAcrossBorders(
+  request: z.infer<typeof RateRequestObjectSchema>,
+  ctx: z.RefinementCtx,
+): void {
+  if (!request.customs && isCrossBorder(request.origin, request.destination)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["customs"],
+      message: "Customs details are required for cross-border shipments",
+    });
+  }
+}
+
+export const RateRequestSchema = RateRequestObjectSchema.superRefine(
+  requireCustomsAcrossBorders,
+);
+
+export const ShipmentRequestSchema = RateRequestObjectSchema.extend({
+  serviceCode: z.string().min(1, "A service code is required to buy a label"),
+  labelFormat: z.enum(["ZPL", "GIF"]).optional(),
+  description: z.string().min(1).max(50).optional(),
+  references: z.array(z.string().min(1).max(35)).max(2).optional(),
+}).superRefine(requireCustomsAcrossBorders);
+
+export const VoidShipmentRequestSchema = z.object({
+  trackingOrShipmentId: z
+    .string()
+    .min(1, "A tracking number or shipment ID is required"),
+  trackingNumbers: z.array(z.string().min(1)).min(1).max(20).optional(),
+});
+
+export const AddressValidationRequestSchema = z.object({
+  address: AddressSchema,
+});
+
+const LocalTimeSchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be in HH:mm format");
+
+export const PickupRequestSchema = z
+  .object({
+    address: AddressSchema.extend({
+      name: z.string().min(1).max(35),
+      phone: z.string().min(1).max(15),
+    }),
+    pickupDate: calendarDateSchema("Pickup date"),
+    readyTime: LocalTimeSchema,
+    closeTime: LocalTimeSchema,
+    timeZone: z
+      .string()
+      .refine(isValidTimeZone, "Unknown time zone")
+      .optional(),
+    packageCount: z.number().int().positive().max(999),
+    totalWeight: PackageWeightSchema,
+    instructions: z.string().min(1).max(57).optional(),
+    shipperAccountNumber: z.string().min(6).max(6).optional(),
+  })
+  // "Today" is the pickup address's date when its time zone is known
+  .refine(
+    (pickup) =>
+      (pickup.timeZone !== undefined && !isValidTimeZone(pickup.timeZone)) ||
+      pickup.pickupDate >= formatLocalDate(new Date(), pickup.timeZone),
+    { message: "Pickup date cannot be in the past", path: ["pickupDate"] },
+  )
+  .refine((pickup) => pickup.readyTime < pickup.closeTime, {
+    message: "Ready time must be before close time",
+    path: ["closeTime"],
+  });
+
+export const CancelPickupRequestSchema = z.object({
+  confirmationNumber: z.string().min(1, "Confirmation number is required"),
+});
+
+export const TrackingRequestSchema = z.object({
+  trackingNumber: z
+    .string()
+    .regex(
+      /^[A-Za-z0-9]{7,34}$/,
+      "Tracking number must be 7-34 letters or digits",
+    ),
+});
+
+export const GeoCoordinatesSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
 });
+
+export const LocationSearchRequestSchema = z
+  .object({
+    address: AddressSchema.optional(),
+    coordinates: GeoCoordinatesSchema.extend({
+      countryCode: z
+        .string()
+        .length(2, "Country code must be exactly 2 characters"),
+    }).optional(),
+    radius: z
+      .object({
+        value: z.number().positive("Radius must be positive").max(200),
+        unit: z.enum(["MI", "KM"]),
+      })
+      .optional(),
+    locationTypes: z
+      .array(z.enum(["ACCESS_POINT", "RETAIL_STORE", "DROP_BOX"]))
+      .min(1)
+      .optional(),
+    maxResults: z.number().int().positive().max(50).optional(),
+  })
+  .refine((search) => !search.address !== !search.coordinates, {
+    message: "Provide either an address or coordinates to search near",
+    path: ["address"],
+  });
+
+/** Flatten zod issues into a single "path: message" string for error messages. */
+export function formatZodError(error: ZodError): string {
+  return error.issues
+    .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+    .join("; ");
+}
@@ -0,0 +1,85 @@
+/**
+ * Realistic DHL Express (MyDHL API) response fixtures derived from DHL API
+ * documentation. Used in integration tests to verify parsing and mapping.
+ */
+
+import type {
+  DhlErrorResponse,
+  DhlRateResponse,
+} from "../../src/carriers/dhl/types.js";
+
+export const DHL_VALID_RATE_RESPONSE: DhlRateResponse = {
+  products: [
+    {
+      productName: "EXPRESS WORLDWIDE",
+      productCode: "P",
+      localProductCode: "P",
+      networkTypeCode: "TD",
+      isCustomerAgreement: false,
+      weight: { volumetric: 0.6, provided: 2, unitOfMeasurement: "metric" },
+      totalPrice: [
+        { currencyType: "BILLC", priceCurrency: "USD", price: 148.62 },
+        { currencyType: "PULCL", priceCurrency: "USD", price: 148.62 },
+      ],
+      totalPriceBreakdown: [
+        {
+          currencyType: "BILLC",
+          priceCurrency: "USD",
+          priceBreakdown: [
+            { typeCode: "SPRQN", price: 121.5 },
+            { typeCode: "STSCH", price: 27.12 },
+          ],
+        },
+      ],
+      detailedPriceBreakdown: [
+        {
+          currencyType: "BILLC",
+          priceCurrency: "USD",
+          breakdown: [
+            { name: "EXPRESS WORLDWIDE", price: 121.5 },
+            {
+              name: "FUEL SURCHARGE",
+              serviceCode: "FF",
+              serviceTypeCode: "SCH",
+              price: 27.12,
+            },
+            { name: "ESTIMATED DUTIES", typeCode: "DUTY", price: 12.4 },
+            { name: "ESTIMATED IMPORT VAT", typeCode: "TAX", price: 31.2 },
+          ],
+        },
+      ],
+      deliveryCapabilities: {
+        deliveryTypeCode: "QDDC",
+        estimatedDeliveryDateAndTime: "2024-06-28T23:59:00",
+        destinationServiceAreaCode: "STR",
+        totalTransitDays: "3",
+      },
+    },
+    {
+      productName: "EXPRESS 12:00",
+      productCode: "Y",
+      localProductCode: "Y",
+      isCustomerAgreement: false,
+      weight: { volumetric: 0.6, provided: 2, unitOfMeasurement: "metric" },
+      totalPrice: [
+        { currencyType: "BILLC", priceCurrency: "USD", price: 171.05 },
+      ],
+      deliveryCapabilities: {
+        estimatedDeliveryDateAndTime: "2024-06-27T12:00:00",
+        totalTransitDays: "2",
+      },
+    },
+  ],
+  exchangeRates: [
+    { currentExchangeRate: 1, currency: "USD", baseCurrency: "USD" },
+  ],
+};
+
+export const DHL_400_ERROR: DhlErrorResponse = {
+  instance: "/mydhlapi/rates",
+  detail:
+    "Product not available between this origin and destination for the requested date",
+  title: "Product not found",
+  message: "Bad request",
+  status: "400",
+};
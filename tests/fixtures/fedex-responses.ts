@@ -0,0 +1,150 @@
+/**
+ * Realistic FedEx API response fixtures derived from FedEx API documentation.
+ * Used in integration tests to verify parsing and mapping logic.
+ */
+
+import type {
+  FedexErrorResponse,
+  FedexRateResponse,
+} from "../../src/carriers/fedex/types.js";
+
+export const FEDEX_VALID_RATE_RESPONSE: FedexRateResponse = {
+  transactionId: "624deea6-b709-470c-8c39-4b5511281492",
+  output: {
+    quoteDate: "2024-06-24",
+    encoded: false,
+    rateReplyDetails: [
+      {
+        serviceType: "FEDEX_GROUND",
+        serviceName: "FedEx Ground",
+        packagingType: "YOUR_PACKAGING",
+        ratedShipmentDetails: [
+          {
+            rateType: "LIST",
+            ratedWeightMethod: "ACTUAL",
+            totalDiscounts: 0,
+            totalBaseCharge: 10.85,
+            totalNetCharge: 12.41,
+            totalNetFedExCharge: 12.41,
+            currency: "USD",
+            shipmentRateDetail: {
+              rateZone: "5",
+              dimDivisor: 139,
+              totalSurcharges: 1.56,
+              totalBillingWeight: { units: "LB", value: 5 },
+              currency: "USD",
+            },
+          },
+        ],
+        operationalDetail: {
+          transitTime: "THREE_DAYS",
+        },
+      },
+    ],
+  },
+};
+
+export const FEDEX_VALID_SHOP_RESPONSE: FedexRateResponse = {
+  transactionId: "0c5c7e8a-1f2b-4b0e-9a4f-0ad3c2b7e4a1",
+  output: {
+    quoteDate: "2024-06-24",
+    encoded: false,
+    alerts: [
+      {
+        code: "VIRTUAL.RESPONSE",
+        message:
+          "This is a Virtual Response. Rates returned are for testing only.",
+        alertType: "NOTE",
+      },
+    ],
+    rateReplyDetails: [
+      {
+        serviceType: "FIRST_OVERNIGHT",
+        serviceName: "FedEx First Overnight®",
+        packagingType: "YOUR_PACKAGING",
+        ratedShipmentDetails: [
+          {
+            rateType: "LIST",
+            totalBaseCharge: 112.3,
+            totalNetCharge: 128.62,
+            currency: "USD",
+            shipmentRateDetail: {
+              totalSurcharges: 16.32,
+              totalBillingWeight: { units: "LB", value: 5 },
+            },
+          },
+        ],
+        operationalDetail: { transitTime: "ONE_DAY" },
+        commit: {
+          dateDetail: { dayOfWeek: "TUE", dayFormat: "2024-06-25T08:00:00" },
+        },
+      },
+      {
+        serviceType: "FEDEX_2_DAY",
+        ratedShipmentDetails: [
+          {
+            rateType: "LIST",
+            totalBaseCharge: 26.1,
+            totalNetCharge: 29.89,
+            currency: "USD",
+            shipmentRateDetail: {
+              totalSurcharges: 3.79,
+              totalBillingWeight: { units: "LB", value: 5 },
+            },
+          },
+        ],
+        operationalDetail: { transitTime: "TWO_DAYS" },
+      },
+      {
+        serviceType: "FEDEX_GROUND",
+        serviceName: "FedEx Ground",
+        ratedShipmentDetails: [
+          {
+            rateType: "LIST",
+            totalBaseCharge: 10.85,
+            totalNetCharge: 12.41,
+            currency: "USD",
+            shipmentRateDetail: {
+              totalSurcharges: 1.56,
+              totalBillingWeight: { units: "LB", value: 5 },
+            },
+          },
+        ],
+        operationalDetail: { transitTime: "THREE_DAYS" },
+        customerMessages: [
+          {
+            code: "SERVICE.TYPE.INTERNATIONAL.MESSAGE",
+            message: "Rate does not include duties and taxes",
+          },
+        ],
+      },
+    ],
+  },
+};
+
+export const FEDEX_OAUTH_TOKEN_RESPONSE = {
+  access_token: "eyJhbGciOiJSUzI1NiIsInR5cCI6IkpXVCJ9.fedex-test-token",
+  token_type: "bearer",
+  expires_in: 3599,
+  scope: "CXS",
+};
+
+export const FEDEX_400_ERROR: FedexErrorResponse = {
+  transactionId: "b8fd0c0a-5e1c-4d6b-a5f1-3f1b0a4c1b11",
+  errors: [
+    {
+      code: "SERVICE.PACKAGECOMBINATION.INVALID",
+      message: "Invalid service and packaging combination.",
+    },
+  ],
+};
+
+export const FEDEX_401_ERROR: FedexErrorResponse = {
+  transactionId: "8a1f2b4c-7d3e-4f5a-9b6c-1d2e3f4a5b6c",
+  errors: [
+    {
+      code: "NOT.AUTHORIZED.ERROR",
+      message: "Access token expired. Please modify your request and try again.",
+    },
+  ],
+};
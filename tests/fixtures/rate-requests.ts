@@ -44,6 +44,47 @@ export const VALID_MULTI_PACKAGE_REQUEST: RateRequest = {
   ],
 };
 
+export const VALID_HOLD_AT_LOCATION_REQUEST: RateRequest = {
+  ...VALID_DOMESTIC_RATE_REQUEST,
+  holdAtLocation: {
+    carrier: "UPS",
+    id: "U51128973",
+    type: "ACCESS_POINT",
+    address: {
+      name: "CVS PHARMACY",
+      addressLines: ["5950 N POINT PKWY"],
+      city: "ALPHARETTA",
+      stateProvinceCode: "GA",
+      postalCode: "300221123",
+      countryCode: "US",
+    },
+  },
+};
+
+export const VALID_DANGEROUS_GOODS_REQUEST: RateRequest = {
+  ...VALID_DOMESTIC_RATE_REQUEST,
+  packages: [
+    {
+      weight: { value: 12, unit: "LB" },
+      dimensions: { length: 14, width: 12, height: 10, unit: "IN" },
+      dangerousGoods: {
+        items: [
+          {
+            unNumber: "UN3480",
+            hazardClass: "9",
+            properShippingName: "Lithium ion batteries",
+            quantity: { value: 2.5, unit: "KG" },
+            packingGroup: "II",
+            packingInstruction: "965",
+            lithiumBatteryType: "LITHIUM_ION",
+          },
+        ],
+        dryIce: { weight: { value: 2, unit: "KG" }, medicalUse: true },
+      },
+    },
+  ],
+};
+
 export const VALID_INTERNATIONAL_REQUEST: RateRequest = {
   origin: {
     addressLines: ["100 Main Street"],
@@ -64,6 +105,25 @@ export const VALID_INTERNATIONAL_REQUEST: RateRequest = {
       dimensions: { length: 20, width: 15, height: 10, unit: "CM" },
     },
   ],
+  customs: {
+    commodities: [
+      {
+        description: "Cotton T-shirts",
+        hsCode: "610910",
+        countryOfOrigin: "US",
+        quantity: 10,
+        unitValue: { currency: "USD", amount: 12.5 },
+      },
+      {
+        description: "Leather belts",
+        hsCode: "420330",
+        countryOfOrigin: "IT",
+        quantity: 1,
+        unitValue: { currency: "USD", amount: 25 },
+      },
+    ],
+    incoterm: "DAP",
+  },
 };
 
 export const INVALID_REQUEST_MISSING_ORIGIN: Partial<RateRequest> = {
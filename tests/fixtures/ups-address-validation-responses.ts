@@ -0,0 +1,94 @@
+/**
+ * Realistic UPS Address Validation (Street Level) response fixtures derived
+ * from UPS API documentation.
+ */
+
+import type { UpsAddressValidationResponseWrapper } from "../../src/carriers/ups/types.js";
+
+export const VALID_RESIDENTIAL_ADDRESS_RESPONSE: UpsAddressValidationResponseWrapper =
+  {
+    XAVResponse: {
+      Response: {
+        ResponseStatus: { Code: "1", Description: "Success" },
+      },
+      ValidAddressIndicator: "",
+      AddressClassification: { Code: "2", Description: "Residential" },
+      Candidate: {
+        AddressClassification: { Code: "2", Description: "Residential" },
+        AddressKeyFormat: {
+          AddressLine: "200 ELM ST",
+          PoliticalDivision2: "ALPHARETTA",
+          PoliticalDivision1: "GA",
+          PostcodePrimaryLow: "30005",
+          PostcodeExtendedLow: "4207",
+          CountryCode: "US",
+        },
+      },
+    },
+  };
+
+export const VALID_COMMERCIAL_ADDRESS_RESPONSE: UpsAddressValidationResponseWrapper =
+  {
+    XAVResponse: {
+      Response: {
+        ResponseStatus: { Code: "1", Description: "Success" },
+      },
+      ValidAddressIndicator: "",
+      AddressClassification: { Code: "1", Description: "Commercial" },
+      Candidate: {
+        AddressClassification: { Code: "1", Description: "Commercial" },
+        AddressKeyFormat: {
+          AddressLine: ["200 ELM ST", "STE 400"],
+          PoliticalDivision2: "ALPHARETTA",
+          PoliticalDivision1: "GA",
+          PostcodePrimaryLow: "30005",
+          PostcodeExtendedLow: "4207",
+          CountryCode: "US",
+        },
+      },
+    },
+  };
+
+export const AMBIGUOUS_ADDRESS_RESPONSE: UpsAddressValidationResponseWrapper = {
+  XAVResponse: {
+    Response: {
+      ResponseStatus: { Code: "1", Description: "Success" },
+    },
+    AmbiguousAddressIndicator: "",
+    AddressClassification: { Code: "0", Description: "Unknown" },
+    Candidate: [
+      {
+        AddressClassification: { Code: "2", Description: "Residential" },
+        AddressKeyFormat: {
+          AddressLine: "200 ELM ST",
+          PoliticalDivision2: "ALPHARETTA",
+          PoliticalDivision1: "GA",
+          PostcodePrimaryLow: "30005",
+          PostcodeExtendedLow: "4207",
+          CountryCode: "US",
+        },
+      },
+      {
+        AddressClassification: { Code: "1", Description: "Commercial" },
+        AddressKeyFormat: {
+          AddressLine: "200 ELM CT",
+          PoliticalDivision2: "ALPHARETTA",
+          PoliticalDivision1: "GA",
+          PostcodePrimaryLow: "30009",
+          CountryCode: "US",
+        },
+      },
+    ],
+  },
+};
+
+export const NO_CANDIDATES_ADDRESS_RESPONSE: UpsAddressValidationResponseWrapper =
+  {
+    XAVResponse: {
+      Response: {
+        ResponseStatus: { Code: "1", Description: "Success" },
+      },
+      NoCandidatesIndicator: "",
+      AddressClassification: { Code: "0", Description: "Unknown" },
+    },
+  };
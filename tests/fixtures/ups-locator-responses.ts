@@ -0,0 +1,113 @@
+/**
+ * Realistic UPS Locator API response fixtures derived from UPS API
+ * documentation.
+ */
+
+import type { UpsLocatorResponseWrapper } from "../../src/carriers/ups/types.js";
+
+export const VALID_LOCATOR_RESPONSE: UpsLocatorResponseWrapper = {
+  LocatorResponse: {
+    Response: {
+      ResponseStatus: { Code: "1", Description: "Success" },
+    },
+    SearchResults: {
+      DropLocation: [
+        {
+          LocationID: "338412",
+          Geocode: { Latitude: "34.0754", Longitude: "-84.2941" },
+          AddressKeyFormat: {
+            ConsigneeName: "CVS PHARMACY",
+            AddressLine: "5950 N POINT PKWY",
+            PoliticalDivision2: "ALPHARETTA",
+            PoliticalDivision1: "GA",
+            PostcodePrimaryLow: "30022",
+            PostcodeExtendedLow: "1123",
+            CountryCode: "US",
+          },
+          PhoneNumber: "7704750123",
+          Distance: { Value: "0.4", UnitOfMeasurement: { Code: "MI" } },
+          LocationAttribute: [
+            {
+              OptionType: { Code: "01", Description: "Location" },
+              OptionCode: { Code: "018", Description: "UPS Access Point" },
+            },
+            {
+              OptionType: { Code: "03", Description: "Services" },
+              OptionCode: [
+                { Code: "001", Description: "Drop-off" },
+                { Code: "002", Description: "Package pickup" },
+              ],
+            },
+          ],
+          OperatingHours: {
+            StandardHours: [
+              {
+                HoursType: "10",
+                DayOfWeek: [
+                  { Day: "1", ClosedIndicator: "" },
+                  { Day: "2", OpenHours: "800", CloseHours: "2100" },
+                  { Day: "3", OpenHours: "800", CloseHours: "2100" },
+                  { Day: "4", OpenHours: "800", CloseHours: "2100" },
+                  { Day: "5", OpenHours: "800", CloseHours: "2100" },
+                  { Day: "6", OpenHours: "800", CloseHours: "2100" },
+                  { Day: "7", OpenHours: "0900", CloseHours: "1700" },
+                ],
+              },
+            ],
+          },
+          AccessPointInformation: { PublicAccessPointID: "U51128973" },
+        },
+        {
+          LocationID: "24518",
+          Geocode: { Latitude: "34.0690", Longitude: "-84.2770" },
+          AddressKeyFormat: {
+            ConsigneeName: "THE UPS STORE",
+            AddressLine: ["3000 OLD ALABAMA RD", "STE 119"],
+            PoliticalDivision2: "ALPHARETTA",
+            PoliticalDivision1: "GA",
+            PostcodePrimaryLow: "30022",
+            CountryCode: "US",
+          },
+          Distance: { Value: "1.2", UnitOfMeasurement: { Code: "MI" } },
+          LocationAttribute: {
+            OptionType: { Code: "01", Description: "Location" },
+            OptionCode: { Code: "002", Description: "The UPS Store" },
+          },
+          OperatingHours: {
+            StandardHours: [
+              {
+                HoursType: "10",
+                DayOfWeek: [{ Day: "2", Open24HoursIndicator: "" }],
+              },
+            ],
+          },
+        },
+        {
+          LocationID: "90114",
+          AddressKeyFormat: {
+            ConsigneeName: "UPS DROP BOX",
+            AddressLine: "11175 CICERO DR",
+            PoliticalDivision2: "ALPHARETTA",
+            PoliticalDivision1: "GA",
+            PostcodePrimaryLow: "30022",
+            CountryCode: "US",
+          },
+          Distance: { Value: "2.7", UnitOfMeasurement: { Code: "MI" } },
+          LocationAttribute: {
+            OptionType: { Code: "01", Description: "Location" },
+            OptionCode: { Code: "003", Description: "UPS Drop Box" },
+          },
+        },
+      ],
+    },
+  },
+};
+
+export const EMPTY_LOCATOR_RESPONSE: UpsLocatorResponseWrapper = {
+  LocatorResponse: {
+    Response: {
+      ResponseStatus: { Code: "1", Description: "Success" },
+    },
+    SearchResults: {},
+  },
+};
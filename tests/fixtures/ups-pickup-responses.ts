@@ -0,0 +1,45 @@
+/**
+ * Realistic UPS Pickup API response fixtures derived from UPS API
+ * documentation.
+ */
+
+import type {
+  UpsPickupCancelResponseWrapper,
+  UpsPickupCreationResponseWrapper,
+  UpsPickupRateResponseWrapper,
+} from "../../src/carriers/ups/types.js";
+
+export const VALID_PICKUP_CREATION_RESPONSE: UpsPickupCreationResponseWrapper =
+  {
+    PickupCreationResponse: {
+      Response: {
+        ResponseStatus: { Code: "1", Description: "Success" },
+      },
+      PRN: "2929602E9CP",
+      RateResult: {
+        GrandTotalOfAllCharge: "6.70",
+        CurrencyCode: "USD",
+      },
+    },
+  };
+
+export const VALID_PICKUP_RATE_RESPONSE: UpsPickupRateResponseWrapper = {
+  PickupRateResponse: {
+    Response: {
+      ResponseStatus: { Code: "1", Description: "Success" },
+    },
+    RateResult: {
+      GrandTotalOfAllCharge: "6.70",
+      CurrencyCode: "USD",
+    },
+  },
+};
+
+export const VALID_PICKUP_CANCEL_RESPONSE: UpsPickupCancelResponseWrapper = {
+  PickupCancelResponse: {
+    Response: {
+      ResponseStatus: { Code: "1", Description: "Success" },
+    },
+    PickupType: "01",
+  },
+};
@@ -6,6 +6,7 @@
 import type {
   UpsRateResponseWrapper,
   UpsErrorResponse,
+  UpsLandedCostResponse,
 } from "../../src/carriers/ups/types.js";
 
 export const VALID_RATE_RESPONSE: UpsRateResponseWrapper = {
@@ -138,6 +139,15 @@ export const VALID_SHOP_RESPONSE: UpsRateResponseWrapper = {
         TotalCharges: { CurrencyCode: "USD", MonetaryValue: "45.80" },
         GuaranteedDelivery: {
           BusinessDaysInTransit: "1",
+          DeliveryByTime: "10:30 A.M.",
+        },
+        TimeInTransit: {
+          ServiceSummary: {
+            EstimatedArrival: {
+              Arrival: { Date: "20240627", Time: "103000" },
+              BusinessDaysInTransit: "1",
+            },
+          },
         },
         RatedPackage: [
           {
@@ -169,6 +179,63 @@ export const VALID_SHOP_RESPONSE: UpsRateResponseWrapper = {
   },
 };
 
+export const VALID_MULTI_PACKAGE_RATE_RESPONSE: UpsRateResponseWrapper = {
+  RateResponse: {
+    Response: {
+      ResponseStatus: {
+        Code: "1",
+        Description: "Success",
+      },
+    },
+    RatedShipment: [
+      {
+        Service: { Code: "03", Description: "UPS Ground" },
+        BillingWeight: {
+          UnitOfMeasurement: { Code: "LBS", Description: "Pounds" },
+          Weight: "11.0",
+        },
+        TransportationCharges: { CurrencyCode: "USD", MonetaryValue: "27.45" },
+        ServiceOptionsCharges: { CurrencyCode: "USD", MonetaryValue: "0.00" },
+        TotalCharges: { CurrencyCode: "USD", MonetaryValue: "27.45" },
+        RatedPackage: [
+          {
+            TransportationCharges: {
+              CurrencyCode: "USD",
+              MonetaryValue: "10.15",
+            },
+            ServiceOptionsCharges: {
+              CurrencyCode: "USD",
+              MonetaryValue: "0.00",
+            },
+            TotalCharges: { CurrencyCode: "USD", MonetaryValue: "10.15" },
+            Weight: "3.0",
+            BillingWeight: {
+              UnitOfMeasurement: { Code: "LBS", Description: "Pounds" },
+              Weight: "3.0",
+            },
+          },
+          {
+            TransportationCharges: {
+              CurrencyCode: "USD",
+              MonetaryValue: "17.30",
+            },
+            ServiceOptionsCharges: {
+              CurrencyCode: "USD",
+              MonetaryValue: "0.00",
+            },
+            TotalCharges: { CurrencyCode: "USD", MonetaryValue: "17.30" },
+            Weight: "7.0",
+            BillingWeight: {
+              UnitOfMeasurement: { Code: "LBS", Description: "Pounds" },
+              Weight: "8.0",
+            },
+          },
+        ],
+      },
+    ],
+  },
+};
+
 export const VALID_NEGOTIATED_RATE_RESPONSE: UpsRateResponseWrapper = {
   RateResponse: {
     Response: {
@@ -200,6 +267,23 @@ export const VALID_NEGOTIATED_RATE_RESPONSE: UpsRateResponseWrapper = {
   },
 };
 
+export const VALID_LANDED_COST_RESPONSE: UpsLandedCostResponse = {
+  shipment: {
+    id: "b8f4c3de-0d9c-4a8e-9f57-2f3c6a1e7d10",
+    currencyCode: "USD",
+    importCountryCode: "DE",
+    totalDuties: 10.5,
+    totalVAT: 28.41,
+    totalCommodityLevelTaxesAndFees: 0,
+    totalShipmentLevelTaxesAndFees: 1.2,
+    totalBrokerageFees: 0,
+    totalDutyAndTax: 40.11,
+    grandTotal: 190.11,
+  },
+  alversion: 1,
+  transID: "b8f4c3de-0d9c-4a8e-9f57-2f3c6a1e7d10",
+};
+
 export const VALID_OAUTH_TOKEN_RESPONSE = {
   token_type: "Bearer",
   issued_at: "1719230400000",
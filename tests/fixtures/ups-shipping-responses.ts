@@ -0,0 +1,124 @@
+/**
+ * Realistic UPS Shipping and Void API response fixtures derived from UPS API
+ * documentation. Label images are truncated base64 placeholders.
+ */
+
+import type {
+  UpsErrorResponse,
+  UpsShipmentResponseWrapper,
+  UpsVoidShipmentResponseWrapper,
+} from "../../src/carriers/ups/types.js";
+
+export const VALID_SHIPMENT_RESPONSE: UpsShipmentResponseWrapper = {
+  ShipmentResponse: {
+    Response: {
+      ResponseStatus: { Code: "1", Description: "Success" },
+      Alert: [
+        {
+          Code: "120900",
+          Description:
+            "User Id and Shipper Number combination is not qualified to receive negotiated rates",
+        },
+      ],
+      TransactionReference: {
+        CustomerContext: "carrier-integration-service",
+      },
+    },
+    ShipmentResults: {
+      ShipmentCharges: {
+        TransportationCharges: { CurrencyCode: "USD", MonetaryValue: "27.45" },
+        ServiceOptionsCharges: { CurrencyCode: "USD", MonetaryValue: "0.00" },
+        TotalCharges: { CurrencyCode: "USD", MonetaryValue: "27.45" },
+      },
+      BillingWeight: {
+        UnitOfMeasurement: { Code: "LBS", Description: "Pounds" },
+        Weight: "11.0",
+      },
+      ShipmentIdentificationNumber: "1Z2220060290602143",
+      PackageResults: [
+        {
+          TrackingNumber: "1Z2220060290602143",
+          ShippingLabel: {
+            ImageFormat: { Code: "GIF", Description: "GIF" },
+            GraphicImage: "R0lGODlheAUgA/cAAAAAAAEBAQICAgMDAwQEBAUFBQYGBgcHBwgI",
+          },
+        },
+        {
+          TrackingNumber: "1Z2220060291994175",
+          ShippingLabel: {
+            ImageFormat: { Code: "GIF", Description: "GIF" },
+            GraphicImage: "R0lGODlheAUgA/cAAAAAAAEBAQICAgMDAwQEBAUFBQYGBgcHBwkJ",
+          },
+        },
+      ],
+    },
+  },
+};
+
+export const VALID_SINGLE_PACKAGE_SHIPMENT_RESPONSE: UpsShipmentResponseWrapper =
+  {
+    ShipmentResponse: {
+      Response: {
+        ResponseStatus: { Code: "1", Description: "Success" },
+      },
+      ShipmentResults: {
+        ShipmentCharges: {
+          TotalCharges: { CurrencyCode: "USD", MonetaryValue: "11.30" },
+        },
+        NegotiatedRateCharges: {
+          TotalCharge: { CurrencyCode: "USD", MonetaryValue: "9.50" },
+        },
+        ShipmentIdentificationNumber: "1Z12345E0205271688",
+        PackageResults: {
+          TrackingNumber: "1Z12345E0205271688",
+          ShippingLabel: {
+            ImageFormat: { Code: "ZPL", Description: "ZPL" },
+            GraphicImage: "XlhBXkNGMCwwLDBeUFcxMjAwXkxIMjAsMjBeRlMK",
+          },
+        },
+      },
+    },
+  };
+
+export const VALID_VOID_RESPONSE: UpsVoidShipmentResponseWrapper = {
+  VoidShipmentResponse: {
+    Response: {
+      ResponseStatus: { Code: "1", Description: "Success" },
+    },
+    SummaryResult: {
+      Status: { Code: "1", Description: "Voided" },
+    },
+  },
+};
+
+export const VALID_PARTIAL_VOID_RESPONSE: UpsVoidShipmentResponseWrapper = {
+  VoidShipmentResponse: {
+    Response: {
+      ResponseStatus: { Code: "1", Description: "Success" },
+    },
+    SummaryResult: {
+      Status: { Code: "1", Description: "Partially Voided" },
+    },
+    PackageLevelResult: [
+      {
+        TrackingNumber: "1Z2220060290602143",
+        Status: { Code: "1", Description: "Voided" },
+      },
+      {
+        TrackingNumber: "1Z2220060291994175",
+        Status: { Code: "0", Description: "Package has been picked up" },
+      },
+    ],
+  },
+};
+
+export const UPS_VOID_TOO_LATE_ERROR: UpsErrorResponse = {
+  response: {
+    errors: [
+      {
+        code: "190117",
+        message: "Void request failed: package has already been picked up.",
+      },
+    ],
+  },
+};
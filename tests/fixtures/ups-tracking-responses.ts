@@ -0,0 +1,157 @@
+/**
+ * Realistic UPS Track API response fixtures derived from UPS API
+ * documentation.
+ */
+
+import type { UpsTrackResponseWrapper } from "../../src/carriers/ups/types.js";
+
+export const IN_TRANSIT_TRACK_RESPONSE: UpsTrackResponseWrapper = {
+  trackResponse: {
+    shipment: [
+      {
+        inquiryNumber: "1Z2220060290602143",
+        package: [
+          {
+            trackingNumber: "1Z2220060290602143",
+            deliveryDate: [
+              { type: "SDD", date: "20240627" },
+              { type: "RDD", date: "20240628" },
+            ],
+            currentStatus: { code: "005", description: "In Transit" },
+            activity: [
+              {
+                location: {
+                  address: {
+                    city: "Hodgkins",
+                    stateProvince: "IL",
+                    postalCode: "",
+                    countryCode: "US",
+                  },
+                },
+                status: {
+                  type: "I",
+                  description: "Departed from Facility ",
+                  code: "DP",
+                },
+                date: "20240626",
+                time: "043000",
+                gmtOffset: "-05:00",
+              },
+              {
+                location: {
+                  address: {
+                    city: "Secaucus",
+                    stateProvince: "NJ",
+                    countryCode: "US",
+                  },
+                },
+                status: { type: "P", description: "Pickup Scan", code: "PU" },
+                date: "20240625",
+                time: "183000",
+                gmtOffset: "-04:00",
+              },
+              {
+                location: {
+                  address: { countryCode: "US" },
+                },
+                status: {
+                  type: "M",
+                  description:
+                    "Shipper created a label, UPS has not received the package yet.",
+                  code: "MP",
+                },
+                date: "20240625",
+                time: "091500",
+                gmtOffset: "-04:00",
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  },
+};
+
+export const DELIVERED_TRACK_RESPONSE: UpsTrackResponseWrapper = {
+  trackResponse: {
+    shipment: [
+      {
+        inquiryNumber: "1Z12345E0205271688",
+        package: [
+          {
+            trackingNumber: "1Z12345E0205271688",
+            deliveryDate: [
+              { type: "SDD", date: "20240627" },
+              { type: "DEL", date: "20240627" },
+            ],
+            currentStatus: { code: "011", description: "Delivered" },
+            activity: [
+              {
+                location: {
+                  address: {
+                    city: "Beverly Hills",
+                    stateProvince: "CA",
+                    postalCode: "90210",
+                    countryCode: "US",
+                  },
+                },
+                status: { type: "D", description: "DELIVERED", code: "KB" },
+                date: "20240627",
+                time: "103200",
+                gmtOffset: "-07:00",
+              },
+              {
+                location: {
+                  address: {
+                    city: "Los Angeles",
+                    stateProvince: "CA",
+                    countryCode: "US",
+                  },
+                },
+                status: {
+                  type: "O",
+                  description: "Out For Delivery Today",
+                  code: "OT",
+                },
+                date: "20240627",
+                time: "071500",
+                gmtOffset: "-07:00",
+              },
+              {
+                location: {
+                  address: {
+                    city: "Los Angeles",
+                    stateProvince: "CA",
+                    countryCode: "US",
+                  },
+                },
+                status: {
+                  type: "X",
+                  description:
+                    "The address was incomplete. Recipient contacted.",
+                  code: "UR",
+                },
+                date: "20240626",
+                time: "220000",
+                gmtOffset: "-07:00",
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  },
+};
+
+export const TRACKING_NOT_FOUND_RESPONSE: UpsTrackResponseWrapper = {
+  trackResponse: {
+    shipment: [
+      {
+        inquiryNumber: "1Z9999999999999999",
+        warnings: [
+          { code: "TW0001", message: "Tracking Information Not Found" },
+        ],
+      },
+    ],
+  },
+};
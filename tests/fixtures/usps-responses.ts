@@ -0,0 +1,126 @@
+/**
+ * Realistic USPS Prices API response fixtures derived from USPS API
+ * documentation. Used in integration tests to verify parsing and mapping.
+ */
+
+import type {
+  UspsErrorResponse,
+  UspsPriceResponse,
+} from "../../src/carriers/usps/types.js";
+
+export const USPS_GROUND_ADVANTAGE_PRICE: UspsPriceResponse = {
+  totalBasePrice: 9.35,
+  rates: [
+    {
+      SKU: "DUXP0XXXXC07050",
+      description: "USPS Ground Advantage Machinable Single-piece",
+      priceType: "RETAIL",
+      price: 9.35,
+      weight: 5,
+      dimWeight: 0,
+      fees: [],
+      startDate: "2024-07-14",
+      endDate: "",
+      mailClass: "USPS_GROUND_ADVANTAGE",
+      zone: "05",
+    },
+  ],
+};
+
+export const USPS_PRIORITY_MAIL_PRICE: UspsPriceResponse = {
+  totalBasePrice: 14.2,
+  rates: [
+    {
+      SKU: "DPXR0XXXXC05050",
+      description: "Priority Mail Machinable Single-piece",
+      priceType: "RETAIL",
+      price: 14.2,
+      weight: 5,
+      dimWeight: 0,
+      fees: [],
+      mailClass: "PRIORITY_MAIL",
+      zone: "05",
+    },
+  ],
+};
+
+export const USPS_PRIORITY_MAIL_EXPRESS_PRICE: UspsPriceResponse = {
+  totalBasePrice: 58.9,
+  rates: [
+    {
+      SKU: "DEXR0XXXXC05050",
+      description: "Priority Mail Express Single-piece",
+      priceType: "RETAIL",
+      price: 55.75,
+      weight: 5,
+      dimWeight: 0,
+      fees: [
+        {
+          name: "Sunday/Holiday Delivery",
+          SKU: "DXSX0XXXXR00000",
+          price: 3.15,
+        },
+      ],
+      mailClass: "PRIORITY_MAIL_EXPRESS",
+      zone: "05",
+    },
+  ],
+};
+
+export const USPS_FLAT_RATE_BOX_PRICE: UspsPriceResponse = {
+  totalBasePrice: 18.4,
+  rates: [
+    {
+      SKU: "DPXR0XXXXB00000",
+      description: "Priority Mail Medium Flat Rate Box",
+      priceType: "RETAIL",
+      price: 18.4,
+      weight: 0,
+      dimWeight: 0,
+      fees: [],
+      mailClass: "PRIORITY_MAIL",
+    },
+  ],
+};
+
+export const USPS_PRIORITY_MAIL_INTERNATIONAL_PRICE: UspsPriceResponse = {
+  totalBasePrice: 72.3,
+  rates: [
+    {
+      SKU: "IPXR0XXXXC08040",
+      description: "Priority Mail International Single-piece",
+      priceType: "RETAIL",
+      price: 72.3,
+      weight: 4.41,
+      dimWeight: 0,
+      fees: [],
+      mailClass: "PRIORITY_MAIL_INTERNATIONAL",
+      zone: "08",
+    },
+  ],
+};
+
+export const USPS_OAUTH_TOKEN_RESPONSE = {
+  access_token: "eyJraWQiOiJ1c3BzIiwiYWxnIjoiUlMyNTYifQ.usps-test-token",
+  token_type: "Bearer",
+  issued_at: 1719230400000,
+  expires_in: 28799,
+  status: "approved",
+  scope: "prices international-prices",
+};
+
+export const USPS_400_ERROR: UspsErrorResponse = {
+  apiVersion: "/prices/v3",
+  error: {
+    code: "400",
+    message: "OASValidation failed",
+    errors: [
+      {
+        status: "400",
+        code: "010102",
+        title: "Invalid weight",
+        detail: "Weight exceeds the maximum for the mail class.",
+      },
+    ],
+  },
+};
@@ -0,0 +1,291 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  CircuitBreaker,
+  type CircuitBreakerOptions,
+} from "../../src/carriers/circuit-breaker.js";
+import { CarrierRegistry } from "../../src/carriers/types.js";
+import { ShippingService } from "../../src/services/shipping-service.js";
+import { CarrierError, CarrierErrorCode } from "../../src/domain/errors.js";
+import type { RateResponse } from "../../src/domain/models.js";
+import { VALID_DOMESTIC_RATE_REQUEST } from "../fixtures/rate-requests.js";
+
+const OPTIONS: CircuitBreakerOptions = {
+  failureRateThreshold: 0.5,
+  minimumCalls: 4,
+  windowMs: 10_000,
+  cooldownMs: 5_000,
+};
+
+function outage(): CarrierError {
+  return new CarrierError(
+    CarrierErrorCode.CARRIER_API_ERROR,
+    "Service Unavailable",
+    { carrier: "UPS", httpStatus: 503, retryable: true },
+  );
+}
+
+const succeed = () => Promise.resolve("ok");
+const fail = () => Promise.reject(outage());
+
+/** Runs the calls in order, swallowing their failures. */
+async function run(
+  breaker: CircuitBreaker,
+  calls: Array<() => Promise<string>>,
+): Promise<void> {
+  for (const call of calls) {
+    await breaker.execute(call).catch(() => undefined);
+  }
+}
+
+describe("CircuitBreaker", () => {
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-06-15T12:00:00Z"));
+    breaker = new CircuitBreaker("UPS", OPTIONS);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should stay closed until enough calls have been seen", async () => {
+    await run(breaker, [fail, fail, fail]);
+
+    expect(breaker.status()).toEqual({
+      state: "CLOSED",
+      calls: 3,
+      failureRate: 1,
+    });
+  });
+
+  it("should open once the failure rate reaches the threshold", async () => {
+    await run(breaker, [succeed, fail, succeed, fail]);
+
+    expect(breaker.status()).toEqual({
+      state: "OPEN",
+      calls: 4,
+      failureRate: 0.5,
+      openedAt: "2025-06-15T12:00:00.000Z",
+      retryAt: "2025-06-15T12:00:05.000Z",
+    });
+  });
+
+  it("should fail fast with CIRCUIT_OPEN while open", async () => {
+    await run(breaker, [fail, fail, fail, fail]);
+    const call = vi.fn().mockResolvedValue("ok");
+
+    try {
+      await breaker.execute(call);
+      expect.fail("Should have thrown");
+    } catch (error: unknown) {
+      const err = error as CarrierError;
+      expect(err.code).toBe(CarrierErrorCode.CIRCUIT_OPEN);
+      expect(err.message).toBe(
+        'Carrier "UPS" is failing; calls resume in 5s',
+      );
+      expect(err.details.carrier).toBe("UPS");
+      expect(err.details.retryAfterMs).toBe(5_000);
+    }
+    expect(call).not.toHaveBeenCalled();
+  });
+
+  it("should not count rejected requests as failures", async () => {
+    const invalid = () =>
+      Promise.reject(
+        new CarrierError(CarrierErrorCode.VALIDATION_ERROR, "Bad request"),
+      );
+
+    await run(breaker, [invalid, invalid, invalid, invalid]);
+
+    expect(breaker.state).toBe("CLOSED");
+    expect(breaker.status().failureRate).toBe(0);
+  });
+
+  it("should not count calls their caller cancelled", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    for (let i = 0; i < 4; i++) {
+      await breaker.execute(fail, controller.signal).catch(() => undefined);
+    }
+
+    expect(breaker.status()).toMatchObject({ state: "CLOSED", calls: 0 });
+  });
+
+  it("should forget calls that fall out of the window", async () => {
+    await run(breaker, [fail, fail, fail]);
+    await vi.advanceTimersByTimeAsync(10_000);
+    await run(breaker, [fail]);
+
+    expect(breaker.status()).toMatchObject({ state: "CLOSED", calls: 1 });
+  });
+
+  it("should close after a successful trial call once cooled down", async () => {
+    await run(breaker, [fail, fail, fail, fail]);
+    await vi.advanceTimersByTimeAsync(5_000);
+    expect(breaker.state).toBe("HALF_OPEN");
+
+    await expect(breaker.execute(succeed)).resolves.toBe("ok");
+
+    expect(breaker.status()).toEqual({
+      state: "CLOSED",
+      calls: 0,
+      failureRate: 0,
+    });
+  });
+
+  it("should reopen when the trial call fails", async () => {
+    await run(breaker, [fail, fail, fail, fail]);
+    await vi.advanceTimersByTimeAsync(5_000);
+
+    await run(breaker, [fail]);
+
+    expect(breaker.status()).toMatchObject({
+      state: "OPEN",
+      retryAt: "2025-06-15T12:00:10.000Z",
+    });
+  });
+
+  it("should let only one trial call through at a time", async () => {
+    await run(breaker, [fail, fail, fail, fail]);
+    await vi.advanceTimersByTimeAsync(5_000);
+
+    let finish!: (value: string) => void;
+    const trial = breaker.execute(
+      () => new Promise<string>((resolve) => (finish = resolve)),
+    );
+
+    await expect(breaker.execute(succeed)).rejects.toMatchObject({
+      code: CarrierErrorCode.CIRCUIT_OPEN,
+    });
+
+    finish("ok");
+    await expect(trial).resolves.toBe("ok");
+    await expect(breaker.execute(succeed)).resolves.toBe("ok");
+  });
+});
+
+describe("ShippingService circuit breaking", () => {
+  let registry: CarrierRegistry;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-06-15T12:00:00Z"));
+    registry = new CarrierRegistry();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should skip carriers whose circuit is open when shopping", async () => {
+    const upsRating = vi
+      .fn<() => Promise<RateResponse>>()
+      .mockRejectedValue(outage());
+    registry.register({
+      name: "UPS",
+      operations: { rating: { execute: upsRating } },
+    });
+    registry.register({
+      name: "FEDEX",
+      operations: { rating: { execute: async () => ({ quotes: [] }) } },
+    });
+    const service = new ShippingService(registry, {
+      circuitBreaker: { ...OPTIONS, minimumCalls: 2 },
+    });
+
+    await service.shopRates(VALID_DOMESTIC_RATE_REQUEST);
+    await service.shopRates(VALID_DOMESTIC_RATE_REQUEST);
+    const result = await service.shopRates(VALID_DOMESTIC_RATE_REQUEST);
+
+    expect(upsRating).toHaveBeenCalledTimes(2);
+    expect(result.errors).toEqual([]);
+    expect(result.skipped).toEqual([
+      {
+        carrier: "UPS",
+        reason:
+          "UPS is failing; its circuit reopens at 2025-06-15T12:00:05.000Z",
+      },
+    ]);
+
+    await expect(
+      service.getRates("UPS", VALID_DOMESTIC_RATE_REQUEST),
+    ).rejects.toMatchObject({ code: CarrierErrorCode.CIRCUIT_OPEN });
+    expect(upsRating).toHaveBeenCalledTimes(2);
+  });
+
+  it("should skip a half-open carrier while its trial call is in flight", async () => {
+    let finishTrial!: (response: RateResponse) => void;
+    const upsRating = vi
+      .fn<() => Promise<RateResponse>>()
+      .mockRejectedValueOnce(outage())
+      .mockRejectedValueOnce(outage())
+      .mockImplementationOnce(
+        () => new Promise((resolve) => (finishTrial = resolve)),
+      );
+    registry.register({
+      name: "UPS",
+      operations: { rating: { execute: upsRating } },
+    });
+    const service = new ShippingService(registry, {
+      circuitBreaker: { ...OPTIONS, minimumCalls: 2 },
+    });
+
+    await service.shopRates(VALID_DOMESTIC_RATE_REQUEST);
+    await service.shopRates(VALID_DOMESTIC_RATE_REQUEST);
+    await vi.advanceTimersByTimeAsync(5_000);
+    const trial = service.getRates("UPS", VALID_DOMESTIC_RATE_REQUEST);
+    await vi.advanceTimersByTimeAsync(0);
+
+    const result = await service.shopRates(VALID_DOMESTIC_RATE_REQUEST);
+
+    expect(upsRating).toHaveBeenCalledTimes(3);
+    expect(result.errors).toEqual([]);
+    expect(result.skipped).toEqual([
+      {
+        carrier: "UPS",
+        reason: "UPS is failing; a trial call is already in flight",
+      },
+    ]);
+
+    finishTrial({ quotes: [] });
+    await expect(trial).resolves.toEqual([]);
+  });
+
+  it("should report each carrier's circuit for health checks", async () => {
+    registry.register({
+      name: "UPS",
+      operations: {
+        rating: { execute: () => Promise.reject(outage()) },
+      },
+    });
+    registry.register({
+      name: "FEDEX",
+      operations: { rating: { execute: async () => ({ quotes: [] }) } },
+    });
+    const service = new ShippingService(registry, {
+      circuitBreaker: { ...OPTIONS, minimumCalls: 1 },
+    });
+
+    await service.shopRates(VALID_DOMESTIC_RATE_REQUEST);
+
+    expect(service.carrierHealth()).toEqual([
+      {
+        carrier: "UPS",
+        circuit: {
+          state: "OPEN",
+          calls: 1,
+          failureRate: 1,
+          openedAt: "2025-06-15T12:00:00.000Z",
+          retryAt: "2025-06-15T12:00:05.000Z",
+        },
+      },
+      {
+        carrier: "FEDEX",
+        circuit: { state: "CLOSED", calls: 1, failureRate: 0 },
+      },
+    ]);
+  });
+});
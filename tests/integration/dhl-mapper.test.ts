@@ -0,0 +1,212 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildDhlRateRequest,
+  formatDhlShippingDate,
+  mapDhlProductToQuote,
+} from "../../src/carriers/dhl/mapper.js";
+import { CarrierErrorCode } from "../../src/domain/errors.js";
+import type { DhlProduct } from "../../src/carriers/dhl/types.js";
+import { DHL_VALID_RATE_RESPONSE } from "../fixtures/dhl-responses.js";
+import {
+  VALID_DOMESTIC_RATE_REQUEST,
+  VALID_INTERNATIONAL_REQUEST,
+} from "../fixtures/rate-requests.js";
+
+const SHIP_DATE = new Date("2024-06-25T13:00:00Z");
+
+describe("DHL Mapper", () => {
+  describe("buildDhlRateRequest", () => {
+    it("should map addresses, account and planned shipping date", () => {
+      const result = buildDhlRateRequest(
+        VALID_INTERNATIONAL_REQUEST,
+        "123456789",
+        SHIP_DATE,
+      );
+
+      expect(result.customerDetails.shipperDetails).toMatchObject({
+        postalCode: "30005",
+        cityName: "Alpharetta",
+        countryCode: "US",
+        provinceCode: "GA",
+        addressLine1: "100 Main Street",
+      });
+      expect(result.customerDetails.receiverDetails.countryCode).toBe("DE");
+      expect(result.accounts).toEqual([
+        { typeCode: "shipper", number: "123456789" },
+      ]);
+      expect(result.plannedShippingDateAndTime).toBe(
+        "2024-06-25T13:00:00GMT+00:00",
+      );
+      expect(result.isCustomsDeclarable).toBe(true);
+    });
+
+    it("should not declare customs for domestic shipments", () => {
+      const result = buildDhlRateRequest(
+        VALID_DOMESTIC_RATE_REQUEST,
+        "123456789",
+        SHIP_DATE,
+      );
+      expect(result.isCustomsDeclarable).toBe(false);
+      expect(result.monetaryAmount).toBeUndefined();
+      expect(result.items).toBeUndefined();
+    });
+
+    it("should treat Puerto Rico to the US as domestic", () => {
+      const result = buildDhlRateRequest(
+        {
+          ...VALID_INTERNATIONAL_REQUEST,
+          origin: {
+            ...VALID_INTERNATIONAL_REQUEST.origin,
+            countryCode: "PR",
+          },
+          destination: {
+            ...VALID_DOMESTIC_RATE_REQUEST.destination,
+          },
+        },
+        "123456789",
+        SHIP_DATE,
+      );
+
+      expect(result.isCustomsDeclarable).toBe(false);
+      expect(result.monetaryAmount).toBeUndefined();
+    });
+
+    it("should declare the customs value and commodity lines", () => {
+      const result = buildDhlRateRequest(
+        VALID_INTERNATIONAL_REQUEST,
+        "123456789",
+        SHIP_DATE,
+      );
+
+      expect(result.isCustomsDeclarable).toBe(true);
+      expect(result.monetaryAmount).toEqual([
+        { typeCode: "declaredValue", value: 150, currency: "USD" },
+      ]);
+      expect(result.items).toEqual([
+        {
+          number: 1,
+          description: "Cotton T-shirts",
+          commodityCode: "610910",
+          manufacturerCountry: "US",
+          quantity: 10,
+          quantityType: "pcs",
+          unitPrice: 12.5,
+          unitPriceCurrencyCode: "USD",
+        },
+        {
+          number: 2,
+          description: "Leather belts",
+          commodityCode: "420330",
+          manufacturerCountry: "IT",
+          quantity: 1,
+          quantityType: "pcs",
+          unitPrice: 25,
+          unitPriceCurrencyCode: "USD",
+        },
+      ]);
+    });
+
+    it("should normalize imperial packages to metric", () => {
+      const result = buildDhlRateRequest(
+        VALID_DOMESTIC_RATE_REQUEST,
+        "123456789",
+        SHIP_DATE,
+      );
+
+      expect(result.unitOfMeasurement).toBe("metric");
+      expect(result.packages[0]).toEqual({
+        weight: 2.268,
+        dimensions: { length: 25.4, width: 20.3, height: 15.2 },
+      });
+    });
+
+    it("should pass the product code through when a service is requested", () => {
+      const result = buildDhlRateRequest(
+        { ...VALID_INTERNATIONAL_REQUEST, serviceCode: "P" },
+        "123456789",
+        SHIP_DATE,
+      );
+      expect(result.productCode).toBe("P");
+    });
+  });
+
+  describe("formatDhlShippingDate", () => {
+    it("should render the DHL GMT offset format", () => {
+      expect(formatDhlShippingDate(new Date("2024-01-02T03:04:05.678Z"))).toBe(
+        "2024-01-02T03:04:05GMT+00:00",
+      );
+    });
+  });
+
+  describe("mapDhlProductToQuote", () => {
+    const worldwide = DHL_VALID_RATE_RESPONSE.products[0];
+
+    it("should map product code to a service name", () => {
+      const quote = mapDhlProductToQuote(worldwide);
+      expect(quote.carrier).toBe("DHL");
+      expect(quote.serviceCode).toBe("P");
+      expect(quote.serviceName).toBe("DHL Express Worldwide");
+    });
+
+    it("should split transport from surcharges using the billing currency", () => {
+      const quote = mapDhlProductToQuote(worldwide);
+      expect(quote.totalCharges).toEqual({ currency: "USD", amount: 148.62 });
+      expect(quote.transportationCharges).toEqual({
+        currency: "USD",
+        amount: 121.5,
+      });
+      expect(quote.serviceOptionsCharges).toEqual({
+        currency: "USD",
+        amount: 27.12,
+      });
+    });
+
+    it("should surface duty and tax estimates separately from the total", () => {
+      const quote = mapDhlProductToQuote(worldwide);
+      expect(quote.estimatedDuties).toEqual({ currency: "USD", amount: 12.4 });
+      expect(quote.estimatedTaxes).toEqual({ currency: "USD", amount: 31.2 });
+    });
+
+    it("should omit duty estimates when DHL returns none", () => {
+      const quote = mapDhlProductToQuote(DHL_VALID_RATE_RESPONSE.products[1]);
+      expect(quote.estimatedDuties).toBeUndefined();
+      expect(quote.estimatedTaxes).toBeUndefined();
+      expect(quote.transportationCharges.amount).toBe(171.05);
+    });
+
+    it("should bill the greater of provided and volumetric weight", () => {
+      const quote = mapDhlProductToQuote({
+        ...worldwide,
+        weight: { provided: 2, volumetric: 3.5, unitOfMeasurement: "metric" },
+      });
+      expect(quote.billingWeight).toEqual({ value: 3.5, unit: "KG" });
+      expect(quote.estimatedDeliveryDays).toBe(3);
+    });
+
+    it("should split the estimated delivery into date and time", () => {
+      const quote = mapDhlProductToQuote(DHL_VALID_RATE_RESPONSE.products[1]);
+      expect(quote.estimatedDeliveryDate).toBe("2024-06-27");
+      expect(quote.estimatedDeliveryTime).toBe("12:00");
+    });
+
+    it("should fall back to DHL's product name for unknown codes", () => {
+      const quote = mapDhlProductToQuote({
+        ...worldwide,
+        productCode: "Q",
+        productName: "MEDICAL EXPRESS",
+      });
+      expect(quote.serviceName).toBe("MEDICAL EXPRESS");
+    });
+
+    it("should throw PARSE_ERROR when no price is returned", () => {
+      const product: DhlProduct = { ...worldwide, totalPrice: [] };
+      try {
+        mapDhlProductToQuote(product);
+        expect.fail("Should have thrown");
+      } catch (error: unknown) {
+        const err = error as { code: string };
+        expect(err.code).toBe(CarrierErrorCode.PARSE_ERROR);
+      }
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import nock from "nock";
+import { DhlCarrierClient } from "../../src/carriers/dhl/client.js";
+import { DhlRatingOperation } from "../../src/carriers/dhl/rating.js";
+import type { CarrierAuthenticator } from "../../src/carriers/types.js";
+import { abortable } from "../../src/http/client.js";
+import { CarrierErrorCode } from "../../src/domain/errors.js";
+import type { DhlConfig } from "../../src/config/index.js";
+import type { RateRequest } from "../../src/domain/models.js";
+import {
+  DHL_VALID_RATE_RESPONSE,
+  DHL_400_ERROR,
+} from "../fixtures/dhl-responses.js";
+import {
+  VALID_INTERNATIONAL_REQUEST,
+  INVALID_REQUEST_BAD_COUNTRY,
+} from "../fixtures/rate-requests.js";
+
+const TEST_CONFIG: DhlConfig = {
+  apiKey: "dhl-api-key",
+  apiSecret: "dhl-api-secret",
+  accountNumber: "123456789",
+  baseUrl: "https://express.api.dhl.com/mydhlapi/test",
+};
+
+const BASIC_AUTH = `Basic ${Buffer.from("dhl-api-key:dhl-api-secret").toString("base64")}`;
+
+describe("DHL Express Carrier Client (end-to-end with stubbed HTTP)", () => {
+  let client: DhlCarrierClient;
+
+  beforeEach(() => {
+    client = new DhlCarrierClient(TEST_CONFIG);
+    nock.cleanAll();
+  });
+
+  afterEach(() => {
+    nock.cleanAll();
+    nock.enableNetConnect();
+  });
+
+  it("should authenticate with Basic credentials and send the account", async () => {
+    let capturedBody: Record<string, unknown> | undefined;
+
+    const scope = nock("https://express.api.dhl.com")
+      .post("/mydhlapi/test/rates", (body: Record<string, unknown>) => {
+        capturedBody = body;
+        return true;
+      })
+      .matchHeader("Authorization", BASIC_AUTH)
+      .reply(200, DHL_VALID_RATE_RESPONSE);
+
+    await client.getRates(VALID_INTERNATIONAL_REQUEST);
+
+    expect(scope.isDone()).toBe(true);
+    expect(capturedBody!["accounts"]).toEqual([
+      { typeCode: "shipper", number: "123456789" },
+    ]);
+    expect(capturedBody!["productCode"]).toBeUndefined();
+  });
+
+  it("should send the customs value DHL needs for duty estimates", async () => {
+    let capturedBody: Record<string, unknown> | undefined;
+
+    nock("https://express.api.dhl.com")
+      .post("/mydhlapi/test/rates", (body: Record<string, unknown>) => {
+        capturedBody = body;
+        return true;
+      })
+      .reply(200, DHL_VALID_RATE_RESPONSE);
+
+    await client.getRates(VALID_INTERNATIONAL_REQUEST);
+
+    expect(capturedBody!["isCustomsDeclarable"]).toBe(true);
+    expect(capturedBody!["monetaryAmount"]).toEqual([
+      { typeCode: "declaredValue", value: 150, currency: "USD" },
+    ]);
+    expect(capturedBody!["items"]).toHaveLength(2);
+  });
+
+  it("should return normalized quotes with duty and tax estimates", async () => {
+    nock("https://express.api.dhl.com")
+      .post("/mydhlapi/test/rates")
+      .reply(200, DHL_VALID_RATE_RESPONSE);
+
+    const result = await client.getRates(VALID_INTERNATIONAL_REQUEST);
+
+    expect(result.quotes.map((q) => q.serviceCode)).toEqual(["P", "Y"]);
+    const worldwide = result.quotes[0];
+    expect(worldwide.carrier).toBe("DHL");
+    expect(worldwide.totalCharges.amount).toBe(148.62);
+    expect(worldwide.estimatedDuties?.amount).toBe(12.4);
+    expect(worldwide.estimatedTaxes?.amount).toBe(31.2);
+  });
+
+  it("should copy response-level warnings onto every quote", async () => {
+    nock("https://express.api.dhl.com")
+      .post("/mydhlapi/test/rates")
+      .reply(200, {
+        ...DHL_VALID_RATE_RESPONSE,
+        warnings: ["Pickup not available on the planned shipping date"],
+      });
+
+    const result = await client.getRates(VALID_INTERNATIONAL_REQUEST);
+
+    for (const quote of result.quotes) {
+      expect(quote.warnings).toEqual([
+        "Pickup not available on the planned shipping date",
+      ]);
+    }
+  });
+
+  it("should surface DHL problem details on 400", async () => {
+    nock("https://express.api.dhl.com")
+      .post("/mydhlapi/test/rates")
+      .reply(400, DHL_400_ERROR);
+
+    try {
+      await client.getRates({
+        ...VALID_INTERNATIONAL_REQUEST,
+        serviceCode: "K",
+      });
+      expect.fail("Should have thrown");
+    } catch (error: unknown) {
+      const err = error as {
+        code: string;
+        message: string;
+        details: { upstreamCode: string; carrier: string; retryable: boolean };
+      };
+      expect(err.code).toBe(CarrierErrorCode.CARRIER_API_ERROR);
+      expect(err.details.upstreamCode).toBe("Product not found");
+      expect(err.details.carrier).toBe("DHL");
+      expect(err.details.retryable).toBe(false);
+      expect(err.message).toContain("Product not available");
+    }
+  });
+
+  it("should report rejected credentials as AUTHENTICATION_ERROR", async () => {
+    nock("https://express.api.dhl.com")
+      .post("/mydhlapi/test/rates")
+      .reply(401, {
+        title: "Unauthorized",
+        detail: "Invalid credentials",
+        status: "401",
+      });
+
+    try {
+      await client.getRates(VALID_INTERNATIONAL_REQUEST);
+      expect.fail("Should have thrown");
+    } catch (error: unknown) {
+      const err = error as { code: string; details: { carrier: string } };
+      expect(err.code).toBe(CarrierErrorCode.AUTHENTICATION_ERROR);
+      expect(err.details.carrier).toBe("DHL");
+    }
+  });
+
+  it("should throw PARSE_ERROR when products are missing", async () => {
+    nock("https://express.api.dhl.com")
+      .post("/mydhlapi/test/rates")
+      .reply(200, { exchangeRates: [] });
+
+    try {
+      await client.getRates(VALID_INTERNATIONAL_REQUEST);
+      expect.fail("Should have thrown");
+    } catch (error: unknown) {
+      const err = error as { code: string; message: string };
+      expect(err.code).toBe(CarrierErrorCode.PARSE_ERROR);
+      expect(err.message).toContain("products");
+    }
+  });
+
+  it("should reject invalid requests before calling DHL", async () => {
+    try {
+      await client.getRates(INVALID_REQUEST_BAD_COUNTRY as RateRequest);
+      expect.fail("Should have thrown");
+    } catch (error: unknown) {
+      const err = error as { code: string; details: { carrier: string } };
+      expect(err.code).toBe(CarrierErrorCode.VALIDATION_ERROR);
+      expect(err.details.carrier).toBe("DHL");
+    }
+  });
+
+  it("should stop waiting for credentials once the caller aborts", async () => {
+    const stalledAuth: CarrierAuthenticator = {
+      getAccessToken: (signal) =>
+        abortable(new Promise<string>(() => {}), signal),
+      invalidateToken: () => {},
+    };
+    const rating = new DhlRatingOperation(TEST_CONFIG, stalledAuth);
+    const controller = new AbortController();
+
+    const result = rating.execute(VALID_INTERNATIONAL_REQUEST, {
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    await expect(result).rejects.toMatchObject({
+      code: CarrierErrorCode.TIMEOUT_ERROR,
+    });
+  });
+});
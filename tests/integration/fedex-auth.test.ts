@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import nock from "nock";
+import { FedexAuthenticator } from "../../src/carriers/fedex/auth.js";
+import { CarrierErrorCode } from "../../src/domain/errors.js";
+import type { FedexConfig } from "../../src/config/index.js";
+import {
+  FEDEX_OAUTH_TOKEN_RESPONSE,
+  FEDEX_401_ERROR,
+} from "../fixtures/fedex-responses.js";
+
+const TEST_CONFIG: FedexConfig = {
+  clientId: "fedex-client-id",
+  clientSecret: "fedex-client-secret",
+  accountNumber: "740561073",
+  baseUrl: "https://apis-sandbox.fedex.com",
+  oauthUrl: "https://apis-sandbox.fedex.com/oauth/token",
+};
+
+describe("FedEx OAuth Authentication", () => {
+  let auth: FedexAuthenticator;
+
+  beforeEach(() => {
+    auth = new FedexAuthenticator(TEST_CONFIG);
+    nock.cleanAll();
+  });
+
+  afterEach(() => {
+    nock.cleanAll();
+    nock.enableNetConnect();
+  });
+
+  it("should send client credentials in the form body", async () => {
+    const scope = nock("https://apis-sandbox.fedex.com")
+      .post(
+        "/oauth/token",
+        "grant_type=client_credentials&client_id=fedex-client-id&client_secret=fedex-client-secret",
+      )
+      .matchHeader("Content-Type", "application/x-www-form-urlencoded")
+      .reply(200, FEDEX_OAUTH_TOKEN_RESPONSE);
+
+    const token = await auth.getAccessToken();
+
+    expect(token).toBe(FEDEX_OAUTH_TOKEN_RESPONSE.access_token);
+    expect(scope.isDone()).toBe(true);
+  });
+
+  it("should cache and reuse a valid token", async () => {
+    const scope = nock("https://apis-sandbox.fedex.com")
+      .post("/oauth/token")
+      .once()
+      .reply(200, FEDEX_OAUTH_TOKEN_RESPONSE);
+
+    const token1 = await auth.getAccessToken();
+    const token2 = await auth.getAccessToken();
+
+    expect(token1).toBe(token2);
+    expect(scope.isDone()).toBe(true);
+  });
+
+  it("should fetch a new token after invalidation", async () => {
+    nock("https://apis-sandbox.fedex.com")
+      .post("/oauth/token")
+      .reply(200, FEDEX_OAUTH_TOKEN_RESPONSE);
+    await auth.getAccessToken();
+
+    auth.invalidateToken();
+
+    nock("https://apis-sandbox.fedex.com")
+      .post("/oauth/token")
+      .reply(200, { ...FEDEX_OAUTH_TOKEN_RESPONSE, access_token: "fresh" });
+
+    expect(await auth.getAccessToken()).toBe("fresh");
+  });
+
+  it("should surface rejected credentials as AUTHENTICATION_ERROR", async () => {
+    nock("https://apis-sandbox.fedex.com")
+      .post("/oauth/token")
+      .reply(401, FEDEX_401_ERROR);
+
+    try {
+      await auth.getAccessToken();
+      expect.fail("Should have thrown");
+    } catch (error: unknown) {
+      const err = error as { code: string; details: { carrier: string } };
+      expect(err.code).toBe(CarrierErrorCode.AUTHENTICATION_ERROR);
+      expect(err.details.carrier).toBe("FEDEX");
+    }
+  });
+
+  it("should wrap network errors as AUTHENTICATION_ERROR", async () => {
+    nock("https://apis-sandbox.fedex.com")
+      .post("/oauth/token")
+      .replyWithError("ECONNREFUSED");
+
+    try {
+      await auth.getAccessToken();
+      expect.fail("Should have thrown");
+    } catch (error: unknown) {
+      const err = error as { code: string; message: string };
+      expect(err.code).toBe(CarrierErrorCode.AUTHENTICATION_ERROR);
+      expect(err.message).toContain("FedEx authentication failed");
+    }
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildFedexRateRequest,
+  mapFedexRateReplyToQuote,
+} from "../../src/carriers/fedex/mapper.js";
+import { CarrierErrorCode } from "../../src/domain/errors.js";
+import type { RateRequest } from "../../src/domain/models.js";
+import type { FedexRateReplyDetail } from "../../src/carriers/fedex/types.js";
+import { VALID_DOMESTIC_RATE_REQUEST } from "../fixtures/rate-requests.js";
+
+describe("FedEx Mapper", () => {
+  describe("buildFedexRateRequest", () => {
+    it("should map addresses including the residential flag", () => {
+      const request: RateRequest = {
+        ...VALID_DOMESTIC_RATE_REQUEST,
+        destination: {
+          ...VALID_DOMESTIC_RATE_REQUEST.destination,
+          residential: true,
+        },
+      };
+      const result = buildFedexRateRequest(request, "123456789");
+      const recipient = result.requestedShipment.recipient.address;
+
+      expect(recipient.streetLines).toEqual(["200 Elm Street"]);
+      expect(recipient.city).toBe("Alpharetta");
+      expect(recipient.stateOrProvinceCode).toBe("GA");
+      expect(recipient.residential).toBe(true);
+    });
+
+    it("should pass the service code through as serviceType", () => {
+      const result = buildFedexRateRequest(
+        { ...VALID_DOMESTIC_RATE_REQUEST, serviceCode: "FEDEX_2_DAY" },
+        "123456789",
+      );
+      expect(result.requestedShipment.serviceType).toBe("FEDEX_2_DAY");
+    });
+
+    it("should convert ounces to pounds", () => {
+      const result = buildFedexRateRequest(
+        {
+          ...VALID_DOMESTIC_RATE_REQUEST,
+          packages: [{ weight: { value: 8, unit: "OZ" } }],
+        },
+        "123456789",
+      );
+      const item = result.requestedShipment.requestedPackageLineItems[0];
+      expect(item.weight).toEqual({ units: "LB", value: 0.5 });
+      expect(item.dimensions).toBeUndefined();
+    });
+
+    it("should map dimensions with their unit", () => {
+      const result = buildFedexRateRequest(
+        VALID_DOMESTIC_RATE_REQUEST,
+        "123456789",
+      );
+      const item = result.requestedShipment.requestedPackageLineItems[0];
+      expect(item.dimensions).toEqual({
+        length: 10,
+        width: 8,
+        height: 6,
+        units: "IN",
+      });
+    });
+  });
+
+  describe("mapFedexRateReplyToQuote", () => {
+    const baseDetail: FedexRateReplyDetail = {
+      serviceType: "FEDEX_2_DAY",
+      ratedShipmentDetails: [
+        {
+          rateType: "LIST",
+          totalBaseCharge: 20,
+          totalNetCharge: 23.5,
+          currency: "USD",
+          shipmentRateDetail: {
+            totalSurcharges: 3.5,
+            totalBillingWeight: { units: "KG", value: 2 },
+          },
+        },
+      ],
+      operationalDetail: { transitTime: "TWO_DAYS" },
+    };
+
+    it("should fall back to the service table for the name", () => {
+      const quote = mapFedexRateReplyToQuote(baseDetail);
+      expect(quote.serviceName).toBe("FedEx 2Day");
+      expect(quote.billingWeight).toEqual({ value: 2, unit: "KG" });
+      expect(quote.estimatedDeliveryDays).toBe(2);
+    });
+
+    it("should prefer the LIST rate when several rate types are returned", () => {
+      const quote = mapFedexRateReplyToQuote({
+        ...baseDetail,
+        ratedShipmentDetails: [
+          {
+            ...baseDetail.ratedShipmentDetails[0],
+            rateType: "ACCOUNT",
+            totalNetCharge: 18,
+          },
+          baseDetail.ratedShipmentDetails[0],
+        ],
+      });
+      expect(quote.totalCharges.amount).toBe(23.5);
+    });
+
+    it("should throw PARSE_ERROR when no rated details are present", () => {
+      try {
+        mapFedexRateReplyToQuote({ ...baseDetail, ratedShipmentDetails: [] });
+        expect.fail("Should have thrown");
+      } catch (error: unknown) {
+        const err = error as { code: string };
+        expect(err.code).toBe(CarrierErrorCode.PARSE_ERROR);
+      }
+    });
+
+    it("should throw PARSE_ERROR on unknown billing weight unit", () => {
+      try {
+        mapFedexRateReplyToQuote({
+          ...baseDetail,
+          ratedShipmentDetails: [
+            {
+              ...baseDetail.ratedShipmentDetails[0],
+              shipmentRateDetail: {
+                totalBillingWeight: { units: "STONE", value: 1 },
+              },
+            },
+          ],
+        });
+        expect.fail("Should have thrown");
+      } catch (error: unknown) {
+        const err = error as { code: string; message: string };
+        expect(err.code).toBe(CarrierErrorCode.PARSE_ERROR);
+        expect(err.message).toContain("STONE");
+      }
+    });
+  });
+});
@@ -0,0 +1,253 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import nock from "nock";
+import { FedexRatingOperation } from "../../src/carriers/fedex/rating.js";
+import { FedexCarrierClient } from "../../src/carriers/fedex/client.js";
+import { CarrierErrorCode } from "../../src/domain/errors.js";
+import type { CarrierAuthenticator } from "../../src/carriers/types.js";
+import type { FedexConfig } from "../../src/config/index.js";
+import type { RateRequest } from "../../src/domain/models.js";
+import {
+  FEDEX_VALID_RATE_RESPONSE,
+  FEDEX_VALID_SHOP_RESPONSE,
+  FEDEX_OAUTH_TOKEN_RESPONSE,
+  FEDEX_400_ERROR,
+  FEDEX_401_ERROR,
+} from "../fixtures/fedex-responses.js";
+import {
+  VALID_DOMESTIC_RATE_REQUEST,
+  VALID_MULTI_PACKAGE_REQUEST,
+  INVALID_REQUEST_NO_PACKAGES,
+} from "../fixtures/rate-requests.js";
+
+const TEST_CONFIG: FedexConfig = {
+  clientId: "fedex-client-id",
+  clientSecret: "fedex-client-secret",
+  accountNumber: "740561073",
+  baseUrl: "https://apis-sandbox.fedex.com",
+  oauthUrl: "https://apis-sandbox.fedex.com/oauth/token",
+};
+
+function createMockAuth(token = "mock-fedex-token"): CarrierAuthenticator {
+  return {
+    getAccessToken: async () => token,
+    invalidateToken: () => {},
+  };
+}
+
+describe("FedEx Rating Operation", () => {
+  let rating: FedexRatingOperation;
+
+  beforeEach(() => {
+    rating = new FedexRatingOperation(TEST_CONFIG, createMockAuth());
+    nock.cleanAll();
+  });
+
+  afterEach(() => {
+    nock.cleanAll();
+    nock.enableNetConnect();
+  });
+
+  describe("Request payload construction", () => {
+    it("should send account number, addresses and bearer token", async () => {
+      let capturedBody: Record<string, unknown> | undefined;
+
+      const scope = nock("https://apis-sandbox.fedex.com")
+        .post("/rate/v1/rates/quotes", (body: Record<string, unknown>) => {
+          capturedBody = body;
+          return true;
+        })
+        .matchHeader("Authorization", "Bearer mock-fedex-token")
+        .reply(200, FEDEX_VALID_SHOP_RESPONSE);
+
+      await rating.execute(VALID_DOMESTIC_RATE_REQUEST);
+
+      expect(scope.isDone()).toBe(true);
+      expect(capturedBody!["accountNumber"]).toEqual({ value: "740561073" });
+
+      const shipment = capturedBody!["requestedShipment"] as Record<
+        string,
+        unknown
+      >;
+      expect(shipment["serviceType"]).toBeUndefined();
+      const shipper = shipment["shipper"] as {
+        address: Record<string, unknown>;
+      };
+      expect(shipper.address["city"]).toBe("Timonium");
+      expect(shipper.address["stateOrProvinceCode"]).toBe("MD");
+      const recipient = shipment["recipient"] as {
+        address: Record<string, unknown>;
+      };
+      expect(recipient.address["postalCode"]).toBe("30005");
+    });
+
+    it("should send one line item per package", async () => {
+      let capturedBody: Record<string, unknown> | undefined;
+
+      nock("https://apis-sandbox.fedex.com")
+        .post("/rate/v1/rates/quotes", (body: Record<string, unknown>) => {
+          capturedBody = body;
+          return true;
+        })
+        .reply(200, FEDEX_VALID_SHOP_RESPONSE);
+
+      await rating.execute(VALID_MULTI_PACKAGE_REQUEST);
+
+      const shipment = capturedBody!["requestedShipment"] as Record<
+        string,
+        unknown
+      >;
+      const items = shipment["requestedPackageLineItems"] as Array<{
+        weight: { units: string; value: number };
+      }>;
+      expect(items).toHaveLength(2);
+      expect(items[0].weight).toEqual({ units: "LB", value: 3 });
+      expect(items[1].weight).toEqual({ units: "LB", value: 7 });
+      expect(shipment["totalPackageCount"]).toBe(2);
+    });
+  });
+
+  describe("Response parsing and normalization", () => {
+    it("should parse a rate reply into a domain RateQuote", async () => {
+      nock("https://apis-sandbox.fedex.com")
+        .post("/rate/v1/rates/quotes")
+        .reply(200, FEDEX_VALID_RATE_RESPONSE);
+
+      const result = await rating.execute({
+        ...VALID_DOMESTIC_RATE_REQUEST,
+        serviceCode: "FEDEX_GROUND",
+      });
+
+      expect(result.quotes).toHaveLength(1);
+      const quote = result.quotes[0];
+      expect(quote.carrier).toBe("FEDEX");
+      expect(quote.serviceCode).toBe("FEDEX_GROUND");
+      expect(quote.serviceName).toBe("FedEx Ground");
+      expect(quote.totalCharges).toEqual({ currency: "USD", amount: 12.41 });
+      expect(quote.transportationCharges).toEqual({
+        currency: "USD",
+        amount: 10.85,
+      });
+      expect(quote.serviceOptionsCharges).toEqual({
+        currency: "USD",
+        amount: 1.56,
+      });
+      expect(quote.billingWeight).toEqual({ value: 5, unit: "LB" });
+      expect(quote.estimatedDeliveryDays).toBe(3);
+    });
+
+    it("should parse every service from a shop response", async () => {
+      nock("https://apis-sandbox.fedex.com")
+        .post("/rate/v1/rates/quotes")
+        .reply(200, FEDEX_VALID_SHOP_RESPONSE);
+
+      const result = await rating.execute(VALID_DOMESTIC_RATE_REQUEST);
+
+      expect(result.quotes.map((q) => q.serviceCode)).toEqual([
+        "FIRST_OVERNIGHT",
+        "FEDEX_2_DAY",
+        "FEDEX_GROUND",
+      ]);
+    });
+  });
+
+  describe("Error handling", () => {
+    it("should surface FedEx error codes on 400", async () => {
+      nock("https://apis-sandbox.fedex.com")
+        .post("/rate/v1/rates/quotes")
+        .reply(400, FEDEX_400_ERROR);
+
+      try {
+        await rating.execute(VALID_DOMESTIC_RATE_REQUEST);
+        expect.fail("Should have thrown");
+      } catch (error: unknown) {
+        const err = error as {
+          code: string;
+          details: { httpStatus: number; upstreamCode: string; carrier: string };
+        };
+        expect(err.code).toBe(CarrierErrorCode.CARRIER_API_ERROR);
+        expect(err.details.httpStatus).toBe(400);
+        expect(err.details.upstreamCode).toBe(
+          "SERVICE.PACKAGECOMBINATION.INVALID",
+        );
+        expect(err.details.carrier).toBe("FEDEX");
+      }
+    });
+
+    it("should invalidate the token on 401", async () => {
+      let tokenInvalidated = false;
+      rating = new FedexRatingOperation(TEST_CONFIG, {
+        getAccessToken: async () => "expired-token",
+        invalidateToken: () => {
+          tokenInvalidated = true;
+        },
+      });
+
+      nock("https://apis-sandbox.fedex.com")
+        .post("/rate/v1/rates/quotes")
+        .reply(401, FEDEX_401_ERROR);
+
+      try {
+        await rating.execute(VALID_DOMESTIC_RATE_REQUEST);
+        expect.fail("Should have thrown");
+      } catch (error: unknown) {
+        const err = error as { code: string };
+        expect(err.code).toBe(CarrierErrorCode.AUTHENTICATION_ERROR);
+        expect(tokenInvalidated).toBe(true);
+      }
+    });
+
+    it("should reject a response without rateReplyDetails", async () => {
+      nock("https://apis-sandbox.fedex.com")
+        .post("/rate/v1/rates/quotes")
+        .reply(200, { transactionId: "abc", output: {} });
+
+      try {
+        await rating.execute(VALID_DOMESTIC_RATE_REQUEST);
+        expect.fail("Should have thrown");
+      } catch (error: unknown) {
+        const err = error as { code: string; message: string };
+        expect(err.code).toBe(CarrierErrorCode.PARSE_ERROR);
+        expect(err.message).toContain("rateReplyDetails");
+      }
+    });
+  });
+});
+
+describe("FedEx Carrier Client (end-to-end with stubbed HTTP)", () => {
+  afterEach(() => {
+    nock.cleanAll();
+    nock.enableNetConnect();
+  });
+
+  it("should authenticate and return normalized rates", async () => {
+    nock("https://apis-sandbox.fedex.com")
+      .post("/oauth/token")
+      .reply(200, FEDEX_OAUTH_TOKEN_RESPONSE);
+    nock("https://apis-sandbox.fedex.com")
+      .post("/rate/v1/rates/quotes")
+      .matchHeader(
+        "Authorization",
+        `Bearer ${FEDEX_OAUTH_TOKEN_RESPONSE.access_token}`,
+      )
+      .reply(200, FEDEX_VALID_SHOP_RESPONSE);
+
+    const client = new FedexCarrierClient(TEST_CONFIG);
+    const result = await client.getRates(VALID_DOMESTIC_RATE_REQUEST);
+
+    expect(result.quotes).toHaveLength(3);
+    expect(result.quotes.every((q) => q.carrier === "FEDEX")).toBe(true);
+  });
+
+  it("should reject invalid requests before calling FedEx", async () => {
+    const client = new FedexCarrierClient(TEST_CONFIG);
+
+    try {
+      await client.getRates(INVALID_REQUEST_NO_PACKAGES as RateRequest);
+      expect.fail("Should have thrown");
+    } catch (error: unknown) {
+      const err = error as { code: string; details: { carrier: string } };
+      expect(err.code).toBe(CarrierErrorCode.VALIDATION_ERROR);
+      expect(err.details.carrier).toBe("FEDEX");
+    }
+  });
+});
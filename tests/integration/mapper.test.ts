@@ -4,8 +4,16 @@ import {
   mapUpsRatedShipmentToQuote,
 } from "../../src/carriers/ups/mapper.js";
 import { CarrierErrorCode } from "../../src/domain/errors.js";
-import type { RateRequest } from "../../src/domain/models.js";
-import type { UpsRatedShipment } from "../../src/carriers/ups/types.js";
+import {
+  SurchargeType,
+  type PackagingType,
+  type RateRequest,
+  type SignatureRequirement,
+} from "../../src/domain/models.js";
+import type {
+  UpsPackage,
+  UpsRatedShipment,
+} from "../../src/carriers/ups/types.js";
 
 describe("UPS Mapper", () => {
   describe("buildUpsRateRequest", () => {
@@ -151,6 +159,148 @@ describe("UPS Mapper", () => {
       );
     });
 
+    it("should request negotiated rates when account number is provided", () => {
+      const result = buildUpsRateRequest({
+        ...baseRequest,
+        shipperAccountNumber: "ABC123",
+      });
+      expect(result.RateRequest.Shipment.ShipmentRatingOptions).toEqual({
+        NegotiatedRatesIndicator: "",
+      });
+    });
+
+    it("should not request negotiated rates without an account number", () => {
+      const result = buildUpsRateRequest(baseRequest);
+      expect(result.RateRequest.Shipment.ShipmentRatingOptions).toBeUndefined();
+    });
+
+    it("should always request itemized charges", () => {
+      const result = buildUpsRateRequest(baseRequest);
+      expect(
+        result.RateRequest.Shipment.ItemizedChargesRequestedIndicator,
+      ).toBe("");
+    });
+
+    it("should send the ship date as the time-in-transit pickup date", () => {
+      const result = buildUpsRateRequest({
+        ...baseRequest,
+        shipDate: "2024-06-25",
+      });
+      expect(result.RateRequest.Shipment.DeliveryTimeInformation).toEqual({
+        PackageBillType: "03",
+        Pickup: { Date: "20240625" },
+      });
+    });
+
+    it("should omit the pickup date when no ship date is given", () => {
+      const result = buildUpsRateRequest(baseRequest);
+      expect(
+        result.RateRequest.Shipment.DeliveryTimeInformation?.Pickup,
+      ).toBeUndefined();
+    });
+
+    it("should default to customer supplied packaging", () => {
+      const result = buildUpsRateRequest(baseRequest);
+      const pkg = result.RateRequest.Shipment.Package as UpsPackage;
+      expect(pkg.PackagingType).toEqual({
+        Code: "02",
+        Description: "Customer Supplied Package",
+      });
+    });
+
+    it.each<[PackagingType, string]>([
+      ["CUSTOM", "02"],
+      ["ENVELOPE", "01"],
+      ["TUBE", "03"],
+      ["PAK", "04"],
+      ["EXPRESS_BOX", "21"],
+      ["BOX_25KG", "24"],
+      ["BOX_10KG", "25"],
+      ["PALLET", "30"],
+      ["SMALL_EXPRESS_BOX", "2a"],
+      ["MEDIUM_EXPRESS_BOX", "2b"],
+      ["LARGE_EXPRESS_BOX", "2c"],
+    ])("should map %s packaging to UPS code %s", (packagingType, code) => {
+      const result = buildUpsRateRequest({
+        ...baseRequest,
+        packages: [{ weight: { value: 1, unit: "LB" }, packagingType }],
+      });
+      const pkg = result.RateRequest.Shipment.Package as UpsPackage;
+      expect(pkg.PackagingType.Code).toBe(code);
+    });
+
+    it("should map signature levels to UPS delivery confirmation types", () => {
+      const withSignature = (signature: SignatureRequirement) => {
+        const result = buildUpsRateRequest({
+          ...baseRequest,
+          packages: [
+            { weight: { value: 1, unit: "LB" }, serviceOptions: { signature } },
+          ],
+        });
+        const pkg = result.RateRequest.Shipment.Package as UpsPackage;
+        return pkg.PackageServiceOptions?.DeliveryConfirmation?.DCISType;
+      };
+
+      expect(withSignature("SIGNATURE")).toBe("2");
+      expect(withSignature("ADULT_SIGNATURE")).toBe("3");
+    });
+
+    it("should map declared value, COD and additional handling", () => {
+      const result = buildUpsRateRequest({
+        ...baseRequest,
+        packages: [
+          {
+            weight: { value: 12, unit: "LB" },
+            serviceOptions: {
+              declaredValue: { currency: "USD", amount: 750 },
+              codAmount: { currency: "USD", amount: 125.5 },
+              additionalHandling: true,
+            },
+          },
+        ],
+      });
+      const pkg = result.RateRequest.Shipment.Package as UpsPackage;
+
+      expect(pkg.AdditionalHandlingIndicator).toBe("");
+      expect(pkg.PackageServiceOptions).toEqual({
+        DeclaredValue: {
+          Type: { Code: "01", Description: "EVS" },
+          CurrencyCode: "USD",
+          MonetaryValue: "750.00",
+        },
+        COD: {
+          CODFundsCode: "0",
+          CODAmount: { CurrencyCode: "USD", MonetaryValue: "125.50" },
+        },
+      });
+    });
+
+    it("should omit package service options when none are requested", () => {
+      const result = buildUpsRateRequest({
+        ...baseRequest,
+        packages: [
+          {
+            weight: { value: 1, unit: "LB" },
+            serviceOptions: { additionalHandling: false },
+          },
+        ],
+      });
+      const pkg = result.RateRequest.Shipment.Package as UpsPackage;
+
+      expect(pkg.PackageServiceOptions).toBeUndefined();
+      expect(pkg.AdditionalHandlingIndicator).toBeUndefined();
+    });
+
+    it("should request Saturday delivery at shipment level", () => {
+      const result = buildUpsRateRequest({
+        ...baseRequest,
+        serviceOptions: { saturdayDelivery: true },
+      });
+      expect(result.RateRequest.Shipment.ShipmentServiceOptions).toEqual({
+        SaturdayDeliveryIndicator: "",
+      });
+    });
+
     it("should send single package as object, not array", () => {
       const result = buildUpsRateRequest(baseRequest);
       expect(Array.isArray(result.RateRequest.Shipment.Package)).toBe(false);
@@ -205,6 +355,25 @@ describe("UPS Mapper", () => {
       });
     });
 
+    it("should map negotiated charges alongside the published total", () => {
+      const quote = mapUpsRatedShipmentToQuote({
+        ...baseRatedShipment,
+        NegotiatedRateCharges: {
+          TotalCharge: { CurrencyCode: "USD", MonetaryValue: "10.25" },
+        },
+      });
+      expect(quote.totalCharges).toEqual({ currency: "USD", amount: 13.8 });
+      expect(quote.negotiatedCharges).toEqual({
+        currency: "USD",
+        amount: 10.25,
+      });
+    });
+
+    it("should omit negotiated charges when UPS returns none", () => {
+      const quote = mapUpsRatedShipmentToQuote(baseRatedShipment);
+      expect(quote.negotiatedCharges).toBeUndefined();
+    });
+
     it("should map billing weight with correct domain unit", () => {
       const quote = mapUpsRatedShipmentToQuote(baseRatedShipment);
       expect(quote.billingWeight).toEqual({ value: 5, unit: "LB" });
@@ -223,6 +392,113 @@ describe("UPS Mapper", () => {
       expect(quote.billingWeight).toEqual({ value: 2.3, unit: "KG" });
     });
 
+    it("should accept a single RatedPackage object", () => {
+      const quote = mapUpsRatedShipmentToQuote({
+        ...baseRatedShipment,
+        RatedPackage: {
+          TotalCharges: { CurrencyCode: "USD", MonetaryValue: "13.80" },
+          Weight: "5.0",
+        },
+      });
+      expect(quote.packages).toEqual([
+        {
+          totalCharges: { currency: "USD", amount: 13.8 },
+          transportationCharges: undefined,
+          serviceOptionsCharges: undefined,
+          billingWeight: undefined,
+        },
+      ]);
+    });
+
+    it("should omit the package breakdown when UPS returns none", () => {
+      const quote = mapUpsRatedShipmentToQuote(baseRatedShipment);
+      expect(quote.packages).toBeUndefined();
+    });
+
+    it("should normalize itemized charges into surcharge types", () => {
+      const quote = mapUpsRatedShipmentToQuote({
+        ...baseRatedShipment,
+        ItemizedCharges: [
+          {
+            Code: "375",
+            Description: "FUEL SURCHARGE",
+            CurrencyCode: "USD",
+            MonetaryValue: "1.85",
+          },
+          { Code: "270", CurrencyCode: "USD", MonetaryValue: "0.65" },
+        ],
+      });
+
+      expect(quote.surcharges).toEqual([
+        {
+          type: SurchargeType.FUEL,
+          amount: { currency: "USD", amount: 1.85 },
+          description: "FUEL SURCHARGE",
+          carrierCode: "375",
+        },
+        {
+          type: SurchargeType.RESIDENTIAL,
+          amount: { currency: "USD", amount: 0.65 },
+          description: "UPS accessorial 270",
+          carrierCode: "270",
+        },
+      ]);
+    });
+
+    it("should drop zero-value charges and map unknown codes to OTHER", () => {
+      const quote = mapUpsRatedShipmentToQuote({
+        ...baseRatedShipment,
+        ItemizedCharges: [
+          { Code: "376", CurrencyCode: "USD", MonetaryValue: "0.00" },
+          {
+            Code: "999",
+            Description: "PEAK SURCHARGE",
+            CurrencyCode: "USD",
+            MonetaryValue: "2.00",
+          },
+        ],
+      });
+
+      expect(quote.surcharges).toHaveLength(1);
+      expect(quote.surcharges![0].type).toBe(SurchargeType.OTHER);
+      expect(quote.surcharges![0].carrierCode).toBe("999");
+    });
+
+    it("should include package-level surcharges in the quote total list", () => {
+      const quote = mapUpsRatedShipmentToQuote({
+        ...baseRatedShipment,
+        ItemizedCharges: [
+          { Code: "375", CurrencyCode: "USD", MonetaryValue: "1.85" },
+        ],
+        RatedPackage: [
+          {
+            TotalCharges: { CurrencyCode: "USD", MonetaryValue: "13.80" },
+            ItemizedCharges: [
+              {
+                Code: "100",
+                Description: "ADDITIONAL HANDLING",
+                CurrencyCode: "USD",
+                MonetaryValue: "2.50",
+              },
+            ],
+          },
+        ],
+      });
+
+      expect(quote.packages![0].surcharges!.map((s) => s.type)).toEqual([
+        SurchargeType.ADDITIONAL_HANDLING,
+      ]);
+      expect(quote.surcharges!.map((s) => s.type)).toEqual([
+        SurchargeType.FUEL,
+        SurchargeType.ADDITIONAL_HANDLING,
+      ]);
+    });
+
+    it("should omit surcharges when none are itemized", () => {
+      const quote = mapUpsRatedShipmentToQuote(baseRatedShipment);
+      expect(quote.surcharges).toBeUndefined();
+    });
+
     it("should set carrier to UPS", () => {
       const quote = mapUpsRatedShipmentToQuote(baseRatedShipment);
       expect(quote.carrier).toBe("UPS");
@@ -259,6 +535,22 @@ describe("UPS Mapper", () => {
       expect(quote.estimatedDeliveryDays).toBe(3);
     });
 
+    it("should normalize DeliveryByTime to 24-hour time", () => {
+      const deliveryBy = (value: string) =>
+        mapUpsRatedShipmentToQuote({
+          ...baseRatedShipment,
+          GuaranteedDelivery: {
+            BusinessDaysInTransit: "1",
+            DeliveryByTime: value,
+          },
+        }).guaranteedDeliveryTime;
+
+      expect(deliveryBy("8:00 A.M.")).toBe("08:00");
+      expect(deliveryBy("12:00 Noon")).toBe("12:00");
+      expect(deliveryBy("3:00 P.M.")).toBe("15:00");
+      expect(deliveryBy("End of Day")).toBeUndefined();
+    });
+
     it("should set guaranteedDelivery false when not present", () => {
       const quote = mapUpsRatedShipmentToQuote(baseRatedShipment);
       expect(quote.guaranteedDelivery).toBe(false);
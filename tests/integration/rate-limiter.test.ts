@@ -0,0 +1,220 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { RequestLimiter, accountLimiter } from "../../src/http/limiter.js";
+import { CarrierError, CarrierErrorCode } from "../../src/domain/errors.js";
+
+/** A task that stays in flight until the returned `finish` is called. */
+function pendingTask() {
+  let finish!: () => void;
+  const done = new Promise<string>((resolve) => {
+    finish = () => resolve("done");
+  });
+  return { task: () => done, finish };
+}
+
+describe("RequestLimiter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should let a burst through and then pace requests", async () => {
+    const limiter = new RequestLimiter("UPS", {
+      requestsPerSecond: 2,
+      burst: 2,
+    });
+    const task = vi.fn().mockResolvedValue("ok");
+
+    const results = [1, 2, 3, 4].map(() => limiter.schedule(task));
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(task).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(499);
+    expect(task).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(task).toHaveBeenCalledTimes(3);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(task).toHaveBeenCalledTimes(4);
+
+    await expect(Promise.all(results)).resolves.toEqual([
+      "ok",
+      "ok",
+      "ok",
+      "ok",
+    ]);
+  });
+
+  it("should send at a rate below one request a second", async () => {
+    const limiter = new RequestLimiter("UPS", { requestsPerSecond: 0.5 });
+    const task = vi.fn().mockResolvedValue("ok");
+
+    const results = [1, 2].map(() => limiter.schedule(task));
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(task).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1_999);
+    expect(task).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(task).toHaveBeenCalledTimes(2);
+
+    await expect(Promise.all(results)).resolves.toEqual(["ok", "ok"]);
+  });
+
+  it("should reject options that are not valid numbers", () => {
+    for (const options of [
+      { requestsPerSecond: 0 },
+      { requestsPerSecond: NaN },
+      { requestsPerSecond: 5, maxInFlight: -1 },
+      { requestsPerSecond: 5, burst: NaN },
+      { requestsPerSecond: 5, maxQueued: -1 },
+      { requestsPerSecond: 5, maxWaitMs: NaN },
+    ]) {
+      try {
+        new RequestLimiter("UPS", options);
+        expect.fail("Should have thrown");
+      } catch (error: unknown) {
+        const err = error as CarrierError;
+        expect(err.code).toBe(CarrierErrorCode.CONFIGURATION_ERROR);
+        expect(err.details.carrier).toBe("UPS");
+      }
+    }
+
+    // Zero waiting requests or zero wait is a valid way to never queue
+    expect(
+      new RequestLimiter("UPS", {
+        requestsPerSecond: 5,
+        maxQueued: 0,
+        maxWaitMs: 0,
+      }),
+    ).toBeInstanceOf(RequestLimiter);
+  });
+
+  it("should cap the requests in flight", async () => {
+    const limiter = new RequestLimiter("UPS", {
+      requestsPerSecond: 100,
+      maxInFlight: 1,
+    });
+    const first = pendingTask();
+    const second = vi.fn().mockResolvedValue("second");
+
+    const firstResult = limiter.schedule(first.task);
+    const secondResult = limiter.schedule(second);
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(second).not.toHaveBeenCalled();
+
+    first.finish();
+    await expect(firstResult).resolves.toBe("done");
+    await expect(secondResult).resolves.toBe("second");
+  });
+
+  it("should reject requests once the queue is full", async () => {
+    const limiter = new RequestLimiter("UPS", {
+      requestsPerSecond: 1,
+      maxQueued: 1,
+    });
+    const task = vi.fn().mockResolvedValue("ok");
+
+    const sent = limiter.schedule(task);
+    const queued = limiter.schedule(task);
+
+    try {
+      await limiter.schedule(task);
+      expect.fail("Should have thrown");
+    } catch (error: unknown) {
+      const err = error as CarrierError;
+      expect(err.code).toBe(CarrierErrorCode.RATE_LIMIT_ERROR);
+      expect(err.message).toBe("UPS request queue is full (max 1 waiting)");
+      expect(err.details.carrier).toBe("UPS");
+    }
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    await expect(Promise.all([sent, queued])).resolves.toEqual(["ok", "ok"]);
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it("should give up on a request that waits past maxWaitMs", async () => {
+    const limiter = new RequestLimiter("FEDEX", {
+      requestsPerSecond: 1,
+      maxWaitMs: 300,
+    });
+    const task = vi.fn().mockResolvedValue("ok");
+
+    await limiter.schedule(task);
+    const queued = limiter.schedule(task).catch((error) => error);
+
+    await vi.advanceTimersByTimeAsync(300);
+    const err = (await queued) as CarrierError;
+    expect(err.code).toBe(CarrierErrorCode.TIMEOUT_ERROR);
+    expect(err.details.carrier).toBe("FEDEX");
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it("should drop a queued request when its caller aborts", async () => {
+    const limiter = new RequestLimiter("UPS", { requestsPerSecond: 1 });
+    const task = vi.fn().mockResolvedValue("ok");
+    const controller = new AbortController();
+
+    await limiter.schedule(task);
+    const aborted = limiter
+      .schedule(task, controller.signal)
+      .catch((error) => error);
+    const next = limiter.schedule(task);
+
+    controller.abort();
+    const err = (await aborted) as CarrierError;
+    expect(err.code).toBe(CarrierErrorCode.TIMEOUT_ERROR);
+
+    // The aborted request gave its place up to the one behind it
+    await vi.advanceTimersByTimeAsync(1_000);
+    await expect(next).resolves.toBe("ok");
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("accountLimiter", () => {
+  it("should share one limiter per carrier account", () => {
+    const options = { requestsPerSecond: 5 };
+
+    const first = accountLimiter("UPS", "shared-account", options);
+    expect(first).toBeInstanceOf(RequestLimiter);
+    expect(accountLimiter("UPS", "shared-account", options)).toBe(first);
+    expect(accountLimiter("UPS", "other-account", options)).not.toBe(first);
+    expect(accountLimiter("FEDEX", "shared-account", options)).not.toBe(
+      first,
+    );
+  });
+
+  it("should refuse a second budget for the same account", () => {
+    const first = accountLimiter("USPS", "budgeted-account", {
+      requestsPerSecond: 5,
+    });
+    expect(
+      accountLimiter("USPS", "budgeted-account", { requestsPerSecond: 5 }),
+    ).toBe(first);
+
+    try {
+      accountLimiter("USPS", "budgeted-account", {
+        requestsPerSecond: 5,
+        burst: 20,
+      });
+      expect.fail("Should have thrown");
+    } catch (error: unknown) {
+      const err = error as CarrierError;
+      expect(err.code).toBe(CarrierErrorCode.CONFIGURATION_ERROR);
+      expect(err.message).toBe(
+        "USPS account budgeted-account is already rate limited with different options",
+      );
+    }
+  });
+
+  it("should leave accounts without a budget unlimited", () => {
+    expect(accountLimiter("UPS", "unlimited-account", undefined)).toBe(
+      undefined,
+    );
+  });
+});
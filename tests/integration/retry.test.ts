@@ -0,0 +1,280 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  RetryingOperation,
+  type RetryPolicy,
+} from "../../src/carriers/retrying-operation.js";
+import { CarrierRegistry } from "../../src/carriers/types.js";
+import { ShippingService } from "../../src/services/shipping-service.js";
+import { CarrierError, CarrierErrorCode } from "../../src/domain/errors.js";
+import type { RateResponse } from "../../src/domain/models.js";
+import { VALID_DOMESTIC_RATE_REQUEST } from "../fixtures/rate-requests.js";
+
+const POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 100,
+  maxDelayMs: 1_000,
+  jitter: 0,
+};
+
+function rateLimited(retryAfterMs: number): CarrierError {
+  return new CarrierError(
+    CarrierErrorCode.RATE_LIMIT_ERROR,
+    "Rate limit exceeded",
+    { carrier: "UPS", retryable: true, retryAfterMs },
+  );
+}
+
+function timeout(): CarrierError {
+  return new CarrierError(
+    CarrierErrorCode.TIMEOUT_ERROR,
+    "Request timed out",
+    { carrier: "UPS", retryable: true },
+  );
+}
+
+describe("RetryingOperation", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("should retry retryable failures with exponential backoff", async () => {
+    const execute = vi
+      .fn()
+      .mockRejectedValueOnce(timeout())
+      .mockRejectedValueOnce(timeout())
+      .mockResolvedValueOnce("ok");
+    const operation = new RetryingOperation({ execute }, POLICY);
+
+    const result = operation.execute("request");
+
+    await vi.advanceTimersByTimeAsync(99);
+    expect(execute).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(execute).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(199);
+    expect(execute).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(execute).toHaveBeenCalledTimes(3);
+
+    await expect(result).resolves.toBe("ok");
+    expect(execute).toHaveBeenCalledWith("request", undefined);
+  });
+
+  it("should record the attempts on the error once they run out", async () => {
+    const execute = vi.fn().mockRejectedValue(timeout());
+    const operation = new RetryingOperation({ execute }, POLICY);
+
+    const result = operation.execute("request").catch((error) => error);
+    await vi.runAllTimersAsync();
+
+    const err = (await result) as CarrierError;
+    expect(err.code).toBe(CarrierErrorCode.TIMEOUT_ERROR);
+    expect(err.details.attempts).toBe(3);
+    expect(execute).toHaveBeenCalledTimes(3);
+  });
+
+  it("should not retry errors that are not retryable", async () => {
+    const execute = vi.fn().mockRejectedValue(
+      new CarrierError(CarrierErrorCode.VALIDATION_ERROR, "Bad request", {
+        retryable: false,
+      }),
+    );
+    const operation = new RetryingOperation({ execute }, POLICY);
+
+    try {
+      await operation.execute("request");
+      expect.fail("Should have thrown");
+    } catch (error: unknown) {
+      const err = error as CarrierError;
+      expect(err.code).toBe(CarrierErrorCode.VALIDATION_ERROR);
+      expect(err.details.attempts).toBe(1);
+    }
+    expect(execute).toHaveBeenCalledTimes(1);
+  });
+
+  it("should apply per-error-code overrides", async () => {
+    const execute = vi
+      .fn()
+      .mockRejectedValueOnce(
+        new CarrierError(CarrierErrorCode.RATE_LIMIT_ERROR, "Slow down", {
+          retryable: true,
+        }),
+      )
+      .mockResolvedValueOnce("ok");
+    const operation = new RetryingOperation(
+      { execute },
+      {
+        ...POLICY,
+        overrides: {
+          [CarrierErrorCode.RATE_LIMIT_ERROR]: { baseDelayMs: 500 },
+        },
+      },
+    );
+
+    const result = operation.execute("request");
+
+    await vi.advanceTimersByTimeAsync(499);
+    expect(execute).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toBe("ok");
+  });
+
+  it("should wait as long as Retry-After asks", async () => {
+    const execute = vi
+      .fn()
+      .mockRejectedValueOnce(rateLimited(800))
+      .mockResolvedValueOnce("ok");
+    const operation = new RetryingOperation({ execute }, POLICY);
+
+    const result = operation.execute("request");
+
+    await vi.advanceTimersByTimeAsync(799);
+    expect(execute).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toBe("ok");
+  });
+
+  it("should give up when Retry-After is longer than the policy allows", async () => {
+    const execute = vi.fn().mockRejectedValue(rateLimited(60_000));
+    const operation = new RetryingOperation(
+      { execute },
+      { ...POLICY, maxRetryAfterMs: 30_000 },
+    );
+
+    try {
+      await operation.execute("request");
+      expect.fail("Should have thrown");
+    } catch (error: unknown) {
+      const err = error as CarrierError;
+      expect(err.code).toBe(CarrierErrorCode.RATE_LIMIT_ERROR);
+      expect(err.details.attempts).toBe(1);
+    }
+    expect(execute).toHaveBeenCalledTimes(1);
+  });
+
+  it("should stop retrying once the caller's signal aborts", async () => {
+    const controller = new AbortController();
+    const execute = vi.fn().mockRejectedValue(timeout());
+    const operation = new RetryingOperation({ execute }, POLICY);
+
+    const result = operation
+      .execute("request", { signal: controller.signal })
+      .catch((error) => error);
+    await vi.advanceTimersByTimeAsync(50);
+    controller.abort();
+
+    const err = (await result) as CarrierError;
+    expect(err.code).toBe(CarrierErrorCode.TIMEOUT_ERROR);
+    expect(err.details.attempts).toBe(2);
+    expect(execute).toHaveBeenCalledTimes(2);
+  });
+
+  it("should cap delays and shorten them by the jitter", async () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+    const execute = vi
+      .fn()
+      .mockRejectedValueOnce(timeout())
+      .mockResolvedValueOnce("ok");
+    const operation = new RetryingOperation(
+      { execute },
+      { ...POLICY, baseDelayMs: 4_000, jitter: 0.5 },
+    );
+
+    const result = operation.execute("request");
+
+    // min(1000, 4000) × (1 − 0.5 × 0.5)
+    await vi.advanceTimersByTimeAsync(749);
+    expect(execute).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toBe("ok");
+  });
+});
+
+describe("ShippingService retries", () => {
+  let registry: CarrierRegistry;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    registry = new CarrierRegistry();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should retry rating under the configured policy", async () => {
+    const rating = vi
+      .fn<() => Promise<RateResponse>>()
+      .mockRejectedValueOnce(timeout())
+      .mockResolvedValueOnce({ quotes: [] });
+    registry.register({
+      name: "UPS",
+      operations: { rating: { execute: rating } },
+    });
+    const service = new ShippingService(registry, { retry: POLICY });
+
+    const result = service.getRates("UPS", VALID_DOMESTIC_RATE_REQUEST);
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toEqual([]);
+    expect(rating).toHaveBeenCalledTimes(2);
+  });
+
+  it("should hold off a rate-limited carrier until Retry-After passes", async () => {
+    const rating = vi
+      .fn<() => Promise<RateResponse>>()
+      .mockRejectedValueOnce(rateLimited(10_000))
+      .mockResolvedValue({ quotes: [] });
+    registry.register({
+      name: "UPS",
+      operations: { rating: { execute: rating } },
+    });
+    const service = new ShippingService(registry);
+
+    await expect(
+      service.getRates("UPS", VALID_DOMESTIC_RATE_REQUEST),
+    ).rejects.toThrow("Rate limit exceeded");
+
+    await vi.advanceTimersByTimeAsync(4_000);
+    const held = await service.shopRates(VALID_DOMESTIC_RATE_REQUEST);
+    expect(held.errors[0].error.code).toBe(CarrierErrorCode.RATE_LIMIT_ERROR);
+    expect(held.errors[0].error.details.retryAfterMs).toBe(6_000);
+    expect(rating).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(6_000);
+    await expect(
+      service.getRates("UPS", VALID_DOMESTIC_RATE_REQUEST),
+    ).resolves.toEqual([]);
+    expect(rating).toHaveBeenCalledTimes(2);
+  });
+
+  it("should never retry label purchase", async () => {
+    const shipping = vi.fn().mockRejectedValue(timeout());
+    registry.register({
+      name: "UPS",
+      operations: {
+        rating: { execute: async () => ({ quotes: [] }) },
+        shipping: { execute: shipping },
+      },
+    });
+    const service = new ShippingService(registry, { retry: POLICY });
+
+    try {
+      await service.execute("UPS", "shipping", {
+        ...VALID_DOMESTIC_RATE_REQUEST,
+        serviceCode: "03",
+      });
+      expect.fail("Should have thrown");
+    } catch (error: unknown) {
+      const err = error as CarrierError;
+      expect(err.code).toBe(CarrierErrorCode.TIMEOUT_ERROR);
+      expect(err.details.attempts).toBeUndefined();
+    }
+    expect(shipping).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import {
+  addBusinessDays,
+  isValidShipDate,
+  resolveShipDate,
+} from "../../src/domain/ship-date.js";
+
+// Local-time constructors keep these independent of the machine's time zone
+const TUESDAY_MORNING = new Date(2024, 5, 25, 9, 0);
+const TUESDAY_EVENING = new Date(2024, 5, 25, 18, 30);
+const FRIDAY_EVENING = new Date(2024, 5, 28, 17, 0);
+const SATURDAY_MORNING = new Date(2024, 5, 29, 9, 0);
+
+describe("Ship date resolution", () => {
+  describe("resolveShipDate", () => {
+    it("should keep an explicit ship date", () => {
+      expect(
+        resolveShipDate("2024-07-01", { now: TUESDAY_EVENING }),
+      ).toBe("2024-07-01");
+    });
+
+    it("should ship today before the cutoff", () => {
+      expect(resolveShipDate(undefined, { now: TUESDAY_MORNING })).toBe(
+        "2024-06-25",
+      );
+    });
+
+    it("should roll to the next business day after the cutoff", () => {
+      expect(resolveShipDate(undefined, { now: TUESDAY_EVENING })).toBe(
+        "2024-06-26",
+      );
+    });
+
+    it("should roll over the weekend from a Friday after the cutoff", () => {
+      expect(resolveShipDate(undefined, { now: FRIDAY_EVENING })).toBe(
+        "2024-07-01",
+      );
+    });
+
+    it("should never default to a weekend", () => {
+      expect(resolveShipDate(undefined, { now: SATURDAY_MORNING })).toBe(
+        "2024-07-01",
+      );
+    });
+
+    it("should honour a custom cutoff hour", () => {
+      expect(
+        resolveShipDate(undefined, { now: TUESDAY_EVENING, cutoffHour: 20 }),
+      ).toBe("2024-06-25");
+    });
+  });
+
+  describe("addBusinessDays", () => {
+    it("should skip weekends", () => {
+      expect(addBusinessDays("2024-06-27", 2)).toBe("2024-07-01");
+    });
+
+    it("should return the same date for zero days", () => {
+      expect(addBusinessDays("2024-06-25", 0)).toBe("2024-06-25");
+    });
+  });
+
+  describe("isValidShipDate", () => {
+    it("should reject dates that do not exist", () => {
+      expect(isValidShipDate("2024-02-30")).toBe(false);
+      expect(isValidShipDate("2024-02-29")).toBe(true);
+    });
+  });
+});
@@ -1,20 +1,42 @@
-import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import nock from "nock";
-import { ShippingService } from "../../src/services/shipping-service.js";
+import {
+  ShippingService,
+  payableCharges,
+} from "../../src/services/shipping-service.js";
 import { CarrierRegistry } from "../../src/carriers/types.js";
 import { UpsCarrierClient } from "../../src/carriers/ups/client.js";
+import { UPS_CAPABILITIES } from "../../src/carriers/ups/mapper.js";
+import { FEDEX_CAPABILITIES } from "../../src/carriers/fedex/mapper.js";
+import { USPS_CAPABILITIES } from "../../src/carriers/usps/mapper.js";
+import { DHL_CAPABILITIES } from "../../src/carriers/dhl/mapper.js";
+import { capabilityMismatch } from "../../src/carriers/capabilities.js";
 import { CarrierErrorCode, CarrierError } from "../../src/domain/errors.js";
 import type { UpsConfig } from "../../src/config/index.js";
 import type {
   CarrierClient,
   CarrierAuthenticator,
+  CarrierOperations,
 } from "../../src/carriers/types.js";
-import type { RateRequest, RateResponse } from "../../src/domain/models.js";
+import type {
+  LocationSearchRequest,
+  RateRequest,
+  RateResponse,
+  ShipmentRequest,
+  TrackingRequest,
+  VoidShipmentRequest,
+} from "../../src/domain/models.js";
+import { TrackingStatus } from "../../src/domain/models.js";
 import {
   VALID_OAUTH_TOKEN_RESPONSE,
   VALID_SHOP_RESPONSE,
 } from "../fixtures/ups-responses.js";
-import { VALID_DOMESTIC_RATE_REQUEST } from "../fixtures/rate-requests.js";
+import {
+  VALID_DANGEROUS_GOODS_REQUEST,
+  VALID_DOMESTIC_RATE_REQUEST,
+  VALID_HOLD_AT_LOCATION_REQUEST,
+  VALID_INTERNATIONAL_REQUEST,
+} from "../fixtures/rate-requests.js";
 
 const TEST_CONFIG: UpsConfig = {
   clientId: "test-client-id",
@@ -45,7 +67,7 @@ describe("ShippingService", () => {
         .reply(200, VALID_OAUTH_TOKEN_RESPONSE);
 
       nock("https://onlinetools.ups.com")
-        .post("/api/rating/v2409/Shop")
+        .post("/api/rating/v2409/Shoptimeintransit")
         .reply(200, VALID_SHOP_RESPONSE);
 
       registry.register(new UpsCarrierClient(TEST_CONFIG));
@@ -60,6 +82,83 @@ describe("ShippingService", () => {
       expect(quotes.every((q) => q.carrier === "UPS")).toBe(true);
     });
 
+    it("should pass a cutoff-aware ship date to the carrier", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date(2024, 5, 25, 18, 30));
+
+      const received: RateRequest[] = [];
+      const recordingCarrier: CarrierClient = {
+        name: "FEDEX",
+        operations: {
+          rating: {
+            execute: async (request): Promise<RateResponse> => {
+              received.push(request);
+              return { quotes: [] };
+            },
+          },
+        },
+      };
+      registry.register(recordingCarrier);
+
+      try {
+        await new ShippingService(registry).getRates(
+          "FEDEX",
+          VALID_DOMESTIC_RATE_REQUEST,
+        );
+        await new ShippingService(registry, { shipCutoffHour: 20 }).getRates(
+          "FEDEX",
+          VALID_DOMESTIC_RATE_REQUEST,
+        );
+        await service.getRates("FEDEX", {
+          ...VALID_DOMESTIC_RATE_REQUEST,
+          shipDate: "2099-01-02",
+        });
+      } finally {
+        vi.useRealTimers();
+      }
+
+      expect(received.map((r) => r.shipDate)).toEqual([
+        "2024-06-26",
+        "2024-06-25",
+        "2099-01-02",
+      ]);
+    });
+
+    it("should reject options the carrier would not price", async () => {
+      const uspsRating = vi.fn();
+      registry.register({
+        name: "USPS",
+        capabilities: USPS_CAPABILITIES,
+        operations: { rating: { execute: uspsRating } },
+      });
+      service = new ShippingService(registry);
+
+      try {
+        await service.getRates("USPS", {
+          ...VALID_DOMESTIC_RATE_REQUEST,
+          packages: [
+            {
+              ...VALID_DOMESTIC_RATE_REQUEST.packages[0],
+              serviceOptions: { signature: "ADULT_SIGNATURE" },
+            },
+          ],
+        });
+        expect.fail("Should have thrown");
+      } catch (error: unknown) {
+        const err = error as {
+          code: string;
+          message: string;
+          details: { carrier?: string; retryable: boolean };
+        };
+        expect(err.code).toBe(CarrierErrorCode.VALIDATION_ERROR);
+        expect(err.message).toBe(
+          "USPS does not price package service options",
+        );
+        expect(err.details).toEqual({ carrier: "USPS", retryable: false });
+      }
+      expect(uspsRating).not.toHaveBeenCalled();
+    });
+
     it("should throw if carrier is not registered", async () => {
       try {
         await service.getRates("FEDEX", VALID_DOMESTIC_RATE_REQUEST);
@@ -77,17 +176,21 @@ describe("ShippingService", () => {
       // Mock a second carrier
       const mockFedexClient: CarrierClient = {
         name: "FEDEX",
-        getRates: async (): Promise<RateResponse> => ({
-          quotes: [
-            {
-              carrier: "FEDEX",
-              serviceCode: "GROUND",
-              serviceName: "FedEx Ground",
-              totalCharges: { currency: "USD", amount: 10.5 },
-              transportationCharges: { currency: "USD", amount: 10.5 },
-            },
-          ],
-        }),
+        operations: {
+          rating: {
+            execute: async (): Promise<RateResponse> => ({
+              quotes: [
+                {
+                  carrier: "FEDEX",
+                  serviceCode: "GROUND",
+                  serviceName: "FedEx Ground",
+                  totalCharges: { currency: "USD", amount: 10.5 },
+                  transportationCharges: { currency: "USD", amount: 10.5 },
+                },
+              ],
+            }),
+          },
+        },
       };
 
       nock("https://onlinetools.ups.com")
@@ -95,7 +198,7 @@ describe("ShippingService", () => {
         .reply(200, VALID_OAUTH_TOKEN_RESPONSE);
 
       nock("https://onlinetools.ups.com")
-        .post("/api/rating/v2409/Shop")
+        .post("/api/rating/v2409/Shoptimeintransit")
         .reply(200, VALID_SHOP_RESPONSE);
 
       registry.register(new UpsCarrierClient(TEST_CONFIG));
@@ -115,17 +218,21 @@ describe("ShippingService", () => {
     it("should sort quotes by total charges ascending", async () => {
       const mockCarrier: CarrierClient = {
         name: "FEDEX",
-        getRates: async (): Promise<RateResponse> => ({
-          quotes: [
-            {
-              carrier: "FEDEX",
-              serviceCode: "PRIORITY",
-              serviceName: "FedEx Priority",
-              totalCharges: { currency: "USD", amount: 5.0 },
-              transportationCharges: { currency: "USD", amount: 5.0 },
-            },
-          ],
-        }),
+        operations: {
+          rating: {
+            execute: async (): Promise<RateResponse> => ({
+              quotes: [
+                {
+                  carrier: "FEDEX",
+                  serviceCode: "PRIORITY",
+                  serviceName: "FedEx Priority",
+                  totalCharges: { currency: "USD", amount: 5.0 },
+                  transportationCharges: { currency: "USD", amount: 5.0 },
+                },
+              ],
+            }),
+          },
+        },
       };
 
       nock("https://onlinetools.ups.com")
@@ -133,7 +240,7 @@ describe("ShippingService", () => {
         .reply(200, VALID_OAUTH_TOKEN_RESPONSE);
 
       nock("https://onlinetools.ups.com")
-        .post("/api/rating/v2409/Shop")
+        .post("/api/rating/v2409/Shoptimeintransit")
         .reply(200, VALID_SHOP_RESPONSE);
 
       registry.register(new UpsCarrierClient(TEST_CONFIG));
@@ -149,15 +256,96 @@ describe("ShippingService", () => {
       }
     });
 
+    it("should sort by negotiated charges when a carrier returns them", async () => {
+      const mockCarrier: CarrierClient = {
+        name: "FEDEX",
+        operations: {
+          rating: {
+            execute: async (): Promise<RateResponse> => ({
+              quotes: [
+                {
+                  carrier: "FEDEX",
+                  serviceCode: "FEDEX_GROUND",
+                  serviceName: "FedEx Ground",
+                  totalCharges: { currency: "USD", amount: 10.0 },
+                  transportationCharges: { currency: "USD", amount: 10.0 },
+                },
+                {
+                  carrier: "FEDEX",
+                  serviceCode: "FEDEX_2_DAY",
+                  serviceName: "FedEx 2Day",
+                  totalCharges: { currency: "USD", amount: 14.0 },
+                  transportationCharges: { currency: "USD", amount: 14.0 },
+                  negotiatedCharges: { currency: "USD", amount: 8.0 },
+                },
+              ],
+            }),
+          },
+        },
+      };
+
+      registry.register(mockCarrier);
+      service = new ShippingService(registry);
+
+      const result = await service.shopRates(VALID_DOMESTIC_RATE_REQUEST);
+
+      expect(result.quotes.map((q) => q.serviceCode)).toEqual([
+        "FEDEX_2_DAY",
+        "FEDEX_GROUND",
+      ]);
+      expect(payableCharges(result.quotes[0]).amount).toBe(8.0);
+    });
+
+    it("should not rank amounts in different currencies together", async () => {
+      const quote = (carrier: string, currency: string, amount: number) => ({
+        carrier,
+        serviceCode: `${carrier}-${amount}`,
+        serviceName: `${carrier} ${amount}`,
+        totalCharges: { currency, amount },
+        transportationCharges: { currency, amount },
+      });
+      registry.register({
+        name: "FEDEX",
+        operations: {
+          rating: {
+            execute: async () => ({
+              quotes: [quote("FEDEX", "USD", 20), quote("FEDEX", "USD", 10)],
+            }),
+          },
+        },
+      });
+      registry.register({
+        name: "DHL",
+        operations: {
+          rating: {
+            execute: async () => ({ quotes: [quote("DHL", "EUR", 5)] }),
+          },
+        },
+      });
+      service = new ShippingService(registry);
+
+      const result = await service.shopRates(VALID_DOMESTIC_RATE_REQUEST);
+
+      expect(result.quotes.map((q) => q.serviceCode)).toEqual([
+        "FEDEX-10",
+        "FEDEX-20",
+        "DHL-5",
+      ]);
+    });
+
     it("should collect errors from failing carriers without blocking others", async () => {
       const failingCarrier: CarrierClient = {
         name: "FEDEX",
-        getRates: async (): Promise<RateResponse> => {
-          throw new CarrierError(
-            CarrierErrorCode.CARRIER_API_ERROR,
-            "FedEx service unavailable",
-            { carrier: "FEDEX", retryable: true },
-          );
+        operations: {
+          rating: {
+            execute: async (): Promise<RateResponse> => {
+              throw new CarrierError(
+                CarrierErrorCode.CARRIER_API_ERROR,
+                "FedEx service unavailable",
+                { carrier: "FEDEX", retryable: true },
+              );
+            },
+          },
         },
       };
 
@@ -166,7 +354,7 @@ describe("ShippingService", () => {
         .reply(200, VALID_OAUTH_TOKEN_RESPONSE);
 
       nock("https://onlinetools.ups.com")
-        .post("/api/rating/v2409/Shop")
+        .post("/api/rating/v2409/Shoptimeintransit")
         .reply(200, VALID_SHOP_RESPONSE);
 
       registry.register(new UpsCarrierClient(TEST_CONFIG));
@@ -187,6 +375,147 @@ describe("ShippingService", () => {
       );
     });
 
+    it("should skip carriers that cannot serve the lane", async () => {
+      const uspsRating = vi.fn();
+      registry.register({
+        name: "USPS",
+        capabilities: USPS_CAPABILITIES,
+        operations: { rating: { execute: uspsRating } },
+      });
+      registry.register({
+        name: "FEDEX",
+        operations: {
+          rating: {
+            execute: async (): Promise<RateResponse> => ({
+              quotes: [
+                {
+                  carrier: "FEDEX",
+                  serviceCode: "INTERNATIONAL_ECONOMY",
+                  serviceName: "FedEx International Economy",
+                  totalCharges: { currency: "CAD", amount: 42.0 },
+                  transportationCharges: { currency: "CAD", amount: 42.0 },
+                },
+              ],
+            }),
+          },
+        },
+      });
+      service = new ShippingService(registry);
+
+      const result = await service.shopRates({
+        ...VALID_DOMESTIC_RATE_REQUEST,
+        origin: {
+          ...VALID_DOMESTIC_RATE_REQUEST.origin,
+          stateProvinceCode: "ON",
+          postalCode: "M5V 2T6",
+          countryCode: "CA",
+        },
+        customs: VALID_INTERNATIONAL_REQUEST.customs,
+      });
+
+      expect(uspsRating).not.toHaveBeenCalled();
+      expect(result.quotes).toHaveLength(1);
+      expect(result.errors).toHaveLength(0);
+      expect(result.skipped).toEqual([
+        { carrier: "USPS", reason: "USPS does not ship from CA" },
+      ]);
+    });
+
+    it("should skip carriers that cannot hold packages at a location", async () => {
+      const dhlRating = vi.fn();
+      registry.register({
+        name: "DHL",
+        capabilities: DHL_CAPABILITIES,
+        operations: { rating: { execute: dhlRating } },
+      });
+      service = new ShippingService(registry);
+
+      const result = await service.shopRates({
+        ...VALID_HOLD_AT_LOCATION_REQUEST,
+        holdAtLocation: {
+          ...VALID_HOLD_AT_LOCATION_REQUEST.holdAtLocation!,
+          carrier: "DHL",
+        },
+      });
+
+      expect(dhlRating).not.toHaveBeenCalled();
+      expect(result.skipped).toEqual([
+        { carrier: "DHL", reason: "DHL does not hold packages at a location" },
+      ]);
+    });
+
+    it("should only ask the carrier that runs the hold location", async () => {
+      const upsRating = vi.fn(async (): Promise<RateResponse> => ({
+        quotes: [],
+      }));
+      const fedexRating = vi.fn();
+      registry.register({
+        name: "UPS",
+        capabilities: UPS_CAPABILITIES,
+        operations: { rating: { execute: upsRating } },
+      });
+      registry.register({
+        name: "FEDEX",
+        operations: { rating: { execute: fedexRating } },
+      });
+      service = new ShippingService(registry);
+
+      const result = await service.shopRates(VALID_HOLD_AT_LOCATION_REQUEST);
+
+      expect(upsRating).toHaveBeenCalledTimes(1);
+      expect(fedexRating).not.toHaveBeenCalled();
+      expect(result.skipped).toEqual([
+        { carrier: "FEDEX", reason: "FEDEX cannot deliver to a UPS location" },
+      ]);
+    });
+
+    it("should return no quotes when every carrier is ruled out", async () => {
+      const upsRating = vi.fn();
+      registry.register({
+        name: "UPS",
+        capabilities: UPS_CAPABILITIES,
+        operations: { rating: { execute: upsRating } },
+      });
+      service = new ShippingService(registry);
+
+      const result = await service.shopRates({
+        ...VALID_DOMESTIC_RATE_REQUEST,
+        packages: [{ weight: { value: 80, unit: "KG" } }],
+      });
+
+      expect(upsRating).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        quotes: [],
+        errors: [],
+        skipped: [
+          { carrier: "UPS", reason: "UPS accepts packages up to 150 LB" },
+        ],
+      });
+    });
+
+    it("should reject an invalid request up front", async () => {
+      const upsRating = vi.fn();
+      registry.register({
+        name: "UPS",
+        capabilities: UPS_CAPABILITIES,
+        operations: { rating: { execute: upsRating } },
+      });
+      service = new ShippingService(registry);
+
+      try {
+        await service.shopRates({
+          ...VALID_DOMESTIC_RATE_REQUEST,
+          origin: undefined,
+        } as unknown as RateRequest);
+        expect.fail("Should have thrown");
+      } catch (error: unknown) {
+        const err = error as CarrierError;
+        expect(err.code).toBe(CarrierErrorCode.VALIDATION_ERROR);
+        expect(err.message).toMatch(/^Invalid rate request: origin: /);
+      }
+      expect(upsRating).not.toHaveBeenCalled();
+    });
+
     it("should throw if no carriers are registered", async () => {
       try {
         await service.shopRates(VALID_DOMESTIC_RATE_REQUEST);
@@ -197,4 +526,483 @@ describe("ShippingService", () => {
       }
     });
   });
+
+  describe("voidShipment", () => {
+    it("should delegate to the carrier's void operation", async () => {
+      const received: VoidShipmentRequest[] = [];
+      registry.register({
+        name: "FEDEX",
+        operations: {
+          rating: { execute: async () => ({ quotes: [] }) },
+          void: {
+            execute: async (request) => {
+              received.push(request);
+              return {
+                trackingOrShipmentId: request.trackingOrShipmentId,
+                voided: true,
+              };
+            },
+          },
+        },
+      });
+
+      const result = await service.voidShipment("FEDEX", "794698570000", [
+        "794698570001",
+      ]);
+
+      expect(result.voided).toBe(true);
+      expect(received).toEqual([
+        {
+          trackingOrShipmentId: "794698570000",
+          trackingNumbers: ["794698570001"],
+        },
+      ]);
+    });
+
+    it("should reject carriers without a void operation", async () => {
+      registry.register({
+        name: "USPS",
+        operations: {
+          rating: { execute: async () => ({ quotes: [] }) },
+        },
+      });
+
+      try {
+        await service.voidShipment("USPS", "9400100000000000000000");
+        expect.fail("Should have thrown");
+      } catch (error: unknown) {
+        const err = error as { code: string; message: string };
+        expect(err.code).toBe(CarrierErrorCode.UNSUPPORTED_OPERATION);
+        expect(err.message).toContain("does not support voiding");
+      }
+    });
+  });
+
+  describe("trackShipment", () => {
+    it("should delegate to the carrier's tracking operation", async () => {
+      const received: TrackingRequest[] = [];
+      registry.register({
+        name: "DHL",
+        operations: {
+          rating: { execute: async () => ({ quotes: [] }) },
+          tracking: {
+            execute: async (request) => {
+              received.push(request);
+              return {
+                carrier: "DHL",
+                trackingNumber: request.trackingNumber,
+                status: TrackingStatus.IN_TRANSIT,
+                events: [],
+              };
+            },
+          },
+        },
+      });
+
+      const result = await service.trackShipment("DHL", "1234567890");
+
+      expect(result.status).toBe(TrackingStatus.IN_TRANSIT);
+      expect(received).toEqual([{ trackingNumber: "1234567890" }]);
+    });
+
+    it("should reject carriers without a tracking operation", async () => {
+      registry.register({
+        name: "USPS",
+        operations: {
+          rating: { execute: async () => ({ quotes: [] }) },
+        },
+      });
+
+      try {
+        await service.trackShipment("USPS", "9400100000000000000000");
+        expect.fail("Should have thrown");
+      } catch (error: unknown) {
+        const err = error as { code: string };
+        expect(err.code).toBe(CarrierErrorCode.UNSUPPORTED_OPERATION);
+      }
+    });
+  });
+
+  describe("pickups", () => {
+    it("should reject carriers without pickup support", async () => {
+      registry.register({
+        name: "USPS",
+        operations: {
+          rating: { execute: async () => ({ quotes: [] }) },
+        },
+      });
+
+      try {
+        await service.cancelPickup("USPS", "WTC123456789");
+        expect.fail("Should have thrown");
+      } catch (error: unknown) {
+        const err = error as { code: string; message: string };
+        expect(err.code).toBe(CarrierErrorCode.UNSUPPORTED_OPERATION);
+        expect(err.message).toContain("does not support pickups");
+      }
+    });
+  });
+
+  describe("searchLocations", () => {
+    it("should delegate to the carrier's location search", async () => {
+      const received: LocationSearchRequest[] = [];
+      registry.register({
+        name: "DHL",
+        operations: {
+          rating: { execute: async () => ({ quotes: [] }) },
+          locationSearch: {
+            execute: async (request) => {
+              received.push(request);
+              return [];
+            },
+          },
+        },
+      });
+
+      const search: LocationSearchRequest = {
+        address: VALID_DOMESTIC_RATE_REQUEST.destination,
+        locationTypes: ["ACCESS_POINT"],
+      };
+      const locations = await service.searchLocations("DHL", search);
+
+      expect(locations).toEqual([]);
+      expect(received).toEqual([search]);
+    });
+
+    it("should reject carriers without location search", async () => {
+      registry.register({
+        name: "USPS",
+        operations: {
+          rating: { execute: async () => ({ quotes: [] }) },
+        },
+      });
+
+      try {
+        await service.searchLocations("USPS", {
+          address: VALID_DOMESTIC_RATE_REQUEST.destination,
+        });
+        expect.fail("Should have thrown");
+      } catch (error: unknown) {
+        const err = error as { code: string; message: string };
+        expect(err.code).toBe(CarrierErrorCode.UNSUPPORTED_OPERATION);
+        expect(err.message).toContain("does not support location search");
+      }
+    });
+  });
+
+  describe("execute (by operation name)", () => {
+    it("should dispatch to the named operation", async () => {
+      const received: ShipmentRequest[] = [];
+      registry.register({
+        name: "DHL",
+        operations: {
+          rating: { execute: async () => ({ quotes: [] }) },
+          shipping: {
+            execute: async (request) => {
+              received.push(request);
+              return {
+                carrier: "DHL",
+                shipmentId: "1234567890",
+                packages: [],
+                totalCharges: { currency: "USD", amount: 42.1 },
+              };
+            },
+          },
+        },
+      });
+
+      const shipment: ShipmentRequest = {
+        ...VALID_DOMESTIC_RATE_REQUEST,
+        serviceCode: "N",
+      };
+      const result = await service.execute("DHL", "shipping", shipment);
+
+      expect(result.shipmentId).toBe("1234567890");
+      expect(received).toEqual([shipment]);
+    });
+
+    it("should raise UNSUPPORTED_OPERATION for undeclared operations", async () => {
+      registry.register({
+        name: "USPS",
+        operations: { rating: { execute: async () => ({ quotes: [] }) } },
+      });
+
+      try {
+        await service.execute("USPS", "shipping", {
+          ...VALID_DOMESTIC_RATE_REQUEST,
+          serviceCode: "PRIORITY_MAIL",
+        });
+        expect.fail("Should have thrown");
+      } catch (error: unknown) {
+        const err = error as {
+          code: string;
+          message: string;
+          details: { carrier?: string; retryable: boolean };
+        };
+        expect(err.code).toBe(CarrierErrorCode.UNSUPPORTED_OPERATION);
+        expect(err.message).toBe(
+          'Carrier "USPS" does not support label purchase',
+        );
+        expect(err.details).toEqual({ carrier: "USPS", retryable: false });
+      }
+    });
+  });
+
+  describe("capability discovery", () => {
+    it("should describe a carrier's operations and capabilities", () => {
+      registry.register(new UpsCarrierClient(TEST_CONFIG));
+
+      const description = registry.describe("UPS")!;
+
+      expect(description.carrier).toBe("UPS");
+      expect(description.operations).toEqual(
+        expect.arrayContaining(["rating", "shipping", "locationSearch"]),
+      );
+      expect(description.capabilities?.services).toContainEqual({
+        code: "03",
+        name: "UPS Ground",
+      });
+      expect(description.capabilities?.packagingTypes).toContain("ENVELOPE");
+      expect(registry.describe("FEDEX")).toBeUndefined();
+    });
+
+    it("should flag packages over the length-plus-girth limit in any unit", () => {
+      // 120 + 2 × (80 + 80) cm ≈ 173 in, over UPS's 165 in
+      const request: RateRequest = {
+        ...VALID_DOMESTIC_RATE_REQUEST,
+        packages: [
+          {
+            weight: { value: 20, unit: "KG" },
+            dimensions: { length: 120, width: 80, height: 80, unit: "CM" },
+          },
+        ],
+      };
+
+      expect(capabilityMismatch(UPS_CAPABILITIES, request)).toBe(
+        "accepts packages up to 165 IN in length plus girth",
+      );
+    });
+
+    it("should flag packaging and services the carrier does not offer", () => {
+      const envelope: RateRequest = {
+        ...VALID_DOMESTIC_RATE_REQUEST,
+        packages: [
+          { weight: { value: 0.5, unit: "LB" }, packagingType: "ENVELOPE" },
+        ],
+      };
+
+      expect(capabilityMismatch(FEDEX_CAPABILITIES, envelope)).toBe(
+        "does not offer ENVELOPE packaging",
+      );
+      expect(capabilityMismatch(UPS_CAPABILITIES, envelope)).toBeUndefined();
+      expect(
+        capabilityMismatch(FEDEX_CAPABILITIES, {
+          ...VALID_DOMESTIC_RATE_REQUEST,
+          serviceCode: "03",
+        }),
+      ).toBe("does not offer service 03");
+    });
+
+    it("should flag dangerous goods for carriers that cannot declare them", () => {
+      expect(
+        capabilityMismatch(FEDEX_CAPABILITIES, VALID_DANGEROUS_GOODS_REQUEST),
+      ).toBe("does not accept dangerous goods");
+      expect(
+        capabilityMismatch(UPS_CAPABILITIES, VALID_DANGEROUS_GOODS_REQUEST),
+      ).toBeUndefined();
+    });
+
+    it("should flag service options only when one is requested", () => {
+      const saturday = (saturdayDelivery: boolean): RateRequest => ({
+        ...VALID_DOMESTIC_RATE_REQUEST,
+        serviceOptions: { saturdayDelivery },
+      });
+
+      expect(capabilityMismatch(FEDEX_CAPABILITIES, saturday(true))).toBe(
+        "does not price shipment service options",
+      );
+      expect(
+        capabilityMismatch(FEDEX_CAPABILITIES, saturday(false)),
+      ).toBeUndefined();
+      expect(
+        capabilityMismatch(UPS_CAPABILITIES, saturday(true)),
+      ).toBeUndefined();
+    });
+  });
+
+  describe("destination classification", () => {
+    function registerRecordingCarrier(received: RateRequest[]) {
+      registry.register({
+        name: "FEDEX",
+        operations: {
+          rating: {
+            execute: async (request): Promise<RateResponse> => {
+              received.push(request);
+              return { quotes: [] };
+            },
+          },
+        },
+      });
+    }
+
+    function registerClassifier(
+      validateAddress: CarrierOperations["addressValidation"]["execute"],
+    ) {
+      registry.register({
+        name: "UPS",
+        operations: {
+          rating: { execute: async () => ({ quotes: [] }) },
+          addressValidation: { execute: validateAddress },
+        },
+      });
+    }
+
+    it("should mark the destination residential before rating", async () => {
+      const received: RateRequest[] = [];
+      registerRecordingCarrier(received);
+      registerClassifier(async () => ({
+        carrier: "UPS",
+        verdict: "VALID",
+        classification: "RESIDENTIAL",
+        candidates: [],
+      }));
+      service = new ShippingService(registry, {
+        classifyDestinationsWith: "UPS",
+      });
+
+      await service.getRates("FEDEX", {
+        ...VALID_DOMESTIC_RATE_REQUEST,
+        destination: {
+          ...VALID_DOMESTIC_RATE_REQUEST.destination,
+          residential: false,
+        },
+      });
+
+      expect(received[0].destination.residential).toBe(true);
+    });
+
+    it("should classify once for every carrier when shopping", async () => {
+      const received: RateRequest[] = [];
+      let classifications = 0;
+      registerRecordingCarrier(received);
+      registerClassifier(async () => {
+        classifications++;
+        return {
+          carrier: "UPS",
+          verdict: "VALID",
+          classification: "COMMERCIAL",
+          candidates: [],
+        };
+      });
+      service = new ShippingService(registry, {
+        classifyDestinationsWith: "UPS",
+      });
+
+      await service.shopRates(VALID_DOMESTIC_RATE_REQUEST);
+
+      expect(classifications).toBe(1);
+      expect(received[0].destination.residential).toBe(false);
+    });
+
+    it("should keep the caller's flag when classification fails", async () => {
+      const received: RateRequest[] = [];
+      registerRecordingCarrier(received);
+      registerClassifier(async () => {
+        throw new CarrierError(
+          CarrierErrorCode.NETWORK_ERROR,
+          "Network error: socket hang up",
+          { carrier: "UPS", retryable: true },
+        );
+      });
+      service = new ShippingService(registry, {
+        classifyDestinationsWith: "UPS",
+      });
+
+      await service.getRates("FEDEX", {
+        ...VALID_DOMESTIC_RATE_REQUEST,
+        destination: {
+          ...VALID_DOMESTIC_RATE_REQUEST.destination,
+          residential: true,
+        },
+      });
+
+      expect(received[0].destination.residential).toBe(true);
+    });
+  });
+
+  describe("deadlines", () => {
+    it("should stop waiting on a token request past the deadline", async () => {
+      nock("https://onlinetools.ups.com")
+        .post("/security/v1/oauth/token")
+        .delayConnection(1_000)
+        .reply(200, VALID_OAUTH_TOKEN_RESPONSE);
+      const rateScope = nock("https://onlinetools.ups.com")
+        .post("/api/rating/v2409/Shoptimeintransit")
+        .reply(200, VALID_SHOP_RESPONSE);
+      registry.register(new UpsCarrierClient(TEST_CONFIG));
+
+      try {
+        await service.getRates("UPS", VALID_DOMESTIC_RATE_REQUEST, {
+          timeoutMs: 50,
+        });
+        expect.fail("Should have thrown");
+      } catch (error: unknown) {
+        const err = error as CarrierError;
+        expect(err.code).toBe(CarrierErrorCode.TIMEOUT_ERROR);
+        expect(err.message).toBe('Carrier "UPS" did not answer within 50ms');
+        expect(err.details.carrier).toBe("UPS");
+      }
+      expect(rateScope.isDone()).toBe(false);
+    });
+
+    it("should report carriers still rating at the shopping deadline", async () => {
+      let upsSignal: AbortSignal | undefined;
+      registry.register({
+        name: "UPS",
+        operations: {
+          rating: {
+            execute: (_request, context) => {
+              upsSignal = context?.signal;
+              return new Promise<RateResponse>(() => {});
+            },
+          },
+        },
+      });
+      registry.register({
+        name: "FEDEX",
+        operations: { rating: { execute: async () => ({ quotes: [] }) } },
+      });
+
+      const result = await service.shopRates(VALID_DOMESTIC_RATE_REQUEST, {
+        timeoutMs: 20,
+      });
+
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].carrier).toBe("UPS");
+      expect(result.errors[0].error.code).toBe(
+        CarrierErrorCode.TIMEOUT_ERROR,
+      );
+      expect(upsSignal?.aborted).toBe(true);
+    });
+
+    it("should fail with TIMEOUT_ERROR once the caller aborts", async () => {
+      registry.register({
+        name: "UPS",
+        operations: {
+          rating: { execute: () => new Promise<RateResponse>(() => {}) },
+        },
+      });
+      const controller = new AbortController();
+
+      const result = service.getRates("UPS", VALID_DOMESTIC_RATE_REQUEST, {
+        signal: controller.signal,
+      });
+      controller.abort();
+
+      await expect(result).rejects.toMatchObject({
+        code: CarrierErrorCode.TIMEOUT_ERROR,
+        message: 'Call to carrier "UPS" was cancelled',
+      });
+    });
+  });
 });
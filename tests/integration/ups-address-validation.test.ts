@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import nock from "nock";
+import { UpsCarrierClient } from "../../src/carriers/ups/client.js";
+import { CarrierErrorCode } from "../../src/domain/errors.js";
+import type { UpsConfig } from "../../src/config/index.js";
+import type { Address } from "../../src/domain/models.js";
+import { VALID_OAUTH_TOKEN_RESPONSE } from "../fixtures/ups-responses.js";
+import {
+  VALID_RESIDENTIAL_ADDRESS_RESPONSE,
+  VALID_COMMERCIAL_ADDRESS_RESPONSE,
+  AMBIGUOUS_ADDRESS_RESPONSE,
+  NO_CANDIDATES_ADDRESS_RESPONSE,
+} from "../fixtures/ups-address-validation-responses.js";
+import { VALID_DOMESTIC_RATE_REQUEST } from "../fixtures/rate-requests.js";
+
+const TEST_CONFIG: UpsConfig = {
+  clientId: "test-client-id",
+  clientSecret: "test-client-secret",
+  baseUrl: "https://onlinetools.ups.com/api",
+  oauthUrl: "https://onlinetools.ups.com/security/v1/oauth/token",
+};
+
+const DESTINATION: Address = {
+  ...VALID_DOMESTIC_RATE_REQUEST.destination,
+  phone: "4045550100",
+};
+
+function setupAuthMock() {
+  return nock("https://onlinetools.ups.com")
+    .post("/security/v1/oauth/token")
+    .reply(200, VALID_OAUTH_TOKEN_RESPONSE);
+}
+
+function mockValidation() {
+  return nock("https://onlinetools.ups.com")
+    .post("/api/addressvalidation/v2/3")
+    .query({ maximumcandidatelistsize: "5" });
+}
+
+describe("UPS Address Validation (end-to-end with stubbed HTTP)", () => {
+  let client: UpsCarrierClient;
+
+  beforeEach(() => {
+    client = new UpsCarrierClient(TEST_CONFIG);
+    nock.cleanAll();
+  });
+
+  afterEach(() => {
+    nock.cleanAll();
+    nock.enableNetConnect();
+  });
+
+  it("should send the address in UPS key format", async () => {
+    setupAuthMock();
+    let capturedBody: Record<string, unknown> | undefined;
+    nock("https://onlinetools.ups.com")
+      .post("/api/addressvalidation/v2/3", (body: Record<string, unknown>) => {
+        capturedBody = body;
+        return true;
+      })
+      .query({ maximumcandidatelistsize: "5" })
+      .reply(200, VALID_RESIDENTIAL_ADDRESS_RESPONSE);
+
+    await client.validateAddress({
+      address: { ...DESTINATION, postalCode: "300054207" },
+    });
+
+    const xavRequest = capturedBody!["XAVRequest"] as Record<string, unknown>;
+    const key = xavRequest["AddressKeyFormat"] as Record<string, unknown>;
+    expect(key).toEqual({
+      ConsigneeName: "Test Recipient",
+      AddressLine: ["200 Elm Street"],
+      PoliticalDivision2: "Alpharetta",
+      PoliticalDivision1: "GA",
+      PostcodePrimaryLow: "30005",
+      PostcodeExtendedLow: "4207",
+      CountryCode: "US",
+    });
+  });
+
+  it("should classify a valid residential address", async () => {
+    setupAuthMock();
+    mockValidation().reply(200, VALID_RESIDENTIAL_ADDRESS_RESPONSE);
+
+    const result = await client.validateAddress({ address: DESTINATION });
+
+    expect(result.carrier).toBe("UPS");
+    expect(result.verdict).toBe("VALID");
+    expect(result.classification).toBe("RESIDENTIAL");
+    expect(result.candidates).toEqual([
+      {
+        address: {
+          name: "Test Recipient",
+          phone: "4045550100",
+          addressLines: ["200 ELM ST"],
+          city: "ALPHARETTA",
+          stateProvinceCode: "GA",
+          postalCode: "300054207",
+          countryCode: "US",
+          residential: true,
+        },
+        classification: "RESIDENTIAL",
+      },
+    ]);
+  });
+
+  it("should classify a valid commercial address", async () => {
+    setupAuthMock();
+    mockValidation().reply(200, VALID_COMMERCIAL_ADDRESS_RESPONSE);
+
+    const result = await client.validateAddress({ address: DESTINATION });
+
+    expect(result.classification).toBe("COMMERCIAL");
+    expect(result.candidates[0].address.residential).toBe(false);
+    expect(result.candidates[0].address.addressLines).toEqual([
+      "200 ELM ST",
+      "STE 400",
+    ]);
+  });
+
+  it("should return every candidate for an ambiguous address", async () => {
+    setupAuthMock();
+    mockValidation().reply(200, AMBIGUOUS_ADDRESS_RESPONSE);
+
+    const result = await client.validateAddress({ address: DESTINATION });
+
+    expect(result.verdict).toBe("AMBIGUOUS");
+    expect(result.classification).toBe("UNKNOWN");
+    expect(result.candidates).toHaveLength(2);
+    expect(result.candidates[1].address.postalCode).toBe("30009");
+    expect(result.candidates[1].classification).toBe("COMMERCIAL");
+  });
+
+  it("should report an address with no candidates as invalid", async () => {
+    setupAuthMock();
+    mockValidation().reply(200, NO_CANDIDATES_ADDRESS_RESPONSE);
+
+    const result = await client.validateAddress({ address: DESTINATION });
+
+    expect(result.verdict).toBe("INVALID");
+    expect(result.classification).toBe("UNKNOWN");
+    expect(result.candidates).toEqual([]);
+  });
+
+  it("should reject countries UPS cannot validate", async () => {
+    try {
+      await client.validateAddress({
+        address: { ...DESTINATION, stateProvinceCode: "ON", countryCode: "CA" },
+      });
+      expect.fail("Should have thrown");
+    } catch (error: unknown) {
+      const err = error as { code: string; message: string };
+      expect(err.code).toBe(CarrierErrorCode.VALIDATION_ERROR);
+      expect(err.message).toContain("CA");
+    }
+  });
+
+  it("should reject an address missing required fields", async () => {
+    try {
+      await client.validateAddress({
+        address: { ...DESTINATION, addressLines: [] },
+      });
+      expect.fail("Should have thrown");
+    } catch (error: unknown) {
+      const err = error as { code: string };
+      expect(err.code).toBe(CarrierErrorCode.VALIDATION_ERROR);
+    }
+  });
+});
@@ -163,13 +163,54 @@ describe("UPS OAuth Authentication", () => {
   });
 
   it("should handle timeout during token fetch", async () => {
+    auth = new UpsAuthenticator({ ...TEST_CONFIG, timeoutMs: 50 });
     nock("https://onlinetools.ups.com")
       .post("/security/v1/oauth/token")
-      .delayConnection(15000)
+      .delayConnection(1_000)
       .reply(200, VALID_OAUTH_TOKEN_RESPONSE);
 
     await expect(auth.getAccessToken()).rejects.toMatchObject({
       code: CarrierErrorCode.AUTHENTICATION_ERROR,
     });
-  }, 15_000);
+  });
+
+  it("should surface TIMEOUT_ERROR when the caller aborts the fetch", async () => {
+    nock("https://onlinetools.ups.com")
+      .post("/security/v1/oauth/token")
+      .delay(50)
+      .reply(200, VALID_OAUTH_TOKEN_RESPONSE);
+    const controller = new AbortController();
+
+    const token = auth.getAccessToken(controller.signal);
+    controller.abort();
+
+    await expect(token).rejects.toMatchObject({
+      code: CarrierErrorCode.TIMEOUT_ERROR,
+      details: { carrier: "UPS", retryable: false },
+    });
+
+    // Let the shared fetch finish so it cannot answer the next test's request
+    await auth.getAccessToken();
+  });
+
+  it("should keep fetching for the others when one caller aborts", async () => {
+    const scope = nock("https://onlinetools.ups.com")
+      .post("/security/v1/oauth/token")
+      .delay(50)
+      .reply(200, VALID_OAUTH_TOKEN_RESPONSE);
+    const controller = new AbortController();
+
+    const aborted = auth.getAccessToken(controller.signal);
+    const waiting = auth.getAccessToken();
+    controller.abort();
+
+    await expect(aborted).rejects.toMatchObject({
+      code: CarrierErrorCode.TIMEOUT_ERROR,
+      details: { carrier: "UPS", retryable: false },
+    });
+    await expect(waiting).resolves.toBe(
+      VALID_OAUTH_TOKEN_RESPONSE.access_token,
+    );
+    expect(scope.isDone()).toBe(true);
+  });
 });
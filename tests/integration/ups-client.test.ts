@@ -103,7 +103,7 @@ describe("UPS Carrier Client (end-to-end with stubbed HTTP)", () => {
     it("should authenticate, build request, and return normalized rates", async () => {
       setupAuthMock();
       nock("https://onlinetools.ups.com")
-        .post("/api/rating/v2409/Shop")
+        .post("/api/rating/v2409/Shoptimeintransit")
         .reply(200, VALID_SHOP_RESPONSE);
 
       const result = await client.getRates(VALID_DOMESTIC_RATE_REQUEST);
@@ -117,7 +117,7 @@ describe("UPS Carrier Client (end-to-end with stubbed HTTP)", () => {
     it("should authenticate and return single rate when service specified", async () => {
       setupAuthMock();
       nock("https://onlinetools.ups.com")
-        .post("/api/rating/v2409/Rate")
+        .post("/api/rating/v2409/Ratetimeintransit")
         .reply(200, VALID_RATE_RESPONSE);
 
       const result = await client.getRates(VALID_RATE_REQUEST_WITH_SERVICE);
@@ -135,7 +135,7 @@ describe("UPS Carrier Client (end-to-end with stubbed HTTP)", () => {
         .reply(200, VALID_OAUTH_TOKEN_RESPONSE);
 
       nock("https://onlinetools.ups.com")
-        .post("/api/rating/v2409/Shop")
+        .post("/api/rating/v2409/Shoptimeintransit")
         .times(2)
         .reply(200, VALID_SHOP_RESPONSE);
 
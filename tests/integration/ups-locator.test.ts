@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import nock from "nock";
+import { UpsCarrierClient } from "../../src/carriers/ups/client.js";
+import { CarrierErrorCode } from "../../src/domain/errors.js";
+import type { UpsConfig } from "../../src/config/index.js";
+import { VALID_OAUTH_TOKEN_RESPONSE } from "../fixtures/ups-responses.js";
+import {
+  VALID_LOCATOR_RESPONSE,
+  EMPTY_LOCATOR_RESPONSE,
+} from "../fixtures/ups-locator-responses.js";
+import { VALID_DOMESTIC_RATE_REQUEST } from "../fixtures/rate-requests.js";
+
+const TEST_CONFIG: UpsConfig = {
+  clientId: "test-client-id",
+  clientSecret: "test-client-secret",
+  baseUrl: "https://onlinetools.ups.com/api",
+  oauthUrl: "https://onlinetools.ups.com/security/v1/oauth/token",
+};
+
+const LOCATOR_PATH = "/api/locations/v3/search/availabilities/1";
+
+function setupAuthMock() {
+  return nock("https://onlinetools.ups.com")
+    .post("/security/v1/oauth/token")
+    .reply(200, VALID_OAUTH_TOKEN_RESPONSE);
+}
+
+describe("UPS Locator (end-to-end with stubbed HTTP)", () => {
+  let client: UpsCarrierClient;
+
+  beforeEach(() => {
+    client = new UpsCarrierClient(TEST_CONFIG);
+    nock.cleanAll();
+  });
+
+  afterEach(() => {
+    nock.cleanAll();
+    nock.enableNetConnect();
+  });
+
+  // ─── Request ───
+
+  describe("request building", () => {
+    it("should search near an address with type and radius filters", async () => {
+      setupAuthMock();
+      let capturedBody: Record<string, unknown> | undefined;
+
+      nock("https://onlinetools.ups.com")
+        .post(LOCATOR_PATH, (body: Record<string, unknown>) => {
+          capturedBody = body;
+          return true;
+        })
+        .reply(200, VALID_LOCATOR_RESPONSE);
+
+      await client.searchLocations({
+        address: VALID_DOMESTIC_RATE_REQUEST.destination,
+        radius: { value: 5, unit: "MI" },
+        locationTypes: ["ACCESS_POINT", "RETAIL_STORE"],
+        maxResults: 3,
+      });
+
+      const locator = capturedBody!["LocatorRequest"] as Record<
+        string,
+        unknown
+      >;
+      expect(locator["OriginAddress"]).toEqual({
+        AddressKeyFormat: {
+          AddressLine: ["200 Elm Street"],
+          PoliticalDivision2: "Alpharetta",
+          PoliticalDivision1: "GA",
+          PostcodePrimaryLow: "30005",
+          CountryCode: "US",
+        },
+      });
+      expect(locator["UnitOfMeasurement"]).toEqual({ Code: "MI" });
+      expect(locator["LocationSearchCriteria"]).toEqual({
+        SearchOption: [
+          {
+            OptionType: { Code: "01" },
+            OptionCode: [{ Code: "018" }, { Code: "001" }, { Code: "002" }],
+          },
+        ],
+        MaximumListSize: "3",
+        SearchRadius: "5",
+      });
+    });
+
+    it("should search near coordinates", async () => {
+      setupAuthMock();
+      let capturedBody: Record<string, unknown> | undefined;
+
+      nock("https://onlinetools.ups.com")
+        .post(LOCATOR_PATH, (body: Record<string, unknown>) => {
+          capturedBody = body;
+          return true;
+        })
+        .reply(200, VALID_LOCATOR_RESPONSE);
+
+      await client.searchLocations({
+        coordinates: { latitude: 34.07, longitude: -84.29, countryCode: "US" },
+      });
+
+      const locator = capturedBody!["LocatorRequest"] as Record<
+        string,
+        unknown
+      >;
+      expect(locator["OriginAddress"]).toEqual({
+        Geocode: { Latitude: "34.07", Longitude: "-84.29" },
+        AddressKeyFormat: { CountryCode: "US" },
+      });
+      expect(locator["LocationSearchCriteria"]).toEqual({
+        MaximumListSize: "10",
+      });
+    });
+
+    it("should require exactly one of address or coordinates", async () => {
+      try {
+        await client.searchLocations({});
+        expect.fail("Should have thrown");
+      } catch (error: unknown) {
+        const err = error as { code: string; message: string };
+        expect(err.code).toBe(CarrierErrorCode.VALIDATION_ERROR);
+        expect(err.message).toContain("address");
+      }
+    });
+  });
+
+  // ─── Response ───
+
+  describe("response mapping", () => {
+    it("should map an access point with its public ID, hours and services", async () => {
+      setupAuthMock();
+      nock("https://onlinetools.ups.com")
+        .post(LOCATOR_PATH)
+        .reply(200, VALID_LOCATOR_RESPONSE);
+
+      const [accessPoint] = await client.searchLocations({
+        address: VALID_DOMESTIC_RATE_REQUEST.destination,
+      });
+
+      expect(accessPoint).toEqual({
+        carrier: "UPS",
+        id: "U51128973",
+        type: "ACCESS_POINT",
+        address: {
+          name: "CVS PHARMACY",
+          phone: "7704750123",
+          addressLines: ["5950 N POINT PKWY"],
+          city: "ALPHARETTA",
+          stateProvinceCode: "GA",
+          postalCode: "300221123",
+          countryCode: "US",
+          residential: false,
+        },
+        coordinates: { latitude: 34.0754, longitude: -84.2941 },
+        distance: { value: 0.4, unit: "MI" },
+        hours: [
+          { day: "MON", open: "08:00", close: "21:00" },
+          { day: "TUE", open: "08:00", close: "21:00" },
+          { day: "WED", open: "08:00", close: "21:00" },
+          { day: "THU", open: "08:00", close: "21:00" },
+          { day: "FRI", open: "08:00", close: "21:00" },
+          { day: "SAT", open: "09:00", close: "17:00" },
+        ],
+        services: ["Drop-off", "Package pickup"],
+      });
+    });
+
+    it("should classify stores and drop boxes by location type", async () => {
+      setupAuthMock();
+      nock("https://onlinetools.ups.com")
+        .post(LOCATOR_PATH)
+        .reply(200, VALID_LOCATOR_RESPONSE);
+
+      const [, store, dropBox] = await client.searchLocations({
+        address: VALID_DOMESTIC_RATE_REQUEST.destination,
+      });
+
+      expect(store.id).toBe("24518");
+      expect(store.type).toBe("RETAIL_STORE");
+      expect(store.address.addressLines).toEqual([
+        "3000 OLD ALABAMA RD",
+        "STE 119",
+      ]);
+      expect(store.hours).toEqual([
+        { day: "MON", open: "00:00", close: "23:59" },
+      ]);
+      expect(dropBox.type).toBe("DROP_BOX");
+      expect(dropBox.hours).toEqual([]);
+      expect(dropBox.coordinates).toBeUndefined();
+    });
+
+    it("should return no locations when nothing is nearby", async () => {
+      setupAuthMock();
+      nock("https://onlinetools.ups.com")
+        .post(LOCATOR_PATH)
+        .reply(200, EMPTY_LOCATOR_RESPONSE);
+
+      const locations = await client.searchLocations({
+        address: VALID_DOMESTIC_RATE_REQUEST.destination,
+      });
+
+      expect(locations).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,315 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import nock from "nock";
+import { UpsCarrierClient } from "../../src/carriers/ups/client.js";
+import { CarrierErrorCode } from "../../src/domain/errors.js";
+import { addBusinessDays, formatLocalDate } from "../../src/domain/ship-date.js";
+import type { UpsConfig } from "../../src/config/index.js";
+import type { PickupRequest } from "../../src/domain/models.js";
+import { VALID_OAUTH_TOKEN_RESPONSE } from "../fixtures/ups-responses.js";
+import {
+  VALID_PICKUP_CREATION_RESPONSE,
+  VALID_PICKUP_RATE_RESPONSE,
+  VALID_PICKUP_CANCEL_RESPONSE,
+} from "../fixtures/ups-pickup-responses.js";
+
+const TEST_CONFIG: UpsConfig = {
+  clientId: "test-client-id",
+  clientSecret: "test-client-secret",
+  accountNumber: "222006",
+  baseUrl: "https://onlinetools.ups.com/api",
+  oauthUrl: "https://onlinetools.ups.com/security/v1/oauth/token",
+};
+
+// Pickup dates must not be in the past, so book a couple of business days out
+const PICKUP_DATE = addBusinessDays(formatLocalDate(new Date()), 2);
+
+const PICKUP_REQUEST: PickupRequest = {
+  address: {
+    name: "Acme Warehouse",
+    addressLines: ["100 Main Street"],
+    city: "Timonium",
+    stateProvinceCode: "MD",
+    postalCode: "21093",
+    countryCode: "US",
+    phone: "4105550100",
+  },
+  pickupDate: PICKUP_DATE,
+  readyTime: "09:00",
+  closeTime: "17:30",
+  packageCount: 12,
+  totalWeight: { value: 84, unit: "LB" },
+  instructions: "Loading dock 3",
+};
+
+function setupAuthMock() {
+  return nock("https://onlinetools.ups.com")
+    .post("/security/v1/oauth/token")
+    .reply(200, VALID_OAUTH_TOKEN_RESPONSE);
+}
+
+describe("UPS Pickup (end-to-end with stubbed HTTP)", () => {
+  let client: UpsCarrierClient;
+
+  beforeEach(() => {
+    client = new UpsCarrierClient(TEST_CONFIG);
+    nock.cleanAll();
+  });
+
+  afterEach(() => {
+    nock.cleanAll();
+    nock.enableNetConnect();
+  });
+
+  // ─── Create ───
+
+  describe("createPickup", () => {
+    it("should build a Pickup Creation request billed to the account", async () => {
+      setupAuthMock();
+      let capturedBody: Record<string, unknown> | undefined;
+
+      nock("https://onlinetools.ups.com")
+        .post(
+          "/api/pickupcreation/v2409/pickup",
+          (body: Record<string, unknown>) => {
+            capturedBody = body;
+            return true;
+          },
+        )
+        .reply(200, VALID_PICKUP_CREATION_RESPONSE);
+
+      await client.createPickup(PICKUP_REQUEST);
+
+      const pickup = capturedBody!["PickupCreationRequest"] as Record<
+        string,
+        unknown
+      >;
+      expect(pickup["Shipper"]).toEqual({
+        Account: { AccountNumber: "222006", AccountCountryCode: "US" },
+      });
+      expect(pickup["PickupDateInfo"]).toEqual({
+        ReadyTime: "0900",
+        CloseTime: "1730",
+        PickupDate: PICKUP_DATE.replaceAll("-", ""),
+      });
+      expect(pickup["PickupPiece"]).toEqual([
+        {
+          ServiceCode: "003",
+          Quantity: "12",
+          DestinationCountryCode: "US",
+          ContainerCode: "01",
+        },
+      ]);
+      expect(pickup["TotalWeight"]).toEqual({
+        Weight: "84.0",
+        UnitOfMeasurement: "LBS",
+      });
+      expect(pickup["PaymentMethod"]).toBe("01");
+      expect(pickup["SpecialInstruction"]).toBe("Loading dock 3");
+    });
+
+    it("should send the pickup contact and address", async () => {
+      setupAuthMock();
+      let capturedBody: Record<string, unknown> | undefined;
+
+      nock("https://onlinetools.ups.com")
+        .post(
+          "/api/pickupcreation/v2409/pickup",
+          (body: Record<string, unknown>) => {
+            capturedBody = body;
+            return true;
+          },
+        )
+        .reply(200, VALID_PICKUP_CREATION_RESPONSE);
+
+      await client.createPickup(PICKUP_REQUEST);
+
+      const pickup = capturedBody!["PickupCreationRequest"] as Record<
+        string,
+        unknown
+      >;
+      expect(pickup["PickupAddress"]).toEqual({
+        CompanyName: "Acme Warehouse",
+        ContactName: "Acme Warehouse",
+        AddressLine: ["100 Main Street"],
+        City: "Timonium",
+        StateProvince: "MD",
+        PostalCode: "21093",
+        CountryCode: "US",
+        ResidentialIndicator: "N",
+        Phone: { Number: "4105550100" },
+      });
+    });
+
+    it("should return the PRN as the confirmation number", async () => {
+      setupAuthMock();
+      nock("https://onlinetools.ups.com")
+        .post("/api/pickupcreation/v2409/pickup")
+        .reply(200, VALID_PICKUP_CREATION_RESPONSE);
+
+      const confirmation = await client.createPickup(PICKUP_REQUEST);
+
+      expect(confirmation).toEqual({
+        carrier: "UPS",
+        confirmationNumber: "2929602E9CP",
+        pickupDate: PICKUP_DATE,
+        totalCharges: { currency: "USD", amount: 6.7 },
+      });
+    });
+
+    it("should convert an ounce total weight to pounds", async () => {
+      setupAuthMock();
+      let capturedBody: Record<string, unknown> | undefined;
+
+      nock("https://onlinetools.ups.com")
+        .post(
+          "/api/pickupcreation/v2409/pickup",
+          (body: Record<string, unknown>) => {
+            capturedBody = body;
+            return true;
+          },
+        )
+        .reply(200, VALID_PICKUP_CREATION_RESPONSE);
+
+      await client.createPickup({
+        ...PICKUP_REQUEST,
+        totalWeight: { value: 40, unit: "OZ" },
+      });
+
+      const pickup = capturedBody!["PickupCreationRequest"] as Record<
+        string,
+        unknown
+      >;
+      expect(pickup["TotalWeight"]).toEqual({
+        Weight: "2.5",
+        UnitOfMeasurement: "LBS",
+      });
+    });
+
+    it("should require an account number", async () => {
+      client = new UpsCarrierClient({
+        ...TEST_CONFIG,
+        accountNumber: undefined,
+      });
+
+      try {
+        await client.createPickup(PICKUP_REQUEST);
+        expect.fail("Should have thrown");
+      } catch (error: unknown) {
+        const err = error as { code: string };
+        expect(err.code).toBe(CarrierErrorCode.CONFIGURATION_ERROR);
+      }
+    });
+
+    it("should reject a close time before the ready time", async () => {
+      try {
+        await client.createPickup({
+          ...PICKUP_REQUEST,
+          readyTime: "15:00",
+          closeTime: "11:00",
+        });
+        expect.fail("Should have thrown");
+      } catch (error: unknown) {
+        const err = error as { code: string; message: string };
+        expect(err.code).toBe(CarrierErrorCode.VALIDATION_ERROR);
+        expect(err.message).toContain("closeTime");
+      }
+    });
+
+    it("should reject an unknown time zone", async () => {
+      try {
+        await client.createPickup({
+          ...PICKUP_REQUEST,
+          timeZone: "Mars/Olympus_Mons",
+        });
+        expect.fail("Should have thrown");
+      } catch (error: unknown) {
+        const err = error as { code: string; message: string };
+        expect(err.code).toBe(CarrierErrorCode.VALIDATION_ERROR);
+        expect(err.message).toContain("timeZone: Unknown time zone");
+      }
+    });
+  });
+
+  // ─── Cancel ───
+
+  describe("cancelPickup", () => {
+    it("should cancel by PRN", async () => {
+      setupAuthMock();
+      const scope = nock("https://onlinetools.ups.com")
+        .delete("/api/shipments/v2409/pickup/02")
+        .matchHeader("Prn", "2929602E9CP")
+        .reply(200, VALID_PICKUP_CANCEL_RESPONSE);
+
+      const result = await client.cancelPickup({
+        confirmationNumber: "2929602E9CP",
+      });
+
+      expect(scope.isDone()).toBe(true);
+      expect(result).toEqual({
+        confirmationNumber: "2929602E9CP",
+        cancelled: true,
+      });
+    });
+  });
+
+  // ─── Rate ───
+
+  describe("getPickupRate", () => {
+    it("should rate a future-day on-call pickup", async () => {
+      setupAuthMock();
+      let capturedBody: Record<string, unknown> | undefined;
+
+      nock("https://onlinetools.ups.com")
+        .post(
+          "/api/shipments/v2409/pickup/oncall",
+          (body: Record<string, unknown>) => {
+            capturedBody = body;
+            return true;
+          },
+        )
+        .reply(200, VALID_PICKUP_RATE_RESPONSE);
+
+      const rate = await client.getPickupRate(PICKUP_REQUEST);
+
+      const rateRequest = capturedBody!["PickupRateRequest"] as Record<
+        string,
+        unknown
+      >;
+      expect(rateRequest["ServiceDateOption"]).toBe("02");
+      expect(rateRequest["PickupAddress"]).not.toHaveProperty("Phone");
+      expect(rate).toEqual({
+        carrier: "UPS",
+        totalCharges: { currency: "USD", amount: 6.7 },
+      });
+    });
+
+    it("should rate a same-day pickup by the address's own date", async () => {
+      setupAuthMock();
+      let capturedBody: Record<string, unknown> | undefined;
+
+      nock("https://onlinetools.ups.com")
+        .post(
+          "/api/shipments/v2409/pickup/oncall",
+          (body: Record<string, unknown>) => {
+            capturedBody = body;
+            return true;
+          },
+        )
+        .reply(200, VALID_PICKUP_RATE_RESPONSE);
+
+      // Fourteen hours ahead of UTC, so usually a day ahead of this process
+      const timeZone = "Pacific/Kiritimati";
+      await client.getPickupRate({
+        ...PICKUP_REQUEST,
+        pickupDate: formatLocalDate(new Date(), timeZone),
+        timeZone,
+      });
+
+      const rateRequest = capturedBody!["PickupRateRequest"] as Record<
+        string,
+        unknown
+      >;
+      expect(rateRequest["ServiceDateOption"]).toBe("01");
+    });
+  });
+});
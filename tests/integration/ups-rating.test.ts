@@ -1,14 +1,19 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import nock from "nock";
 import { UpsRatingOperation } from "../../src/carriers/ups/rating.js";
-import { CarrierErrorCode } from "../../src/domain/errors.js";
+import { UpsTrackingOperation } from "../../src/carriers/ups/tracking.js";
+import { CarrierError, CarrierErrorCode } from "../../src/domain/errors.js";
 import type { CarrierAuthenticator } from "../../src/carriers/types.js";
+import type { UpsHazMatChemicalRecord } from "../../src/carriers/ups/types.js";
 import type { UpsConfig } from "../../src/config/index.js";
 import {
   VALID_RATE_RESPONSE,
   VALID_SHOP_RESPONSE,
   VALID_NEGOTIATED_RATE_RESPONSE,
+  VALID_MULTI_PACKAGE_RATE_RESPONSE,
+  VALID_LANDED_COST_RESPONSE,
   UPS_400_ERROR,
+  UPS_429_ERROR,
   UPS_500_ERROR,
 } from "../fixtures/ups-responses.js";
 import {
@@ -16,6 +21,8 @@ import {
   VALID_RATE_REQUEST_WITH_SERVICE,
   VALID_MULTI_PACKAGE_REQUEST,
   VALID_INTERNATIONAL_REQUEST,
+  VALID_HOLD_AT_LOCATION_REQUEST,
+  VALID_DANGEROUS_GOODS_REQUEST,
 } from "../fixtures/rate-requests.js";
 
 const TEST_CONFIG: UpsConfig = {
@@ -54,7 +61,7 @@ describe("UPS Rating Operation", () => {
       let capturedBody: Record<string, unknown> | undefined;
 
       nock("https://onlinetools.ups.com")
-        .post("/api/rating/v2409/Shop", (body: Record<string, unknown>) => {
+        .post("/api/rating/v2409/Shoptimeintransit", (body: Record<string, unknown>) => {
           capturedBody = body;
           return true;
         })
@@ -87,7 +94,7 @@ describe("UPS Rating Operation", () => {
       let capturedBody: Record<string, unknown> | undefined;
 
       nock("https://onlinetools.ups.com")
-        .post("/api/rating/v2409/Rate", (body: Record<string, unknown>) => {
+        .post("/api/rating/v2409/Ratetimeintransit", (body: Record<string, unknown>) => {
           capturedBody = body;
           return true;
         })
@@ -106,7 +113,7 @@ describe("UPS Rating Operation", () => {
       let capturedBody: Record<string, unknown> | undefined;
 
       nock("https://onlinetools.ups.com")
-        .post("/api/rating/v2409/Shop", (body: Record<string, unknown>) => {
+        .post("/api/rating/v2409/Shoptimeintransit", (body: Record<string, unknown>) => {
           capturedBody = body;
           return true;
         })
@@ -138,7 +145,7 @@ describe("UPS Rating Operation", () => {
       let capturedBody: Record<string, unknown> | undefined;
 
       nock("https://onlinetools.ups.com")
-        .post("/api/rating/v2409/Shop", (body: Record<string, unknown>) => {
+        .post("/api/rating/v2409/Shoptimeintransit", (body: Record<string, unknown>) => {
           capturedBody = body;
           return true;
         })
@@ -166,11 +173,14 @@ describe("UPS Rating Operation", () => {
       let capturedBody: Record<string, unknown> | undefined;
 
       nock("https://onlinetools.ups.com")
-        .post("/api/rating/v2409/Shop", (body: Record<string, unknown>) => {
+        .post("/api/rating/v2409/Shoptimeintransit", (body: Record<string, unknown>) => {
           capturedBody = body;
           return true;
         })
         .reply(200, VALID_SHOP_RESPONSE);
+      nock("https://onlinetools.ups.com")
+        .post("/api/landedcost/v1/quotes")
+        .reply(200, VALID_LANDED_COST_RESPONSE);
 
       await rating.execute(VALID_INTERNATIONAL_REQUEST);
 
@@ -193,7 +203,7 @@ describe("UPS Rating Operation", () => {
 
     it("should include authorization header with bearer token", async () => {
       const scope = nock("https://onlinetools.ups.com")
-        .post("/api/rating/v2409/Shop")
+        .post("/api/rating/v2409/Shoptimeintransit")
         .matchHeader("Authorization", "Bearer mock-access-token")
         .matchHeader("Content-Type", "application/json")
         .reply(200, VALID_SHOP_RESPONSE);
@@ -208,7 +218,7 @@ describe("UPS Rating Operation", () => {
   describe("Response parsing and normalization", () => {
     it("should parse a single rate response into domain RateQuote", async () => {
       nock("https://onlinetools.ups.com")
-        .post("/api/rating/v2409/Rate")
+        .post("/api/rating/v2409/Ratetimeintransit")
         .reply(200, VALID_RATE_RESPONSE);
 
       const result = await rating.execute(VALID_RATE_REQUEST_WITH_SERVICE);
@@ -229,7 +239,7 @@ describe("UPS Rating Operation", () => {
 
     it("should parse multiple rate quotes from a Shop response", async () => {
       nock("https://onlinetools.ups.com")
-        .post("/api/rating/v2409/Shop")
+        .post("/api/rating/v2409/Shoptimeintransit")
         .reply(200, VALID_SHOP_RESPONSE);
 
       const result = await rating.execute(VALID_DOMESTIC_RATE_REQUEST);
@@ -245,7 +255,7 @@ describe("UPS Rating Operation", () => {
 
     it("should include service options charges when present", async () => {
       nock("https://onlinetools.ups.com")
-        .post("/api/rating/v2409/Rate")
+        .post("/api/rating/v2409/Ratetimeintransit")
         .reply(200, VALID_RATE_RESPONSE);
 
       const result = await rating.execute(VALID_RATE_REQUEST_WITH_SERVICE);
@@ -259,7 +269,7 @@ describe("UPS Rating Operation", () => {
 
     it("should extract guaranteed delivery information", async () => {
       nock("https://onlinetools.ups.com")
-        .post("/api/rating/v2409/Shop")
+        .post("/api/rating/v2409/Shoptimeintransit")
         .reply(200, VALID_SHOP_RESPONSE);
 
       const result = await rating.execute(VALID_DOMESTIC_RATE_REQUEST);
@@ -272,9 +282,52 @@ describe("UPS Rating Operation", () => {
       expect(nextDayQuote?.estimatedDeliveryDays).toBe(1);
     });
 
+    it("should map estimated arrival and delivery-by time", async () => {
+      nock("https://onlinetools.ups.com")
+        .post("/api/rating/v2409/Shoptimeintransit")
+        .reply(200, VALID_SHOP_RESPONSE);
+
+      const result = await rating.execute(VALID_DOMESTIC_RATE_REQUEST);
+
+      const nextDayQuote = result.quotes.find((q) => q.serviceCode === "01");
+      expect(nextDayQuote?.estimatedDeliveryDate).toBe("2024-06-27");
+      expect(nextDayQuote?.estimatedDeliveryTime).toBe("10:30");
+      expect(nextDayQuote?.guaranteedDeliveryTime).toBe("10:30");
+
+    });
+
+    it("should project delivery from the ship date when UPS omits arrival", async () => {
+      let capturedBody: Record<string, unknown> | undefined;
+      nock("https://onlinetools.ups.com")
+        .post(
+          "/api/rating/v2409/Shoptimeintransit",
+          (body: Record<string, unknown>) => {
+            capturedBody = body;
+            return true;
+          },
+        )
+        .reply(200, VALID_SHOP_RESPONSE);
+
+      const result = await rating.execute({
+        ...VALID_DOMESTIC_RATE_REQUEST,
+        shipDate: "2024-06-21",
+      });
+
+      const rateReq = capturedBody!["RateRequest"] as Record<string, unknown>;
+      const shipment = rateReq["Shipment"] as Record<string, unknown>;
+      expect(shipment["DeliveryTimeInformation"]).toEqual({
+        PackageBillType: "03",
+        Pickup: { Date: "20240621" },
+      });
+
+      // Friday + 5 business days, skipping the weekend
+      const groundQuote = result.quotes.find((q) => q.serviceCode === "03");
+      expect(groundQuote?.estimatedDeliveryDate).toBe("2024-06-28");
+    });
+
     it("should include warnings from rated shipment alerts", async () => {
       nock("https://onlinetools.ups.com")
-        .post("/api/rating/v2409/Rate")
+        .post("/api/rating/v2409/Ratetimeintransit")
         .reply(200, VALID_RATE_RESPONSE);
 
       const result = await rating.execute(VALID_RATE_REQUEST_WITH_SERVICE);
@@ -286,14 +339,461 @@ describe("UPS Rating Operation", () => {
       );
     });
 
+    it("should break charges down per package in input order", async () => {
+      nock("https://onlinetools.ups.com")
+        .post("/api/rating/v2409/Shoptimeintransit")
+        .reply(200, VALID_MULTI_PACKAGE_RATE_RESPONSE);
+
+      const result = await rating.execute(VALID_MULTI_PACKAGE_REQUEST);
+      const packages = result.quotes[0].packages!;
+
+      expect(packages).toHaveLength(2);
+      expect(packages[0].totalCharges).toEqual({ currency: "USD", amount: 10.15 });
+      expect(packages[0].billingWeight).toEqual({ value: 3, unit: "LB" });
+      expect(packages[1].transportationCharges).toEqual({
+        currency: "USD",
+        amount: 17.3,
+      });
+      expect(packages[1].billingWeight).toEqual({ value: 8, unit: "LB" });
+    });
+
+    it("should send accessorials and report their service options charges", async () => {
+      let capturedBody: Record<string, unknown> | undefined;
+      const ratedShipment = VALID_RATE_RESPONSE.RateResponse.RatedShipment[0];
+
+      nock("https://onlinetools.ups.com")
+        .post(
+          "/api/rating/v2409/Ratetimeintransit",
+          (body: Record<string, unknown>) => {
+            capturedBody = body;
+            return true;
+          },
+        )
+        .reply(200, {
+          RateResponse: {
+            ...VALID_RATE_RESPONSE.RateResponse,
+            RatedShipment: [
+              {
+                ...ratedShipment,
+                ServiceOptionsCharges: {
+                  CurrencyCode: "USD",
+                  MonetaryValue: "21.85",
+                },
+                TotalCharges: { CurrencyCode: "USD", MonetaryValue: "33.15" },
+              },
+            ],
+          },
+        });
+
+      const result = await rating.execute({
+        ...VALID_RATE_REQUEST_WITH_SERVICE,
+        packages: [
+          {
+            ...VALID_RATE_REQUEST_WITH_SERVICE.packages[0],
+            serviceOptions: {
+              signature: "SIGNATURE",
+              declaredValue: { currency: "USD", amount: 1000 },
+            },
+          },
+        ],
+        serviceOptions: { saturdayDelivery: true },
+      });
+
+      const rateReq = capturedBody!["RateRequest"] as Record<string, unknown>;
+      const shipment = rateReq["Shipment"] as Record<string, unknown>;
+      const pkg = shipment["Package"] as Record<string, unknown>;
+      expect(shipment["ShipmentServiceOptions"]).toEqual({
+        SaturdayDeliveryIndicator: "",
+      });
+      expect(pkg["PackageServiceOptions"]).toMatchObject({
+        DeliveryConfirmation: { DCISType: "2" },
+        DeclaredValue: { MonetaryValue: "1000.00" },
+      });
+
+      expect(result.quotes[0].serviceOptionsCharges).toEqual({
+        currency: "USD",
+        amount: 21.85,
+      });
+      expect(result.quotes[0].totalCharges.amount).toBe(33.15);
+    });
+
+    it("should send a hold-at-location shipment to the access point", async () => {
+      let capturedBody: Record<string, unknown> | undefined;
+
+      nock("https://onlinetools.ups.com")
+        .post(
+          "/api/rating/v2409/Shoptimeintransit",
+          (body: Record<string, unknown>) => {
+            capturedBody = body;
+            return true;
+          },
+        )
+        .reply(200, VALID_SHOP_RESPONSE);
+
+      await rating.execute(VALID_HOLD_AT_LOCATION_REQUEST);
+
+      const rateReq = capturedBody!["RateRequest"] as Record<string, unknown>;
+      const shipment = rateReq["Shipment"] as Record<string, unknown>;
+      expect(shipment["ShipmentIndicationType"]).toEqual({ Code: "01" });
+      expect(shipment["AlternateDeliveryAddress"]).toEqual({
+        Name: "CVS PHARMACY",
+        UPSAccessPointID: "U51128973",
+        Address: {
+          AddressLine: ["5950 N POINT PKWY"],
+          City: "ALPHARETTA",
+          StateProvinceCode: "GA",
+          PostalCode: "300221123",
+          CountryCode: "US",
+        },
+      });
+      // The recipient stays the ship-to party
+      const shipTo = shipment["ShipTo"] as Record<string, unknown>;
+      expect(shipTo["Name"]).toBe("Test Recipient");
+    });
+
+    it("should reject a location run by another carrier", async () => {
+      try {
+        await rating.execute({
+          ...VALID_HOLD_AT_LOCATION_REQUEST,
+          holdAtLocation: {
+            ...VALID_HOLD_AT_LOCATION_REQUEST.holdAtLocation!,
+            carrier: "FEDEX",
+          },
+        });
+        expect.fail("Should have thrown");
+      } catch (error: unknown) {
+        const err = error as { code: string; message: string };
+        expect(err.code).toBe(CarrierErrorCode.VALIDATION_ERROR);
+        expect(err.message).toBe("UPS cannot deliver to a FEDEX location");
+      }
+    });
+
     it("should handle negotiated rate response", async () => {
       nock("https://onlinetools.ups.com")
-        .post("/api/rating/v2409/Rate")
+        .post("/api/rating/v2409/Ratetimeintransit")
         .reply(200, VALID_NEGOTIATED_RATE_RESPONSE);
 
       const result = await rating.execute(VALID_RATE_REQUEST_WITH_SERVICE);
       expect(result.quotes).toHaveLength(1);
       expect(result.quotes[0].totalCharges.amount).toBe(11.3);
+      expect(result.quotes[0].negotiatedCharges?.amount).toBe(9.5);
+    });
+  });
+
+  // ─── Customs & Landed Cost ───
+
+  describe("Customs and landed cost", () => {
+    function captureRateBody(
+      onBody: (shipment: Record<string, unknown>) => void,
+    ) {
+      return nock("https://onlinetools.ups.com")
+        .post(
+          "/api/rating/v2409/Shoptimeintransit",
+          (body: Record<string, unknown>) => {
+            const rateRequest = body["RateRequest"] as Record<string, unknown>;
+            onBody(rateRequest["Shipment"] as Record<string, unknown>);
+            return true;
+          },
+        )
+        .reply(200, VALID_SHOP_RESPONSE);
+    }
+
+    it("should send the invoice total summed from commodity lines", async () => {
+      let shipment: Record<string, unknown> | undefined;
+      captureRateBody((s) => (shipment = s));
+      nock("https://onlinetools.ups.com")
+        .post("/api/landedcost/v1/quotes")
+        .reply(200, VALID_LANDED_COST_RESPONSE);
+
+      await rating.execute(VALID_INTERNATIONAL_REQUEST);
+
+      expect(shipment!["InvoiceLineTotal"]).toEqual({
+        CurrencyCode: "USD",
+        MonetaryValue: "150.00",
+      });
+    });
+
+    it("should bill duties and taxes to the shipper under DDP", async () => {
+      let shipment: Record<string, unknown> | undefined;
+      captureRateBody((s) => (shipment = s));
+      nock("https://onlinetools.ups.com")
+        .post("/api/landedcost/v1/quotes")
+        .reply(200, VALID_LANDED_COST_RESPONSE);
+
+      await rating.execute({
+        ...VALID_INTERNATIONAL_REQUEST,
+        shipperAccountNumber: "Ab1234",
+        customs: { ...VALID_INTERNATIONAL_REQUEST.customs!, incoterm: "DDP" },
+      });
+
+      const payment = shipment!["PaymentDetails"] as Record<string, unknown>;
+      expect(payment["ShipmentCharge"]).toEqual([
+        { Type: "01", BillShipper: { AccountNumber: "Ab1234" } },
+        { Type: "02", BillShipper: { AccountNumber: "Ab1234" } },
+      ]);
+    });
+
+    it("should attach estimated duties and taxes to every quote", async () => {
+      let landedCostBody: Record<string, unknown> | undefined;
+      captureRateBody(() => {});
+      nock("https://onlinetools.ups.com")
+        .post("/api/landedcost/v1/quotes", (body: Record<string, unknown>) => {
+          landedCostBody = body;
+          return true;
+        })
+        .reply(200, VALID_LANDED_COST_RESPONSE);
+
+      const result = await rating.execute(VALID_INTERNATIONAL_REQUEST);
+
+      const shipment = landedCostBody!["shipment"] as Record<string, unknown>;
+      expect(shipment["importCountryCode"]).toBe("DE");
+      expect(shipment["exportCountryCode"]).toBe("US");
+      expect(shipment["transModes"]).toBe("INT_AIR");
+      expect(shipment["shipmentItems"]).toEqual([
+        expect.objectContaining({
+          hsCode: "610910",
+          priceEach: 12.5,
+          quantity: 10,
+          originCountryCode: "US",
+        }),
+        expect.objectContaining({
+          hsCode: "420330",
+          priceEach: 25,
+          quantity: 1,
+          originCountryCode: "IT",
+        }),
+      ]);
+
+      for (const quote of result.quotes) {
+        expect(quote.estimatedDuties).toEqual({
+          currency: "USD",
+          amount: 10.5,
+        });
+        expect(quote.estimatedTaxes).toEqual({
+          currency: "USD",
+          amount: 29.61,
+        });
+      }
+    });
+
+    it("should estimate for the ship date and service rated", async () => {
+      let rateShipment: Record<string, unknown> | undefined;
+      let landedCostBody: Record<string, unknown> | undefined;
+      nock("https://onlinetools.ups.com")
+        .post(
+          "/api/rating/v2409/Ratetimeintransit",
+          (body: Record<string, unknown>) => {
+            const rateRequest = body["RateRequest"] as Record<string, unknown>;
+            rateShipment = rateRequest["Shipment"] as Record<string, unknown>;
+            return true;
+          },
+        )
+        .reply(200, VALID_RATE_RESPONSE);
+      nock("https://onlinetools.ups.com")
+        .post("/api/landedcost/v1/quotes", (body: Record<string, unknown>) => {
+          landedCostBody = body;
+          return true;
+        })
+        .reply(200, VALID_LANDED_COST_RESPONSE);
+
+      await rating.execute({
+        ...VALID_INTERNATIONAL_REQUEST,
+        serviceCode: "11",
+      });
+
+      const timeInTransit = rateShipment!["DeliveryTimeInformation"] as {
+        Pickup: { Date: string };
+      };
+      const shipment = landedCostBody!["shipment"] as Record<string, unknown>;
+      expect(shipment["shipDate"]).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+      expect((shipment["shipDate"] as string).replaceAll("-", "")).toBe(
+        timeInTransit.Pickup.Date,
+      );
+      expect(shipment["transModes"]).toBe("INT_TRUCK");
+    });
+
+    it("should still return rates when the estimate fails", async () => {
+      captureRateBody(() => {});
+      nock("https://onlinetools.ups.com")
+        .post("/api/landedcost/v1/quotes")
+        .reply(500, UPS_500_ERROR);
+
+      const result = await rating.execute(VALID_INTERNATIONAL_REQUEST);
+
+      expect(result.quotes).toHaveLength(4);
+      expect(result.quotes[0].estimatedDuties).toBeUndefined();
+      expect(result.quotes[0].warnings).toEqual(
+        expect.arrayContaining([
+          expect.stringContaining("Duties and taxes could not be estimated"),
+        ]),
+      );
+    });
+  });
+
+  describe("Dangerous goods", () => {
+    it("should declare hazmat and dry ice on the package", async () => {
+      let capturedBody: Record<string, unknown> | undefined;
+      nock("https://onlinetools.ups.com")
+        .post(
+          "/api/rating/v2409/Shoptimeintransit",
+          (body: Record<string, unknown>) => {
+            capturedBody = body;
+            return true;
+          },
+        )
+        .reply(200, VALID_SHOP_RESPONSE);
+
+      await rating.execute(VALID_DANGEROUS_GOODS_REQUEST);
+
+      const rateRequest = capturedBody!["RateRequest"] as Record<string, unknown>;
+      const shipment = rateRequest["Shipment"] as Record<string, unknown>;
+      const pkg = shipment["Package"] as Record<string, unknown>;
+      expect(pkg["PackageServiceOptions"]).toEqual({
+        HazMat: {
+          HazMatChemicalRecord: [
+            {
+              ChemicalRecordIdentifier: "1",
+              IDNumber: "UN3480",
+              ClassDivisionNumber: "9",
+              ProperShippingName: "Lithium ion batteries",
+              Quantity: "2.5",
+              UOM: "KG",
+              PackagingGroupType: "II",
+              PackagingInstructionCode: "965",
+              RegulationSet: "CFR",
+              TransportationMode: "CAO",
+              CommodityRegulatedLevelCode: "FR",
+            },
+          ],
+        },
+        DryIce: {
+          RegulationSet: "CFR",
+          DryIceWeight: { UnitOfMeasurement: { Code: "00" }, Weight: "2" },
+          MedicalUseIndicator: "",
+        },
+      });
+    });
+
+    it("should declare ground transport for a ground service", async () => {
+      let capturedBody: Record<string, unknown> | undefined;
+      nock("https://onlinetools.ups.com")
+        .post(
+          "/api/rating/v2409/Ratetimeintransit",
+          (body: Record<string, unknown>) => {
+            capturedBody = body;
+            return true;
+          },
+        )
+        .reply(200, VALID_RATE_RESPONSE);
+
+      await rating.execute({
+        ...VALID_DANGEROUS_GOODS_REQUEST,
+        serviceCode: "03",
+      });
+
+      const body = JSON.stringify(capturedBody);
+      expect(body).toContain('"TransportationMode":"Ground"');
+    });
+
+    it("should declare the regulated level that fits each item", async () => {
+      let capturedBody: Record<string, unknown> | undefined;
+      nock("https://onlinetools.ups.com")
+        .post(
+          "/api/rating/v2409/Shoptimeintransit",
+          (body: Record<string, unknown>) => {
+            capturedBody = body;
+            return true;
+          },
+        )
+        .reply(200, VALID_SHOP_RESPONSE);
+
+      await rating.execute({
+        ...VALID_DANGEROUS_GOODS_REQUEST,
+        packages: [
+          {
+            weight: { value: 3, unit: "LB" },
+            dangerousGoods: {
+              items: [
+                {
+                  unNumber: "UN3481",
+                  hazardClass: "9",
+                  properShippingName:
+                    "Lithium ion batteries contained in equipment",
+                  quantity: { value: 0.3, unit: "KG" },
+                  packingInstruction: "967",
+                  lithiumBatteryType: "LITHIUM_ION_CONTAINED_IN_EQUIPMENT",
+                },
+                {
+                  unNumber: "UN1263",
+                  hazardClass: "3",
+                  properShippingName: "Paint",
+                  quantity: { value: 1, unit: "L" },
+                  packingGroup: "III",
+                  regulatedLevel: "LIMITED_QUANTITY",
+                },
+              ],
+            },
+          },
+        ],
+      });
+
+      const rateRequest = capturedBody!["RateRequest"] as Record<string, unknown>;
+      const shipment = rateRequest["Shipment"] as Record<string, unknown>;
+      const pkg = shipment["Package"] as Record<string, unknown>;
+      const options = pkg["PackageServiceOptions"] as {
+        HazMat: { HazMatChemicalRecord: UpsHazMatChemicalRecord[] };
+      };
+      expect(
+        options.HazMat.HazMatChemicalRecord.map(
+          (record) => record.CommodityRegulatedLevelCode,
+        ),
+      ).toEqual(["LR", "LQ"]);
+    });
+
+    it("should drop excluded services and warn on air quotes", async () => {
+      const [ground] = VALID_SHOP_RESPONSE.RateResponse.RatedShipment;
+      nock("https://onlinetools.ups.com")
+        .post("/api/rating/v2409/Shoptimeintransit")
+        .reply(200, {
+          RateResponse: {
+            ...VALID_SHOP_RESPONSE.RateResponse,
+            RatedShipment: [
+              ...VALID_SHOP_RESPONSE.RateResponse.RatedShipment,
+              {
+                ...ground,
+                Service: { Code: "14", Description: "UPS Next Day Air Early" },
+              },
+            ],
+          },
+        });
+
+      const result = await rating.execute(VALID_DANGEROUS_GOODS_REQUEST);
+
+      expect(result.quotes.map((q) => q.serviceCode)).toEqual([
+        "03",
+        "02",
+        "01",
+        "12",
+      ]);
+      const cargoOnly = expect.stringContaining("cargo aircraft only");
+      expect(result.quotes[0].warnings).not.toContainEqual(cargoOnly);
+      expect(result.quotes[1].warnings).toContainEqual(cargoOnly);
+    });
+
+    it("should reject a service that cannot carry dangerous goods", async () => {
+      try {
+        await rating.execute({
+          ...VALID_DANGEROUS_GOODS_REQUEST,
+          serviceCode: "14",
+        });
+        expect.fail("Should have thrown");
+      } catch (error: unknown) {
+        const err = error as { code: string; message: string };
+        expect(err.code).toBe(CarrierErrorCode.VALIDATION_ERROR);
+        expect(err.message).toBe(
+          "UPS Next Day Air Early does not accept dangerous goods",
+        );
+      }
     });
   });
 
@@ -302,7 +802,7 @@ describe("UPS Rating Operation", () => {
   describe("Error handling", () => {
     it("should handle 400 Bad Request with structured error", async () => {
       nock("https://onlinetools.ups.com")
-        .post("/api/rating/v2409/Rate")
+        .post("/api/rating/v2409/Ratetimeintransit")
         .reply(400, UPS_400_ERROR);
 
       try {
@@ -329,7 +829,7 @@ describe("UPS Rating Operation", () => {
       rating = new UpsRatingOperation(TEST_CONFIG, authWithSpy);
 
       nock("https://onlinetools.ups.com")
-        .post("/api/rating/v2409/Rate")
+        .post("/api/rating/v2409/Ratetimeintransit")
         .reply(401, {
           response: {
             errors: [{ code: "250003", message: "Invalid Access License" }],
@@ -349,7 +849,7 @@ describe("UPS Rating Operation", () => {
 
     it("should handle 429 Rate Limit Exceeded", async () => {
       nock("https://onlinetools.ups.com")
-        .post("/api/rating/v2409/Shop")
+        .post("/api/rating/v2409/Shoptimeintransit")
         .reply(429, {
           response: {
             errors: [{ code: "429001", message: "Rate limit exceeded" }],
@@ -366,9 +866,76 @@ describe("UPS Rating Operation", () => {
       }
     });
 
+    it("should capture Retry-After and rate-limit headers on 429", async () => {
+      nock("https://onlinetools.ups.com")
+        .post("/api/rating/v2409/Shoptimeintransit")
+        .reply(429, UPS_429_ERROR, {
+          "Retry-After": "12",
+          "X-RateLimit-Remaining": "0",
+          "X-RateLimit-Reset": "1750000000",
+        });
+
+      try {
+        await rating.execute(VALID_DOMESTIC_RATE_REQUEST);
+        expect.fail("Should have thrown");
+      } catch (error: unknown) {
+        const err = error as { code: string; details: Record<string, unknown> };
+        expect(err.code).toBe(CarrierErrorCode.RATE_LIMIT_ERROR);
+        expect(err.details).toMatchObject({
+          retryAfterMs: 12_000,
+          rateLimitRemaining: 0,
+          rateLimitResetAt: "2025-06-15T15:06:40.000Z",
+        });
+      }
+    });
+
+    it("should read Retry-After given as an HTTP date", async () => {
+      const retryAt = new Date(Date.now() + 90_000).toUTCString();
+      nock("https://onlinetools.ups.com")
+        .post("/api/rating/v2409/Shoptimeintransit")
+        .reply(503, UPS_500_ERROR, { "Retry-After": retryAt });
+
+      try {
+        await rating.execute(VALID_DOMESTIC_RATE_REQUEST);
+        expect.fail("Should have thrown");
+      } catch (error: unknown) {
+        const err = error as { details: { retryAfterMs: number } };
+        // HTTP dates have whole-second precision
+        expect(err.details.retryAfterMs).toBeGreaterThan(88_000);
+        expect(err.details.retryAfterMs).toBeLessThanOrEqual(90_000);
+      }
+    });
+
+    it("should share the account's rate limit across operations", async () => {
+      const limitedConfig: UpsConfig = {
+        ...TEST_CONFIG,
+        accountNumber: "RATE-LIMITED",
+        rateLimit: { requestsPerSecond: 1, maxQueued: 0 },
+      };
+      nock("https://onlinetools.ups.com")
+        .post("/api/rating/v2409/Shoptimeintransit")
+        .reply(200, VALID_SHOP_RESPONSE);
+
+      await new UpsRatingOperation(limitedConfig, mockAuth).execute(
+        VALID_DOMESTIC_RATE_REQUEST,
+      );
+
+      // Tracking draws on the same account budget the rating call just spent
+      try {
+        await new UpsTrackingOperation(limitedConfig, mockAuth).execute({
+          trackingNumber: "1Z999AA10123456784",
+        });
+        expect.fail("Should have thrown");
+      } catch (error: unknown) {
+        const err = error as { code: string; message: string };
+        expect(err.code).toBe(CarrierErrorCode.RATE_LIMIT_ERROR);
+        expect(err.message).toBe("UPS request queue is full (max 0 waiting)");
+      }
+    });
+
     it("should handle 500 Internal Server Error as retryable", async () => {
       nock("https://onlinetools.ups.com")
-        .post("/api/rating/v2409/Shop")
+        .post("/api/rating/v2409/Shoptimeintransit")
         .reply(500, UPS_500_ERROR);
 
       try {
@@ -384,7 +951,7 @@ describe("UPS Rating Operation", () => {
 
     it("should handle network errors", async () => {
       nock("https://onlinetools.ups.com")
-        .post("/api/rating/v2409/Shop")
+        .post("/api/rating/v2409/Shoptimeintransit")
         .replyWithError("ECONNREFUSED");
 
       try {
@@ -401,9 +968,13 @@ describe("UPS Rating Operation", () => {
       "should handle timeout errors",
       async () => {
         nock("https://onlinetools.ups.com")
-          .post("/api/rating/v2409/Shop")
-          .delayConnection(15000)
+          .post("/api/rating/v2409/Shoptimeintransit")
+          .delayConnection(1_000)
           .reply(200, VALID_SHOP_RESPONSE);
+        rating = new UpsRatingOperation(
+          { ...TEST_CONFIG, timeoutMs: 50 },
+          mockAuth,
+        );
 
         try {
           await rating.execute(VALID_DOMESTIC_RATE_REQUEST);
@@ -414,12 +985,37 @@ describe("UPS Rating Operation", () => {
           expect(err.details.retryable).toBe(true);
         }
       },
-      15_000,
     );
 
+    it("should cancel the request when the caller's signal aborts", async () => {
+      nock("https://onlinetools.ups.com")
+        .post("/api/rating/v2409/Shoptimeintransit")
+        .delayConnection(1_000)
+        .reply(200, VALID_SHOP_RESPONSE);
+      const controller = new AbortController();
+
+      const result = rating.execute(VALID_DOMESTIC_RATE_REQUEST, {
+        signal: controller.signal,
+      });
+      setTimeout(() => controller.abort(), 20);
+
+      try {
+        await result;
+        expect.fail("Should have thrown");
+      } catch (error: unknown) {
+        const err = error as CarrierError;
+        expect(err.code).toBe(CarrierErrorCode.TIMEOUT_ERROR);
+        expect(err.message).toBe(
+          "Request cancelled before the carrier responded",
+        );
+        expect(err.details.carrier).toBe("UPS");
+        expect(err.details.retryable).toBe(false);
+      }
+    });
+
     it("should handle malformed JSON response", async () => {
       nock("https://onlinetools.ups.com")
-        .post("/api/rating/v2409/Shop")
+        .post("/api/rating/v2409/Shoptimeintransit")
         .reply(200, "not-json-at-all", {
           "Content-Type": "text/plain",
         });
@@ -435,7 +1031,7 @@ describe("UPS Rating Operation", () => {
 
     it("should handle response missing RateResponse envelope", async () => {
       nock("https://onlinetools.ups.com")
-        .post("/api/rating/v2409/Shop")
+        .post("/api/rating/v2409/Shoptimeintransit")
         .reply(200, { SomethingElse: {} });
 
       try {
@@ -450,7 +1046,7 @@ describe("UPS Rating Operation", () => {
 
     it("should handle response with missing RatedShipment array", async () => {
       nock("https://onlinetools.ups.com")
-        .post("/api/rating/v2409/Shop")
+        .post("/api/rating/v2409/Shoptimeintransit")
         .reply(200, {
           RateResponse: {
             Response: {
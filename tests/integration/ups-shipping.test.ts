@@ -0,0 +1,489 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import nock from "nock";
+import { UpsCarrierClient } from "../../src/carriers/ups/client.js";
+import { CarrierErrorCode } from "../../src/domain/errors.js";
+import type { UpsConfig } from "../../src/config/index.js";
+import type { ShipmentRequest } from "../../src/domain/models.js";
+import {
+  VALID_OAUTH_TOKEN_RESPONSE,
+  UPS_400_ERROR,
+} from "../fixtures/ups-responses.js";
+import {
+  VALID_SHIPMENT_RESPONSE,
+  VALID_SINGLE_PACKAGE_SHIPMENT_RESPONSE,
+  VALID_VOID_RESPONSE,
+  VALID_PARTIAL_VOID_RESPONSE,
+  UPS_VOID_TOO_LATE_ERROR,
+} from "../fixtures/ups-shipping-responses.js";
+import {
+  VALID_DANGEROUS_GOODS_REQUEST,
+  VALID_HOLD_AT_LOCATION_REQUEST,
+  VALID_INTERNATIONAL_REQUEST,
+  VALID_MULTI_PACKAGE_REQUEST,
+  VALID_RATE_REQUEST_WITH_SERVICE,
+} from "../fixtures/rate-requests.js";
+
+const TEST_CONFIG: UpsConfig = {
+  clientId: "test-client-id",
+  clientSecret: "test-client-secret",
+  accountNumber: "222006",
+  baseUrl: "https://onlinetools.ups.com/api",
+  oauthUrl: "https://onlinetools.ups.com/security/v1/oauth/token",
+};
+
+const SHIPMENT_REQUEST: ShipmentRequest = {
+  ...VALID_MULTI_PACKAGE_REQUEST,
+  serviceCode: "03",
+  references: ["ORDER-1042"],
+};
+
+function setupAuthMock() {
+  return nock("https://onlinetools.ups.com")
+    .post("/security/v1/oauth/token")
+    .reply(200, VALID_OAUTH_TOKEN_RESPONSE);
+}
+
+describe("UPS Shipping & Void (end-to-end with stubbed HTTP)", () => {
+  let client: UpsCarrierClient;
+
+  beforeEach(() => {
+    client = new UpsCarrierClient(TEST_CONFIG);
+    nock.cleanAll();
+  });
+
+  afterEach(() => {
+    nock.cleanAll();
+    nock.enableNetConnect();
+  });
+
+  // ─── Label Purchase ───
+
+  describe("createShipment", () => {
+    it("should build a Ship API request billed to the configured account", async () => {
+      setupAuthMock();
+      let capturedBody: Record<string, unknown> | undefined;
+
+      nock("https://onlinetools.ups.com")
+        .post("/api/shipments/v2409/ship", (body: Record<string, unknown>) => {
+          capturedBody = body;
+          return true;
+        })
+        .reply(200, VALID_SHIPMENT_RESPONSE);
+
+      await client.createShipment(SHIPMENT_REQUEST);
+
+      const shipmentRequest = capturedBody!["ShipmentRequest"] as Record<
+        string,
+        unknown
+      >;
+      const shipment = shipmentRequest["Shipment"] as Record<string, unknown>;
+      const packages = shipment["Package"] as Array<Record<string, unknown>>;
+
+      expect(shipment["Service"]).toEqual({
+        Code: "03",
+        Description: "UPS Ground",
+      });
+      expect(shipment["PaymentInformation"]).toEqual({
+        ShipmentCharge: [
+          { Type: "01", BillShipper: { AccountNumber: "222006" } },
+        ],
+      });
+      expect(packages).toHaveLength(2);
+      expect(packages[0]["Packaging"]).toEqual({
+        Code: "02",
+        Description: "Customer Supplied Package",
+      });
+      expect(packages[0]["PackagingType"]).toBeUndefined();
+      expect(packages[1]["ReferenceNumber"]).toEqual([
+        { Value: "ORDER-1042" },
+      ]);
+      expect(shipmentRequest["LabelSpecification"]).toEqual({
+        LabelImageFormat: { Code: "GIF" },
+      });
+    });
+
+    it("should return tracking numbers and labels per package in order", async () => {
+      setupAuthMock();
+      nock("https://onlinetools.ups.com")
+        .post("/api/shipments/v2409/ship")
+        .reply(200, VALID_SHIPMENT_RESPONSE);
+
+      const result = await client.createShipment(SHIPMENT_REQUEST);
+
+      expect(result.carrier).toBe("UPS");
+      expect(result.shipmentId).toBe("1Z2220060290602143");
+      expect(result.packages.map((p) => p.trackingNumber)).toEqual([
+        "1Z2220060290602143",
+        "1Z2220060291994175",
+      ]);
+      expect(result.packages[0].label.format).toBe("GIF");
+      expect(result.packages[0].label.data).toMatch(/^R0lGOD/);
+      expect(result.totalCharges).toEqual({ currency: "USD", amount: 27.45 });
+      expect(result.billingWeight).toEqual({ value: 11, unit: "LB" });
+      expect(result.warnings).toHaveLength(1);
+    });
+
+    it("should request thermal stock for ZPL labels", async () => {
+      setupAuthMock();
+      let capturedBody: Record<string, unknown> | undefined;
+
+      nock("https://onlinetools.ups.com")
+        .post("/api/shipments/v2409/ship", (body: Record<string, unknown>) => {
+          capturedBody = body;
+          return true;
+        })
+        .reply(200, VALID_SINGLE_PACKAGE_SHIPMENT_RESPONSE);
+
+      const result = await client.createShipment({
+        ...VALID_RATE_REQUEST_WITH_SERVICE,
+        serviceCode: "03",
+        labelFormat: "ZPL",
+        shipperAccountNumber: "12345E",
+      });
+
+      const shipmentRequest = capturedBody!["ShipmentRequest"] as Record<
+        string,
+        unknown
+      >;
+      expect(shipmentRequest["LabelSpecification"]).toEqual({
+        LabelImageFormat: { Code: "ZPL" },
+        LabelStockSize: { Height: "6", Width: "4" },
+      });
+
+      expect(result.packages).toHaveLength(1);
+      expect(result.packages[0].label.format).toBe("ZPL");
+      expect(result.negotiatedCharges).toEqual({
+        currency: "USD",
+        amount: 9.5,
+      });
+    });
+
+    it("should ship a hold-at-location package to the access point", async () => {
+      setupAuthMock();
+      let capturedBody: Record<string, unknown> | undefined;
+
+      nock("https://onlinetools.ups.com")
+        .post("/api/shipments/v2409/ship", (body: Record<string, unknown>) => {
+          capturedBody = body;
+          return true;
+        })
+        .reply(200, VALID_SINGLE_PACKAGE_SHIPMENT_RESPONSE);
+
+      await client.createShipment({
+        ...VALID_HOLD_AT_LOCATION_REQUEST,
+        serviceCode: "03",
+      });
+
+      const shipmentRequest = capturedBody!["ShipmentRequest"] as Record<
+        string,
+        unknown
+      >;
+      const shipment = shipmentRequest["Shipment"] as Record<string, unknown>;
+      expect(shipment["ShipmentIndicationType"]).toEqual({ Code: "01" });
+      expect(shipment["AlternateDeliveryAddress"]).toMatchObject({
+        Name: "CVS PHARMACY",
+        UPSAccessPointID: "U51128973",
+      });
+    });
+
+    it("should attach a commercial invoice and bill duties under DDP", async () => {
+      setupAuthMock();
+      let capturedBody: Record<string, unknown> | undefined;
+
+      nock("https://onlinetools.ups.com")
+        .post("/api/shipments/v2409/ship", (body: Record<string, unknown>) => {
+          capturedBody = body;
+          return true;
+        })
+        .reply(200, VALID_SINGLE_PACKAGE_SHIPMENT_RESPONSE);
+
+      await client.createShipment({
+        ...VALID_INTERNATIONAL_REQUEST,
+        serviceCode: "65",
+        shipDate: "2099-03-02",
+        customs: { ...VALID_INTERNATIONAL_REQUEST.customs!, incoterm: "DDP" },
+      });
+
+      const shipmentRequest = capturedBody!["ShipmentRequest"] as Record<
+        string,
+        unknown
+      >;
+      const shipment = shipmentRequest["Shipment"] as Record<string, unknown>;
+      expect(shipment["PaymentInformation"]).toEqual({
+        ShipmentCharge: [
+          { Type: "01", BillShipper: { AccountNumber: "222006" } },
+          { Type: "02", BillShipper: { AccountNumber: "222006" } },
+        ],
+      });
+      const options = shipment["ShipmentServiceOptions"] as Record<
+        string,
+        unknown
+      >;
+      expect(options["InternationalForms"]).toMatchObject({
+        FormType: "01",
+        InvoiceDate: "20990302",
+        ReasonForExport: "SALE",
+        CurrencyCode: "USD",
+        TermsOfShipment: "DDP",
+        Product: [
+          {
+            Description: "Cotton T-shirts",
+            CommodityCode: "610910",
+            OriginCountryCode: "US",
+            Unit: {
+              Number: "10",
+              Value: "12.50",
+              UnitOfMeasurement: { Code: "PCS" },
+            },
+          },
+          expect.objectContaining({ CommodityCode: "420330" }),
+        ],
+      });
+    });
+
+    it("should declare dangerous goods on the shipped package", async () => {
+      setupAuthMock();
+      let capturedBody: Record<string, unknown> | undefined;
+
+      nock("https://onlinetools.ups.com")
+        .post("/api/shipments/v2409/ship", (body: Record<string, unknown>) => {
+          capturedBody = body;
+          return true;
+        })
+        .reply(200, VALID_SINGLE_PACKAGE_SHIPMENT_RESPONSE);
+
+      await client.createShipment({
+        ...VALID_DANGEROUS_GOODS_REQUEST,
+        serviceCode: "02",
+      });
+
+      const shipmentRequest = capturedBody!["ShipmentRequest"] as Record<
+        string,
+        unknown
+      >;
+      const shipment = shipmentRequest["Shipment"] as Record<string, unknown>;
+      const [pkg] = shipment["Package"] as Array<Record<string, unknown>>;
+      expect(pkg["PackageServiceOptions"]).toMatchObject({
+        HazMat: {
+          HazMatChemicalRecord: [
+            expect.objectContaining({
+              IDNumber: "UN3480",
+              TransportationMode: "CAO",
+            }),
+          ],
+        },
+        DryIce: expect.objectContaining({ RegulationSet: "CFR" }),
+      });
+    });
+
+    it("should reject PDF labels before calling UPS", async () => {
+      try {
+        await client.createShipment({
+          ...SHIPMENT_REQUEST,
+          labelFormat: "PDF",
+        } as unknown as ShipmentRequest);
+        expect.fail("Should have thrown");
+      } catch (error: unknown) {
+        const err = error as { code: string; message: string };
+        expect(err.code).toBe(CarrierErrorCode.VALIDATION_ERROR);
+        expect(err.message).toContain("labelFormat");
+      }
+    });
+
+    it("should require a service code", async () => {
+      try {
+        await client.createShipment({
+          ...SHIPMENT_REQUEST,
+          serviceCode: "",
+        });
+        expect.fail("Should have thrown");
+      } catch (error: unknown) {
+        const err = error as { code: string; message: string };
+        expect(err.code).toBe(CarrierErrorCode.VALIDATION_ERROR);
+        expect(err.message).toContain("serviceCode");
+      }
+    });
+
+    it("should require a shipper account number", async () => {
+      const noAccountClient = new UpsCarrierClient({
+        ...TEST_CONFIG,
+        accountNumber: undefined,
+      });
+
+      try {
+        await noAccountClient.createShipment(SHIPMENT_REQUEST);
+        expect.fail("Should have thrown");
+      } catch (error: unknown) {
+        const err = error as { code: string };
+        expect(err.code).toBe(CarrierErrorCode.CONFIGURATION_ERROR);
+      }
+    });
+
+    it("should surface UPS errors tagged with the carrier", async () => {
+      setupAuthMock();
+      nock("https://onlinetools.ups.com")
+        .post("/api/shipments/v2409/ship")
+        .reply(400, UPS_400_ERROR);
+
+      try {
+        await client.createShipment(SHIPMENT_REQUEST);
+        expect.fail("Should have thrown");
+      } catch (error: unknown) {
+        const err = error as {
+          code: string;
+          details: { carrier: string; upstreamCode: string };
+        };
+        expect(err.code).toBe(CarrierErrorCode.CARRIER_API_ERROR);
+        expect(err.details.carrier).toBe("UPS");
+        expect(err.details.upstreamCode).toBe("111210");
+      }
+    });
+
+    it("should throw PARSE_ERROR when a package has no label", async () => {
+      setupAuthMock();
+      nock("https://onlinetools.ups.com")
+        .post("/api/shipments/v2409/ship")
+        .reply(200, {
+          ShipmentResponse: {
+            ...VALID_SHIPMENT_RESPONSE.ShipmentResponse,
+            ShipmentResults: {
+              ...VALID_SHIPMENT_RESPONSE.ShipmentResponse.ShipmentResults,
+              PackageResults: { TrackingNumber: "1Z2220060290602143" },
+            },
+          },
+        });
+
+      try {
+        await client.createShipment(SHIPMENT_REQUEST);
+        expect.fail("Should have thrown");
+      } catch (error: unknown) {
+        const err = error as { code: string; message: string };
+        expect(err.code).toBe(CarrierErrorCode.PARSE_ERROR);
+        expect(err.message).toContain("1Z2220060290602143");
+      }
+    });
+  });
+
+  // ─── Void ───
+
+  describe("voidShipment", () => {
+    it("should void the shipment by its identification number", async () => {
+      setupAuthMock();
+      const scope = nock("https://onlinetools.ups.com")
+        .delete("/api/shipments/v2409/void/cancel/1Z2220060290602143")
+        .matchHeader(
+          "Authorization",
+          `Bearer ${VALID_OAUTH_TOKEN_RESPONSE.access_token}`,
+        )
+        .reply(200, VALID_VOID_RESPONSE);
+
+      const result = await client.voidShipment({
+        trackingOrShipmentId: "1Z2220060290602143",
+      });
+
+      expect(scope.isDone()).toBe(true);
+      expect(result).toEqual({
+        trackingOrShipmentId: "1Z2220060290602143",
+        voided: true,
+      });
+    });
+
+    it("should void a single package by tracking number", async () => {
+      setupAuthMock();
+      const scope = nock("https://onlinetools.ups.com")
+        .delete("/api/shipments/v2409/void/cancel/1Z2220060290602143")
+        .query({ trackingnumber: "1Z2220060291994175" })
+        .reply(200, VALID_VOID_RESPONSE);
+
+      const result = await client.voidShipment({
+        trackingOrShipmentId: "1Z2220060290602143",
+        trackingNumbers: ["1Z2220060291994175"],
+      });
+
+      expect(scope.isDone()).toBe(true);
+      expect(result.voided).toBe(true);
+    });
+
+    it("should report per-package results for a partial void", async () => {
+      setupAuthMock();
+      const scope = nock("https://onlinetools.ups.com")
+        .delete("/api/shipments/v2409/void/cancel/1Z2220060290602143")
+        .query({
+          trackingnumber: '["1Z2220060290602143","1Z2220060291994175"]',
+        })
+        .reply(200, VALID_PARTIAL_VOID_RESPONSE);
+
+      const result = await client.voidShipment({
+        trackingOrShipmentId: "1Z2220060290602143",
+        trackingNumbers: ["1Z2220060290602143", "1Z2220060291994175"],
+      });
+
+      expect(scope.isDone()).toBe(true);
+      expect(result.voided).toBe(false);
+      expect(result.packages).toEqual([
+        { trackingNumber: "1Z2220060290602143", voided: true },
+        {
+          trackingNumber: "1Z2220060291994175",
+          voided: false,
+          message: "Package has been picked up",
+        },
+      ]);
+    });
+
+    it("should raise VOID_NOT_ALLOWED when it is too late to void", async () => {
+      setupAuthMock();
+      nock("https://onlinetools.ups.com")
+        .delete("/api/shipments/v2409/void/cancel/1Z2220060290602143")
+        .reply(400, UPS_VOID_TOO_LATE_ERROR);
+
+      try {
+        await client.voidShipment({
+          trackingOrShipmentId: "1Z2220060290602143",
+        });
+        expect.fail("Should have thrown");
+      } catch (error: unknown) {
+        const err = error as {
+          code: string;
+          message: string;
+          details: {
+            carrier: string;
+            upstreamCode: string;
+            retryable: boolean;
+          };
+        };
+        expect(err.code).toBe(CarrierErrorCode.VOID_NOT_ALLOWED);
+        expect(err.message).toContain("already been picked up");
+        expect(err.details.carrier).toBe("UPS");
+        expect(err.details.upstreamCode).toBe("190117");
+        expect(err.details.retryable).toBe(false);
+      }
+    });
+
+    it("should leave other void failures as carrier API errors", async () => {
+      setupAuthMock();
+      nock("https://onlinetools.ups.com")
+        .delete("/api/shipments/v2409/void/cancel/1Z2220060290602143")
+        .reply(400, UPS_400_ERROR);
+
+      try {
+        await client.voidShipment({
+          trackingOrShipmentId: "1Z2220060290602143",
+        });
+        expect.fail("Should have thrown");
+      } catch (error: unknown) {
+        const err = error as { code: string };
+        expect(err.code).toBe(CarrierErrorCode.CARRIER_API_ERROR);
+      }
+    });
+
+    it("should reject an empty shipment ID", async () => {
+      try {
+        await client.voidShipment({ trackingOrShipmentId: "" });
+        expect.fail("Should have thrown");
+      } catch (error: unknown) {
+        const err = error as { code: string };
+        expect(err.code).toBe(CarrierErrorCode.VALIDATION_ERROR);
+      }
+    });
+  });
+});
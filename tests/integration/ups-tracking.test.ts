@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import nock from "nock";
+import { UpsCarrierClient } from "../../src/carriers/ups/client.js";
+import { CarrierErrorCode } from "../../src/domain/errors.js";
+import { TrackingStatus } from "../../src/domain/models.js";
+import type { UpsConfig } from "../../src/config/index.js";
+import {
+  VALID_OAUTH_TOKEN_RESPONSE,
+  UPS_500_ERROR,
+} from "../fixtures/ups-responses.js";
+import {
+  IN_TRANSIT_TRACK_RESPONSE,
+  DELIVERED_TRACK_RESPONSE,
+  TRACKING_NOT_FOUND_RESPONSE,
+} from "../fixtures/ups-tracking-responses.js";
+
+const TEST_CONFIG: UpsConfig = {
+  clientId: "test-client-id",
+  clientSecret: "test-client-secret",
+  baseUrl: "https://onlinetools.ups.com/api",
+  oauthUrl: "https://onlinetools.ups.com/security/v1/oauth/token",
+};
+
+function setupAuthMock() {
+  return nock("https://onlinetools.ups.com")
+    .post("/security/v1/oauth/token")
+    .reply(200, VALID_OAUTH_TOKEN_RESPONSE);
+}
+
+function mockTrack(trackingNumber: string) {
+  return nock("https://onlinetools.ups.com")
+    .get(`/api/track/v1/details/${trackingNumber}`)
+    .query({ locale: "en_US" });
+}
+
+describe("UPS Tracking (end-to-end with stubbed HTTP)", () => {
+  let client: UpsCarrierClient;
+
+  beforeEach(() => {
+    client = new UpsCarrierClient(TEST_CONFIG);
+    nock.cleanAll();
+  });
+
+  afterEach(() => {
+    nock.cleanAll();
+    nock.enableNetConnect();
+  });
+
+  it("should call the Track API with the bearer token", async () => {
+    setupAuthMock();
+    const scope = mockTrack("1Z2220060290602143")
+      .matchHeader(
+        "Authorization",
+        `Bearer ${VALID_OAUTH_TOKEN_RESPONSE.access_token}`,
+      )
+      .matchHeader("transactionSrc", "carrier-integration-service")
+      .reply(200, IN_TRANSIT_TRACK_RESPONSE);
+
+    await client.trackShipment({ trackingNumber: "1Z2220060290602143" });
+
+    expect(scope.isDone()).toBe(true);
+  });
+
+  it("should normalize an in-transit package", async () => {
+    setupAuthMock();
+    mockTrack("1Z2220060290602143").reply(200, IN_TRANSIT_TRACK_RESPONSE);
+
+    const result = await client.trackShipment({
+      trackingNumber: "1Z2220060290602143",
+    });
+
+    expect(result.carrier).toBe("UPS");
+    expect(result.trackingNumber).toBe("1Z2220060290602143");
+    expect(result.status).toBe(TrackingStatus.IN_TRANSIT);
+    expect(result.deliveredAt).toBeUndefined();
+  });
+
+  it("should prefer a rescheduled delivery date over the original", async () => {
+    setupAuthMock();
+    mockTrack("1Z2220060290602143").reply(200, IN_TRANSIT_TRACK_RESPONSE);
+
+    const result = await client.trackShipment({
+      trackingNumber: "1Z2220060290602143",
+    });
+
+    expect(result.estimatedDeliveryDate).toBe("2024-06-28");
+  });
+
+  it("should map scan events with location and offset timestamps", async () => {
+    setupAuthMock();
+    mockTrack("1Z2220060290602143").reply(200, IN_TRANSIT_TRACK_RESPONSE);
+
+    const result = await client.trackShipment({
+      trackingNumber: "1Z2220060290602143",
+    });
+
+    expect(result.events).toHaveLength(3);
+    expect(result.events[0]).toEqual({
+      timestamp: "2024-06-26T04:30:00-05:00",
+      status: TrackingStatus.IN_TRANSIT,
+      description: "Departed from Facility",
+      location: {
+        city: "Hodgkins",
+        stateProvinceCode: "IL",
+        postalCode: undefined,
+        countryCode: "US",
+      },
+      carrierCode: "DP",
+    });
+    expect(result.events[2].status).toBe(TrackingStatus.LABEL_CREATED);
+  });
+
+  it("should order events most recent first", async () => {
+    setupAuthMock();
+    mockTrack("1Z2220060290602143").reply(200, {
+      trackResponse: {
+        shipment: [
+          {
+            ...IN_TRANSIT_TRACK_RESPONSE.trackResponse.shipment[0],
+            package: [
+              {
+                ...IN_TRANSIT_TRACK_RESPONSE.trackResponse.shipment[0]
+                  .package![0],
+                activity: [
+                  ...IN_TRANSIT_TRACK_RESPONSE.trackResponse.shipment[0]
+                    .package![0].activity!,
+                ].reverse(),
+              },
+            ],
+          },
+        ],
+      },
+    });
+
+    const result = await client.trackShipment({
+      trackingNumber: "1Z2220060290602143",
+    });
+
+    expect(result.events.map((e) => e.carrierCode)).toEqual([
+      "DP",
+      "PU",
+      "MP",
+    ]);
+  });
+
+  it("should report delivery with its timestamp and no estimate", async () => {
+    setupAuthMock();
+    mockTrack("1Z12345E0205271688").reply(200, DELIVERED_TRACK_RESPONSE);
+
+    const result = await client.trackShipment({
+      trackingNumber: "1Z12345E0205271688",
+    });
+
+    expect(result.status).toBe(TrackingStatus.DELIVERED);
+    expect(result.deliveredAt).toBe("2024-06-27T10:32:00-07:00");
+    expect(result.estimatedDeliveryDate).toBeUndefined();
+    expect(result.events.map((e) => e.status)).toEqual([
+      TrackingStatus.DELIVERED,
+      TrackingStatus.OUT_FOR_DELIVERY,
+      TrackingStatus.EXCEPTION,
+    ]);
+  });
+
+  it("should raise a carrier error for unknown tracking numbers", async () => {
+    setupAuthMock();
+    mockTrack("1Z9999999999999999").reply(200, TRACKING_NOT_FOUND_RESPONSE);
+
+    try {
+      await client.trackShipment({ trackingNumber: "1Z9999999999999999" });
+      expect.fail("Should have thrown");
+    } catch (error: unknown) {
+      const err = error as {
+        code: string;
+        details: { upstreamCode: string; retryable: boolean };
+      };
+      expect(err.code).toBe(CarrierErrorCode.CARRIER_API_ERROR);
+      expect(err.details.upstreamCode).toBe("TW0001");
+      expect(err.details.retryable).toBe(false);
+    }
+  });
+
+  it("should surface upstream failures as retryable carrier errors", async () => {
+    setupAuthMock();
+    mockTrack("1Z2220060290602143").reply(500, UPS_500_ERROR);
+
+    try {
+      await client.trackShipment({ trackingNumber: "1Z2220060290602143" });
+      expect.fail("Should have thrown");
+    } catch (error: unknown) {
+      const err = error as {
+        code: string;
+        details: { carrier: string; retryable: boolean };
+      };
+      expect(err.code).toBe(CarrierErrorCode.CARRIER_API_ERROR);
+      expect(err.details.carrier).toBe("UPS");
+      expect(err.details.retryable).toBe(true);
+    }
+  });
+
+  it("should reject malformed tracking numbers before calling UPS", async () => {
+    try {
+      await client.trackShipment({ trackingNumber: "1Z-22" });
+      expect.fail("Should have thrown");
+    } catch (error: unknown) {
+      const err = error as { code: string };
+      expect(err.code).toBe(CarrierErrorCode.VALIDATION_ERROR);
+    }
+  });
+});
@@ -0,0 +1,248 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildUspsPriceRequest,
+  mapUspsPricesToQuote,
+  resolveUspsServices,
+} from "../../src/carriers/usps/mapper.js";
+import { CarrierErrorCode } from "../../src/domain/errors.js";
+import type { RateRequest } from "../../src/domain/models.js";
+import type {
+  UspsDomesticPriceRequest,
+  UspsInternationalPriceRequest,
+} from "../../src/carriers/usps/types.js";
+import {
+  USPS_GROUND_ADVANTAGE_PRICE,
+  USPS_PRIORITY_MAIL_EXPRESS_PRICE,
+} from "../fixtures/usps-responses.js";
+import {
+  VALID_DOMESTIC_RATE_REQUEST,
+  VALID_INTERNATIONAL_REQUEST,
+} from "../fixtures/rate-requests.js";
+
+const MAILING_DATE = "2024-07-15";
+
+function expectValidationError(fn: () => unknown, fragment: string) {
+  try {
+    fn();
+    expect.fail("Should have thrown");
+  } catch (error: unknown) {
+    const err = error as { code: string; message: string };
+    expect(err.code).toBe(CarrierErrorCode.VALIDATION_ERROR);
+    expect(err.message).toContain(fragment);
+  }
+}
+
+describe("USPS Mapper", () => {
+  describe("resolveUspsServices", () => {
+    it("should shop domestic mail classes for US destinations", () => {
+      expect(resolveUspsServices(VALID_DOMESTIC_RATE_REQUEST)).toEqual([
+        "USPS_GROUND_ADVANTAGE",
+        "PRIORITY_MAIL",
+        "PRIORITY_MAIL_EXPRESS",
+      ]);
+    });
+
+    it("should shop international mail classes for foreign destinations", () => {
+      expect(resolveUspsServices(VALID_INTERNATIONAL_REQUEST)).toEqual([
+        "FIRST_CLASS_PACKAGE_INTERNATIONAL",
+        "PRIORITY_MAIL_INTERNATIONAL",
+        "PRIORITY_MAIL_EXPRESS_INTERNATIONAL",
+      ]);
+    });
+
+    it("should treat US territories as domestic", () => {
+      const request: RateRequest = {
+        ...VALID_DOMESTIC_RATE_REQUEST,
+        destination: {
+          ...VALID_DOMESTIC_RATE_REQUEST.destination,
+          countryCode: "PR",
+        },
+      };
+      expect(resolveUspsServices(request)).toContain("USPS_GROUND_ADVANTAGE");
+    });
+
+    it("should reject non-US origins", () => {
+      expectValidationError(
+        () =>
+          resolveUspsServices({
+            ...VALID_INTERNATIONAL_REQUEST,
+            origin: VALID_INTERNATIONAL_REQUEST.destination,
+          }),
+        "originating in the US",
+      );
+    });
+
+    it("should reject a domestic service for an international lane", () => {
+      expectValidationError(
+        () =>
+          resolveUspsServices({
+            ...VALID_INTERNATIONAL_REQUEST,
+            serviceCode: "PRIORITY_MAIL",
+          }),
+        "international",
+      );
+    });
+
+    it("should reject unknown service codes", () => {
+      expectValidationError(
+        () =>
+          resolveUspsServices({
+            ...VALID_DOMESTIC_RATE_REQUEST,
+            serviceCode: "PARCEL_SELECT",
+          }),
+        "PARCEL_SELECT",
+      );
+    });
+  });
+
+  describe("buildUspsPriceRequest", () => {
+    it("should build a domestic single-piece request with 5-digit ZIPs", () => {
+      const request: RateRequest = {
+        ...VALID_DOMESTIC_RATE_REQUEST,
+        destination: {
+          ...VALID_DOMESTIC_RATE_REQUEST.destination,
+          postalCode: "300051234",
+        },
+      };
+      const body = buildUspsPriceRequest(
+        request,
+        request.packages[0],
+        "USPS_GROUND_ADVANTAGE",
+        MAILING_DATE,
+      ) as UspsDomesticPriceRequest;
+
+      expect(body).toMatchObject({
+        originZIPCode: "21093",
+        destinationZIPCode: "30005",
+        weight: 5,
+        length: 10,
+        width: 8,
+        height: 6,
+        mailClass: "USPS_GROUND_ADVANTAGE",
+        processingCategory: "MACHINABLE",
+        rateIndicator: "SP",
+        priceType: "RETAIL",
+        mailingDate: MAILING_DATE,
+      });
+    });
+
+    it("should convert kilograms and centimeters for international requests", () => {
+      const body = buildUspsPriceRequest(
+        VALID_INTERNATIONAL_REQUEST,
+        VALID_INTERNATIONAL_REQUEST.packages[0],
+        "PRIORITY_MAIL_INTERNATIONAL",
+        MAILING_DATE,
+      ) as UspsInternationalPriceRequest;
+
+      expect(body.destinationCountryCode).toBe("DE");
+      expect(body.foreignPostalCode).toBe("72181");
+      expect(body.weight).toBe(4.41);
+      expect(body.length).toBe(7.87);
+      expect(body.width).toBe(5.91);
+      expect(body.height).toBe(3.94);
+    });
+
+    it("should omit dimensions and use the flat-rate indicator for flat-rate boxes", () => {
+      const body = buildUspsPriceRequest(
+        VALID_DOMESTIC_RATE_REQUEST,
+        VALID_DOMESTIC_RATE_REQUEST.packages[0],
+        "PRIORITY_MAIL_MEDIUM_FLAT_RATE_BOX",
+        MAILING_DATE,
+      );
+
+      expect(body.rateIndicator).toBe("FB");
+      expect(body.mailClass).toBe("PRIORITY_MAIL");
+      expect(body.length).toBeUndefined();
+    });
+
+    it("should mark oversized packages as nonstandard", () => {
+      const body = buildUspsPriceRequest(
+        VALID_DOMESTIC_RATE_REQUEST,
+        {
+          weight: { value: 5, unit: "LB" },
+          dimensions: { length: 30, width: 10, height: 10, unit: "IN" },
+        },
+        "USPS_GROUND_ADVANTAGE",
+        MAILING_DATE,
+      );
+      expect(body.processingCategory).toBe("NONSTANDARD");
+    });
+
+    it("should reject packages over 70 lb", () => {
+      expectValidationError(
+        () =>
+          buildUspsPriceRequest(
+            VALID_DOMESTIC_RATE_REQUEST,
+            { weight: { value: 71, unit: "LB" } },
+            "PRIORITY_MAIL",
+            MAILING_DATE,
+          ),
+        "70 lb",
+      );
+    });
+
+    it("should apply the larger length + girth allowance to Ground Advantage", () => {
+      const pkg = {
+        weight: { value: 10, unit: "LB" as const },
+        dimensions: { length: 40, width: 20, height: 20, unit: "IN" as const },
+      };
+
+      expect(() =>
+        buildUspsPriceRequest(
+          VALID_DOMESTIC_RATE_REQUEST,
+          pkg,
+          "USPS_GROUND_ADVANTAGE",
+          MAILING_DATE,
+        ),
+      ).not.toThrow();
+      expectValidationError(
+        () =>
+          buildUspsPriceRequest(
+            VALID_DOMESTIC_RATE_REQUEST,
+            pkg,
+            "PRIORITY_MAIL",
+            MAILING_DATE,
+          ),
+        "108 in length + girth",
+      );
+    });
+  });
+
+  describe("mapUspsPricesToQuote", () => {
+    it("should sum per-package prices into one quote", () => {
+      const quote = mapUspsPricesToQuote("USPS_GROUND_ADVANTAGE", [
+        USPS_GROUND_ADVANTAGE_PRICE,
+        USPS_GROUND_ADVANTAGE_PRICE,
+      ]);
+
+      expect(quote.carrier).toBe("USPS");
+      expect(quote.serviceName).toBe("USPS Ground Advantage");
+      expect(quote.totalCharges).toEqual({ currency: "USD", amount: 18.7 });
+      expect(quote.billingWeight).toEqual({ value: 10, unit: "LB" });
+      expect(quote.serviceOptionsCharges).toBeUndefined();
+    });
+
+    it("should split fees out of the base price", () => {
+      const quote = mapUspsPricesToQuote("PRIORITY_MAIL_EXPRESS", [
+        USPS_PRIORITY_MAIL_EXPRESS_PRICE,
+      ]);
+
+      expect(quote.totalCharges.amount).toBe(58.9);
+      expect(quote.transportationCharges.amount).toBe(55.75);
+      expect(quote.serviceOptionsCharges).toEqual({
+        currency: "USD",
+        amount: 3.15,
+      });
+    });
+
+    it("should bill the dimensional weight when it exceeds actual weight", () => {
+      const quote = mapUspsPricesToQuote("PRIORITY_MAIL", [
+        {
+          totalBasePrice: 20,
+          rates: [{ price: 20, weight: 5, dimWeight: 12 }],
+        },
+      ]);
+      expect(quote.billingWeight).toEqual({ value: 12, unit: "LB" });
+    });
+  });
+});
@@ -0,0 +1,289 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import nock from "nock";
+import { UspsRatingOperation } from "../../src/carriers/usps/rating.js";
+import { UspsCarrierClient } from "../../src/carriers/usps/client.js";
+import { UspsAuthenticator } from "../../src/carriers/usps/auth.js";
+import { CarrierErrorCode } from "../../src/domain/errors.js";
+import type { CarrierAuthenticator } from "../../src/carriers/types.js";
+import type { UspsConfig } from "../../src/config/index.js";
+import {
+  USPS_GROUND_ADVANTAGE_PRICE,
+  USPS_PRIORITY_MAIL_PRICE,
+  USPS_PRIORITY_MAIL_EXPRESS_PRICE,
+  USPS_FLAT_RATE_BOX_PRICE,
+  USPS_PRIORITY_MAIL_INTERNATIONAL_PRICE,
+  USPS_OAUTH_TOKEN_RESPONSE,
+  USPS_400_ERROR,
+} from "../fixtures/usps-responses.js";
+import {
+  VALID_DOMESTIC_RATE_REQUEST,
+  VALID_MULTI_PACKAGE_REQUEST,
+  VALID_INTERNATIONAL_REQUEST,
+} from "../fixtures/rate-requests.js";
+
+const USPS_HOST = "https://apis-tem.usps.com";
+const DOMESTIC_PATH = "/prices/v3/base-rates/search";
+const INTERNATIONAL_PATH = "/international-prices/v3/base-rates/search";
+
+const TEST_CONFIG: UspsConfig = {
+  clientId: "usps-client-id",
+  clientSecret: "usps-client-secret",
+  baseUrl: USPS_HOST,
+  oauthUrl: `${USPS_HOST}/oauth2/v3/token`,
+};
+
+function createMockAuth(token = "mock-usps-token"): CarrierAuthenticator {
+  return {
+    getAccessToken: async () => token,
+    invalidateToken: () => {},
+  };
+}
+
+function mockMailClass(path: string, mailClass: string) {
+  return nock(USPS_HOST).post(
+    path,
+    (body: Record<string, unknown>) => body["mailClass"] === mailClass,
+  );
+}
+
+describe("USPS Rating Operation", () => {
+  let rating: UspsRatingOperation;
+
+  beforeEach(() => {
+    rating = new UspsRatingOperation(TEST_CONFIG, createMockAuth());
+    nock.cleanAll();
+  });
+
+  afterEach(() => {
+    nock.cleanAll();
+    nock.enableNetConnect();
+  });
+
+  it("should shop Ground Advantage, Priority and Priority Express", async () => {
+    mockMailClass(DOMESTIC_PATH, "USPS_GROUND_ADVANTAGE")
+      .matchHeader("Authorization", "Bearer mock-usps-token")
+      .reply(200, USPS_GROUND_ADVANTAGE_PRICE);
+    mockMailClass(DOMESTIC_PATH, "PRIORITY_MAIL").reply(
+      200,
+      USPS_PRIORITY_MAIL_PRICE,
+    );
+    mockMailClass(DOMESTIC_PATH, "PRIORITY_MAIL_EXPRESS").reply(
+      200,
+      USPS_PRIORITY_MAIL_EXPRESS_PRICE,
+    );
+
+    const result = await rating.execute(VALID_DOMESTIC_RATE_REQUEST);
+
+    expect(result.quotes.map((q) => q.serviceCode)).toEqual([
+      "USPS_GROUND_ADVANTAGE",
+      "PRIORITY_MAIL",
+      "PRIORITY_MAIL_EXPRESS",
+    ]);
+    expect(result.quotes[0].totalCharges).toEqual({
+      currency: "USD",
+      amount: 9.35,
+    });
+  });
+
+  it("should price each package separately and sum the result", async () => {
+    const scope = mockMailClass(DOMESTIC_PATH, "USPS_GROUND_ADVANTAGE")
+      .times(2)
+      .reply(200, USPS_GROUND_ADVANTAGE_PRICE);
+
+    const result = await rating.execute({
+      ...VALID_MULTI_PACKAGE_REQUEST,
+      serviceCode: "USPS_GROUND_ADVANTAGE",
+    });
+
+    expect(scope.isDone()).toBe(true);
+    expect(result.quotes).toHaveLength(1);
+    expect(result.quotes[0].totalCharges.amount).toBe(18.7);
+  });
+
+  it("should send nothing when a later package is over the limit", async () => {
+    const scope = mockMailClass(DOMESTIC_PATH, "USPS_GROUND_ADVANTAGE").reply(
+      200,
+      USPS_GROUND_ADVANTAGE_PRICE,
+    );
+
+    try {
+      await rating.execute({
+        ...VALID_DOMESTIC_RATE_REQUEST,
+        serviceCode: "USPS_GROUND_ADVANTAGE",
+        packages: [
+          VALID_DOMESTIC_RATE_REQUEST.packages[0],
+          { weight: { value: 80, unit: "LB" } },
+        ],
+      });
+      expect.fail("Should have thrown");
+    } catch (error: unknown) {
+      const err = error as { code: string };
+      expect(err.code).toBe(CarrierErrorCode.VALIDATION_ERROR);
+    }
+    // Give a stray request time to reach the interceptor
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(scope.isDone()).toBe(false);
+  });
+
+  it("should rate flat-rate packaging through its service code", async () => {
+    let capturedBody: Record<string, unknown> | undefined;
+    nock(USPS_HOST)
+      .post(DOMESTIC_PATH, (body: Record<string, unknown>) => {
+        capturedBody = body;
+        return true;
+      })
+      .reply(200, USPS_FLAT_RATE_BOX_PRICE);
+
+    const result = await rating.execute({
+      ...VALID_DOMESTIC_RATE_REQUEST,
+      serviceCode: "PRIORITY_MAIL_MEDIUM_FLAT_RATE_BOX",
+    });
+
+    expect(capturedBody!["rateIndicator"]).toBe("FB");
+    expect(capturedBody!["length"]).toBeUndefined();
+    expect(result.quotes[0].serviceName).toBe(
+      "USPS Priority Mail Medium Flat Rate Box",
+    );
+    expect(result.quotes[0].totalCharges.amount).toBe(18.4);
+  });
+
+  it("should use the international endpoint for foreign destinations", async () => {
+    mockMailClass(INTERNATIONAL_PATH, "PRIORITY_MAIL_INTERNATIONAL").reply(
+      200,
+      USPS_PRIORITY_MAIL_INTERNATIONAL_PRICE,
+    );
+
+    const result = await rating.execute({
+      ...VALID_INTERNATIONAL_REQUEST,
+      serviceCode: "PRIORITY_MAIL_INTERNATIONAL",
+    });
+
+    expect(result.quotes[0].totalCharges.amount).toBe(72.3);
+  });
+
+  it("should drop services USPS rejects while shopping", async () => {
+    mockMailClass(DOMESTIC_PATH, "USPS_GROUND_ADVANTAGE").reply(
+      200,
+      USPS_GROUND_ADVANTAGE_PRICE,
+    );
+    mockMailClass(DOMESTIC_PATH, "PRIORITY_MAIL").reply(400, USPS_400_ERROR);
+    mockMailClass(DOMESTIC_PATH, "PRIORITY_MAIL_EXPRESS").reply(
+      400,
+      USPS_400_ERROR,
+    );
+
+    const result = await rating.execute(VALID_DOMESTIC_RATE_REQUEST);
+
+    expect(result.quotes.map((q) => q.serviceCode)).toEqual([
+      "USPS_GROUND_ADVANTAGE",
+    ]);
+  });
+
+  it("should surface the USPS error when a requested service fails", async () => {
+    nock(USPS_HOST).post(DOMESTIC_PATH).reply(400, USPS_400_ERROR);
+
+    try {
+      await rating.execute({
+        ...VALID_DOMESTIC_RATE_REQUEST,
+        serviceCode: "PRIORITY_MAIL",
+      });
+      expect.fail("Should have thrown");
+    } catch (error: unknown) {
+      const err = error as {
+        code: string;
+        message: string;
+        details: { upstreamCode: string; carrier: string };
+      };
+      expect(err.code).toBe(CarrierErrorCode.CARRIER_API_ERROR);
+      expect(err.details.upstreamCode).toBe("010102");
+      expect(err.details.carrier).toBe("USPS");
+      expect(err.message).toContain("Weight exceeds");
+    }
+  });
+
+  it("should invalidate the token on 401", async () => {
+    let tokenInvalidated = false;
+    rating = new UspsRatingOperation(TEST_CONFIG, {
+      getAccessToken: async () => "expired-token",
+      invalidateToken: () => {
+        tokenInvalidated = true;
+      },
+    });
+    nock(USPS_HOST).post(DOMESTIC_PATH).reply(401, {});
+
+    try {
+      await rating.execute({
+        ...VALID_DOMESTIC_RATE_REQUEST,
+        serviceCode: "PRIORITY_MAIL",
+      });
+      expect.fail("Should have thrown");
+    } catch (error: unknown) {
+      const err = error as { code: string };
+      expect(err.code).toBe(CarrierErrorCode.AUTHENTICATION_ERROR);
+      expect(tokenInvalidated).toBe(true);
+    }
+  });
+});
+
+describe("USPS Carrier Client (end-to-end with stubbed HTTP)", () => {
+  afterEach(() => {
+    nock.cleanAll();
+    nock.enableNetConnect();
+  });
+
+  it("should request a token with a JSON body and cache it", async () => {
+    const authScope = nock(USPS_HOST)
+      .post("/oauth2/v3/token", {
+        grant_type: "client_credentials",
+        client_id: "usps-client-id",
+        client_secret: "usps-client-secret",
+      })
+      .once()
+      .reply(200, USPS_OAUTH_TOKEN_RESPONSE);
+
+    const auth = new UspsAuthenticator(TEST_CONFIG);
+    const token1 = await auth.getAccessToken();
+    const token2 = await auth.getAccessToken();
+
+    expect(token1).toBe(USPS_OAUTH_TOKEN_RESPONSE.access_token);
+    expect(token2).toBe(token1);
+    expect(authScope.isDone()).toBe(true);
+  });
+
+  it("should authenticate and return normalized rates", async () => {
+    nock(USPS_HOST)
+      .post("/oauth2/v3/token")
+      .reply(200, USPS_OAUTH_TOKEN_RESPONSE);
+    mockMailClass(DOMESTIC_PATH, "PRIORITY_MAIL")
+      .matchHeader(
+        "Authorization",
+        `Bearer ${USPS_OAUTH_TOKEN_RESPONSE.access_token}`,
+      )
+      .reply(200, USPS_PRIORITY_MAIL_PRICE);
+
+    const client = new UspsCarrierClient(TEST_CONFIG);
+    const result = await client.getRates({
+      ...VALID_DOMESTIC_RATE_REQUEST,
+      serviceCode: "PRIORITY_MAIL",
+    });
+
+    expect(result.quotes).toHaveLength(1);
+    expect(result.quotes[0].carrier).toBe("USPS");
+  });
+
+  it("should reject non-US origins without calling USPS", async () => {
+    const client = new UspsCarrierClient(TEST_CONFIG);
+
+    try {
+      await client.getRates({
+        ...VALID_INTERNATIONAL_REQUEST,
+        origin: VALID_INTERNATIONAL_REQUEST.destination,
+        destination: VALID_INTERNATIONAL_REQUEST.origin,
+      });
+      expect.fail("Should have thrown");
+    } catch (error: unknown) {
+      const err = error as { code: string };
+      expect(err.code).toBe(CarrierErrorCode.VALIDATION_ERROR);
+    }
+  });
+});
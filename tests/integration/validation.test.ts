@@ -1,7 +1,9 @@
 import { describe, it, expect } from "vitest";
 import { RateRequestSchema } from "../../src/validation/schemas.js";
 import {
+  VALID_DANGEROUS_GOODS_REQUEST,
   VALID_DOMESTIC_RATE_REQUEST,
+  VALID_HOLD_AT_LOCATION_REQUEST,
   VALID_INTERNATIONAL_REQUEST,
   VALID_MULTI_PACKAGE_REQUEST,
 } from "../fixtures/rate-requests.js";
@@ -127,6 +129,28 @@ describe("Validation Schemas", () => {
       expect(result.success).toBe(true);
     });
 
+    it("should accept carrier envelopes without dimensions", () => {
+      const envelope = {
+        ...VALID_DOMESTIC_RATE_REQUEST,
+        packages: [
+          { weight: { value: 0.5, unit: "LB" }, packagingType: "ENVELOPE" },
+        ],
+      };
+      const result = RateRequestSchema.safeParse(envelope);
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject unknown packaging types", () => {
+      const unknownPackaging = {
+        ...VALID_DOMESTIC_RATE_REQUEST,
+        packages: [
+          { weight: { value: 1, unit: "LB" }, packagingType: "CRATE" },
+        ],
+      };
+      const result = RateRequestSchema.safeParse(unknownPackaging);
+      expect(result.success).toBe(false);
+    });
+
     it("should accept optional service code", () => {
       const noService = { ...VALID_DOMESTIC_RATE_REQUEST };
       delete noService.serviceCode;
@@ -142,5 +166,255 @@ describe("Validation Schemas", () => {
       const result = RateRequestSchema.safeParse(shortAccount);
       expect(result.success).toBe(false);
     });
+
+    it("should reject a ship date that is not YYYY-MM-DD", () => {
+      const badDate = {
+        ...VALID_DOMESTIC_RATE_REQUEST,
+        shipDate: "06/25/2024",
+      };
+      const result = RateRequestSchema.safeParse(badDate);
+      expect(result.success).toBe(false);
+    });
+
+    it("should accept package and shipment service options", () => {
+      const withOptions = {
+        ...VALID_DOMESTIC_RATE_REQUEST,
+        packages: [
+          {
+            weight: { value: 5, unit: "LB" },
+            serviceOptions: {
+              signature: "ADULT_SIGNATURE",
+              declaredValue: { currency: "USD", amount: 500 },
+              codAmount: { currency: "USD", amount: 42 },
+              additionalHandling: true,
+            },
+          },
+        ],
+        serviceOptions: { saturdayDelivery: true },
+      };
+      const result = RateRequestSchema.safeParse(withOptions);
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject invalid service option values", () => {
+      const badOptions = {
+        ...VALID_DOMESTIC_RATE_REQUEST,
+        packages: [
+          {
+            weight: { value: 5, unit: "LB" },
+            serviceOptions: {
+              signature: "INDIRECT",
+              declaredValue: { currency: "US", amount: -10 },
+            },
+          },
+        ],
+      };
+      const result = RateRequestSchema.safeParse(badOptions);
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        const paths = result.error.issues.map((i) => i.path.join("."));
+        expect(paths).toContain("packages.0.serviceOptions.signature");
+        expect(paths).toContain(
+          "packages.0.serviceOptions.declaredValue.amount",
+        );
+      }
+    });
+
+    it("should reject a ship date in the past", () => {
+      const pastDate = {
+        ...VALID_DOMESTIC_RATE_REQUEST,
+        shipDate: "2020-01-02",
+      };
+      const result = RateRequestSchema.safeParse(pastDate);
+      expect(result.success).toBe(false);
+    });
+
+    it("should accept a future ship date", () => {
+      const futureDate = {
+        ...VALID_DOMESTIC_RATE_REQUEST,
+        shipDate: "2099-01-02",
+      };
+      const result = RateRequestSchema.safeParse(futureDate);
+      expect(result.success).toBe(true);
+    });
+  });
+
+  // ─── Hold at Location ───
+
+  describe("holdAtLocation", () => {
+    it("should accept a hold-at-location request", () => {
+      const result = RateRequestSchema.safeParse(VALID_HOLD_AT_LOCATION_REQUEST);
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject a location without an ID", () => {
+      const noId = {
+        ...VALID_HOLD_AT_LOCATION_REQUEST,
+        holdAtLocation: {
+          ...VALID_HOLD_AT_LOCATION_REQUEST.holdAtLocation!,
+          id: "",
+        },
+      };
+      const result = RateRequestSchema.safeParse(noId);
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject a location without its carrier", () => {
+      const { carrier: _carrier, ...location } =
+        VALID_HOLD_AT_LOCATION_REQUEST.holdAtLocation!;
+      const result = RateRequestSchema.safeParse({
+        ...VALID_HOLD_AT_LOCATION_REQUEST,
+        holdAtLocation: location,
+      });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0].path).toEqual([
+          "holdAtLocation",
+          "carrier",
+        ]);
+      }
+    });
+
+    it("should reject a location that is not an access point", () => {
+      const dropBox = {
+        ...VALID_HOLD_AT_LOCATION_REQUEST,
+        holdAtLocation: {
+          ...VALID_HOLD_AT_LOCATION_REQUEST.holdAtLocation!,
+          type: "DROP_BOX",
+        },
+      };
+      const result = RateRequestSchema.safeParse(dropBox);
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0].path).toEqual([
+          "holdAtLocation",
+          "type",
+        ]);
+        expect(result.error.issues[0].message).toBe(
+          "Packages can only be held at an access point",
+        );
+      }
+    });
+  });
+
+  // ─── Customs ───
+
+  describe("customs", () => {
+    it("should require customs details across a border", () => {
+      const noCustoms = { ...VALID_INTERNATIONAL_REQUEST, customs: undefined };
+      const result = RateRequestSchema.safeParse(noCustoms);
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0].path).toEqual(["customs"]);
+      }
+    });
+
+    it("should not require customs between the US and Puerto Rico", () => {
+      const toPuertoRico = {
+        ...VALID_DOMESTIC_RATE_REQUEST,
+        destination: {
+          ...VALID_DOMESTIC_RATE_REQUEST.destination,
+          stateProvinceCode: "PR",
+          postalCode: "00901",
+          countryCode: "PR",
+        },
+      };
+      const result = RateRequestSchema.safeParse(toPuertoRico);
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject a malformed HS code", () => {
+      const customs = VALID_INTERNATIONAL_REQUEST.customs!;
+      const badHsCode = {
+        ...VALID_INTERNATIONAL_REQUEST,
+        customs: {
+          ...customs,
+          commodities: [{ ...customs.commodities[0], hsCode: "6109.10" }],
+        },
+      };
+      const result = RateRequestSchema.safeParse(badHsCode);
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        const paths = result.error.issues.map((i) => i.path.join("."));
+        expect(paths).toContain("customs.commodities.0.hsCode");
+      }
+    });
+
+    it("should reject commodities valued in different currencies", () => {
+      const customs = VALID_INTERNATIONAL_REQUEST.customs!;
+      const mixedCurrencies = {
+        ...VALID_INTERNATIONAL_REQUEST,
+        customs: {
+          ...customs,
+          commodities: [
+            customs.commodities[0],
+            {
+              ...customs.commodities[1],
+              unitValue: { currency: "EUR", amount: 23 },
+            },
+          ],
+        },
+      };
+      const result = RateRequestSchema.safeParse(mixedCurrencies);
+      expect(result.success).toBe(false);
+    });
+  });
+
+  // ─── Dangerous goods ───
+
+  describe("dangerous goods", () => {
+    const [pkg] = VALID_DANGEROUS_GOODS_REQUEST.packages;
+    const [lithium] = pkg.dangerousGoods!.items!;
+
+    function withDangerousGoods(dangerousGoods: unknown) {
+      return {
+        ...VALID_DANGEROUS_GOODS_REQUEST,
+        packages: [{ ...pkg, dangerousGoods }],
+      };
+    }
+
+    it("should accept lithium batteries with dry ice", () => {
+      const result = RateRequestSchema.safeParse(VALID_DANGEROUS_GOODS_REQUEST);
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject a malformed UN number", () => {
+      const result = RateRequestSchema.safeParse(
+        withDangerousGoods({ items: [{ ...lithium, unNumber: "3480" }] }),
+      );
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        const paths = result.error.issues.map((i) => i.path.join("."));
+        expect(paths).toContain("packages.0.dangerousGoods.items.0.unNumber");
+      }
+    });
+
+    it("should reject a battery type that contradicts the UN number", () => {
+      const result = RateRequestSchema.safeParse(
+        withDangerousGoods({
+          items: [{ ...lithium, lithiumBatteryType: "LITHIUM_METAL" }],
+        }),
+      );
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0].message).toBe(
+          "Lithium battery type does not match the UN number",
+        );
+      }
+    });
+
+    it("should reject an empty declaration", () => {
+      const result = RateRequestSchema.safeParse(
+        withDangerousGoods({ items: [] }),
+      );
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject dry ice weighed in ounces", () => {
+      const result = RateRequestSchema.safeParse(
+        withDangerousGoods({ dryIce: { weight: { value: 40, unit: "OZ" } } }),
+      );
+      expect(result.success).toBe(false);
+    });
   });
 });